@@ -0,0 +1,111 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { describe, expect, it, afterEach, beforeEach, vi } from "vitest";
+import { middleware } from "../middleware";
+import { createApiKey, getApiKeyUsage } from "../lib/api-keys";
+
+let directory: string;
+
+function request(pathname: string, headers: Record<string, string> = {}) {
+  return new NextRequest(`http://localhost${pathname}`, { headers });
+}
+
+/** Request headers the middleware forwards to the route handler. */
+function forwarded(response: Response, name: string) {
+  return response.headers.get(`x-middleware-request-${name}`);
+}
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "middleware-"));
+  vi.stubEnv("API_KEY_STORE_PATH", path.join(directory, "api-keys.sqlite"));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("API key middleware", () => {
+  it("serves requests without a key anonymously unless keys are required", async () => {
+    const anonymous = middleware(request("/api/analyze?address=0xabc", { "x-api-key-id": "spoofed" }));
+    expect(anonymous.status).toBe(200);
+    expect(forwarded(anonymous, "x-api-key-id")).toBeNull();
+
+    vi.stubEnv("API_AUTH", "required");
+    const rejected = middleware(request("/api/analyze?address=0xabc"));
+    expect(rejected.status).toBe(401);
+    expect(await rejected.json()).toEqual({ error: "API key is required" });
+  });
+
+  it("keeps serving requests without a key after one has been issued", async () => {
+    createApiKey({ name: "Tax bot", scopes: ["history"] });
+
+    expect(middleware(request("/api/v1/history?address=0xabc")).status).toBe(200);
+
+    vi.stubEnv("API_AUTH", "required");
+    const rejected = middleware(request("/api/v1/history?address=0xabc"));
+    expect(rejected.status).toBe(401);
+    expect((await rejected.json()).error).toMatchObject({ code: "unauthorized" });
+  });
+
+  it("answers with a 503 when the key store cannot be read", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    // A directory where the database file should be cannot be opened as one.
+    vi.stubEnv("API_KEY_STORE_PATH", directory);
+
+    const keyed = middleware(request("/api/v1/history", { "x-api-key": "qk_secret" }));
+
+    expect(keyed.status).toBe(503);
+    expect(await keyed.json()).toEqual({
+      error: { code: "internal_error", message: "API key store is unavailable", retryable: true, details: {} },
+    });
+    error.mockRestore();
+  });
+
+  it("checks the scope of the route and meters verified keys", async () => {
+    const { apiKey, secret } = createApiKey({ name: "Tax bot", scopes: ["history"], tier: "pro" });
+
+    const allowed = middleware(request("/api/history", { authorization: `Bearer ${secret}` }));
+    expect(allowed.status).toBe(200);
+    expect(forwarded(allowed, "x-api-key-id")).toBe(apiKey.id);
+    expect(forwarded(allowed, "x-api-key-tier")).toBe("pro");
+
+    const forbidden = middleware(request("/api/export", { "x-api-key": secret }));
+    expect(forbidden.status).toBe(403);
+    expect(await forbidden.json()).toEqual({ error: "API key lacks the export scope" });
+
+    expect(middleware(request("/api/history", { "x-api-key": "qk_unknown" })).status).toBe(401);
+    expect(getApiKeyUsage(1)).toEqual([expect.objectContaining({ keyId: apiKey.id, requests: 1 })]);
+  });
+
+  it("scopes versioned routes like their unversioned twins and answers with the error envelope", async () => {
+    const { secret } = createApiKey({ name: "Tax bot", scopes: ["history"] });
+
+    expect(middleware(request("/api/v1/history", { "x-api-key": secret })).status).toBe(200);
+
+    const forbidden = middleware(request("/api/v1/analyze?address=0xabc", { "x-api-key": secret }));
+    expect(forbidden.status).toBe(403);
+    expect(await forbidden.json()).toEqual({
+      error: {
+        code: "forbidden",
+        message: "API key lacks the analyze scope",
+        retryable: false,
+        details: { scope: "analyze" },
+      },
+    });
+  });
+
+  it("leaves key administration to the admin token", () => {
+    vi.stubEnv("API_AUTH", "required");
+
+    expect(middleware(request("/api/keys", { authorization: "Bearer admin-token" })).status).toBe(200);
+  });
+
+  it("serves the OpenAPI document without a key", () => {
+    vi.stubEnv("API_AUTH", "required");
+
+    expect(middleware(request("/api/openapi.json")).status).toBe(200);
+  });
+});
@@ -0,0 +1,220 @@
+// @vitest-environment node
+// Real HTTP to a local server, and jose signs with Node's WebCrypto, which rejects jsdom's typed arrays.
+import { generateKeyPairSync } from "crypto";
+import { NextRequest } from "next/server";
+import { describe, expect, it, afterAll, beforeAll, beforeEach, afterEach, vi } from "vitest";
+import { GET as analyze } from "@/app/api/analyze/route";
+import { GET as exportWallet } from "@/app/api/export/route";
+import { GET as history } from "@/app/api/history/route";
+import { resetCircuits } from "@/lib/providers/circuit-breaker";
+import type { CoinbaseTransactionResource } from "@/lib/providers/coinbase";
+import { startMockUpstream, type MockUpstream } from "./mock-upstream";
+
+const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+const EXCHANGE = "0x3333333333333333333333333333333333333333";
+
+// The response caches live for the whole run, so every test looks at a wallet of its own.
+const WALLETS = {
+  analyzed: "0x1000000000000000000000000000000000000001",
+  history: "0x1000000000000000000000000000000000000002",
+  retried: "0x1000000000000000000000000000000000000003",
+  throttled: "0x1000000000000000000000000000000000000004",
+  unauthorized: "0x1000000000000000000000000000000000000005",
+  partial: "0x1000000000000000000000000000000000000006",
+  exported: "0x1000000000000000000000000000000000000007",
+};
+
+function deposit(hash: string, to: string, wei: string, usd: number, timestamp: string) {
+  return {
+    hash,
+    network_id: "ethereum-mainnet",
+    content: {
+      hash,
+      block_timestamp: timestamp,
+      from: EXCHANGE,
+      to,
+      value: { amount: wei, amount_usd: String(usd) },
+    },
+  } satisfies CoinbaseTransactionResource;
+}
+
+function walletOnEthereum(address: string) {
+  return {
+    balances: [
+      { asset: { symbol: "ETH", decimals: 18, token_type: "native" }, amount: "2000000000000000000" },
+      { asset: { address: USDC, symbol: "USDC", decimals: 6, token_type: "erc20" }, amount: "500000000" },
+    ],
+    transactions: [
+      deposit("0xccc", address, "500000000000000000", 1500, "2024-05-03T00:00:00Z"),
+      deposit("0xbbb", address, "500000000000000000", 1400, "2024-05-02T00:00:00Z"),
+      deposit("0xaaa", address, "1000000000000000000", 2500, "2024-05-01T00:00:00Z"),
+    ],
+  };
+}
+
+let upstream: MockUpstream;
+
+beforeAll(async () => {
+  upstream = await startMockUpstream({
+    wallets: {
+      "ethereum-mainnet": Object.fromEntries(
+        Object.values(WALLETS).map((address) => [address, walletOnEthereum(address)]),
+      ),
+      "base-mainnet": {
+        [WALLETS.partial]: {
+          transactions: [
+            {
+              ...deposit("0xddd", WALLETS.partial, "1000000000000000000", 3000, "2024-05-04T00:00:00Z"),
+              network_id: "base-mainnet",
+            },
+          ],
+        },
+      },
+    },
+    nativePrices: { ethereum: 3000 },
+    tokenPrices: { ethereum: { [USDC]: 1 } },
+  });
+});
+
+afterAll(async () => {
+  await upstream.close();
+});
+
+beforeEach(() => {
+  vi.stubEnv("COINBASE_API_KEY", "organizations/test/apiKeys/test");
+  vi.stubEnv("COINBASE_API_SECRET", privateKey.export({ type: "pkcs8", format: "pem" }).toString());
+  vi.stubEnv("COINBASE_API_BASE", upstream.coinbaseBase);
+  vi.stubEnv("COINGECKO_API_BASE", upstream.coingeckoBase);
+  vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet,base-mainnet");
+  vi.stubEnv("WALLET_PROVIDER", "coinbase");
+  vi.stubEnv("COINBASE_RETRY_BASE_DELAY_MS", "1");
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  upstream.requests.length = 0;
+  resetCircuits();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+function get(handler: (request: NextRequest) => Promise<Response>, route: string, address: string) {
+  return handler(new NextRequest(`http://localhost/api/v1/${route}?address=${address}`));
+}
+
+describe("GET /api/v1/analyze against the mock upstream", () => {
+  it("prices balances through CoinGecko and follows every transaction page for cost basis", async () => {
+    const response = await get(analyze, "analyze", WALLETS.analyzed);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.summary.netWorth).toBe(6500);
+    expect(body.tokens).toEqual([
+      expect.objectContaining({ symbol: "ETH", valueUsd: 6000, costBasisUsd: 5400 }),
+      expect.objectContaining({ symbol: "USDC", valueUsd: 500 }),
+    ]);
+    expect(body.meta.networks).toEqual([
+      expect.objectContaining({ networkId: "ethereum-mainnet", status: "ok", provider: "coinbase", itemCount: 2 }),
+      expect.objectContaining({ networkId: "base-mainnet", status: "ok", itemCount: 0 }),
+    ]);
+    expect(upstream.requests).toContain(
+      `/coinbase/v1/networks/ethereum-mainnet/addresses/${WALLETS.analyzed}/transactions?cursor=2`,
+    );
+    expect(upstream.requests).toContain("/coingecko/simple/price?ids=ethereum&vs_currencies=usd");
+  });
+
+  it("waits out a 429 with Retry-After and carries on", async () => {
+    const balances = `/coinbase/v1/networks/ethereum-mainnet/addresses/${WALLETS.retried}/balances`;
+    upstream.failNext(new RegExp(`^${balances}$`), { status: 429, headers: { "Retry-After": "0" } });
+
+    const response = await get(analyze, "analyze", WALLETS.retried);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).summary.netWorth).toBe(6500);
+    expect(upstream.requests.filter((path) => path === balances)).toHaveLength(2);
+  });
+
+  it("reports Coinbase throttling as provider_rate_limited once retries run out", async () => {
+    vi.stubEnv("COINBASE_MAX_RETRIES", "0");
+    upstream.failNext(new RegExp(`/addresses/${WALLETS.throttled}/balances`), { status: 429, body: "slow down" }, 2);
+
+    const response = await get(analyze, "analyze", WALLETS.throttled);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({
+      error: expect.objectContaining({ code: "provider_rate_limited", retryable: true }),
+    });
+  });
+
+  it("reports rejected credentials as provider_auth_failed without retrying", async () => {
+    upstream.failNext(new RegExp(`/addresses/${WALLETS.unauthorized}/balances`), { status: 401, body: "bad key" }, 2);
+
+    const response = await get(analyze, "analyze", WALLETS.unauthorized);
+
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toMatchObject({ code: "provider_auth_failed", retryable: false });
+    expect(upstream.requests.filter((path) => path.includes("/balances"))).toHaveLength(2);
+  });
+});
+
+describe("GET /api/v1/history against the mock upstream", () => {
+  it("joins every page of transactions newest first", async () => {
+    const response = await get(history, "history", WALLETS.history);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.history.map((tx: { hash: string }) => tx.hash)).toEqual(["0xccc", "0xbbb", "0xaaa"]);
+    expect(body.summary).toMatchObject({ inflowUsd: 5400, outflowUsd: 0 });
+    const transactions = `/coinbase/v1/networks/ethereum-mainnet/addresses/${WALLETS.history}/transactions`;
+    expect(upstream.requests.filter((path) => path.startsWith(transactions))).toEqual([
+      transactions,
+      `${transactions}?cursor=2`,
+    ]);
+  });
+
+  it("keeps the networks that answered when another one fails", async () => {
+    vi.stubEnv("COINBASE_MAX_RETRIES", "0");
+    upstream.failNext(
+      new RegExp(`/ethereum-mainnet/addresses/${WALLETS.partial}/transactions`),
+      { status: 500, body: "internal error" },
+    );
+
+    const response = await get(history, "history", WALLETS.partial);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.history.map((tx: { hash: string }) => tx.hash)).toEqual(["0xddd"]);
+    expect(body.meta.degradedNetworks).toEqual(["ethereum-mainnet"]);
+    expect(body.meta.networks).toEqual([
+      expect.objectContaining({
+        networkId: "ethereum-mainnet",
+        status: "failed",
+        error: "Coinbase API error (500): internal error",
+      }),
+      expect.objectContaining({ networkId: "base-mainnet", status: "ok", itemCount: 1 }),
+    ]);
+  });
+});
+
+describe("GET /api/v1/export against the mock upstream", () => {
+  it("fails with partial_chain_failure instead of leaving a network out of the file", async () => {
+    vi.stubEnv("COINBASE_MAX_RETRIES", "0");
+    upstream.failNext(
+      new RegExp(`/base-mainnet/addresses/${WALLETS.exported}/transactions`),
+      { status: 500, body: "internal error" },
+    );
+
+    const response = await get(exportWallet, "export", `${WALLETS.exported}&kind=history`);
+    const body = await response.json();
+
+    expect(response.status).toBe(502);
+    expect(body.error).toMatchObject({
+      code: "partial_chain_failure",
+      retryable: true,
+      details: { failedNetworks: ["base-mainnet"] },
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import type { CoinbaseBalanceResource, CoinbaseTransactionResource } from "@/lib/providers/coinbase";
+
+type MockWallet = {
+  balances?: CoinbaseBalanceResource[];
+  /** Newest first, the order Coinbase pages them in. */
+  transactions?: CoinbaseTransactionResource[];
+};
+
+export type MockUpstreamData = {
+  /** Keyed by network id, then by lowercased wallet address. */
+  wallets?: Record<string, Record<string, MockWallet>>;
+  /** USD prices by CoinGecko coin id, e.g. `{ ethereum: 3000 }`. */
+  nativePrices?: Record<string, number>;
+  /** USD prices by CoinGecko platform, then by lowercased contract address. */
+  tokenPrices?: Record<string, Record<string, number>>;
+  /** Transactions per page; later pages are reached through `pagination.next_cursor`. Defaults to 2. */
+  pageSize?: number;
+};
+
+export type MockReply = {
+  status: number;
+  /** Strings are sent as they are, anything else as JSON. */
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+export type MockUpstream = {
+  /** Point `COINBASE_API_BASE` here. */
+  coinbaseBase: string;
+  /** Point `COINGECKO_API_BASE` here. */
+  coingeckoBase: string;
+  /** Path and query of every request received, in order. */
+  requests: string[];
+  /** Answers the next `times` requests whose path and query match `pattern` with `reply`. */
+  failNext(pattern: RegExp, reply: MockReply, times?: number): void;
+  close(): Promise<void>;
+};
+
+const COINBASE_ROUTE = /^\/coinbase\/v1\/networks\/([^/]+)\/addresses\/([^/]+)\/(balances|transactions)$/;
+const PRICE_ROUTE = /^\/coingecko\/simple\/price$/;
+const TOKEN_PRICE_ROUTE = /^\/coingecko\/simple\/token_price\/([^/]+)$/;
+
+/**
+ * Local stand-in for the Coinbase balances and transactions endpoints and CoinGecko's
+ * `simple/price` and `simple/token_price`, listening on a random port. Coinbase requests
+ * without a bearer token get a 401; unknown paths get a 404.
+ */
+export async function startMockUpstream(data: MockUpstreamData): Promise<MockUpstream> {
+  const requests: string[] = [];
+  const failures: Array<{ pattern: RegExp; reply: MockReply; remaining: number }> = [];
+
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://mock.local");
+    const target = `${url.pathname}${url.search}`;
+    requests.push(target);
+
+    const failure = failures.find((entry) => entry.remaining > 0 && entry.pattern.test(target));
+    if (failure) {
+      failure.remaining -= 1;
+      send(response, failure.reply);
+      return;
+    }
+    send(response, route(request, url, data));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    coinbaseBase: `${origin}/coinbase`,
+    coingeckoBase: `${origin}/coingecko`,
+    requests,
+    failNext(pattern, reply, times = 1) {
+      failures.push({ pattern, reply, remaining: times });
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
+
+function route(request: IncomingMessage, url: URL, data: MockUpstreamData): MockReply {
+  const coinbase = COINBASE_ROUTE.exec(url.pathname);
+  if (coinbase) {
+    if (!request.headers.authorization?.startsWith("Bearer ")) {
+      return { status: 401, body: { errorType: "unauthorized", errorMessage: "missing bearer token" } };
+    }
+    const [networkId, address, kind] = coinbase.slice(1).map(decodeURIComponent);
+    const wallet = data.wallets?.[networkId]?.[address.toLowerCase()] ?? {};
+    return kind === "balances"
+      ? { status: 200, body: { data: wallet.balances ?? [] } }
+      : {
+          status: 200,
+          body: transactionPage(wallet.transactions ?? [], url.searchParams.get("cursor"), data.pageSize ?? 2),
+        };
+  }
+
+  if (PRICE_ROUTE.test(url.pathname)) {
+    return { status: 200, body: pricesFor(list(url.searchParams.get("ids")), data.nativePrices ?? {}) };
+  }
+
+  const tokenPrice = TOKEN_PRICE_ROUTE.exec(url.pathname);
+  if (tokenPrice) {
+    const contracts = list(url.searchParams.get("contract_addresses")).map((contract) => contract.toLowerCase());
+    return { status: 200, body: pricesFor(contracts, data.tokenPrices?.[tokenPrice[1]] ?? {}) };
+  }
+
+  return { status: 404, body: { error: `No mock for ${url.pathname}` } };
+}
+
+/** Cursors are offsets into the wallet's transactions, as opaque to the client as Coinbase's own. */
+function transactionPage(transactions: CoinbaseTransactionResource[], cursor: string | null, pageSize: number) {
+  const start = cursor ? Number(cursor) : 0;
+  const end = start + pageSize;
+  return {
+    data: transactions.slice(start, end),
+    pagination: { next_cursor: end < transactions.length ? String(end) : null },
+  };
+}
+
+function pricesFor(keys: string[], prices: Record<string, number>) {
+  return Object.fromEntries(keys.filter((key) => key in prices).map((key) => [key, { usd: prices[key] }]));
+}
+
+function list(value: string | null) {
+  return (value ?? "").split(",").filter(Boolean);
+}
+
+function send(response: ServerResponse, { status, body, headers }: MockReply) {
+  response.writeHead(status, { "Content-Type": "application/json", ...headers });
+  if (body === undefined || typeof body === "string") {
+    response.end(body ?? "");
+  } else {
+    response.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import {
+  NetworkTimeoutError,
+  PartialNetworkFailureError,
+  ProviderConfigurationError,
+  ProviderRequestError,
+  ProviderUnavailableError,
+} from "@/lib/providers/types";
+import { AddressResolutionError, EnsResolutionError } from "@/lib/resolve-address";
+import { describeError, errorResponse, unversionedPath } from "../errors";
+
+describe("describeError", () => {
+  it("gives every failure the pipeline knows a stable code and status", () => {
+    const cases: Array<[unknown, string, number, boolean]> = [
+      [new AddressResolutionError("Wallet is required"), "invalid_address", 400, false],
+      [new EnsResolutionError("nobody.eth", "Unable to resolve ENS name", false), "ens_resolution_failed", 422, false],
+      [new EnsResolutionError("qerun.eth", "ENS lookup is unavailable", true), "ens_resolution_failed", 502, true],
+      [new ProviderConfigurationError("Moralis", "MORALIS_API_KEY must be configured"), "provider_auth_failed", 502, false],
+      [new ProviderRequestError("Alchemy", 401, "bad key"), "provider_auth_failed", 502, false],
+      [new ProviderRequestError("Coinbase", 429, "slow down"), "provider_rate_limited", 503, true],
+      [new ProviderRequestError("Coinbase", 503, "unavailable"), "provider_unavailable", 502, true],
+      [new ProviderRequestError("Moralis", 404, "not found"), "provider_unavailable", 502, false],
+      [new ProviderUnavailableError("base-mainnet", "alchemy", "circuit is open"), "provider_unavailable", 502, true],
+      [new NetworkTimeoutError("base-mainnet", 30_000), "provider_unavailable", 502, true],
+      [new Error("boom"), "internal_error", 500, false],
+    ];
+
+    cases.forEach(([error, code, status, retryable]) => {
+      expect(describeError(error)).toMatchObject({ code, status, retryable });
+    });
+  });
+
+  it("names the networks behind a partial chain failure", () => {
+    const error = new PartialNetworkFailureError(["solana-mainnet"], "Helius API error (503): unavailable");
+
+    expect(describeError(error)).toMatchObject({
+      code: "partial_chain_failure",
+      status: 502,
+      retryable: true,
+      details: { failedNetworks: ["solana-mainnet"] },
+    });
+  });
+});
+
+describe("errorResponse", () => {
+  const problem = describeError(new ProviderRequestError("Coinbase", 429, "slow down"));
+
+  it("answers with the envelope under /api/v1", async () => {
+    const response = errorResponse(new NextRequest("http://localhost/api/v1/analyze"), problem);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "provider_rate_limited",
+        message: "Coinbase API error (429): slow down",
+        retryable: true,
+        details: { provider: "Coinbase", upstreamStatus: 429 },
+      },
+    });
+  });
+
+  it("keeps the historical body and status on unversioned routes", async () => {
+    const response = errorResponse(new NextRequest("http://localhost/api/analyze"), problem);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Coinbase API error (429): slow down" });
+  });
+
+  it("maps versioned paths onto the routes they mirror", () => {
+    expect(unversionedPath("/api/v1/portfolio/abc/analyze")).toBe("/api/portfolio/abc/analyze");
+    expect(unversionedPath("/api/v1")).toBe("/api");
+    expect(unversionedPath("/api/v10/analyze")).toBe("/api/v10/analyze");
+  });
+});
@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { applyRateLimit, tierLimit } from "../rate-limit";
+
+const WALLETS = ["0x1111111111111111111111111111111111111111", "0x2222222222222222222222222222222222222222"];
+
+function requestFrom(ip: string) {
+  return new NextRequest("http://localhost/api/analyze", { headers: { "x-forwarded-for": `${ip}, 10.0.0.1` } });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("applyRateLimit", () => {
+  it("limits a caller across every wallet it requests", async () => {
+    vi.stubEnv("RATE_LIMIT_MAX_REQUESTS", "2");
+
+    const first = await applyRateLimit(requestFrom("1.1.1.1"), { scope: "caller-test", target: WALLETS[0] });
+    const second = await applyRateLimit(requestFrom("1.1.1.1"), { scope: "caller-test", target: WALLETS[1] });
+    const third = await applyRateLimit(requestFrom("1.1.1.1"), { scope: "caller-test", target: WALLETS[0] });
+    const otherCaller = await applyRateLimit(requestFrom("2.2.2.2"), { scope: "caller-test", target: WALLETS[1] });
+
+    expect([first.ok, second.ok, third.ok, otherCaller.ok]).toEqual([true, true, false, true]);
+    expect(third.responseHeaders.get("Retry-After")).toBe("60");
+    expect(third.responseHeaders.get("X-RateLimit-Remaining")).toBe("0");
+  });
+
+  it("limits a wallet across callers", async () => {
+    vi.stubEnv("RATE_LIMIT_TARGET_MAX_REQUESTS", "2");
+
+    const results = await Promise.all(
+      ["3.3.3.1", "3.3.3.2", "3.3.3.3"].map((ip) => applyRateLimit(requestFrom(ip), { scope: "target-test", target: WALLETS[0] })),
+    );
+
+    expect(results.map((result) => result.ok)).toEqual([true, true, false]);
+    expect(results[1].responseHeaders.get("X-RateLimit-Limit")).toBe("2");
+  });
+
+  it("applies the caller's tier limit", async () => {
+    vi.stubEnv("RATE_LIMIT_MAX_REQUESTS", "1");
+    vi.stubEnv("RATE_LIMIT_TIERS", "standard=3, pro=10");
+    const caller = { id: "key:abc", tier: "standard" };
+
+    const results = [];
+    for (let i = 0; i < 4; i += 1) {
+      results.push(await applyRateLimit(requestFrom("4.4.4.4"), { scope: "tier-test", caller }));
+    }
+
+    expect(results.map((result) => result.ok)).toEqual([true, true, true, false]);
+    expect(tierLimit("PRO")).toBe(10);
+    expect(tierLimit("unknown")).toBe(1);
+  });
+
+  it("keys verified callers by API key instead of IP", async () => {
+    vi.stubEnv("RATE_LIMIT_MAX_REQUESTS", "1");
+    vi.stubEnv("RATE_LIMIT_TIERS", "standard=2");
+    const keyed = (ip: string) =>
+      new NextRequest("http://localhost/api/history", {
+        headers: { "x-forwarded-for": ip, "x-api-key-id": "key-1", "x-api-key-tier": "standard" },
+      });
+
+    const results = [];
+    for (const ip of ["5.5.5.1", "5.5.5.2", "5.5.5.3"]) {
+      results.push(await applyRateLimit(keyed(ip), { scope: "key-test" }));
+    }
+
+    expect(results.map((result) => result.ok)).toEqual([true, true, false]);
+  });
+});
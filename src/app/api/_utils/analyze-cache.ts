@@ -0,0 +1,38 @@
+import { analyzeWallet, type AnalysisProgress } from "@/lib/analyze-wallet";
+import type { AnalyzeResponse } from "@/lib/api/schemas";
+import { createCache } from "@/lib/cache/cache";
+import type { CostBasisMethod } from "@/lib/cost-basis";
+import { providerResultLifetime } from "@/app/api/_utils/cache-lifetime";
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+const analyzeCache = createCache<AnalyzeResponse>("analyze", {
+  ttlMs: ONE_HOUR_MS,
+  staleWhileRevalidateMs: ONE_HOUR_MS,
+  lifetime: providerResultLifetime,
+});
+
+/**
+ * Cached wallet analysis shared by the analyze routes. `onProgress` only fires when this call
+ * runs the analysis itself; cache hits and requests joining an in-flight load get the result alone.
+ */
+export function loadWalletAnalysis(
+  address: string,
+  method: CostBasisMethod,
+  ownedAddresses: string[],
+  onProgress?: (progress: AnalysisProgress) => void,
+) {
+  const cacheKey = `${address}:${method}:${ownedAddresses.join(",")}`;
+
+  return analyzeCache.get(cacheKey, async () => {
+    const analysis = await analyzeWallet(address, { costBasisMethod: method, ownedAddresses, onProgress });
+
+    return {
+      address,
+      summary: analysis.summary,
+      tokens: analysis.tokens,
+      insights: analysis.insights,
+      meta: analysis.meta,
+    };
+  });
+}
@@ -0,0 +1,32 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { apiProblem, errorResponse } from "@/app/api/_utils/errors";
+
+/** Set by the middleware once a key is verified; stripped from incoming requests. */
+export const API_KEY_ID_HEADER = "x-api-key-id";
+export const API_KEY_TIER_HEADER = "x-api-key-tier";
+
+/** Reads a key from `Authorization: Bearer <key>` or `X-API-Key`. */
+export function readPresentedApiKey(request: NextRequest): string | null {
+  const authorization = request.headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  return bearer || request.headers.get("x-api-key")?.trim() || null;
+}
+
+/**
+ * Guards key administration with `API_ADMIN_TOKEN`. Returns the response to send when the
+ * request is not allowed, or null when it may proceed.
+ */
+export function authorizeAdmin(request: NextRequest): NextResponse | null {
+  const expected = process.env.API_ADMIN_TOKEN?.trim();
+  if (!expected) {
+    return errorResponse(request, apiProblem("forbidden", "key administration is disabled; set API_ADMIN_TOKEN"));
+  }
+
+  const presented = Buffer.from(readPresentedApiKey(request) ?? "");
+  const token = Buffer.from(expected);
+  if (presented.length !== token.length || !timingSafeEqual(presented, token)) {
+    return errorResponse(request, apiProblem("unauthorized", "admin token is missing or invalid"));
+  }
+  return null;
+}
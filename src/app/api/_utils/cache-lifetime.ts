@@ -0,0 +1,16 @@
+import type { NetworkStatus } from "@/lib/api/schemas";
+import type { CacheLifetime } from "@/lib/cache/cache";
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+const INCOMPLETE_RESULT_TTL_MS = 60 * 1000;
+
+/**
+ * An hour, plus an hour of stale serving, for responses every network answered. Responses with a
+ * failed or timed-out network are kept for a minute and never served stale, so the next request
+ * soon retries the missing networks.
+ */
+export function providerResultLifetime({ meta }: { meta: { networks: NetworkStatus[] } }): CacheLifetime {
+  return meta.networks.every((network) => network.status === "ok")
+    ? { ttlMs: ONE_HOUR_MS, staleWhileRevalidateMs: ONE_HOUR_MS }
+    : { ttlMs: INCOMPLETE_RESULT_TTL_MS };
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiErrorBody, ApiErrorCode, ErrorEnvelope, ErrorResponse } from "@/lib/api/schemas";
+import {
+  NetworkTimeoutError,
+  PartialNetworkFailureError,
+  ProviderConfigurationError,
+  ProviderRequestError,
+  ProviderUnavailableError,
+} from "@/lib/providers/types";
+import { AddressResolutionError, EnsResolutionError } from "@/lib/resolve-address";
+
+/** Versioned routes re-export the unversioned handlers; only their error bodies differ. */
+export const API_V1_PREFIX = "/api/v1";
+
+export type ApiProblem = ApiErrorBody & {
+  /** Status under `/api/v1`. Unversioned routes keep answering 400, 401, 403, 404, 429 or 500. */
+  status: number;
+};
+
+const ERROR_STATUSES: Record<ApiErrorCode, { status: number; retryable: boolean }> = {
+  invalid_request: { status: 400, retryable: false },
+  invalid_address: { status: 400, retryable: false },
+  ens_resolution_failed: { status: 422, retryable: false },
+  unauthorized: { status: 401, retryable: false },
+  forbidden: { status: 403, retryable: false },
+  not_found: { status: 404, retryable: false },
+  rate_limited: { status: 429, retryable: true },
+  provider_auth_failed: { status: 502, retryable: false },
+  provider_rate_limited: { status: 503, retryable: true },
+  provider_unavailable: { status: 502, retryable: true },
+  partial_chain_failure: { status: 502, retryable: true },
+  internal_error: { status: 500, retryable: false },
+};
+
+export function isVersionedPath(pathname: string): boolean {
+  return pathname === API_V1_PREFIX || pathname.startsWith(`${API_V1_PREFIX}/`);
+}
+
+/** `/api/v1/history` becomes `/api/history`; unversioned paths are returned as they are. */
+export function unversionedPath(pathname: string): string {
+  return isVersionedPath(pathname) ? `/api${pathname.slice(API_V1_PREFIX.length)}` : pathname;
+}
+
+export function apiProblem(code: ApiErrorCode, message: string, details: Record<string, unknown> = {}): ApiProblem {
+  return { code, message, details, ...ERROR_STATUSES[code] };
+}
+
+/** Classifies anything a route handler caught; errors it does not know become `internal_error`. */
+export function describeError(error: unknown, fallbackMessage = "internal error"): ApiProblem {
+  if (error instanceof EnsResolutionError) {
+    const problem = apiProblem("ens_resolution_failed", error.message, { name: error.ensName });
+    // A lookup that could not be made says nothing about the name itself.
+    return error.retryable ? { ...problem, status: 502, retryable: true } : problem;
+  }
+  if (error instanceof AddressResolutionError) {
+    return apiProblem("invalid_address", error.message);
+  }
+  if (error instanceof ProviderConfigurationError) {
+    return apiProblem("provider_auth_failed", error.message, { provider: error.provider });
+  }
+  if (error instanceof ProviderRequestError) {
+    const details = { provider: error.provider, upstreamStatus: error.status };
+    if (error.status === 401 || error.status === 403) {
+      return apiProblem("provider_auth_failed", error.message, details);
+    }
+    if (error.status === 429) {
+      return apiProblem("provider_rate_limited", error.message, details);
+    }
+    const problem = apiProblem("provider_unavailable", error.message, details);
+    // Any other 4xx is the upstream refusing this request; asking again will not change that.
+    return error.status >= 500 ? problem : { ...problem, retryable: false };
+  }
+  if (error instanceof ProviderUnavailableError) {
+    return apiProblem("provider_unavailable", error.message, {
+      networkId: error.networkId,
+      provider: error.provider,
+    });
+  }
+  if (error instanceof NetworkTimeoutError) {
+    return apiProblem("provider_unavailable", error.message, {
+      networkId: error.networkId,
+      timeoutMs: error.timeoutMs,
+    });
+  }
+  if (error instanceof PartialNetworkFailureError) {
+    return apiProblem("partial_chain_failure", error.message, { failedNetworks: error.failedNetworks });
+  }
+
+  return apiProblem("internal_error", error instanceof Error ? error.message : fallbackMessage);
+}
+
+/** Status to answer with: the problem's own under `/api/v1`, the historical one elsewhere. */
+export function errorStatus(request: NextRequest, problem: ApiProblem): number {
+  if (isVersionedPath(request.nextUrl.pathname)) {
+    return problem.status;
+  }
+  if (problem.code === "ens_resolution_failed") {
+    return 400;
+  }
+  return problem.status >= 500 ? 500 : problem.status;
+}
+
+/** The `/api/v1` envelope, or the `{ error }` body unversioned routes have always returned. */
+export function errorBody(
+  request: NextRequest,
+  { code, message, retryable, details }: ApiProblem,
+): ErrorEnvelope | ErrorResponse {
+  return isVersionedPath(request.nextUrl.pathname)
+    ? { error: { code, message, retryable, details } }
+    : { error: message };
+}
+
+export function errorResponse(request: NextRequest, problem: ApiProblem, headers?: Headers): NextResponse {
+  return NextResponse.json(errorBody(request, problem), { status: errorStatus(request, problem), headers });
+}
@@ -0,0 +1,53 @@
+import type { NextRequest } from "next/server";
+import type { WalletHistoryFilters, WalletTransaction } from "@/lib/wallet-history";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+const DIRECTIONS: WalletTransaction["direction"][] = ["in", "out", "internal"];
+
+export class HistoryFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HistoryFilterError";
+  }
+}
+
+/**
+ * Reads the `from`, `to`, `chain`, `direction`, `symbol` and `minUsd` query parameters shared
+ * by the history and export endpoints. Date-only `to` values include the whole day.
+ */
+export function parseHistoryFilters(request: NextRequest): WalletHistoryFilters {
+  const params = request.nextUrl.searchParams;
+
+  const direction = params.get("direction");
+  if (direction && !(DIRECTIONS as string[]).includes(direction)) {
+    throw new HistoryFilterError("direction must be one of in, out or internal");
+  }
+
+  const minUsd = params.get("minUsd");
+  const minValueUsd = minUsd ? Number(minUsd) : null;
+  if (minValueUsd != null && !Number.isFinite(minValueUsd)) {
+    throw new HistoryFilterError("minUsd must be a number");
+  }
+
+  return {
+    from: parseDate(params.get("from"), "start"),
+    to: parseDate(params.get("to"), "end"),
+    chain: params.get("chain")?.trim() || null,
+    direction: (direction as WalletTransaction["direction"] | null) || null,
+    symbol: params.get("symbol")?.trim() || null,
+    minValueUsd,
+  };
+}
+
+function parseDate(value: string | null, bound: "start" | "end"): Date | null {
+  if (!value) {
+    return null;
+  }
+  const dateOnly = DATE_ONLY.test(value);
+  const time = Date.parse(dateOnly ? `${value}T00:00:00.000Z` : value);
+  if (Number.isNaN(time)) {
+    throw new HistoryFilterError("from and to must be ISO 8601 dates");
+  }
+  return new Date(bound === "end" && dateOnly ? time + ONE_DAY_MS - 1 : time);
+}
@@ -0,0 +1,24 @@
+import type { NextRequest } from "next/server";
+import { resolveAddress } from "@/lib/resolve-address";
+
+const MAX_OWNED_ADDRESSES = 50;
+
+/**
+ * Reads the comma-separated `owned` query parameter listing the caller's other wallets.
+ * Each entry is resolved like `address`, so invalid entries raise `AddressResolutionError`.
+ */
+export async function parseOwnedAddresses(request: NextRequest): Promise<string[]> {
+  const raw = request.nextUrl.searchParams.get("owned");
+  if (!raw) {
+    return [];
+  }
+
+  const entries = raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .slice(0, MAX_OWNED_ADDRESSES);
+
+  const resolved = await Promise.all(entries.map((entry) => resolveAddress(entry)));
+  return Array.from(new Set(resolved)).sort();
+}
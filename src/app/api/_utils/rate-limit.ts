@@ -1,12 +1,13 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { consumeRateLimit, type RateLimitDecision } from "@/lib/rate-limit/limiter";
+import { API_KEY_ID_HEADER, API_KEY_TIER_HEADER } from "@/app/api/_utils/api-auth";
+import { apiProblem, errorResponse } from "@/app/api/_utils/errors";
 
-const DEFAULT_LIMIT = Number.parseInt(process.env.RATE_LIMIT_MAX_REQUESTS ?? "60", 10);
-const DEFAULT_WINDOW_MS = Number.parseInt(
-  process.env.RATE_LIMIT_WINDOW_MS ?? `${60_000}`,
-  10,
-);
+export const ANONYMOUS_TIER = "anonymous";
 
-const buckets = new Map<string, { count: number; expiresAt: number }>();
+const DEFAULT_LIMIT = 60;
+const DEFAULT_TARGET_LIMIT = 120;
+const DEFAULT_WINDOW_MS = 60_000;
 
 function getClientIdentifier(request: NextRequest, fallback?: string) {
   const forwardedFor = request.headers.get("x-forwarded-for");
@@ -25,50 +26,111 @@ function getClientIdentifier(request: NextRequest, fallback?: string) {
   return fallback ?? "unknown";
 }
 
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Requests per window for a caller tier. `RATE_LIMIT_MAX_REQUESTS` sets the anonymous tier and
+ * `RATE_LIMIT_TIERS` the others, e.g. `standard=600,pro=3000`; unknown tiers are anonymous.
+ */
+export function tierLimit(tier: string): number {
+  const anonymous = readPositiveInt(process.env.RATE_LIMIT_MAX_REQUESTS, DEFAULT_LIMIT);
+  const configured = (process.env.RATE_LIMIT_TIERS ?? "")
+    .split(",")
+    .map((entry) => entry.split("=").map((part) => part.trim()))
+    .find(([name]) => name?.toLowerCase() === tier.toLowerCase());
+  return configured ? readPositiveInt(configured[1], anonymous) : anonymous;
+}
+
+export type RateLimitCaller = {
+  /** Stable identity of the caller, such as an API key id. */
+  id: string;
+  tier: string;
+};
+
 export type RateLimitOptions = {
+  /** Overrides the caller's tier limit. */
   limit?: number;
   windowMs?: number;
   scope?: string;
-  identifier?: string;
+  /** Wallet or resource being requested; it is also limited across all callers. */
+  target?: string;
+  /** Defaults to the verified API key and its tier, or to the client IP on the anonymous tier. */
+  caller?: RateLimitCaller;
 };
 
-export function applyRateLimit(
-  request: NextRequest,
-  options: RateLimitOptions = {},
-): { ok: boolean; responseHeaders: Headers; limit: number; remaining: number } {
-  const limit = options.limit ?? DEFAULT_LIMIT;
-  const windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+export type RateLimitResult = { ok: boolean; responseHeaders: Headers; limit: number; remaining: number };
 
-  const identifier = options.identifier ?? getClientIdentifier(request);
-  const scope = options.scope ?? "global";
-  const key = `${scope}:${identifier}`;
+/** Identity the middleware attached after verifying an API key, or the client IP. */
+function requestCaller(request: NextRequest): RateLimitCaller {
+  const keyId = request.headers.get(API_KEY_ID_HEADER);
+  if (keyId) {
+    return { id: `key:${keyId}`, tier: request.headers.get(API_KEY_TIER_HEADER) ?? ANONYMOUS_TIER };
+  }
+  return { id: `ip:${getClientIdentifier(request)}`, tier: ANONYMOUS_TIER };
+}
 
-  const now = Date.now();
-  const bucket = buckets.get(key);
+/**
+ * Applies two sliding windows: one per caller, so a client cannot spread its load over many
+ * wallets, and one per target, so many clients cannot hammer the same wallet upstream. The
+ * headers describe whichever window is closest to its limit.
+ */
+export async function applyRateLimit(request: NextRequest, options: RateLimitOptions = {}): Promise<RateLimitResult> {
+  const windowMs = options.windowMs ?? readPositiveInt(process.env.RATE_LIMIT_WINDOW_MS, DEFAULT_WINDOW_MS);
+  const scope = options.scope ?? "global";
+  const caller = options.caller ?? requestCaller(request);
 
-  if (!bucket || bucket.expiresAt <= now) {
-    buckets.set(key, { count: 1, expiresAt: now + windowMs });
-  } else {
-    bucket.count += 1;
+  const decisions: RateLimitDecision[] = [
+    await consumeRateLimit(`${scope}:caller:${caller.id}`, options.limit ?? tierLimit(caller.tier), windowMs),
+  ];
+  // A caller that is already over its limit should not use up the target's allowance too.
+  if (options.target && decisions[0].allowed) {
+    decisions.push(await consumeTarget(scope, options.target, windowMs));
   }
 
-  const current = buckets.get(key)!;
-  const remaining = Math.max(0, limit - current.count);
+  return rateLimitResult(decisions);
+}
+
+/**
+ * Charges only the window of `target`, for requests whose caller was already charged, such as
+ * each wallet of a batch.
+ */
+export async function applyTargetRateLimit(
+  target: string,
+  options: Pick<RateLimitOptions, "scope" | "windowMs"> = {},
+): Promise<RateLimitResult> {
+  const windowMs = options.windowMs ?? readPositiveInt(process.env.RATE_LIMIT_WINDOW_MS, DEFAULT_WINDOW_MS);
+  return rateLimitResult([await consumeTarget(options.scope ?? "global", target, windowMs)]);
+}
+
+function consumeTarget(scope: string, target: string, windowMs: number) {
+  const targetLimit = readPositiveInt(process.env.RATE_LIMIT_TARGET_MAX_REQUESTS, DEFAULT_TARGET_LIMIT);
+  return consumeRateLimit(`${scope}:target:${target}`, targetLimit, windowMs);
+}
+
+/** Reports the exceeded window, or else the one closest to its limit. */
+function rateLimitResult(decisions: RateLimitDecision[]): RateLimitResult {
+  const binding =
+    decisions.find((decision) => !decision.allowed) ??
+    decisions.reduce((lowest, decision) => (decision.remaining < lowest.remaining ? decision : lowest));
 
   const headers = new Headers();
-  headers.set("X-RateLimit-Limit", `${limit}`);
-  headers.set("X-RateLimit-Remaining", `${Math.max(0, remaining)}`);
-  headers.set("X-RateLimit-Reset", `${Math.ceil(current.expiresAt / 1000)}`);
+  headers.set("X-RateLimit-Limit", `${binding.limit}`);
+  headers.set("X-RateLimit-Remaining", `${binding.remaining}`);
+  headers.set("X-RateLimit-Reset", `${Math.ceil(binding.resetAt / 1000)}`);
 
-  if (current.count > limit) {
-    const retryAfterSeconds = Math.max(1, Math.ceil((current.expiresAt - now) / 1000));
+  if (!binding.allowed) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((binding.resetAt - Date.now()) / 1000));
     headers.set("Retry-After", `${retryAfterSeconds}`);
-    return { ok: false, responseHeaders: headers, limit, remaining: 0 };
+    return { ok: false, responseHeaders: headers, limit: binding.limit, remaining: 0 };
   }
 
-  return { ok: true, responseHeaders: headers, limit, remaining };
+  return { ok: true, responseHeaders: headers, limit: binding.limit, remaining: binding.remaining };
 }
 
-export function denyRateLimit(message: string, headers: Headers) {
-  return NextResponse.json({ error: message }, { status: 429, headers });
+export function denyRateLimit(request: NextRequest, headers: Headers) {
+  const retryAfterSeconds = Number(headers.get("Retry-After"));
+  return errorResponse(request, apiProblem("rate_limited", "rate limit exceeded", { retryAfterSeconds }), headers);
 }
@@ -0,0 +1,106 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { analyzeWallet, type WalletAnalysis } from "@/lib/analyze-wallet";
+import { ProviderRequestError } from "@/lib/providers/types";
+import { POST } from "../route";
+
+vi.mock("@/lib/analyze-wallet", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/analyze-wallet")>()),
+  analyzeWallet: vi.fn(),
+}));
+
+const HEALTHY = "0x1111111111111111111111111111111111111111";
+const FAILING = "0x2222222222222222222222222222222222222222";
+
+function batchRequest(body: unknown, pathname = "/api/analyze/batch", client = "9.9.9.9") {
+  return new NextRequest(`http://localhost${pathname}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "x-forwarded-for": client },
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.clearAllMocks();
+});
+
+describe("POST /api/analyze/batch", () => {
+  it("reports each wallet on its own and reuses the analyze cache", async () => {
+    vi.mocked(analyzeWallet).mockImplementation(async (address) => {
+      if (address === FAILING) {
+        throw new Error("Coinbase API error (503): unavailable");
+      }
+      return {
+        summary: { netWorth: 10 },
+        tokens: [],
+        insights: [],
+        meta: { source: "coinbase", networks: [] },
+      } as unknown as WalletAnalysis;
+    });
+
+    const response = await POST(batchRequest({ addresses: [HEALTHY, FAILING, "not-a-wallet", ` ${HEALTHY} `] }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.meta).toEqual({ requested: 3, succeeded: 1, failed: 2 });
+    expect(body.results[HEALTHY]).toMatchObject({ address: HEALTHY, summary: { netWorth: 10 }, cache: "MISS" });
+    expect(body.results[FAILING]).toEqual({ error: "Coinbase API error (503): unavailable", status: 500 });
+    expect(body.results["not-a-wallet"]).toMatchObject({ status: 400 });
+
+    const again = await (await POST(batchRequest({ addresses: [HEALTHY] }))).json();
+    expect(again.results[HEALTHY].cache).toBe("HIT");
+    expect(analyzeWallet).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports failures with stable codes under /api/v1", async () => {
+    vi.mocked(analyzeWallet).mockRejectedValue(new ProviderRequestError("Coinbase", 429, "slow down"));
+
+    const response = await POST(batchRequest({ addresses: [FAILING, "not-a-wallet"] }, "/api/v1/analyze/batch"));
+    const { results } = await response.json();
+
+    expect(results[FAILING]).toEqual({
+      error: {
+        code: "provider_rate_limited",
+        message: "Coinbase API error (429): slow down",
+        retryable: true,
+        details: { provider: "Coinbase", upstreamStatus: 429 },
+      },
+      status: 503,
+    });
+    expect(results["not-a-wallet"]).toMatchObject({ error: { code: "invalid_address", retryable: false }, status: 400 });
+  });
+
+  it("charges the caller once per batch and each wallet against its own limit", async () => {
+    vi.stubEnv("RATE_LIMIT_MAX_REQUESTS", "1");
+    vi.stubEnv("RATE_LIMIT_TARGET_MAX_REQUESTS", "1");
+    vi.mocked(analyzeWallet).mockResolvedValue({
+      summary: { netWorth: 10 },
+      tokens: [],
+      insights: [],
+      meta: { source: "coinbase", networks: [] },
+    } as unknown as WalletAnalysis);
+    const first = "0x4444444444444444444444444444444444444444";
+    const second = "0x5555555555555555555555555555555555555555";
+
+    const response = await POST(batchRequest({ addresses: [first] }, "/api/v1/analyze/batch", "8.8.4.4"));
+    expect(response.status).toBe(200);
+
+    const denied = await POST(batchRequest({ addresses: [second] }, "/api/v1/analyze/batch", "8.8.4.4"));
+    expect(denied.status).toBe(429);
+    expect(denied.headers.get("Retry-After")).not.toBeNull();
+
+    const body = await (
+      await POST(batchRequest({ addresses: [first, second] }, "/api/v1/analyze/batch", "8.8.8.8"))
+    ).json();
+    expect(body.meta).toEqual({ requested: 2, succeeded: 1, failed: 1 });
+    expect(body.results[first]).toMatchObject({ error: { code: "rate_limited", retryable: true }, status: 429 });
+    expect(body.results[second]).toMatchObject({ address: second });
+  });
+
+  it("rejects malformed batches", async () => {
+    expect((await POST(batchRequest({ addresses: [] }))).status).toBe(400);
+    expect((await POST(batchRequest({ addresses: [HEALTHY], method: "avg" }))).status).toBe(400);
+    expect((await POST(batchRequest({ addresses: Array(251).fill(HEALTHY) }))).status).toBe(400);
+  });
+});
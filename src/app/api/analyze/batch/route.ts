@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { defaultCostBasisMethod } from "@/lib/analyze-wallet";
+import type { AnalyzeBatchResult } from "@/lib/api/schemas";
+import { settleWithConcurrency } from "@/lib/concurrency";
+import { isCostBasisMethod } from "@/lib/cost-basis";
+import { resolveAddress, AddressResolutionError } from "@/lib/resolve-address";
+import { applyRateLimit, applyTargetRateLimit, denyRateLimit, type RateLimitResult } from "@/app/api/_utils/rate-limit";
+import { apiProblem, describeError, errorBody, errorResponse, errorStatus } from "@/app/api/_utils/errors";
+import { parseOwnedAddresses } from "@/app/api/_utils/owned-addresses";
+import { loadWalletAnalysis } from "@/app/api/_utils/analyze-cache";
+
+const MAX_BATCH_SIZE = 250;
+const DEFAULT_CONCURRENCY = 4;
+
+function batchConcurrency() {
+  const parsed = Number.parseInt(process.env.ANALYZE_BATCH_CONCURRENCY ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_CONCURRENCY;
+}
+
+/** One wallet of the batch went over its own rate limit. */
+class BatchEntryRateLimitedError extends Error {
+  readonly rate: RateLimitResult;
+
+  constructor(rate: RateLimitResult) {
+    super("rate limit exceeded");
+    this.name = "BatchEntryRateLimitedError";
+    this.rate = rate;
+  }
+}
+
+/**
+ * Analyzes up to 250 wallets in one call. The batch costs the caller one request of its own
+ * `analyze-batch` quota, charged before any name is resolved, while every wallet still counts
+ * towards its per-wallet limit shared with `GET /api/analyze`. Entries go through the same
+ * cache; wallets that cannot be resolved, analyzed or are over their limit are reported in
+ * place and never fail the batch.
+ */
+export async function POST(request: NextRequest) {
+  let body: { addresses?: unknown; method?: unknown };
+  try {
+    body = ((await request.json()) ?? {}) as typeof body;
+  } catch {
+    return errorResponse(request, apiProblem("invalid_request", "request body must be JSON"));
+  }
+
+  const { addresses } = body;
+  if (
+    !Array.isArray(addresses) ||
+    addresses.length === 0 ||
+    !addresses.every((entry): entry is string => typeof entry === "string")
+  ) {
+    return errorResponse(request, apiProblem("invalid_request", "addresses must be a non-empty array of strings"));
+  }
+  if (addresses.length > MAX_BATCH_SIZE) {
+    return errorResponse(request, apiProblem("invalid_request", `a batch can hold at most ${MAX_BATCH_SIZE} addresses`));
+  }
+
+  const method = body.method ?? request.nextUrl.searchParams.get("method") ?? defaultCostBasisMethod();
+  if (typeof method !== "string" || !isCostBasisMethod(method)) {
+    return errorResponse(request, apiProblem("invalid_request", "method must be one of fifo, lifo or hifo"));
+  }
+
+  const rate = await applyRateLimit(request, { scope: "analyze-batch" });
+  if (!rate.ok) {
+    return denyRateLimit(request, rate.responseHeaders);
+  }
+
+  let ownedAddresses: string[];
+  try {
+    ownedAddresses = await parseOwnedAddresses(request);
+  } catch (error) {
+    if (error instanceof AddressResolutionError) {
+      return errorResponse(request, describeError(error), rate.responseHeaders);
+    }
+    throw error;
+  }
+
+  const inputs = Array.from(new Set(addresses.map((entry) => entry.trim())));
+  const settlements = await settleWithConcurrency(inputs, batchConcurrency(), async (input) => {
+    const address = await resolveAddress(input);
+    const walletRate = await applyTargetRateLimit(address, { scope: "analyze" });
+    if (!walletRate.ok) {
+      throw new BatchEntryRateLimitedError(walletRate);
+    }
+    const { value, status } = await loadWalletAnalysis(address, method, ownedAddresses);
+    return { ...value, cache: status };
+  });
+
+  const results: Record<string, AnalyzeBatchResult> = {};
+  settlements.forEach((settlement, index) => {
+    if (settlement.status === "fulfilled") {
+      results[inputs[index]] = settlement.value;
+      return;
+    }
+
+    const error = settlement.reason;
+    let problem;
+    if (error instanceof BatchEntryRateLimitedError) {
+      const retryAfterSeconds = Number(error.rate.responseHeaders.get("Retry-After"));
+      problem = apiProblem("rate_limited", error.message, { retryAfterSeconds });
+    } else {
+      if (!(error instanceof AddressResolutionError)) {
+        console.error("Unable to analyze wallet in batch", { input: inputs[index], error });
+      }
+      problem = describeError(error, "failed to analyze wallet");
+    }
+    results[inputs[index]] = { error: errorBody(request, problem).error, status: errorStatus(request, problem) };
+  });
+
+  const failed = settlements.filter((settlement) => settlement.status === "rejected").length;
+
+  return NextResponse.json(
+    {
+      results,
+      meta: { requested: inputs.length, succeeded: inputs.length - failed, failed },
+    },
+    { headers: rate.responseHeaders },
+  );
+}
@@ -1,79 +1,53 @@
 import { NextRequest, NextResponse } from "next/server";
-import { analyzeWallet, type WalletAnalysis } from "@/lib/analyze-wallet";
+import { defaultCostBasisMethod } from "@/lib/analyze-wallet";
+import { isCostBasisMethod } from "@/lib/cost-basis";
 import { resolveAddress, AddressResolutionError } from "@/lib/resolve-address";
 import { applyRateLimit, denyRateLimit } from "@/app/api/_utils/rate-limit";
-
-const ONE_HOUR_MS = 60 * 60 * 1000;
-
-type AnalyzeCacheEntry = {
-  expiresAt: number;
-  payload: {
-    address: string;
-    summary: WalletAnalysis["summary"];
-    tokens: WalletAnalysis["tokens"];
-    insights: WalletAnalysis["insights"];
-    meta: WalletAnalysis["meta"];
-  };
-};
-
-const analyzeCache = new Map<string, AnalyzeCacheEntry>();
+import { apiProblem, describeError, errorResponse } from "@/app/api/_utils/errors";
+import { parseOwnedAddresses } from "@/app/api/_utils/owned-addresses";
+import { loadWalletAnalysis } from "@/app/api/_utils/analyze-cache";
 
 export async function GET(request: NextRequest) {
   const requestedAddress = request.nextUrl.searchParams.get("address");
+  const method = request.nextUrl.searchParams.get("method") ?? defaultCostBasisMethod();
 
   if (!requestedAddress) {
-    return NextResponse.json({ error: "address is required" }, { status: 400 });
+    return errorResponse(request, apiProblem("invalid_request", "address is required"));
+  }
+
+  if (!isCostBasisMethod(method)) {
+    return errorResponse(request, apiProblem("invalid_request", "method must be one of fifo, lifo or hifo"));
   }
 
   let address: string;
+  let ownedAddresses: string[];
   try {
     address = await resolveAddress(requestedAddress);
+    ownedAddresses = await parseOwnedAddresses(request);
   } catch (error) {
     if (error instanceof AddressResolutionError) {
-      return NextResponse.json({ error: error.message }, { status: 400 });
+      return errorResponse(request, describeError(error));
     }
     throw error;
   }
 
-  const rate = applyRateLimit(request, {
+  const rate = await applyRateLimit(request, {
     scope: "analyze",
-    identifier: `${address}`,
+    target: address,
   });
 
   if (!rate.ok) {
-    return denyRateLimit("rate limit exceeded", rate.responseHeaders);
-  }
-
-  const cached = analyzeCache.get(address);
-  if (cached && cached.expiresAt > Date.now()) {
-    rate.responseHeaders.set("X-Cache", "HIT");
-    return NextResponse.json(cached.payload, { headers: rate.responseHeaders });
-  } else if (cached) {
-    analyzeCache.delete(address);
+    return denyRateLimit(request, rate.responseHeaders);
   }
 
   try {
-    const analysis = await analyzeWallet(address);
-
-    const responseBody: AnalyzeCacheEntry["payload"] = {
-      address,
-      summary: analysis.summary,
-      tokens: analysis.tokens,
-      insights: analysis.insights,
-      meta: analysis.meta,
-    };
-
-    analyzeCache.set(address, {
-      payload: responseBody,
-      expiresAt: Date.now() + ONE_HOUR_MS,
-    });
+    const { value: responseBody, status } = await loadWalletAnalysis(address, method, ownedAddresses);
 
-    rate.responseHeaders.set("X-Cache", "MISS");
+    rate.responseHeaders.set("X-Cache", status);
 
     return NextResponse.json(responseBody, { headers: rate.responseHeaders });
   } catch (error) {
     console.error("Unable to analyze wallet", error);
-    const message = error instanceof Error ? error.message : "failed to analyze wallet";
-    return NextResponse.json({ error: message }, { status: 500, headers: rate.responseHeaders });
+    return errorResponse(request, describeError(error, "failed to analyze wallet"), rate.responseHeaders);
   }
 }
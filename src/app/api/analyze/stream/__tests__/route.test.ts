@@ -0,0 +1,90 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { analyzeWallet, type WalletAnalysis } from "@/lib/analyze-wallet";
+import { GET } from "../route";
+
+vi.mock("@/lib/analyze-wallet", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/analyze-wallet")>()),
+  analyzeWallet: vi.fn(),
+}));
+
+const ADDRESS = "0x3333333333333333333333333333333333333333";
+
+function streamRequest(address: string) {
+  return new NextRequest(`http://localhost/api/analyze/stream?address=${address}`, {
+    headers: { "x-forwarded-for": "8.8.8.8" },
+  });
+}
+
+/** Splits an SSE body into its `event`/`data` pairs. */
+async function readEvents(response: Response) {
+  const body = await response.text();
+  return body
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return { event: eventLine.replace("event: ", ""), data: JSON.parse(dataLine.replace("data: ", "")) };
+    });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("GET /api/analyze/stream", () => {
+  it("streams network progress and prices before the final analysis", async () => {
+    const token = { symbol: "ETH", protocol: "Base", valueUsd: 10, amount: 1 };
+    vi.mocked(analyzeWallet).mockImplementation(async (_address, options) => {
+      options?.onProgress?.({ type: "network", networkId: "base-mainnet", status: "loading" });
+      options?.onProgress?.({ type: "network", networkId: "ethereum-mainnet", status: "loading" });
+      options?.onProgress?.({
+        type: "network",
+        networkId: "base-mainnet",
+        status: "loaded",
+        provider: "coinbase",
+        tokens: [token] as WalletAnalysis["tokens"],
+      });
+      options?.onProgress?.({ type: "network", networkId: "ethereum-mainnet", status: "failed", error: "timeout" });
+      options?.onProgress?.({ type: "prices", tokens: [{ ...token, valueUsd: 12 }] as WalletAnalysis["tokens"] });
+      return {
+        summary: { netWorth: 12 },
+        tokens: [],
+        insights: [],
+        meta: { source: "coinbase", networks: [] },
+      } as unknown as WalletAnalysis;
+    });
+
+    const response = await GET(streamRequest(ADDRESS));
+    const events = await readEvents(response);
+
+    expect(response.headers.get("content-type")).toBe("text/event-stream; charset=utf-8");
+    expect(events.map(({ event, data }) => [event, data.networkId ?? null])).toEqual([
+      ["network", "base-mainnet"],
+      ["network", "ethereum-mainnet"],
+      ["network", "base-mainnet"],
+      ["network", "ethereum-mainnet"],
+      ["prices", null],
+      ["result", null],
+    ]);
+    expect(events[3].data).toEqual({ networkId: "ethereum-mainnet", status: "failed", error: "timeout" });
+    expect(events[4].data.tokens[0].valueUsd).toBe(12);
+    expect(events[5].data).toMatchObject({ address: ADDRESS, summary: { netWorth: 12 } });
+
+    // Cached analyses skip straight to the result.
+    const cached = await readEvents(await GET(streamRequest(ADDRESS)));
+    expect(cached.map(({ event }) => event)).toEqual(["result"]);
+  });
+
+  it("reports analysis failures as an event and rejects bad input as JSON", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.mocked(analyzeWallet).mockRejectedValue(new Error("Coinbase API credentials are missing or invalid"));
+
+    const events = await readEvents(await GET(streamRequest("0x4444444444444444444444444444444444444444")));
+    expect(events).toEqual([{ event: "failure", data: { error: "Coinbase API credentials are missing or invalid" } }]);
+
+    const invalid = await GET(streamRequest("not-a-wallet"));
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toHaveProperty("error");
+  });
+});
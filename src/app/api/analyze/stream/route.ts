@@ -0,0 +1,87 @@
+import { NextRequest } from "next/server";
+import { defaultCostBasisMethod } from "@/lib/analyze-wallet";
+import { isCostBasisMethod } from "@/lib/cost-basis";
+import { resolveAddress, AddressResolutionError } from "@/lib/resolve-address";
+import { applyRateLimit, denyRateLimit } from "@/app/api/_utils/rate-limit";
+import { apiProblem, describeError, errorBody, errorResponse } from "@/app/api/_utils/errors";
+import { parseOwnedAddresses } from "@/app/api/_utils/owned-addresses";
+import { loadWalletAnalysis } from "@/app/api/_utils/analyze-cache";
+
+/**
+ * Server-Sent Events variant of `GET /api/analyze`. Emits `network` as each network's balances
+ * load or fail, `prices` once tokens are priced, then `result` with the analysis or `failure`
+ * with the same error body the plain endpoint would send, and closes the stream. Invalid input
+ * and rate limits are answered with the same JSON errors as the plain endpoint.
+ */
+export async function GET(request: NextRequest) {
+  const requestedAddress = request.nextUrl.searchParams.get("address");
+  const method = request.nextUrl.searchParams.get("method") ?? defaultCostBasisMethod();
+
+  if (!requestedAddress) {
+    return errorResponse(request, apiProblem("invalid_request", "address is required"));
+  }
+
+  if (!isCostBasisMethod(method)) {
+    return errorResponse(request, apiProblem("invalid_request", "method must be one of fifo, lifo or hifo"));
+  }
+
+  let address: string;
+  let ownedAddresses: string[];
+  try {
+    address = await resolveAddress(requestedAddress);
+    ownedAddresses = await parseOwnedAddresses(request);
+  } catch (error) {
+    if (error instanceof AddressResolutionError) {
+      return errorResponse(request, describeError(error));
+    }
+    throw error;
+  }
+
+  const rate = await applyRateLimit(request, {
+    scope: "analyze",
+    target: address,
+  });
+
+  if (!rate.ok) {
+    return denyRateLimit(request, rate.responseHeaders);
+  }
+
+  const encoder = new TextEncoder();
+  // Set once the client disconnects or the stream is done; a stale-while-revalidate refresh may
+  // still report progress after that.
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        }
+      };
+
+      try {
+        const { value } = await loadWalletAnalysis(address, method, ownedAddresses, ({ type, ...progress }) =>
+          send(type, progress),
+        );
+        send("result", value);
+      } catch (error) {
+        console.error("Unable to analyze wallet", error);
+        send("failure", errorBody(request, describeError(error, "failed to analyze wallet")));
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  rate.responseHeaders.set("Content-Type", "text/event-stream; charset=utf-8");
+  rate.responseHeaders.set("Cache-Control", "no-cache, no-transform");
+  rate.responseHeaders.set("X-Accel-Buffering", "no");
+
+  return new Response(stream, { headers: rate.responseHeaders });
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeWallet } from "@/lib/analyze-wallet";
+import { coinTrackerTable } from "@/lib/export/cointracker";
+import { toCsv } from "@/lib/export/csv";
+import { koinlyTable } from "@/lib/export/koinly";
+import { ledgerTable } from "@/lib/export/ledger";
+import { requireEveryNetwork } from "@/lib/providers/registry";
+import { historyTable, holdingsTable, type ExportTable } from "@/lib/export/tables";
+import { toXlsx } from "@/lib/export/xlsx";
+import { getWalletHistory, type WalletHistoryFilters, type WalletTransaction } from "@/lib/wallet-history";
+import { resolveAddress, AddressResolutionError } from "@/lib/resolve-address";
+import { applyRateLimit, denyRateLimit } from "@/app/api/_utils/rate-limit";
+import { apiProblem, describeError, errorResponse } from "@/app/api/_utils/errors";
+import { HistoryFilterError, parseHistoryFilters } from "@/app/api/_utils/history-filters";
+
+const EXPORT_KINDS = ["holdings", "history", "koinly", "cointracker", "ledger"] as const;
+const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+
+type ExportKind = (typeof EXPORT_KINDS)[number];
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const HISTORY_TABLES: Record<Exclude<ExportKind, "holdings">, (history: WalletTransaction[]) => ExportTable> = {
+  history: historyTable,
+  koinly: koinlyTable,
+  cointracker: coinTrackerTable,
+  ledger: ledgerTable,
+};
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const requestedAddress = params.get("address");
+  const kind = params.get("kind") ?? "holdings";
+  const format = params.get("format") ?? "csv";
+
+  if (!requestedAddress) {
+    return errorResponse(request, apiProblem("invalid_request", "address is required"));
+  }
+
+  if (!isExportKind(kind)) {
+    return errorResponse(request, apiProblem("invalid_request", "kind must be one of holdings, history, koinly, cointracker or ledger"));
+  }
+
+  if (!isExportFormat(format)) {
+    return errorResponse(request, apiProblem("invalid_request", "format must be one of csv or xlsx"));
+  }
+
+  let address: string;
+  let filters: WalletHistoryFilters;
+  try {
+    filters = parseHistoryFilters(request);
+    address = await resolveAddress(requestedAddress);
+  } catch (error) {
+    if (error instanceof AddressResolutionError) {
+      return errorResponse(request, describeError(error));
+    }
+    if (error instanceof HistoryFilterError) {
+      return errorResponse(request, apiProblem("invalid_request", error.message));
+    }
+    throw error;
+  }
+
+  const rate = await applyRateLimit(request, {
+    scope: "export",
+    target: address,
+  });
+
+  if (!rate.ok) {
+    return denyRateLimit(request, rate.responseHeaders);
+  }
+
+  try {
+    // A file has nowhere to say which networks are missing, so a partial load fails instead.
+    let table: ExportTable;
+    if (kind === "holdings") {
+      const analysis = await analyzeWallet(address);
+      requireEveryNetwork(analysis.meta.networks);
+      table = holdingsTable(analysis.tokens);
+    } else {
+      const { history, networks } = await getWalletHistory(address, { limit: Number.POSITIVE_INFINITY, filters });
+      requireEveryNetwork(networks);
+      table = HISTORY_TABLES[kind](history);
+    }
+
+    const filename = `wallet-${address.slice(0, 10)}-${kind}.${format}`;
+    rate.responseHeaders.set("Content-Disposition", `attachment; filename="${filename}"`);
+    rate.responseHeaders.set("Cache-Control", "no-store");
+
+    if (format === "xlsx") {
+      rate.responseHeaders.set("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      return new NextResponse(Buffer.from(toXlsx(table)), { headers: rate.responseHeaders });
+    }
+
+    rate.responseHeaders.set("Content-Type", "text/csv; charset=utf-8");
+    return new NextResponse(toCsv(table), { headers: rate.responseHeaders });
+  } catch (error) {
+    console.error("Unable to export wallet data", error);
+    return errorResponse(request, describeError(error, "failed to export wallet data"), rate.responseHeaders);
+  }
+}
+
+function isExportKind(value: string): value is ExportKind {
+  return (EXPORT_KINDS as readonly string[]).includes(value);
+}
+
+function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
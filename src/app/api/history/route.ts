@@ -1,84 +1,96 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getWalletHistory, type WalletTransaction } from "@/lib/wallet-history";
+import {
+  getWalletHistory,
+  InvalidHistoryCursorError,
+  type WalletHistoryFilters,
+} from "@/lib/wallet-history";
+import type { HistoryResponse } from "@/lib/api/schemas";
 import { resolveAddress, AddressResolutionError } from "@/lib/resolve-address";
+import { createCache } from "@/lib/cache/cache";
 import { applyRateLimit, denyRateLimit } from "@/app/api/_utils/rate-limit";
+import { apiProblem, describeError, errorResponse } from "@/app/api/_utils/errors";
+import { parseOwnedAddresses } from "@/app/api/_utils/owned-addresses";
+import { HistoryFilterError, parseHistoryFilters } from "@/app/api/_utils/history-filters";
+import { providerResultLifetime } from "@/app/api/_utils/cache-lifetime";
 
 const ONE_HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
 
-type HistoryCacheEntry = {
-  expiresAt: number;
-  payload: {
-    address: string;
-    history: WalletTransaction[];
-    meta: {
-      source: string;
-      isFallback: boolean;
-    };
-  };
-};
-
-const historyCache = new Map<string, HistoryCacheEntry>();
+const historyCache = createCache<HistoryResponse>("history", {
+  ttlMs: ONE_HOUR_MS,
+  staleWhileRevalidateMs: ONE_HOUR_MS,
+  lifetime: providerResultLifetime,
+});
 
 export async function GET(request: NextRequest) {
   const requestedAddress = request.nextUrl.searchParams.get("address");
+  const cursor = request.nextUrl.searchParams.get("cursor");
+  const limit = Number(request.nextUrl.searchParams.get("limit") ?? DEFAULT_PAGE_SIZE);
 
   if (!requestedAddress) {
-    return NextResponse.json({ error: "address is required" }, { status: 400 });
+    return errorResponse(request, apiProblem("invalid_request", "address is required"));
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return errorResponse(request, apiProblem("invalid_request", `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`));
   }
 
   let address: string;
+  let ownedAddresses: string[];
+  let filters: WalletHistoryFilters;
   try {
+    filters = parseHistoryFilters(request);
     address = await resolveAddress(requestedAddress);
+    ownedAddresses = await parseOwnedAddresses(request);
   } catch (error) {
     if (error instanceof AddressResolutionError) {
-      return NextResponse.json({ error: error.message }, { status: 400 });
+      return errorResponse(request, describeError(error));
+    }
+    if (error instanceof HistoryFilterError) {
+      return errorResponse(request, apiProblem("invalid_request", error.message));
     }
     throw error;
   }
 
-  const rate = applyRateLimit(request, {
+  const rate = await applyRateLimit(request, {
     scope: "history",
-    identifier: `${address}`,
+    target: address,
   });
 
   if (!rate.ok) {
-    return denyRateLimit("rate limit exceeded", rate.responseHeaders);
+    return denyRateLimit(request, rate.responseHeaders);
   }
 
-  const cached = historyCache.get(address);
-  if (cached && cached.expiresAt > Date.now()) {
-    rate.responseHeaders.set("X-Cache", "HIT");
-    return NextResponse.json(cached.payload, { headers: rate.responseHeaders });
-  } else if (cached) {
-    historyCache.delete(address);
-  }
+  const cacheKey = JSON.stringify([address, ownedAddresses, filters, cursor, limit]);
 
   try {
-    const data = await getWalletHistory(address);
-
-    const responseBody: HistoryCacheEntry["payload"] = {
-      address,
-      history: data.history,
-      meta: {
-        source: data.source,
-        isFallback: data.isFallback,
-      },
-    };
+    const { value: responseBody, status } = await historyCache.get(cacheKey, async () => {
+      const data = await getWalletHistory(address, { ownedAddresses, filters, cursor, limit });
 
-    historyCache.set(address, {
-      payload: responseBody,
-      expiresAt: Date.now() + ONE_HOUR_MS,
+      return {
+        address,
+        history: data.history,
+        nextCursor: data.nextCursor,
+        summary: data.summary,
+        meta: {
+          source: data.source,
+          isFallback: data.isFallback,
+          providers: data.providers,
+          degradedNetworks: data.degradedNetworks,
+          networks: data.networks,
+        },
+      };
     });
 
-    rate.responseHeaders.set("X-Cache", "MISS");
+    rate.responseHeaders.set("X-Cache", status);
 
     return NextResponse.json(responseBody, { headers: rate.responseHeaders });
   } catch (error) {
+    if (error instanceof InvalidHistoryCursorError) {
+      return errorResponse(request, apiProblem("invalid_request", error.message), rate.responseHeaders);
+    }
     console.error("Unable to retrieve wallet history", error);
-    const message = error instanceof Error ? error.message : "failed to retrieve wallet history";
-    return NextResponse.json(
-      { error: message },
-      { status: 500, headers: rate.responseHeaders },
-    );
+    return errorResponse(request, describeError(error, "failed to retrieve wallet history"), rate.responseHeaders);
   }
 }
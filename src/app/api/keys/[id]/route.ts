@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiKeyNotFoundError, revokeApiKey } from "@/lib/api-keys";
+import { authorizeAdmin } from "@/app/api/_utils/api-auth";
+import { apiProblem, describeError, errorResponse } from "@/app/api/_utils/errors";
+
+type ApiKeyRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/** Revokes the key; it stays listed with `revokedAt` so its usage history remains readable. */
+export async function DELETE(request: NextRequest, { params }: ApiKeyRouteContext) {
+  const denied = authorizeAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  try {
+    return NextResponse.json(revokeApiKey(id));
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return errorResponse(request, apiProblem("not_found", error.message));
+    }
+    console.error("Unable to revoke API key", error);
+    return errorResponse(request, describeError(error, "failed to revoke API key"));
+  }
+}
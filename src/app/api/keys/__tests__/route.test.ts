@@ -0,0 +1,75 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { describe, expect, it, afterEach, beforeEach, vi } from "vitest";
+import { GET, POST } from "@/app/api/v1/keys/route";
+import { DELETE } from "@/app/api/v1/keys/[id]/route";
+
+const ADMIN_TOKEN = "admin-token";
+
+let directory: string;
+
+function keysRequest(pathname: string, init: { method?: string; body?: string; token?: string } = {}) {
+  return new NextRequest(`http://localhost${pathname}`, {
+    method: init.method ?? "GET",
+    body: init.body,
+    headers: init.token ? { authorization: `Bearer ${init.token}` } : {},
+  });
+}
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "api-keys-route-"));
+  vi.stubEnv("API_KEY_STORE_PATH", path.join(directory, "api-keys.sqlite"));
+  vi.stubEnv("API_ADMIN_TOKEN", ADMIN_TOKEN);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("/api/v1/keys", () => {
+  it("answers admin failures with the error envelope", async () => {
+    const unauthorized = await GET(keysRequest("/api/v1/keys", { token: "wrong-token" }));
+    expect(unauthorized.status).toBe(401);
+    expect((await unauthorized.json()).error).toMatchObject({ code: "unauthorized", retryable: false });
+
+    vi.stubEnv("API_ADMIN_TOKEN", "");
+    const disabled = await GET(keysRequest("/api/v1/keys", { token: ADMIN_TOKEN }));
+    expect(disabled.status).toBe(403);
+    expect((await disabled.json()).error).toMatchObject({ code: "forbidden" });
+  });
+
+  it("issues, lists and revokes keys", async () => {
+    const created = await POST(
+      keysRequest("/api/v1/keys", {
+        method: "POST",
+        token: ADMIN_TOKEN,
+        body: JSON.stringify({ name: "Tax bot", scopes: ["history"] }),
+      }),
+    );
+    expect(created.status).toBe(201);
+    const { id } = await created.json();
+
+    const listed = await (await GET(keysRequest("/api/v1/keys", { token: ADMIN_TOKEN }))).json();
+    expect(listed.keys).toEqual([expect.objectContaining({ id, name: "Tax bot" })]);
+
+    const revoked = await DELETE(keysRequest(`/api/v1/keys/${id}`, { method: "DELETE", token: ADMIN_TOKEN }), {
+      params: Promise.resolve({ id }),
+    });
+    expect((await revoked.json()).revokedAt).not.toBeNull();
+  });
+
+  it("reports invalid input and unknown keys with stable codes", async () => {
+    const invalid = await POST(keysRequest("/api/v1/keys", { method: "POST", token: ADMIN_TOKEN, body: "{" }));
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toMatchObject({ code: "invalid_request" });
+
+    const missing = await DELETE(keysRequest("/api/v1/keys/nope", { method: "DELETE", token: ADMIN_TOKEN }), {
+      params: Promise.resolve({ id: "nope" }),
+    });
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error).toMatchObject({ code: "not_found" });
+  });
+});
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiKeyValidationError, createApiKey, getApiKeyUsage, listApiKeys } from "@/lib/api-keys";
+import { authorizeAdmin } from "@/app/api/_utils/api-auth";
+import { apiProblem, describeError, errorResponse } from "@/app/api/_utils/errors";
+
+const MAX_USAGE_DAYS = 366;
+
+export async function GET(request: NextRequest) {
+  const denied = authorizeAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const days = Number(request.nextUrl.searchParams.get("days") ?? 30);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+    return errorResponse(
+      request,
+      apiProblem("invalid_request", `days must be an integer between 1 and ${MAX_USAGE_DAYS}`),
+    );
+  }
+
+  try {
+    return NextResponse.json({ keys: listApiKeys(), usage: getApiKeyUsage(days) });
+  } catch (error) {
+    console.error("Unable to list API keys", error);
+    return errorResponse(request, describeError(error, "failed to list API keys"));
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = authorizeAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(request, apiProblem("invalid_request", "request body must be JSON"));
+  }
+
+  try {
+    const { apiKey, secret } = createApiKey((body ?? {}) as Record<string, unknown>);
+    // The secret is not stored and cannot be shown again.
+    return NextResponse.json({ ...apiKey, key: secret }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiKeyValidationError) {
+      return errorResponse(request, apiProblem("invalid_request", error.message));
+    }
+    console.error("Unable to create API key", error);
+    return errorResponse(request, describeError(error, "failed to create API key"));
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getNetWorthHistory, isNetWorthRange } from "@/lib/networth";
+import type { NetWorthResponse } from "@/lib/api/schemas";
+import { resolveAddress, AddressResolutionError } from "@/lib/resolve-address";
+import { createCache } from "@/lib/cache/cache";
+import { applyRateLimit, denyRateLimit } from "@/app/api/_utils/rate-limit";
+import { apiProblem, describeError, errorResponse } from "@/app/api/_utils/errors";
+import { providerResultLifetime } from "@/app/api/_utils/cache-lifetime";
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+const netWorthCache = createCache<NetWorthResponse>("networth", {
+  ttlMs: ONE_HOUR_MS,
+  staleWhileRevalidateMs: ONE_HOUR_MS,
+  lifetime: providerResultLifetime,
+});
+
+export async function GET(request: NextRequest) {
+  const requestedAddress = request.nextUrl.searchParams.get("address");
+  const range = request.nextUrl.searchParams.get("range") ?? "30d";
+
+  if (!requestedAddress) {
+    return errorResponse(request, apiProblem("invalid_request", "address is required"));
+  }
+
+  if (!isNetWorthRange(range)) {
+    return errorResponse(request, apiProblem("invalid_request", "range must be one of 30d, 90d or 1y"));
+  }
+
+  let address: string;
+  try {
+    address = await resolveAddress(requestedAddress);
+  } catch (error) {
+    if (error instanceof AddressResolutionError) {
+      return errorResponse(request, describeError(error));
+    }
+    throw error;
+  }
+
+  const rate = await applyRateLimit(request, {
+    scope: "networth",
+    target: address,
+  });
+
+  if (!rate.ok) {
+    return denyRateLimit(request, rate.responseHeaders);
+  }
+
+  const cacheKey = `${address}:${range}`;
+
+  try {
+    const { value: responseBody, status } = await netWorthCache.get(cacheKey, async () => ({
+      address,
+      ...(await getNetWorthHistory(address, range)),
+    }));
+
+    rate.responseHeaders.set("X-Cache", status);
+
+    return NextResponse.json(responseBody, { headers: rate.responseHeaders });
+  } catch (error) {
+    console.error("Unable to build net worth history", error);
+    return errorResponse(request, describeError(error, "failed to build net worth history"), rate.responseHeaders);
+  }
+}
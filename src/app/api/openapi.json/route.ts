@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  });
+}
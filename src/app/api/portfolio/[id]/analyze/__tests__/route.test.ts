@@ -0,0 +1,53 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { analyzePortfolio, type PortfolioAnalysis } from "@/lib/analyze-portfolio";
+import { getPortfolio, type Portfolio } from "@/lib/portfolios";
+import { GET } from "../route";
+
+vi.mock("@/lib/analyze-portfolio", () => ({
+  analyzePortfolio: vi.fn(),
+}));
+
+vi.mock("@/lib/portfolios", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/portfolios")>()),
+  getPortfolio: vi.fn(),
+}));
+
+const PORTFOLIO: Portfolio = {
+  id: "treasury",
+  name: "Treasury",
+  wallets: [
+    { address: "0x4444444444444444444444444444444444444444", label: "Ops" },
+    { address: "0x5555555555555555555555555555555555555555", label: "Reserve" },
+  ],
+  createdAt: "2024-05-01T00:00:00.000Z",
+  updatedAt: "2024-05-01T00:00:00.000Z",
+};
+
+function analyzeRequest(id: string) {
+  const request = new NextRequest(`http://localhost/api/v1/portfolio/${id}/analyze`);
+  return GET(request, { params: Promise.resolve({ id }) });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.clearAllMocks();
+});
+
+describe("GET /api/portfolio/:id/analyze", () => {
+  it("counts every wallet towards its own analyze limit", async () => {
+    vi.stubEnv("RATE_LIMIT_TARGET_MAX_REQUESTS", "1");
+    vi.mocked(getPortfolio).mockImplementation(async (id) => ({ ...PORTFOLIO, id }));
+    vi.mocked(analyzePortfolio).mockResolvedValue({ tokens: [] } as unknown as PortfolioAnalysis);
+
+    // A second portfolio holding the same wallets has a fresh portfolio window of its own.
+    const first = await analyzeRequest("treasury");
+    const second = await analyzeRequest("treasury-copy");
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(429);
+    expect(await second.json()).toMatchObject({ error: { code: "rate_limited" } });
+    expect(second.headers.get("Retry-After")).not.toBeNull();
+    expect(analyzePortfolio).toHaveBeenCalledTimes(1);
+  });
+});
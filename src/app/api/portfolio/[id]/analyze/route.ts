@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analyzePortfolio, type PortfolioAnalysis } from "@/lib/analyze-portfolio";
+import { defaultCostBasisMethod } from "@/lib/analyze-wallet";
+import { isCostBasisMethod } from "@/lib/cost-basis";
+import { getPortfolio, PortfolioNotFoundError } from "@/lib/portfolios";
+import { createCache } from "@/lib/cache/cache";
+import { applyRateLimit, applyTargetRateLimit, denyRateLimit } from "@/app/api/_utils/rate-limit";
+import { apiProblem, describeError, errorResponse } from "@/app/api/_utils/errors";
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+const portfolioAnalyzeCache = createCache<PortfolioAnalysis>("portfolio-analyze", {
+  ttlMs: ONE_HOUR_MS,
+  staleWhileRevalidateMs: ONE_HOUR_MS,
+});
+
+type PortfolioAnalyzeRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: NextRequest, { params }: PortfolioAnalyzeRouteContext) {
+  const { id } = await params;
+  const method = request.nextUrl.searchParams.get("method") ?? defaultCostBasisMethod();
+
+  if (!isCostBasisMethod(method)) {
+    return errorResponse(request, apiProblem("invalid_request", "method must be one of fifo, lifo or hifo"));
+  }
+
+  const rate = await applyRateLimit(request, {
+    scope: "portfolio-analyze",
+    target: id,
+  });
+
+  if (!rate.ok) {
+    return denyRateLimit(request, rate.responseHeaders);
+  }
+
+  let portfolio;
+  try {
+    portfolio = await getPortfolio(id);
+  } catch (error) {
+    if (error instanceof PortfolioNotFoundError) {
+      return errorResponse(request, apiProblem("not_found", error.message), rate.responseHeaders);
+    }
+    throw error;
+  }
+
+  // The request counts once against the caller's portfolio quota; every wallet in it also counts
+  // towards its own limit, shared with `/api/analyze`, so a portfolio cannot bypass it.
+  for (const wallet of portfolio.wallets) {
+    const walletRate = await applyTargetRateLimit(wallet.address, { scope: "analyze" });
+    if (!walletRate.ok) {
+      return denyRateLimit(request, walletRate.responseHeaders);
+    }
+  }
+
+  // Editing the wallet list changes `updatedAt`, which retires any cached analysis.
+  const cacheKey = `${portfolio.id}:${portfolio.updatedAt}:${method}`;
+
+  try {
+    const { value: analysis, status } = await portfolioAnalyzeCache.get(cacheKey, () =>
+      analyzePortfolio(portfolio, { costBasisMethod: method }),
+    );
+
+    rate.responseHeaders.set("X-Cache", status);
+
+    return NextResponse.json(analysis, { headers: rate.responseHeaders });
+  } catch (error) {
+    console.error("Unable to analyze portfolio", error);
+    return errorResponse(request, describeError(error, "failed to analyze portfolio"), rate.responseHeaders);
+  }
+}
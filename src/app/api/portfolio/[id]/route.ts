@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deletePortfolio,
+  getPortfolio,
+  PortfolioNotFoundError,
+  PortfolioValidationError,
+  updatePortfolio,
+} from "@/lib/portfolios";
+import { applyRateLimit, denyRateLimit } from "@/app/api/_utils/rate-limit";
+import { apiProblem, describeError, errorResponse } from "@/app/api/_utils/errors";
+
+type PortfolioRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: NextRequest, { params }: PortfolioRouteContext) {
+  const { id } = await params;
+  const rate = await applyRateLimit(request, { scope: "portfolio" });
+  if (!rate.ok) {
+    return denyRateLimit(request, rate.responseHeaders);
+  }
+
+  try {
+    const portfolio = await getPortfolio(id);
+    return NextResponse.json(portfolio, { headers: rate.responseHeaders });
+  } catch (error) {
+    return handlePortfolioError(request, error, rate.responseHeaders);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: PortfolioRouteContext) {
+  const { id } = await params;
+  const rate = await applyRateLimit(request, { scope: "portfolio" });
+  if (!rate.ok) {
+    return denyRateLimit(request, rate.responseHeaders);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(request, apiProblem("invalid_request", "request body must be JSON"), rate.responseHeaders);
+  }
+
+  try {
+    const portfolio = await updatePortfolio(id, (body ?? {}) as Record<string, unknown>);
+    return NextResponse.json(portfolio, { headers: rate.responseHeaders });
+  } catch (error) {
+    return handlePortfolioError(request, error, rate.responseHeaders);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: PortfolioRouteContext) {
+  const { id } = await params;
+  const rate = await applyRateLimit(request, { scope: "portfolio" });
+  if (!rate.ok) {
+    return denyRateLimit(request, rate.responseHeaders);
+  }
+
+  try {
+    await deletePortfolio(id);
+    return new NextResponse(null, { status: 204, headers: rate.responseHeaders });
+  } catch (error) {
+    return handlePortfolioError(request, error, rate.responseHeaders);
+  }
+}
+
+function handlePortfolioError(request: NextRequest, error: unknown, headers: Headers) {
+  if (error instanceof PortfolioNotFoundError) {
+    return errorResponse(request, apiProblem("not_found", error.message), headers);
+  }
+  if (error instanceof PortfolioValidationError) {
+    return errorResponse(request, apiProblem("invalid_request", error.message), headers);
+  }
+
+  console.error("Portfolio request failed", error);
+  return errorResponse(request, describeError(error, "portfolio request failed"), headers);
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createPortfolio, listPortfolios, PortfolioValidationError } from "@/lib/portfolios";
+import { applyRateLimit, denyRateLimit } from "@/app/api/_utils/rate-limit";
+import { apiProblem, describeError, errorResponse } from "@/app/api/_utils/errors";
+
+export async function GET(request: NextRequest) {
+  const rate = await applyRateLimit(request, { scope: "portfolio" });
+  if (!rate.ok) {
+    return denyRateLimit(request, rate.responseHeaders);
+  }
+
+  try {
+    const portfolios = await listPortfolios();
+    return NextResponse.json({ portfolios }, { headers: rate.responseHeaders });
+  } catch (error) {
+    console.error("Unable to list portfolios", error);
+    return errorResponse(request, describeError(error, "failed to list portfolios"), rate.responseHeaders);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const rate = await applyRateLimit(request, { scope: "portfolio" });
+  if (!rate.ok) {
+    return denyRateLimit(request, rate.responseHeaders);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(request, apiProblem("invalid_request", "request body must be JSON"), rate.responseHeaders);
+  }
+
+  try {
+    const portfolio = await createPortfolio((body ?? {}) as Record<string, unknown>);
+    return NextResponse.json(portfolio, { status: 201, headers: rate.responseHeaders });
+  } catch (error) {
+    if (error instanceof PortfolioValidationError) {
+      return errorResponse(request, apiProblem("invalid_request", error.message), rate.responseHeaders);
+    }
+    console.error("Unable to create portfolio", error);
+    return errorResponse(request, describeError(error, "failed to create portfolio"), rate.responseHeaders);
+  }
+}
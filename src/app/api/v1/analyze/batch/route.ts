@@ -0,0 +1 @@
+export { POST } from "@/app/api/analyze/batch/route";
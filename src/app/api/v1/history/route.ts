@@ -0,0 +1 @@
+export { GET } from "@/app/api/history/route";
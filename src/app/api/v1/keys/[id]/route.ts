@@ -0,0 +1 @@
+export { DELETE } from "@/app/api/keys/[id]/route";
@@ -0,0 +1 @@
+export { GET, PUT, DELETE } from "@/app/api/portfolio/[id]/route";
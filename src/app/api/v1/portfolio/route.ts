@@ -0,0 +1 @@
+export { GET, POST } from "@/app/api/portfolio/route";
@@ -0,0 +1,26 @@
+import type { Metadata } from "next";
+import WalletAnalyzerPage from "@/components/wallet-analyzer-page";
+import { getPortfolio } from "@/lib/portfolios";
+
+type PortfolioPageParams = Promise<{ id: string }>;
+
+type PortfolioPageProps = {
+  params: PortfolioPageParams;
+};
+
+export async function generateMetadata({ params }: PortfolioPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const name = await getPortfolio(decodeURIComponent(id))
+    .then((portfolio) => portfolio.name)
+    .catch(() => "Portfolio");
+
+  return {
+    title: `${name} | Qerun Wallet Analyzer`,
+  };
+}
+
+export default async function PortfolioPage({ params }: PortfolioPageProps) {
+  const { id } = await params;
+
+  return <WalletAnalyzerPage portfolioId={decodeURIComponent(id)} />;
+}
@@ -1,4 +1,4 @@
-import { render, screen, waitFor } from "@testing-library/react";
+import { act, render, screen, waitFor, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import WalletAnalyzerPage from "../wallet-analyzer-page";
 import { vi } from "vitest";
@@ -8,6 +8,7 @@ describe("WalletAnalyzerPage", () => {
 
   afterEach(() => {
     vi.restoreAllMocks();
+    vi.unstubAllGlobals();
     if (originalFetch) {
       global.fetch = originalFetch;
     } else {
@@ -28,12 +29,15 @@ describe("WalletAnalyzerPage", () => {
 
   it("renders analysis and history details when the API calls succeed", async () => {
     const analyzeResponse = {
+      address: "0xabc123def4567890",
       summary: {
         netWorth: 250_000,
         netWorthChange: 5_000,
         netWorthChangePct: 2.5,
         realizedPnl: 12_000,
         realizedPnlPct: 4.2,
+        unrealizedPnl: 31_415,
+        unrealizedPnlPct: 18.7,
         riskLevel: "Moderate" as const,
       },
       tokens: [
@@ -43,6 +47,11 @@ describe("WalletAnalyzerPage", () => {
           valueUsd: 150_000,
           change24h: 3.12,
           allocationPct: 60.5,
+          amount: 1_000,
+          decimals: 18,
+          costBasisUsd: 120_000,
+          unrealizedPnlUsd: 30_000,
+          realizedPnlUsd: 0,
         },
         {
           symbol: "USDC",
@@ -50,6 +59,11 @@ describe("WalletAnalyzerPage", () => {
           valueUsd: 80_000,
           change24h: 0.5,
           allocationPct: 32.2,
+          amount: 80_000,
+          decimals: 6,
+          costBasisUsd: null,
+          unrealizedPnlUsd: null,
+          realizedPnlUsd: null,
         },
       ],
       insights: [
@@ -61,16 +75,25 @@ describe("WalletAnalyzerPage", () => {
       ],
       meta: {
         source: "moralis",
+        isFallback: false,
+        providers: { "ethereum-mainnet": "moralis" },
+        degradedNetworks: [],
+        networks: [],
+        costBasis: { method: "hifo" as const, available: true },
       },
     };
 
     const historyResponse = {
+      address: "0xabc123def4567890",
       history: [
         {
           hash: "0xabc",
           timestamp: "2024-05-04T12:00:00Z",
           direction: "in" as const,
+          type: "transfer" as const,
+          legs: [],
           valueUsd: 123.45,
+          amount: 0.04,
           symbol: "ETH",
           counterparty: "0xabcdefabcdefabcdefabcdefabcdefabcdef",
           chain: "Ethereum",
@@ -78,8 +101,36 @@ describe("WalletAnalyzerPage", () => {
           explorerUrl: "https://etherscan.io/tx/0xabc",
         },
       ],
+      nextCursor: null,
+      summary: { inflowUsd: 123.45, outflowUsd: 0, internalTransferUsd: 0 },
       meta: {
         source: "moralis",
+        isFallback: false,
+        providers: { "ethereum-mainnet": "moralis" },
+        degradedNetworks: [],
+        networks: [],
+      },
+    };
+
+    const netWorthResponse = {
+      address: "0xabc123def4567890",
+      range: "30d" as const,
+      points: [
+        { date: "2024-05-03", valueUsd: 240_000 },
+        { date: "2024-05-04", valueUsd: 250_000 },
+      ],
+      summary: {
+        startValueUsd: 240_000,
+        endValueUsd: 250_000,
+        changeUsd: 10_000,
+        changePct: 4.1667,
+      },
+      meta: {
+        source: "moralis",
+        isFallback: false,
+        providers: { "ethereum-mainnet": "moralis" },
+        degradedNetworks: [],
+        networks: [],
       },
     };
 
@@ -91,12 +142,15 @@ describe("WalletAnalyzerPage", () => {
 
     const fetchMock = vi.fn((input: RequestInfo | URL) => {
       const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
-      if (url.startsWith("/api/analyze")) {
+      if (url.startsWith("/api/v1/analyze")) {
         return Promise.resolve(mockJsonResponse(analyzeResponse));
       }
-      if (url.startsWith("/api/history")) {
+      if (url.startsWith("/api/v1/history")) {
         return Promise.resolve(mockJsonResponse(historyResponse));
       }
+      if (url.startsWith("/api/v1/networth")) {
+        return Promise.resolve(mockJsonResponse(netWorthResponse));
+      }
       return Promise.reject(new Error(`Unexpected fetch call to ${url}`));
     });
 
@@ -113,6 +167,9 @@ describe("WalletAnalyzerPage", () => {
     expect(await screen.findByText("$250,000")).toBeInTheDocument();
     expect(screen.getAllByText(/powered by moralis/i)).toHaveLength(2);
     expect(screen.getByText("QER")).toBeInTheDocument();
+    expect(screen.getByText("$31,415")).toBeInTheDocument();
+    expect(screen.getByText("HIFO cost basis")).toBeInTheDocument();
+    expect(screen.getByText("$30,000")).toBeInTheDocument();
     expect(await screen.findByText(/inbound transfer/i)).toBeInTheDocument();
     expect(screen.getByRole("link", { name: /view tx/i })).toHaveAttribute(
       "href",
@@ -122,13 +179,122 @@ describe("WalletAnalyzerPage", () => {
     await waitFor(() => {
       expect(fetchMock).toHaveBeenNthCalledWith(
         1,
-        "/api/analyze?address=0xabc123def4567890",
+        "/api/v1/analyze?address=0xabc123def4567890",
         expect.objectContaining({ cache: "no-store" }),
       );
     });
 
     await waitFor(() => {
-      expect(fetchMock).toHaveBeenNthCalledWith(2, "/api/history?address=0xabc123def4567890");
+      expect(fetchMock).toHaveBeenNthCalledWith(2, "/api/v1/history?address=0xabc123def4567890", expect.anything());
+    });
+
+    expect(await screen.findByText("Net Worth History")).toBeInTheDocument();
+    expect(await screen.findByText(/\+\$10,000/)).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith("/api/v1/networth?address=0xabc123def4567890&range=30d", expect.anything());
+
+    await user.click(screen.getByRole("button", { name: "90d" }));
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith("/api/v1/networth?address=0xabc123def4567890&range=90d", expect.anything());
+    });
+  });
+
+  it("renders holdings chain by chain while the analysis streams in", async () => {
+    const aero = (valueUsd: number) => ({
+      symbol: "AERO",
+      protocol: "Base",
+      valueUsd,
+      change24h: 0,
+      allocationPct: 0,
+      amount: 1000,
+      decimals: 18,
+      costBasisUsd: null,
+      unrealizedPnlUsd: null,
+      realizedPnlUsd: null,
+    });
+    const sources: FakeEventSource[] = [];
+    class FakeEventSource {
+      listeners = new Map<string, (event: MessageEvent<string>) => void>();
+      onerror: (() => void) | null = null;
+      closed = false;
+      constructor(public url: string) {
+        sources.push(this);
+      }
+      addEventListener(type: string, listener: (event: MessageEvent<string>) => void) {
+        this.listeners.set(type, listener);
+      }
+      emit(type: string, data: unknown) {
+        this.listeners.get(type)?.(new MessageEvent(type, { data: JSON.stringify(data) }));
+      }
+      close() {
+        this.closed = true;
+      }
+    }
+    vi.stubGlobal("EventSource", FakeEventSource);
+    global.fetch = vi.fn(() => new Promise<Response>(() => undefined)) as unknown as typeof fetch;
+
+    render(<WalletAnalyzerPage />);
+    const user = userEvent.setup();
+    await user.type(screen.getByLabelText(/wallet address or ens name/i), "0xabc123def4567890");
+    await user.click(screen.getByRole("button", { name: /run analysis/i }));
+
+    await waitFor(() => expect(sources).toHaveLength(1));
+    const [source] = sources;
+    expect(source.url).toBe("/api/v1/analyze/stream?address=0xabc123def4567890");
+
+    act(() => {
+      source.emit("network", { networkId: "base-mainnet", status: "loading" });
+      source.emit("network", { networkId: "solana-mainnet", status: "loading" });
+      source.emit("network", {
+        networkId: "base-mainnet",
+        status: "loaded",
+        provider: "coinbase",
+        tokens: [aero(900)],
+      });
+      source.emit("network", { networkId: "solana-mainnet", status: "failed", error: "rpc timeout" });
     });
+
+    const progress = screen.getByRole("list", { name: /network progress/i });
+    expect(within(progress).getByText("base-mainnet").parentElement).toHaveTextContent("done");
+    expect(within(progress).getByText("solana-mainnet").parentElement).toHaveTextContent("failed");
+    expect(screen.getByText("AERO")).toBeInTheDocument();
+    expect(screen.getByText("100.0%")).toBeInTheDocument();
+
+    act(() => {
+      source.emit("result", {
+        address: "0xabc123def4567890",
+        summary: {
+          netWorth: 950,
+          netWorthChange: 0,
+          netWorthChangePct: 0,
+          realizedPnl: 0,
+          realizedPnlPct: 0,
+          unrealizedPnl: 0,
+          unrealizedPnlPct: 0,
+          riskLevel: "Aggressive",
+        },
+        tokens: [aero(950)],
+        insights: [],
+        meta: {
+          source: "coinbase",
+          isFallback: false,
+          providers: { "base-mainnet": "coinbase" },
+          degradedNetworks: ["solana-mainnet"],
+          networks: [
+            { networkId: "base-mainnet", status: "ok", provider: "coinbase", itemCount: 1, error: null },
+            { networkId: "solana-mainnet", status: "timeout", provider: null, itemCount: 0, error: "rpc timeout" },
+          ],
+          costBasis: { method: "fifo", available: true },
+        },
+      });
+    });
+
+    expect(await screen.findByText(/analysis ready/i)).toBeInTheDocument();
+    expect(source.closed).toBe(true);
+    expect(screen.queryByRole("list", { name: /network progress/i })).not.toBeInTheDocument();
+    expect(screen.getByText(/degraded networks: solana-mainnet/i)).toBeInTheDocument();
+    const banner = screen.getByRole("alert");
+    expect(banner).toHaveTextContent("Totals are incomplete: 1 of 2 networks could not be loaded.");
+    expect(banner).toHaveTextContent("solana-mainnet — timed out: rpc timeout");
   });
 });
@@ -4,65 +4,48 @@ import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from "recharts";
-
-type SummaryMetrics = {
-  netWorth: number;
-  netWorthChange: number;
-  netWorthChangePct: number;
-  realizedPnl: number;
-  realizedPnlPct: number;
-  riskLevel: "Conservative" | "Moderate" | "Aggressive";
-};
-
-type TokenBreakdown = {
-  symbol: string;
-  protocol: string;
-  valueUsd: number;
-  change24h: number;
-  allocationPct: number;
-  amount: number;
-  decimals: number;
-};
+import {
+  PieChart,
+  Pie,
+  Cell,
+  ResponsiveContainer,
+  Tooltip,
+  Legend,
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { createApiClient } from "@/lib/api/client";
+import {
+  netWorthRangeSchema,
+  type AnalysisInsight,
+  type AnalysisProgress,
+  type AnalysisSummary,
+  type AnalysisToken,
+  type AnalyzeResponse,
+  type HistoryResponse,
+  type NetworkStatus,
+  type NetWorthRange,
+  type NetWorthResponse,
+  type PortfolioAnalysis,
+  type PortfolioWalletBreakdown,
+  type WalletTransaction,
+} from "@/lib/api/schemas";
 
-type Insight = {
-  title: string;
-  detail: string;
-  tone: "positive" | "warning" | "neutral";
-};
-
-type AnalyzeResponse = {
-  address?: string;
-  summary: SummaryMetrics;
-  tokens: TokenBreakdown[];
-  insights: Insight[];
-  meta?: {
-    source?: string;
-    isFallback?: boolean;
+/** What the dashboard renders from either a wallet or a portfolio analysis. */
+type AnalysisView = Pick<AnalyzeResponse, "summary" | "tokens" | "insights"> & {
+  meta: Pick<AnalyzeResponse["meta"], "source" | "isFallback" | "degradedNetworks" | "costBasis"> & {
+    /** Per-network outcome; a combined portfolio analysis does not report one. */
+    networks?: NetworkStatus[];
   };
 };
 
-type WalletHistoryItem = {
-  hash: string;
-  timestamp: string;
-  direction: "in" | "out" | "internal";
-  valueUsd: number | null;
-  amount: number | null;
-  symbol?: string | null;
-  counterparty?: string | null;
-  chain: string;
-  gasFeeUsd: number | null;
-  explorerUrl?: string;
-};
+type NetworkProgress = Extract<AnalysisProgress, { type: "network" }>;
 
-type HistoryResponse = {
-  address?: string;
-  history: WalletHistoryItem[];
-  meta?: {
-    source?: string;
-    isFallback?: boolean;
-  };
-};
+const api = createApiClient();
+
+const NET_WORTH_RANGES = netWorthRangeSchema.options;
 
 const currency = new Intl.NumberFormat("en-US", {
   style: "currency",
@@ -86,6 +69,12 @@ const dateTime = new Intl.DateTimeFormat("en-US", {
   timeStyle: "short",
 });
 
+const shortDate = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+  timeZone: "UTC",
+});
+
 // Color palette for pie chart
 const CHART_COLORS = [
   "#f7d976", // Qerun gold
@@ -100,18 +89,31 @@ const CHART_COLORS = [
   "#f7dc6f", // Light gold
 ];
 
-export default function WalletAnalyzerPage({ initialAddress = "" }: { initialAddress?: string }) {
+export default function WalletAnalyzerPage({
+  initialAddress = "",
+  portfolioId,
+}: {
+  initialAddress?: string;
+  portfolioId?: string;
+}) {
   const router = useRouter();
   const [address, setAddress] = useState(initialAddress);
-  const [result, setResult] = useState<AnalyzeResponse | null>(null);
-  const [analysisMeta, setAnalysisMeta] = useState<AnalyzeResponse["meta"] | null>(null);
+  const [result, setResult] = useState<AnalysisView | null>(null);
+  const [analysisMeta, setAnalysisMeta] = useState<AnalysisView["meta"] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeAddress, setActiveAddress] = useState<string | null>(null);
-  const [history, setHistory] = useState<WalletHistoryItem[]>([]);
+  const [history, setHistory] = useState<WalletTransaction[]>([]);
   const [historyLoading, setHistoryLoading] = useState(false);
   const [historyError, setHistoryError] = useState<string | null>(null);
   const [historyMeta, setHistoryMeta] = useState<HistoryResponse["meta"] | null>(null);
+  const [netWorthRange, setNetWorthRange] = useState<NetWorthRange>("30d");
+  const [netWorth, setNetWorth] = useState<NetWorthResponse | null>(null);
+  const [netWorthLoading, setNetWorthLoading] = useState(false);
+  const [netWorthError, setNetWorthError] = useState<string | null>(null);
+  const [portfolio, setPortfolio] = useState<PortfolioAnalysis | null>(null);
+  const [networkStates, setNetworkStates] = useState<Record<string, NetworkProgress>>({});
+  const [partialTokens, setPartialTokens] = useState<AnalysisToken[]>([]);
 
   const analyzeAddress = useCallback(
     async (input: string) => {
@@ -130,10 +132,31 @@ export default function WalletAnalyzerPage({ initialAddress = "" }: { initialAdd
       setHistory([]);
       setHistoryError(null);
       setHistoryMeta(null);
+      setNetWorth(null);
+      setNetWorthError(null);
+      setNetworkStates({});
+      setPartialTokens([]);
+
+      const handleProgress = (progress: AnalysisProgress) => {
+        if (progress.type === "prices") {
+          setPartialTokens(withAllocation(progress.tokens));
+          return;
+        }
+
+        setNetworkStates((current) => ({ ...current, [progress.networkId]: progress }));
+        if (progress.status === "loaded" && progress.tokens.length > 0) {
+          setPartialTokens((current) => withAllocation([...current, ...progress.tokens]));
+        }
+      };
 
       try {
-        const data = await fetchAnalysis(trimmed);
-        const normalizedAddress = data.address ?? trimmed;
+        assertAddressFormat(trimmed);
+        // Stream progress where the browser supports it; fall back to the plain JSON endpoint otherwise.
+        const data =
+          typeof EventSource === "undefined"
+            ? await api.analyze(trimmed)
+            : await api.streamAnalysis(trimmed, handleProgress);
+        const normalizedAddress = data.address;
         const pathAddress = trimmed.endsWith(".eth") ? trimmed : normalizedAddress;
 
         setResult(data);
@@ -147,6 +170,8 @@ export default function WalletAnalyzerPage({ initialAddress = "" }: { initialAdd
         setActiveAddress(null);
       } finally {
         setIsLoading(false);
+        setNetworkStates({});
+        setPartialTokens([]);
       }
     },
     [router],
@@ -169,6 +194,45 @@ export default function WalletAnalyzerPage({ initialAddress = "" }: { initialAdd
     analyzeAddress(initialAddress);
   }, [initialAddress, analyzeAddress]);
 
+  useEffect(() => {
+    if (!portfolioId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadPortfolio = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const data = await api.analyzePortfolio(portfolioId);
+        if (!cancelled) {
+          setPortfolio(data);
+          setResult(data);
+          setAnalysisMeta(data.meta ?? null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setPortfolio(null);
+          setResult(null);
+          setAnalysisMeta(null);
+          setError(err instanceof Error ? err.message : "Unable to analyze portfolio right now");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadPortfolio();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolioId]);
+
   useEffect(() => {
     if (!activeAddress) {
       setHistory([]);
@@ -182,16 +246,11 @@ export default function WalletAnalyzerPage({ initialAddress = "" }: { initialAdd
       setHistoryError(null);
 
       try {
-        const response = await fetch(`/api/history?address=${encodeURIComponent(activeAddress)}`);
-        if (!response.ok) {
-          throw new Error(`History request failed (${response.status})`);
-        }
-
-        const payload = (await response.json()) as HistoryResponse;
+        const payload = await api.history(activeAddress);
 
         if (!cancelled) {
-          setHistory(payload.history ?? []);
-          setHistoryMeta(payload.meta ?? null);
+          setHistory(payload.history);
+          setHistoryMeta(payload.meta);
         }
       } catch (err) {
         if (!cancelled) {
@@ -213,6 +272,43 @@ export default function WalletAnalyzerPage({ initialAddress = "" }: { initialAdd
     };
   }, [activeAddress]);
 
+  useEffect(() => {
+    if (!activeAddress) {
+      setNetWorth(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadNetWorth = async () => {
+      setNetWorthLoading(true);
+      setNetWorthError(null);
+
+      try {
+        const payload = await api.netWorth(activeAddress, netWorthRange);
+
+        if (!cancelled) {
+          setNetWorth(payload);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setNetWorth(null);
+          setNetWorthError(err instanceof Error ? err.message : "Unable to fetch net worth history");
+        }
+      } finally {
+        if (!cancelled) {
+          setNetWorthLoading(false);
+        }
+      }
+    };
+
+    loadNetWorth();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeAddress, netWorthRange]);
+
   const statusPill = useMemo(() => {
     if (isLoading) {
       return { label: "Scanning", className: "bg-[#f7d976]/25 text-[#f9e7a9] border-[#f7d976]/40" };
@@ -271,7 +367,7 @@ export default function WalletAnalyzerPage({ initialAddress = "" }: { initialAdd
                 id="wallet-address"
                 value={address}
                 onChange={(event) => setAddress(event.target.value)}
-                placeholder="vitalik.eth or 0x..."
+                placeholder="vitalik.eth, 0x... or a Solana address"
                 className="w-full rounded-xl border border-[#f7d976]/20 bg-[#120806]/70 px-4 py-3 text-sm text-[#f9e7a9] placeholder:text-[#cdbd8b] focus:border-[#f7d976]/60 focus:outline-none focus:ring-2 focus:ring-[#f7d976]/40"
                 autoComplete="off"
                 disabled={isLoading}
@@ -284,21 +380,43 @@ export default function WalletAnalyzerPage({ initialAddress = "" }: { initialAdd
                 {isLoading ? "Analyzing" : "Run Analysis"}
               </button>
             </form>
+            {portfolio ? (
+              <p className="text-sm text-[#d4c49b]">
+                Portfolio <span className="font-semibold text-white">{portfolio.portfolio.name}</span> ·{" "}
+                {portfolio.wallets.length} wallets combined
+              </p>
+            ) : null}
             {error ? <p className="text-sm text-[#f9a9a9]">{error}</p> : null}
+            {isLoading ? <NetworkProgressList networks={networkStates} /> : null}
           </div>
         </div>
       </header>
 
       <main className="mx-auto max-w-6xl space-y-12 px-6 py-12">
         <SummarySection summary={result?.summary} loading={isLoading} meta={analysisMeta} />
-        <HoldingsSection tokens={result?.tokens ?? []} loading={isLoading} />
-        <InsightsSection insights={result?.insights ?? []} loading={isLoading} />
-        <HistorySection
-          history={history}
-          loading={historyLoading}
-          error={historyError}
-          meta={historyMeta}
+        <HoldingsSection
+          tokens={result?.tokens ?? partialTokens}
+          loading={isLoading && partialTokens.length === 0}
+          showNetWorth={!portfolioId}
+          netWorth={netWorth}
+          netWorthLoading={netWorthLoading}
+          netWorthError={netWorthError}
+          netWorthRange={netWorthRange}
+          onNetWorthRangeChange={setNetWorthRange}
         />
+        {portfolioId ? (
+          <PortfolioWalletsSection wallets={portfolio?.wallets ?? []} loading={isLoading} />
+        ) : null}
+        <InsightsSection insights={result?.insights ?? []} loading={isLoading} />
+        {portfolioId ? null : (
+          <HistorySection
+            address={activeAddress}
+            history={history}
+            loading={historyLoading}
+            error={historyError}
+            meta={historyMeta}
+          />
+        )}
       </main>
 
       <footer className="border-t border-[#f7d976]/20 bg-[#0c0503]/90 py-6">
@@ -323,9 +441,9 @@ function SummarySection({
   loading,
   meta,
 }: {
-  summary?: SummaryMetrics;
+  summary?: AnalysisSummary;
   loading: boolean;
-  meta: AnalyzeResponse["meta"] | null;
+  meta: AnalysisView["meta"] | null;
 }) {
   const items = summary
     ? [
@@ -341,6 +459,12 @@ function SummarySection({
           change: summary.realizedPnlPct >= 0 ? "Up" : "Down",
           changePct: summary.realizedPnlPct / 100,
         },
+        {
+          label: "Unrealized PnL",
+          value: currency.format(summary.unrealizedPnl),
+          change: meta?.costBasis ? `${meta.costBasis.method.toUpperCase()} cost basis` : "Cost basis",
+          changePct: summary.unrealizedPnlPct / 100,
+        },
         {
           label: "Risk Posture",
           value: summary.riskLevel,
@@ -367,7 +491,13 @@ function SummarySection({
       <p className="mt-2 text-sm text-[#d4c49b]">
         Key metrics across all supported chains including performance, realized gains, and risk stance.
       </p>
-      <div className="mt-6 grid gap-4 md:grid-cols-3">
+      {meta?.degradedNetworks && meta.degradedNetworks.length > 0 ? (
+        <p className="mt-2 text-xs text-[#f9c570]">
+          Degraded networks: {meta.degradedNetworks.join(", ")} — served by a fallback provider or missing from totals.
+        </p>
+      ) : null}
+      <IncompleteNetworksBanner networks={meta?.networks} title="Totals are incomplete" />
+      <div className="mt-6 grid gap-4 md:grid-cols-2 xl:grid-cols-4">
         {loading ? <SummarySkeleton /> : null}
         {!loading && items.length === 0 ? <EmptyState message="Run an analysis to populate your metrics." /> : null}
         {items.map((item) => (
@@ -390,7 +520,80 @@ function SummarySection({
   );
 }
 
-function HoldingsSection({ tokens, loading }: { tokens: TokenBreakdown[]; loading: boolean }) {
+function NetworkProgressList({ networks }: { networks: Record<string, NetworkProgress> }) {
+  const entries = Object.entries(networks);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="flex flex-wrap gap-2 text-xs" aria-label="Network progress">
+      {entries.map(([networkId, state]) => (
+        <li
+          key={networkId}
+          title={state.status === "failed" ? state.error : undefined}
+          className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 ${
+            state.status === "failed"
+              ? "border-[#f9a9a9]/40 text-[#f9a9a9]"
+              : state.status === "loaded"
+                ? "border-[#f7d976]/40 text-[#f9e7a9]"
+                : "animate-pulse border-[#f7d976]/20 text-[#cdbd8b]"
+          }`}
+        >
+          <span>{networkId}</span>
+          <span>{state.status === "loading" ? "loading" : state.status === "loaded" ? "done" : "failed"}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Warns when networks that failed or timed out are missing from what the section shows. */
+function IncompleteNetworksBanner({ networks, title }: { networks?: NetworkStatus[]; title: string }) {
+  const missing = networks?.filter((network) => network.status !== "ok") ?? [];
+  if (!networks || missing.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      role="alert"
+      className="mt-4 rounded-2xl border border-[#f9c570]/40 bg-[#2a1206]/70 p-4 text-sm text-[#f9c570]"
+    >
+      <p className="font-semibold">
+        {title}: {missing.length} of {networks.length} networks could not be loaded.
+      </p>
+      <ul className="mt-2 space-y-1 text-xs">
+        {missing.map((network) => (
+          <li key={network.networkId}>
+            {network.networkId} — {network.status === "timeout" ? "timed out" : "failed"}
+            {network.error ? `: ${network.error}` : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function HoldingsSection({
+  tokens,
+  loading,
+  showNetWorth,
+  netWorth,
+  netWorthLoading,
+  netWorthError,
+  netWorthRange,
+  onNetWorthRangeChange,
+}: {
+  tokens: AnalysisToken[];
+  loading: boolean;
+  showNetWorth: boolean;
+  netWorth: NetWorthResponse | null;
+  netWorthLoading: boolean;
+  netWorthError: string | null;
+  netWorthRange: NetWorthRange;
+  onNetWorthRangeChange: (range: NetWorthRange) => void;
+}) {
   return (
     <section className="grid gap-6 rounded-3xl border border-[#f7d976]/20 bg-[#1a0906]/75 p-8 shadow-[0_20px_40px_rgba(0,0,0,0.3)] backdrop-blur md:grid-cols-[1fr_1.1fr]">
       <div className="space-y-4">
@@ -407,7 +610,7 @@ function HoldingsSection({ tokens, loading }: { tokens: TokenBreakdown[]; loadin
             <ResponsiveContainer width="100%" height="100%">
               <PieChart>
                 <Pie
-                  data={tokens.map((token: TokenBreakdown) => ({
+                  data={tokens.map((token: AnalysisToken) => ({
                     name: `${token.symbol} (${token.protocol})`,
                     value: token.allocationPct,
                     amount: currencyDetailed.format(token.valueUsd),
@@ -419,7 +622,7 @@ function HoldingsSection({ tokens, loading }: { tokens: TokenBreakdown[]; loadin
                   paddingAngle={2}
                   dataKey="value"
                 >
-                  {tokens.map((_: TokenBreakdown, index: number) => (
+                  {tokens.map((_: AnalysisToken, index: number) => (
                     <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
                   ))}
                 </Pie>
@@ -448,6 +651,15 @@ function HoldingsSection({ tokens, loading }: { tokens: TokenBreakdown[]; loadin
             </div>
           )}
         </div>
+        {showNetWorth ? (
+          <NetWorthChart
+            data={netWorth}
+            loading={loading || netWorthLoading}
+            error={netWorthError}
+            range={netWorthRange}
+            onRangeChange={onNetWorthRangeChange}
+          />
+        ) : null}
       </div>
       <div>
         <h3 className="text-sm font-semibold uppercase tracking-[0.2em] text-[#f7d976]">Top Positions</h3>
@@ -459,13 +671,14 @@ function HoldingsSection({ tokens, loading }: { tokens: TokenBreakdown[]; loadin
                 <th className="px-4 py-3 text-right font-medium">Amount</th>
                 <th className="px-4 py-3 text-right font-medium">Value</th>
                 <th className="px-4 py-3 text-right font-medium">24h</th>
+                <th className="px-4 py-3 text-right font-medium">Unrealized</th>
                 <th className="px-4 py-3 text-right font-medium">Allocation</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-[#f7d976]/10 bg-[#1a0906]/80 text-[#eadfb7]">
               {loading ? (
                 <tr>
-                  <td className="px-4 py-4 text-sm" colSpan={5}>
+                  <td className="px-4 py-4 text-sm" colSpan={6}>
                     <div className="animate-pulse space-y-2">
                       <div className="h-3 rounded bg-[#f7d976]/20" />
                       <div className="h-3 rounded bg-[#f7d976]/10" />
@@ -474,7 +687,7 @@ function HoldingsSection({ tokens, loading }: { tokens: TokenBreakdown[]; loadin
                 </tr>
               ) : tokens.length === 0 ? (
                 <tr>
-                  <td className="px-4 py-4 text-sm text-[#cdbd8b]" colSpan={5}>
+                  <td className="px-4 py-4 text-sm text-[#cdbd8b]" colSpan={6}>
                     Run an analysis to see per-asset allocations.
                   </td>
                 </tr>
@@ -497,6 +710,18 @@ function HoldingsSection({ tokens, loading }: { tokens: TokenBreakdown[]; loadin
                       {token.change24h >= 0 ? "+" : ""}
                       {token.change24h.toFixed(2)}%
                     </td>
+                    <td
+                      className={`px-4 py-3 text-right ${
+                        token.unrealizedPnlUsd == null
+                          ? "text-[#cdbd8b]"
+                          : token.unrealizedPnlUsd >= 0
+                            ? "text-[#7ef7bf]"
+                            : "text-[#f9a9a9]"
+                      }`}
+                      title={token.costBasisUsd != null ? `Cost basis ${currency.format(token.costBasisUsd)}` : undefined}
+                    >
+                      {token.unrealizedPnlUsd == null ? "—" : currency.format(token.unrealizedPnlUsd)}
+                    </td>
                     <td className="px-4 py-3 text-right text-[#f7d976]">{token.allocationPct.toFixed(1)}%</td>
                   </tr>
                 ))
@@ -509,7 +734,173 @@ function HoldingsSection({ tokens, loading }: { tokens: TokenBreakdown[]; loadin
   );
 }
 
-function InsightsSection({ insights, loading }: { insights: Insight[]; loading: boolean }) {
+function NetWorthChart({
+  data,
+  loading,
+  error,
+  range,
+  onRangeChange,
+}: {
+  data: NetWorthResponse | null;
+  loading: boolean;
+  error: string | null;
+  range: NetWorthRange;
+  onRangeChange: (range: NetWorthRange) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold uppercase tracking-[0.2em] text-[#f7d976]">Net Worth History</h3>
+          {data ? (
+            <p className={`mt-1 text-xs ${data.summary.changeUsd >= 0 ? "text-[#7ef7bf]" : "text-[#f9a9a9]"}`}>
+              {data.summary.changeUsd >= 0 ? "+" : "-"}
+              {currency.format(Math.abs(data.summary.changeUsd))} ({percentage.format(data.summary.changePct / 100)})
+            </p>
+          ) : null}
+        </div>
+        <div className="flex gap-1" role="group" aria-label="Net worth range">
+          {NET_WORTH_RANGES.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onRangeChange(option)}
+              aria-pressed={option === range}
+              className={`rounded-full border px-3 py-1 text-xs font-medium transition ${
+                option === range
+                  ? "border-transparent bg-[#f7d976] text-[#2d0e0e]"
+                  : "border-[#f7d976]/30 text-[#cdbd8b] hover:border-[#f7d976]/60"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="h-64 rounded-2xl border border-[#f7d976]/20 bg-[#120806]/70 p-4">
+        {loading ? (
+          <div className="flex h-full items-center justify-center text-sm text-[#cdbd8b]">
+            Loading history...
+          </div>
+        ) : error ? (
+          <div className="flex h-full items-center justify-center text-sm text-[#f9a9a9]">{error}</div>
+        ) : data && data.points.length > 0 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={data.points} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+              <defs>
+                <linearGradient id="netWorthFill" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#f7d976" stopOpacity={0.45} />
+                  <stop offset="95%" stopColor="#f7d976" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <XAxis
+                dataKey="date"
+                tickFormatter={(value: string) => shortDate.format(new Date(value))}
+                stroke="#cdbd8b"
+                fontSize={11}
+                minTickGap={24}
+              />
+              <YAxis
+                tickFormatter={(value: number) => currency.format(value)}
+                stroke="#cdbd8b"
+                fontSize={11}
+                width={80}
+              />
+              <Tooltip
+                formatter={(value: number) => [currencyDetailed.format(value), "Net worth"]}
+                labelFormatter={(value: string) => shortDate.format(new Date(value))}
+                contentStyle={{
+                  backgroundColor: '#120806',
+                  border: '1px solid #f7d976',
+                  borderRadius: '8px',
+                  color: '#f9e7a9'
+                }}
+              />
+              <Area type="monotone" dataKey="valueUsd" stroke="#f7d976" strokeWidth={2} fill="url(#netWorthFill)" />
+            </AreaChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="flex h-full items-center justify-center text-sm text-[#cdbd8b]">
+            No net worth history available
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PortfolioWalletsSection({
+  wallets,
+  loading,
+}: {
+  wallets: PortfolioWalletBreakdown[];
+  loading: boolean;
+}) {
+  return (
+    <section className="rounded-3xl border border-[#f7d976]/20 bg-[#1a0906]/75 p-8 shadow-[0_20px_40px_rgba(0,0,0,0.3)] backdrop-blur">
+      <h2 className="text-xl font-semibold text-white">Wallet Breakdown</h2>
+      <p className="mt-2 text-sm text-[#d4c49b]">Contribution of each wallet to the combined portfolio.</p>
+      <div className="mt-6 overflow-hidden rounded-2xl border border-[#f7d976]/20">
+        <table className="min-w-full divide-y divide-[#f7d976]/15 text-sm">
+          <thead className="bg-[#120806]/70 text-[#f9e7a9]">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium">Wallet</th>
+              <th className="px-4 py-3 text-right font-medium">Value</th>
+              <th className="px-4 py-3 text-right font-medium">24h</th>
+              <th className="px-4 py-3 text-right font-medium">Top asset</th>
+              <th className="px-4 py-3 text-right font-medium">Share</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#f7d976]/10 bg-[#1a0906]/80 text-[#eadfb7]">
+            {loading ? (
+              <tr>
+                <td className="px-4 py-4 text-sm" colSpan={5}>
+                  <div className="animate-pulse space-y-2">
+                    <div className="h-3 rounded bg-[#f7d976]/20" />
+                    <div className="h-3 rounded bg-[#f7d976]/10" />
+                  </div>
+                </td>
+              </tr>
+            ) : wallets.length === 0 ? (
+              <tr>
+                <td className="px-4 py-4 text-sm text-[#cdbd8b]" colSpan={5}>
+                  This portfolio has no wallets yet.
+                </td>
+              </tr>
+            ) : (
+              wallets.map((wallet) => (
+                <tr key={wallet.address}>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-col">
+                      <Link className="font-medium text-white hover:text-[#f7d976]" href={`/${encodeURIComponent(wallet.address)}`}>
+                        {wallet.label}
+                      </Link>
+                      <span className="text-xs text-[#cdbd8b]">
+                        {wallet.error ? wallet.error : shortenAddress(wallet.address)}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-right text-white">
+                    {wallet.error ? "—" : currency.format(wallet.netWorth)}
+                  </td>
+                  <td
+                    className={`px-4 py-3 text-right ${wallet.netWorthChange >= 0 ? "text-[#7ef7bf]" : "text-[#f9a9a9]"}`}
+                  >
+                    {wallet.error ? "—" : `${wallet.netWorthChange >= 0 ? "+" : "-"}${currency.format(Math.abs(wallet.netWorthChange))}`}
+                  </td>
+                  <td className="px-4 py-3 text-right text-[#cdbd8b]">{wallet.tokens[0]?.symbol ?? "—"}</td>
+                  <td className="px-4 py-3 text-right text-[#f7d976]">{wallet.allocationPct.toFixed(1)}%</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+function InsightsSection({ insights, loading }: { insights: AnalysisInsight[]; loading: boolean }) {
   return (
     <section className="grid gap-6 rounded-3xl border border-[#f7d976]/20 bg-[#1a0906]/80 p-8 shadow-[0_20px_40px_rgba(0,0,0,0.35)] backdrop-blur lg:grid-cols-[1.1fr_0.9fr]">
       <div className="space-y-4">
@@ -562,12 +953,14 @@ function InsightsSection({ insights, loading }: { insights: Insight[]; loading:
 }
 
 function HistorySection({
+  address,
   history,
   loading,
   error,
   meta,
 }: {
-  history: WalletHistoryItem[];
+  address: string | null;
+  history: WalletTransaction[];
   loading: boolean;
   error: string | null;
   meta: HistoryResponse["meta"] | null;
@@ -592,6 +985,10 @@ function HistorySection({
         ) : null}
       </div>
 
+      <IncompleteNetworksBanner networks={meta?.networks} title="History is incomplete" />
+
+      {address ? <ExportLinks address={address} /> : null}
+
       {error ? (
         <div className="mt-4 rounded-2xl border border-[#f9a9a9]/40 bg-[#2d0e0e]/70 p-4 text-sm text-[#f9a9a9]">
           {error}
@@ -621,9 +1018,24 @@ function HistorySection({
                 ) : null}
               </div>
               <div className="space-y-2 text-sm text-[#eadfb7]">
-                <p className="font-medium text-[#f7d976]">{directionLabel(tx.direction)}</p>
+                <p className="font-medium text-[#f7d976]">
+                  {tx.internalTransfer
+                    ? "Transfer between own wallets"
+                    : tx.type && tx.type !== "transfer"
+                      ? transactionTypeLabel(tx.type)
+                      : directionLabel(tx.direction)}
+                </p>
+                {tx.legs && tx.legs.length > 1 ? <p className="text-xs text-[#cdbd8b]">{formatLegs(tx.legs)}</p> : null}
+                {tx.method ? (
+                  <p className="font-mono text-xs text-[#cdbd8b]" title={tx.method.signature}>
+                    {tx.method.name}()
+                    <span className="ml-2 font-sans text-[#cdbd8b]/80">{tx.method.protocol}</span>
+                  </p>
+                ) : null}
                 <p>
-                  {formatCounterparty(tx.direction, tx.counterparty)}
+                  {tx.internalTransfer
+                    ? `${shortenAddress(tx.internalTransfer.from)} → ${shortenAddress(tx.internalTransfer.to)}`
+                    : formatCounterparty(tx.direction, tx.counterparty)}
                   <span className="ml-2 text-xs text-[#cdbd8b]">{tx.chain}</span>
                 </p>
                 <p className="text-xs text-[#cdbd8b]">
@@ -650,7 +1062,35 @@ function HistorySection({
   );
 }
 
-function badgeColor(tone: Insight["tone"]) {
+function ExportLinks({ address }: { address: string }) {
+  const exports = [
+    { kind: "holdings", format: "csv", label: "Holdings CSV" },
+    { kind: "holdings", format: "xlsx", label: "Holdings XLSX" },
+    { kind: "history", format: "csv", label: "History CSV" },
+    { kind: "history", format: "xlsx", label: "History XLSX" },
+    { kind: "koinly", format: "csv", label: "Koinly" },
+    { kind: "cointracker", format: "csv", label: "CoinTracker" },
+    { kind: "ledger", format: "csv", label: "Ledger" },
+  ];
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+      <span className="text-[#cdbd8b]">Download:</span>
+      {exports.map((entry) => (
+        <a
+          key={`${entry.kind}-${entry.format}`}
+          className="inline-flex items-center rounded-full border border-[#f7d976]/40 px-3 py-1 font-semibold text-[#f7d976] transition hover:border-[#f7d976] hover:text-[#f9e7a9]"
+          href={`/api/v1/export?address=${encodeURIComponent(address)}&kind=${entry.kind}&format=${entry.format}`}
+          download
+        >
+          {entry.label}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+function badgeColor(tone: AnalysisInsight["tone"]) {
   switch (tone) {
     case "positive":
       return "bg-[#153d2d] text-[#7ef7bf] border border-[#7ef7bf]/40";
@@ -661,7 +1101,7 @@ function badgeColor(tone: Insight["tone"]) {
   }
 }
 
-function toneLabel(tone: Insight["tone"]) {
+function toneLabel(tone: AnalysisInsight["tone"]) {
   switch (tone) {
     case "positive":
       return "Opportunity";
@@ -675,7 +1115,7 @@ function toneLabel(tone: Insight["tone"]) {
 function SummarySkeleton() {
   return (
     <>
-      {[0, 1, 2].map((key) => (
+      {[0, 1, 2, 3].map((key) => (
         <div key={key} className="animate-pulse rounded-2xl border border-[#f7d976]/10 bg-[#120806]/60 p-6">
           <div className="h-4 w-24 rounded bg-[#f7d976]/20" />
           <div className="mt-6 h-8 w-32 rounded bg-[#f7d976]/15" />
@@ -753,10 +1193,13 @@ function formatDataSource(source: string) {
   if (!source) {
     return "";
   }
-  return source.charAt(0).toUpperCase() + source.slice(1);
+  return source
+    .split("+")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" + ");
 }
 
-function directionLabel(direction: WalletHistoryItem["direction"]) {
+function directionLabel(direction: WalletTransaction["direction"]) {
   switch (direction) {
     case "in":
       return "Inbound transfer";
@@ -767,44 +1210,58 @@ function directionLabel(direction: WalletHistoryItem["direction"]) {
   }
 }
 
-function formatCounterparty(direction: WalletHistoryItem["direction"], counterparty?: string | null) {
+function transactionTypeLabel(type: WalletTransaction["type"]) {
+  switch (type) {
+    case "swap":
+      return "Swap";
+    case "bridge":
+      return "Bridge";
+    case "approve":
+      return "Token approval";
+    case "stake":
+      return "Stake";
+    case "unstake":
+      return "Unstake";
+    case "mint":
+      return "Mint";
+    case "airdrop":
+      return "Airdrop";
+    case "contract-call":
+      return "Contract call";
+    default:
+      return "Transfer";
+  }
+}
+
+function formatLegs(legs: NonNullable<WalletTransaction["legs"]>) {
+  return legs
+    .map((leg) => `${leg.direction === "in" ? "+" : "−"}${formatTokenAmount(leg.amount, leg.symbol) ?? leg.symbol ?? "?"}`)
+    .join(" · ");
+}
+
+function formatCounterparty(direction: WalletTransaction["direction"], counterparty?: string | null) {
   if (!counterparty) {
     return direction === "in" ? "From unknown counterparty" : direction === "out" ? "To unknown counterparty" : "Self interaction";
   }
 
-  const normalized = counterparty.length > 24 ? `${counterparty.slice(0, 10)}…${counterparty.slice(-6)}` : counterparty;
+  const normalized = shortenAddress(counterparty);
   return direction === "in" ? `From ${normalized}` : direction === "out" ? `To ${normalized}` : `Self: ${normalized}`;
 }
 
-async function fetchAnalysis(address: string): Promise<AnalyzeResponse> {
-  if (!address.match(/^(0x[a-fA-F0-9]{6,}|[\w-]+\.[a-z]+)$/)) {
-    throw new Error("Address looks incorrect. Try checksum hex or ENS.");
-  }
-
-  const response = await fetch(`/api/analyze?address=${encodeURIComponent(address)}`, {
-    cache: "no-store",
-  });
+function shortenAddress(address: string) {
+  return address.length > 24 ? `${address.slice(0, 10)}…${address.slice(-6)}` : address;
+}
 
-  if (!response.ok) {
-    const clone = response.clone();
-    let message = `Analysis request failed (${response.status})`;
-    try {
-      const payload = await clone.json();
-      if (payload?.error) {
-        message = payload.error;
-      }
-    } catch {
-      try {
-        const text = await clone.text();
-        if (text) {
-          message = text;
-        }
-      } catch {
-        // ignore
-      }
-    }
-    throw new Error(message);
+function assertAddressFormat(address: string) {
+  if (!address.match(/^(0x[a-fA-F0-9]{6,}|[1-9A-HJ-NP-Za-km-z]{32,44}|[\w-]+\.[a-z]+)$/)) {
+    throw new Error("Address looks incorrect. Try checksum hex, a Solana address or ENS.");
   }
+}
 
-  return (await response.json()) as AnalyzeResponse;
+/** Sorts rows by value and fills in their allocation share, for holdings shown before the analysis completes. */
+function withAllocation(tokens: AnalysisToken[]): AnalysisToken[] {
+  const total = tokens.reduce((acc, token) => acc + token.valueUsd, 0);
+  return tokens
+    .map((token) => ({ ...token, allocationPct: total > 0 ? (token.valueUsd / total) * 100 : 0 }))
+    .sort((a, b) => b.valueUsd - a.valueUsd);
 }
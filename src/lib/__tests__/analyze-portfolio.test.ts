@@ -0,0 +1,181 @@
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { analyzePortfolio } from "../analyze-portfolio";
+import type { Portfolio } from "../portfolios";
+import { fetchCoinGeckoPriceHistory, fetchCoinGeckoPrices } from "../pricing/coingecko";
+import { fetchWalletBalances } from "../providers/registry";
+import { getWalletHistory } from "../wallet-history";
+
+vi.mock("../providers/registry", () => ({
+  fetchWalletBalances: vi.fn(),
+}));
+
+vi.mock("../wallet-history", () => ({
+  getWalletHistory: vi.fn(),
+}));
+
+vi.mock("../pricing/coingecko", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../pricing/coingecko")>();
+  return {
+    ...actual,
+    fetchCoinGeckoPrices: vi.fn(),
+    fetchCoinGeckoPriceHistory: vi.fn(),
+  };
+});
+
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+const SCAM = "0x0000000000000000000000000000000000000bad";
+
+const PORTFOLIO: Portfolio = {
+  id: "treasury",
+  name: "Treasury",
+  wallets: [
+    { address: "0x1111111111111111111111111111111111111111", label: "Ops" },
+    { address: "0x2222222222222222222222222222222222222222", label: "Reserve" },
+    { address: "0x3333333333333333333333333333333333333333", label: "Broken" },
+  ],
+  createdAt: "2024-05-01T00:00:00.000Z",
+  updatedAt: "2024-05-01T00:00:00.000Z",
+};
+
+function balances(ethAmount: string, usdcAmount: string) {
+  return {
+    items: [
+      { network_id: "ethereum-mainnet", asset: { symbol: "ETH", decimals: 18 }, amount: ethAmount },
+      { network_id: "ethereum-mainnet", asset: { symbol: "USDC", decimals: 6, address: USDC }, amount: usdcAmount },
+    ],
+    source: "coinbase",
+    providers: { "ethereum-mainnet": "coinbase" },
+    degradedNetworks: [],
+    networks: [],
+  };
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe("analyzePortfolio", () => {
+  it("merges holdings across wallets and keeps a per-wallet breakdown", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.mocked(fetchWalletBalances).mockImplementation(async (address) => {
+      if (address === PORTFOLIO.wallets[0].address) {
+        return balances("1000000000000000000", "1000000000");
+      }
+      if (address === PORTFOLIO.wallets[1].address) {
+        return balances("2000000000000000000", "2000000000");
+      }
+      throw new Error("upstream unavailable");
+    });
+    vi.mocked(fetchCoinGeckoPrices).mockResolvedValue(
+      new Map([
+        ["native:eth", 3000],
+        [`token:eth:${USDC}`, 1],
+      ]),
+    );
+    vi.mocked(getWalletHistory).mockRejectedValue(new Error("history offline"));
+
+    const analysis = await analyzePortfolio(PORTFOLIO);
+
+    expect(analysis.summary.netWorth).toBeCloseTo(12_000);
+    expect(analysis.tokens.map((token) => [token.symbol, token.amount, token.allocationPct])).toEqual([
+      ["ETH", 3, 75],
+      ["USDC", 3000, 25],
+    ]);
+    expect(analysis.summary.riskLevel).toBe("Moderate");
+    expect(analysis.meta.failedWallets).toEqual([PORTFOLIO.wallets[2].address]);
+    expect(analysis.meta.costBasis.available).toBe(false);
+
+    const [ops, reserve, broken] = analysis.wallets;
+    expect(ops).toMatchObject({ label: "Ops", netWorth: 4000, error: null });
+    expect(ops.allocationPct).toBeCloseTo(33.33, 1);
+    expect(ops.tokens[0]).toMatchObject({ symbol: "ETH", allocationPct: 75 });
+    expect(reserve.netWorth).toBe(8000);
+    expect(broken).toMatchObject({ label: "Broken", netWorth: 0, error: "upstream unavailable" });
+  });
+
+  it("keeps tokens that only share a symbol in separate rows", async () => {
+    const bridged = "0x0000000000000000000000000000000000000b1d";
+    vi.mocked(fetchWalletBalances).mockImplementation(async (address) => {
+      const wallet = balances("1000000000000000000", "1000000000");
+      if (address !== PORTFOLIO.wallets[1].address) {
+        return wallet;
+      }
+      const [eth, usdc] = wallet.items;
+      return { ...wallet, items: [eth, { ...usdc, asset: { ...usdc.asset, address: bridged } }] };
+    });
+    vi.mocked(fetchCoinGeckoPrices).mockResolvedValue(
+      new Map([
+        ["native:eth", 3000],
+        [`token:eth:${USDC}`, 1],
+        [`token:eth:${bridged}`, 1],
+      ]),
+    );
+    vi.mocked(getWalletHistory).mockRejectedValue(new Error("history offline"));
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const analysis = await analyzePortfolio(PORTFOLIO);
+
+    expect(analysis.tokens.map((token) => [token.symbol, token.amount])).toEqual([
+      ["ETH", 3],
+      ["USDC", 2000],
+      ["USDC", 1000],
+    ]);
+  });
+
+  it("only asks for price histories of trusted assets with unpriced transfers", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.mocked(fetchWalletBalances).mockImplementation(async (address) => {
+      if (address !== PORTFOLIO.wallets[0].address) {
+        throw new Error("upstream unavailable");
+      }
+      const wallet = balances("1000000000000000000", "1000000000");
+      const scam = { network_id: "ethereum-mainnet", asset: { symbol: "USDC", address: SCAM, is_scam: true } };
+      return { ...wallet, items: [...wallet.items, { ...scam, amount: "1000" }] };
+    });
+    vi.mocked(fetchCoinGeckoPrices).mockResolvedValue(new Map([["native:eth", 3000]]));
+    vi.mocked(fetchCoinGeckoPriceHistory).mockResolvedValue(new Map());
+    const leg = { direction: "in" as const, from: null, to: null };
+    vi.mocked(getWalletHistory).mockResolvedValue({
+      history: [
+        {
+          hash: "0x1",
+          timestamp: "2024-05-01T00:00:00.000Z",
+          direction: "in",
+          type: "transfer",
+          legs: [
+            { ...leg, symbol: "ETH", amount: 1, valueUsd: null, contract: null },
+            { ...leg, symbol: "USDC", amount: 1000, valueUsd: 1000, contract: USDC },
+            { ...leg, symbol: "USDC", amount: 1000, valueUsd: null, contract: SCAM },
+          ],
+          valueUsd: null,
+          amount: 1,
+          symbol: "ETH",
+          chain: "eth",
+          gasFeeUsd: null,
+        },
+      ],
+      nextCursor: null,
+      summary: { inflowUsd: 1000, outflowUsd: 0, internalTransferUsd: 0 },
+      source: "coinbase",
+      isFallback: false,
+      providers: { "ethereum-mainnet": "coinbase" },
+      degradedNetworks: [],
+      networks: [],
+    });
+
+    await analyzePortfolio(PORTFOLIO);
+
+    expect(fetchCoinGeckoPriceHistory).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(fetchCoinGeckoPriceHistory).mock.calls[0][0]).toEqual([
+      expect.objectContaining({ asset: { symbol: "ETH", decimals: 18 } }),
+    ]);
+  });
+
+  it("fails when no wallet can be loaded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.mocked(fetchWalletBalances).mockRejectedValue(new Error("upstream unavailable"));
+
+    await expect(analyzePortfolio(PORTFOLIO)).rejects.toThrow("upstream unavailable");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it, afterEach, beforeEach, vi } from "vitest";
+import { analyzeWallet } from "../analyze-wallet";
+import { getWalletHistory } from "../wallet-history";
+
+// Replays the demo wallet recorded under fixtures/.
+const DEMO_WALLET = "0xdec0de0000000000000000000000000000000001";
+
+const ORIGINAL_FETCH = global.fetch;
+
+beforeEach(() => {
+  vi.stubEnv("FIXTURE_MODE", "replay");
+  vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet,base-mainnet");
+  global.fetch = vi.fn(() => Promise.reject(new Error("no network in replay"))) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  if (ORIGINAL_FETCH) {
+    global.fetch = ORIGINAL_FETCH;
+  } else {
+    // @ts-expect-error reset fetch when it was undefined
+    delete global.fetch;
+  }
+});
+
+describe("analyzeWallet", () => {
+  it("values recorded balances at recorded prices", async () => {
+    const analysis = await analyzeWallet(DEMO_WALLET);
+
+    expect(analysis.meta).toMatchObject({
+      source: "fixtures",
+      isFallback: false,
+      degradedNetworks: [],
+      costBasis: { method: "fifo", available: true },
+    });
+    const networks = analysis.meta.networks.map(({ networkId, status, itemCount }) => [networkId, status, itemCount]);
+    expect(networks).toEqual([
+      ["ethereum-mainnet", "ok", 2],
+      ["base-mainnet", "ok", 1],
+    ]);
+    const tokens = analysis.tokens.map(({ symbol, protocol, amount, valueUsd }) => ({ symbol, protocol, amount, valueUsd }));
+    expect(tokens).toEqual([
+      { symbol: "ETH", protocol: "eth", amount: 2.5, valueUsd: 8000 },
+      { symbol: "ETH", protocol: "base", amount: 0.4, valueUsd: 1280 },
+      { symbol: "USDC", protocol: "eth", amount: 1250, valueUsd: 1250 },
+    ]);
+    expect(analysis.summary.netWorth).toBe(10530);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("getWalletHistory", () => {
+  it("classifies recorded transactions newest first", async () => {
+    const { history, source, isFallback } = await getWalletHistory(DEMO_WALLET);
+
+    expect({ source, isFallback }).toEqual({ source: "fixtures", isFallback: false });
+    const rows = history.map(({ chain, direction, amount, valueUsd }) => ({ chain, direction, amount, valueUsd }));
+    expect(rows).toEqual([
+      { chain: "base", direction: "in", amount: 0.4, valueUsd: 1240 },
+      { chain: "eth", direction: "out", amount: 0.5, valueUsd: 1600 },
+      { chain: "eth", direction: "in", amount: 3, valueUsd: 10500 },
+    ]);
+  });
+});
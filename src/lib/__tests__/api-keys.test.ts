@@ -0,0 +1,63 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, it, afterEach, beforeEach, vi } from "vitest";
+import {
+  ApiKeyNotFoundError,
+  ApiKeyValidationError,
+  createApiKey,
+  getApiKeyUsage,
+  listApiKeys,
+  recordApiKeyUsage,
+  revokeApiKey,
+  verifyApiKey,
+} from "../api-keys";
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "api-keys-"));
+  vi.stubEnv("API_KEY_STORE_PATH", path.join(directory, "api-keys.sqlite"));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("API key store", () => {
+  it("issues, verifies and revokes keys without storing the secret", () => {
+    const { apiKey, secret } = createApiKey({ name: " Tax bot ", scopes: ["history", "export", "history"], tier: "pro" });
+
+    expect(apiKey).toMatchObject({ name: "Tax bot", scopes: ["history", "export"], tier: "pro", revokedAt: null });
+    expect(secret.startsWith(apiKey.prefix)).toBe(true);
+    expect(verifyApiKey(secret)?.id).toBe(apiKey.id);
+    expect(verifyApiKey(`${secret}x`)).toBeNull();
+    expect(JSON.stringify(listApiKeys())).not.toContain(secret);
+
+    expect(revokeApiKey(apiKey.id).revokedAt).not.toBeNull();
+    expect(verifyApiKey(secret)).toBeNull();
+    expect(() => revokeApiKey("missing")).toThrow(ApiKeyNotFoundError);
+  });
+
+  it("rejects unknown scopes", () => {
+    expect(() => createApiKey({ name: "Bot", scopes: ["analyze", "admin"] })).toThrow(ApiKeyValidationError);
+    expect(() => createApiKey({ name: "Bot", scopes: [] })).toThrow(/scopes/);
+  });
+
+  it("counts requests per key and UTC day", () => {
+    const { apiKey } = createApiKey({ name: "Dashboard", scopes: ["analyze"] });
+    const today = new Date();
+    const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+
+    recordApiKeyUsage(apiKey.id, today);
+    recordApiKeyUsage(apiKey.id, today);
+    recordApiKeyUsage(apiKey.id, yesterday);
+
+    expect(getApiKeyUsage(2)).toEqual([
+      { keyId: apiKey.id, day: today.toISOString().slice(0, 10), requests: 2 },
+      { keyId: apiKey.id, day: yesterday.toISOString().slice(0, 10), requests: 1 },
+    ]);
+    expect(getApiKeyUsage(1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { normalizeChain } from "../chains";
+
+describe("normalizeChain", () => {
+  it("maps Coinbase network IDs, chain IDs and aliases to one slug", () => {
+    expect(["avalanche-mainnet", "43114", "eip155:43114", "Avalanche"].map(normalizeChain)).toEqual([
+      "avalanche",
+      "avalanche",
+      "avalanche",
+      "avalanche",
+    ]);
+    expect(normalizeChain("arbitrum-mainnet")).toBe("arbitrum");
+    expect(normalizeChain("base-sepolia")).toBe("base-sepolia");
+    expect(["59144", "eip155:59144", "linea-mainnet"].map(normalizeChain)).toEqual(["linea", "linea", "linea"]);
+  });
+
+  it("treats a missing network as Ethereum and keeps unknown ones as they are", () => {
+    expect(normalizeChain(null)).toBe("eth");
+    expect(normalizeChain("Mystery-Chain")).toBe("mystery-chain");
+    // 1101 is Polygon zkEVM, which is not supported.
+    expect(normalizeChain("1101")).toBe("1101");
+  });
+});
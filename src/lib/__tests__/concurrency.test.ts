@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { settleWithConcurrency } from "../concurrency";
+
+describe("settleWithConcurrency", () => {
+  it("caps tasks in flight and keeps results in input order", async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await settleWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running -= 1;
+      if (index === 2) {
+        throw new Error("boom");
+      }
+      return delay * 2;
+    });
+
+    expect(peak).toBe(2);
+    expect(results).toEqual([
+      { status: "fulfilled", value: 60 },
+      { status: "fulfilled", value: 20 },
+      { status: "rejected", reason: new Error("boom") },
+      { status: "fulfilled", value: 0 },
+      { status: "fulfilled", value: 10 },
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { computeCostBasis, costBasisKey, evaluatePosition, type CostBasisMethod } from "../cost-basis";
+import type { WalletTransaction } from "../wallet-history";
+
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+
+function transfer(
+  timestamp: string,
+  direction: WalletTransaction["direction"],
+  amount: number,
+  valueUsd: number | null,
+  symbol = "ETH",
+): WalletTransaction {
+  return {
+    hash: `0x${timestamp}`,
+    timestamp,
+    direction,
+    type: "transfer",
+    legs: [],
+    valueUsd,
+    amount,
+    symbol,
+    chain: "Ethereum",
+    gasFeeUsd: null,
+  };
+}
+
+// Bought 1 @ 1000, 1 @ 3000, 1 @ 2000, then sold 1 @ 2500. 2 ETH remain, priced at 2200 today.
+const HISTORY = [
+  transfer("2024-04-01T00:00:00Z", "out", 1, 2500),
+  transfer("2024-01-01T00:00:00Z", "in", 1, 1000),
+  transfer("2024-03-01T00:00:00Z", "in", 1, 2000),
+  transfer("2024-02-01T00:00:00Z", "in", 1, 3000),
+];
+
+describe("computeCostBasis", () => {
+  it.each<[CostBasisMethod, number, number]>([
+    ["fifo", 1500, 5000],
+    ["lifo", 500, 4000],
+    ["hifo", -500, 3000],
+  ])("matches disposals using %s", (method, realized, openCost) => {
+    const basis = computeCostBasis(HISTORY, method).get(costBasisKey("Ethereum", null, "eth"));
+
+    expect(basis?.realizedPnlUsd).toBeCloseTo(realized);
+    expect(basis?.openAmount).toBeCloseTo(2);
+    expect(basis?.openCostUsd).toBeCloseTo(openCost);
+
+    const position = evaluatePosition(basis, 2, 4400, method);
+    expect(position.costBasisUsd).toBeCloseTo(openCost);
+    expect(position.unrealizedPnlUsd).toBeCloseTo(4400 - openCost);
+  });
+
+  it("prices transfers without a recorded USD value from the lookup", () => {
+    const basis = computeCostBasis(
+      [transfer("2024-01-01T00:00:00Z", "in", 2, null), transfer("2024-02-01T00:00:00Z", "out", 1, null)],
+      "fifo",
+      (chain, contract, symbol, timestamp) => (timestamp < Date.parse("2024-01-15T00:00:00Z") ? 100 : 150),
+    ).get(costBasisKey("Ethereum", null, "ETH"));
+
+    expect(basis?.realizedPnlUsd).toBeCloseTo(50);
+    expect(basis?.openCostUsd).toBeCloseTo(100);
+  });
+
+  it("keeps lots and disposals without any known price unpriced", () => {
+    const basis = computeCostBasis(
+      [
+        transfer("2024-01-01T00:00:00Z", "in", 1, null),
+        transfer("2024-02-01T00:00:00Z", "in", 1, 2000),
+        transfer("2024-03-01T00:00:00Z", "out", 1, 2500),
+      ],
+      "fifo",
+    ).get(costBasisKey("Ethereum", null, "ETH"));
+
+    expect(basis?.lots).toEqual([expect.objectContaining({ amount: 1, unitCostUsd: 2000 })]);
+    expect(basis?.realizedPnlUsd).toBeNull();
+    expect(basis?.disposedCostUsd).toBe(0);
+    expect(basis?.openCostUsd).toBe(2000);
+  });
+
+  it("ignores internal transfers and tracks disposals that predate the history", () => {
+    const basis = computeCostBasis(
+      [
+        transfer("2024-01-01T00:00:00Z", "in", 1, 1000),
+        transfer("2024-01-02T00:00:00Z", "internal", 5, 6000),
+        transfer("2024-01-03T00:00:00Z", "out", 3, 3600),
+      ],
+      "fifo",
+    ).get(costBasisKey("Ethereum", null, "ETH"));
+
+    expect(basis?.unmatchedAmount).toBeCloseTo(2);
+    expect(basis?.realizedPnlUsd).toBeCloseTo(200);
+    expect(basis?.openAmount).toBe(0);
+  });
+
+  it("closes lots of the asset sold and opens one of the asset bought in a swap", () => {
+    const leg = { contract: null, from: null, to: null };
+    const swap: WalletTransaction = {
+      ...transfer("2024-02-01T00:00:00Z", "out", 1, 3000),
+      type: "swap",
+      legs: [
+        { ...leg, direction: "out", symbol: "ETH", amount: 1, valueUsd: 3000 },
+        { ...leg, direction: "in", symbol: "USDC", amount: 3000, valueUsd: 3000, contract: USDC },
+      ],
+    };
+
+    const results = computeCostBasis([transfer("2024-01-01T00:00:00Z", "in", 1, 1000), swap], "fifo");
+
+    expect(results.get(costBasisKey("Ethereum", null, "ETH"))).toMatchObject({ openAmount: 0, realizedPnlUsd: 2000 });
+    expect(results.get(costBasisKey("Ethereum", USDC, "USDC"))).toMatchObject({ openAmount: 3000, openCostUsd: 3000 });
+  });
+
+  it("keeps tokens that share a symbol in separate lots", () => {
+    const leg = { direction: "in" as const, symbol: "USDC", amount: 100, from: null, to: null };
+    const receipt = (contract: string, valueUsd: number): WalletTransaction => ({
+      ...transfer("2024-01-01T00:00:00Z", "in", 100, valueUsd, "USDC"),
+      hash: contract,
+      legs: [{ ...leg, valueUsd, contract }],
+    });
+    const impostor = "0x0000000000000000000000000000000000000bad";
+
+    const results = computeCostBasis([receipt(USDC, 100), receipt(impostor, 0)], "fifo");
+
+    expect(results.get(costBasisKey("Ethereum", USDC.toUpperCase(), "USDC"))).toMatchObject({ openCostUsd: 100 });
+    expect(results.get(costBasisKey("Ethereum", impostor, "USDC"))).toMatchObject({ openCostUsd: 0 });
+  });
+});
+
+describe("evaluatePosition", () => {
+  it("drops surplus lots in method order when the wallet holds less than the replay", () => {
+    const basis = computeCostBasis(HISTORY, "fifo").get(costBasisKey("Ethereum", null, "ETH"));
+
+    const position = evaluatePosition(basis, 1, 2200, "fifo");
+
+    expect(position.costBasisUsd).toBeCloseTo(2000);
+    expect(position.unrealizedPnlUsd).toBeCloseTo(200);
+    expect(basis?.openAmount).toBeCloseTo(2);
+  });
+
+  it("only attributes unrealized PnL to the units with a known cost", () => {
+    const basis = computeCostBasis([transfer("2024-01-01T00:00:00Z", "in", 1, 1000)], "fifo").get(
+      costBasisKey("Ethereum", null, "ETH"),
+    );
+
+    const position = evaluatePosition(basis, 3, 6000, "fifo");
+
+    expect(position.costBasisUsd).toBeCloseTo(1000);
+    expect(position.unrealizedPnlUsd).toBeCloseTo(1000);
+  });
+
+  it("reports no cost basis while an unpriced lot is still held", () => {
+    const basis = computeCostBasis(
+      [transfer("2024-01-01T00:00:00Z", "in", 1, 1000), transfer("2024-02-01T00:00:00Z", "in", 1, null)],
+      "fifo",
+    ).get(costBasisKey("Ethereum", null, "ETH"));
+
+    expect(basis?.openCostUsd).toBeNull();
+    expect(evaluatePosition(basis, 2, 4000, "fifo")).toEqual({
+      costBasisUsd: null,
+      unrealizedPnlUsd: null,
+      realizedPnlUsd: 0,
+    });
+    // LIFO drops the unpriced lot as surplus, which leaves a known cost.
+    expect(evaluatePosition(basis, 1, 2000, "lifo").costBasisUsd).toBeCloseTo(1000);
+  });
+
+  it("reports no cost basis for assets without acquisitions", () => {
+    expect(evaluatePosition(undefined, 10, 10, "lifo")).toEqual({
+      costBasisUsd: null,
+      unrealizedPnlUsd: null,
+      realizedPnlUsd: 0,
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it, afterEach, beforeEach, vi } from "vitest";
+import { getNetWorthHistory, isNetWorthRange } from "../networth";
+import { fetchWalletBalances } from "../providers/registry";
+import { getWalletHistory } from "../wallet-history";
+import { fetchCoinGeckoPriceHistory } from "../pricing/coingecko";
+
+vi.mock("../providers/registry", () => ({
+  fetchWalletBalances: vi.fn(),
+}));
+
+vi.mock("../wallet-history", () => ({
+  getWalletHistory: vi.fn(),
+}));
+
+vi.mock("../pricing/coingecko", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../pricing/coingecko")>();
+  return {
+    ...actual,
+    fetchCoinGeckoPriceHistory: vi.fn(),
+  };
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 4, 10, 12);
+
+function day(offset: number) {
+  return Date.UTC(2024, 4, 10) - offset * DAY_MS;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.clearAllMocks();
+});
+
+describe("getNetWorthHistory", () => {
+  it("replays transactions backwards and values each day at historical prices", async () => {
+    vi.mocked(fetchWalletBalances).mockResolvedValue({
+      items: [
+        { network_id: "ethereum-mainnet", asset: { symbol: "ETH", decimals: 18 }, amount: "2000000000000000000" },
+        {
+          network_id: "ethereum-mainnet",
+          asset: { symbol: "USDC", decimals: 6, address: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48" },
+          amount: "500000000",
+        },
+      ],
+      source: "coinbase",
+      providers: { "ethereum-mainnet": "coinbase" },
+      degradedNetworks: [],
+      networks: [],
+    });
+
+    vi.mocked(getWalletHistory).mockResolvedValue({
+      history: [
+        {
+          hash: "0x1",
+          timestamp: new Date(day(1) + 3_600_000).toISOString(),
+          direction: "in",
+          type: "transfer",
+          legs: [],
+          valueUsd: 2000,
+          amount: 1,
+          symbol: "ETH",
+          chain: "eth",
+          gasFeeUsd: null,
+        },
+        {
+          hash: "0x2",
+          timestamp: new Date(day(2) + 3_600_000).toISOString(),
+          direction: "out",
+          type: "transfer",
+          legs: [],
+          valueUsd: 100,
+          amount: 100,
+          symbol: "USDC",
+          chain: "eth",
+          gasFeeUsd: null,
+        },
+      ],
+      nextCursor: null,
+      summary: { inflowUsd: 0, outflowUsd: 0, internalTransferUsd: 0 },
+      source: "coinbase",
+      isFallback: false,
+      providers: { "ethereum-mainnet": "coinbase" },
+      degradedNetworks: [],
+      networks: [],
+    });
+
+    vi.mocked(fetchCoinGeckoPriceHistory).mockResolvedValue(
+      new Map([
+        [
+          "native:eth",
+          [
+            [day(3), 1500],
+            [day(2), 1800],
+            [day(1), 2000],
+            [day(0), 2500],
+          ],
+        ],
+      ]),
+    );
+
+    const series = await getNetWorthHistory("0xabc", "30d");
+
+    expect(series.points).toHaveLength(31);
+    const byDate = Object.fromEntries(series.points.map((point) => [point.date, point.valueUsd]));
+
+    // Today: 2 ETH @ 2500 + 500 USDC priced from the wallet's own transfer.
+    expect(byDate["2024-05-10"]).toBeCloseTo(5500);
+    // Before the 1 ETH deposit on May 9: 1 ETH @ 2000 + 500 USDC.
+    expect(byDate["2024-05-08"]).toBeCloseTo(1800 + 500);
+    // Before the 100 USDC payment on May 8: 1 ETH @ 1500 + 600 USDC.
+    expect(byDate["2024-05-07"]).toBeCloseTo(1500 + 600);
+    expect(series.summary.endValueUsd).toBeCloseTo(5500);
+    expect(series.summary.changeUsd).toBeCloseTo(5500 - series.summary.startValueUsd);
+    expect(series.meta.degradedNetworks).toEqual([]);
+  });
+
+  it("undoes both sides of a swap", async () => {
+    vi.mocked(fetchWalletBalances).mockResolvedValue({
+      items: [
+        { network_id: "ethereum-mainnet", asset: { symbol: "ETH", decimals: 18 }, amount: "2000000000000000000" },
+        {
+          network_id: "ethereum-mainnet",
+          asset: { symbol: "USDC", decimals: 6, address: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48" },
+          amount: "500000000",
+        },
+      ],
+      source: "coinbase",
+      providers: { "ethereum-mainnet": "coinbase" },
+      degradedNetworks: [],
+      networks: [],
+    });
+    const leg = { contract: null, from: null, to: null };
+    vi.mocked(getWalletHistory).mockResolvedValue({
+      history: [
+        {
+          hash: "0x1",
+          timestamp: new Date(day(1) + 3_600_000).toISOString(),
+          direction: "out",
+          type: "swap",
+          legs: [
+            { ...leg, direction: "out", symbol: "USDC", amount: 1000, valueUsd: 1000 },
+            { ...leg, direction: "in", symbol: "ETH", amount: 0.5, valueUsd: 1000 },
+          ],
+          valueUsd: 1000,
+          amount: 1000,
+          symbol: "USDC",
+          chain: "eth",
+          gasFeeUsd: null,
+        },
+      ],
+      nextCursor: null,
+      summary: { inflowUsd: 0, outflowUsd: 0, internalTransferUsd: 0 },
+      source: "coinbase",
+      isFallback: false,
+      providers: { "ethereum-mainnet": "coinbase" },
+      degradedNetworks: [],
+      networks: [],
+    });
+    vi.mocked(fetchCoinGeckoPriceHistory).mockResolvedValue(new Map([["native:eth", [[day(30), 2000]]]]));
+
+    const series = await getNetWorthHistory("0xabc", "30d");
+    const byDate = Object.fromEntries(series.points.map((point) => [point.date, point.valueUsd]));
+
+    expect(byDate["2024-05-10"]).toBeCloseTo(2 * 2000 + 500);
+    // Before the swap the wallet held half an ETH less and 1000 USDC more.
+    expect(byDate["2024-05-08"]).toBeCloseTo(1.5 * 2000 + 1500);
+  });
+
+  it("falls back to a flat replay when history is unavailable", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.mocked(fetchWalletBalances).mockResolvedValue({
+      items: [{ network_id: "base-mainnet", asset: { symbol: "ETH", decimals: 18 }, amount: "1000000000000000000" }],
+      source: "rpc",
+      providers: { "base-mainnet": "rpc" },
+      degradedNetworks: [],
+      networks: [],
+    });
+    vi.mocked(getWalletHistory).mockRejectedValue(new Error("JSON-RPC provider cannot list address transactions"));
+    vi.mocked(fetchCoinGeckoPriceHistory).mockResolvedValue(new Map([["native:base", [[day(90), 3000]]]]));
+
+    const series = await getNetWorthHistory("0xabc", "90d");
+
+    expect(series.points).toHaveLength(91);
+    expect(series.points.every((point) => point.valueUsd === 3000)).toBe(true);
+    expect(series.meta.degradedNetworks).toEqual(["base-mainnet"]);
+  });
+});
+
+describe("isNetWorthRange", () => {
+  it("accepts the supported ranges only", () => {
+    expect(isNetWorthRange("30d")).toBe(true);
+    expect(isNetWorthRange("toString")).toBe(false);
+    expect(isNetWorthRange("__proto__")).toBe(false);
+    expect(isNetWorthRange(null)).toBe(false);
+  });
+});
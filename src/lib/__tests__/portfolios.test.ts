@@ -0,0 +1,72 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, it, afterEach, beforeEach, vi } from "vitest";
+import {
+  createPortfolio,
+  deletePortfolio,
+  getPortfolio,
+  listPortfolios,
+  PortfolioNotFoundError,
+  PortfolioValidationError,
+  updatePortfolio,
+} from "../portfolios";
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "portfolios-"));
+  vi.stubEnv("PORTFOLIO_STORE_PATH", path.join(directory, "portfolios.json"));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("portfolio store", () => {
+  it("creates, updates and deletes portfolios on disk", async () => {
+    expect(await listPortfolios()).toEqual([]);
+
+    const created = await createPortfolio({
+      name: " Treasury ",
+      wallets: [
+        { address: "0xA64BDE7944B03C5C8698EC31B48517D3DE0FD5A7", label: "Safe" },
+        "0xa64bde7944b03c5c8698ec31b48517d3de0fd5a7",
+        "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+      ],
+    });
+
+    expect(created.name).toBe("Treasury");
+    expect(created.wallets).toEqual([
+      { address: "0xa64bde7944b03c5c8698ec31b48517d3de0fd5a7", label: "Safe" },
+      {
+        address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+        label: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+      },
+    ]);
+    expect(await getPortfolio(created.id)).toEqual(created);
+
+    const updated = await updatePortfolio(created.id, {
+      name: "Treasury v2",
+      wallets: [{ address: "0x1111111111111111111111111111111111111111", label: "Ops" }],
+    });
+    expect(updated.wallets).toEqual([{ address: "0x1111111111111111111111111111111111111111", label: "Ops" }]);
+
+    const stored = JSON.parse(await readFile(path.join(directory, "portfolios.json"), "utf8"));
+    expect(stored.portfolios).toHaveLength(1);
+
+    await deletePortfolio(created.id);
+    await expect(getPortfolio(created.id)).rejects.toBeInstanceOf(PortfolioNotFoundError);
+  });
+
+  it("rejects invalid payloads", async () => {
+    await expect(createPortfolio({ wallets: ["0x1111111111111111111111111111111111111111"] })).rejects.toThrow(
+      "name is required",
+    );
+    await expect(createPortfolio({ name: "Empty", wallets: [] })).rejects.toBeInstanceOf(PortfolioValidationError);
+    await expect(createPortfolio({ name: "Typo", wallets: [{ address: "0x123" }] })).rejects.toThrow(
+      /^wallets\[0\]: Address must be/,
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it, afterEach, vi } from "vitest";
-import { resolveAddress, AddressResolutionError } from "../resolve-address";
+import { resolveAddress, AddressResolutionError, EnsResolutionError } from "../resolve-address";
 
 const ORIGINAL_FETCH = global.fetch;
 
@@ -20,6 +20,16 @@ describe("resolveAddress", () => {
     await expect(resolveAddress(input)).resolves.toBe("0xa64bde7944b03c5c8698ec31b48517d3de0fd5a7");
   });
 
+  it("keeps the case of base58 Solana addresses", async () => {
+    const input = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+
+    await expect(resolveAddress(input)).resolves.toBe(input);
+  });
+
+  it("rejects strings that are neither hex, base58 nor ENS", async () => {
+    await expect(resolveAddress("0OIl-not-a-wallet")).rejects.toBeInstanceOf(AddressResolutionError);
+  });
+
   it("resolves ENS names when API provides an address", async () => {
     const fetchMock = vi.fn(() =>
       Promise.resolve({
@@ -47,4 +57,18 @@ describe("resolveAddress", () => {
 
     await expect(resolveAddress("unknown.eth")).rejects.toBeInstanceOf(AddressResolutionError);
   });
+
+  it("marks ENS failures as retryable only when the lookup itself is unavailable", async () => {
+    global.fetch = vi.fn(() => Promise.resolve({ ok: false, status: 503 } as Response)) as unknown as typeof fetch;
+    await expect(resolveAddress("qerun.eth")).rejects.toMatchObject({
+      name: "EnsResolutionError",
+      ensName: "qerun.eth",
+      retryable: true,
+    });
+
+    global.fetch = vi.fn(() => Promise.resolve({ ok: false, status: 404 } as Response)) as unknown as typeof fetch;
+    const error = await resolveAddress("unknown.eth").catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(EnsResolutionError);
+    expect(error).toMatchObject({ retryable: false, message: "Unable to resolve ENS name to a wallet address" });
+  });
 });
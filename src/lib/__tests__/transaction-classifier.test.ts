@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { classifyTransaction, type ClassificationInput, type TransactionLeg } from "../transaction-classifier";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const ROUTER = "0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad";
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+function leg(direction: TransactionLeg["direction"], symbol: string, contract: string | null, counterparty: string) {
+  return {
+    direction,
+    symbol,
+    amount: 1,
+    valueUsd: null,
+    contract,
+    from: direction === "in" ? counterparty : WALLET,
+    to: direction === "in" ? WALLET : counterparty,
+  } satisfies TransactionLeg;
+}
+
+function classify(overrides: Partial<ClassificationInput>) {
+  return classifyTransaction({
+    address: WALLET,
+    legs: [],
+    fromAddress: WALLET,
+    toAddress: ROUTER,
+    methodSelector: null,
+    ...overrides,
+  });
+}
+
+describe("classifyTransaction", () => {
+  it("labels approvals by selector even without legs", () => {
+    expect(classify({ toAddress: USDC, methodSelector: "0x095ea7b3" })).toBe("approve");
+  });
+
+  it("labels a token out and a different token in as a swap", () => {
+    const legs = [leg("out", "ETH", null, ROUTER), leg("in", "USDC", USDC, ROUTER)];
+    expect(classify({ legs, methodSelector: "0x3593564c" })).toBe("swap");
+  });
+
+  it("recognizes known bridge and staking contracts", () => {
+    const bridge = "0x3154Cf16ccdb4C6d922629664174b904d80F2C35";
+    expect(classify({ toAddress: bridge, legs: [leg("out", "ETH", null, bridge)] })).toBe("bridge");
+
+    const lido = "0xae7ab96520de3a18e5e111b5eaab095312d7fe84";
+    const stEth = leg("in", "STETH", lido, ZERO);
+    expect(classify({ toAddress: lido, legs: [leg("out", "ETH", null, lido), stEth] })).toBe("stake");
+    expect(classify({ methodSelector: "0x2e17de78", legs: [leg("in", "ETH", null, ROUTER)] })).toBe("unstake");
+  });
+
+  it("labels tokens minted from the zero address", () => {
+    expect(classify({ legs: [leg("out", "ETH", null, ROUTER), leg("in", "NFT", ROUTER, ZERO)] })).toBe("mint");
+  });
+
+  it("labels unsolicited token drops as airdrops but keeps plain receipts as transfers", () => {
+    const distributor = "0x9999999999999999999999999999999999999999";
+    const deployer = "0x8888888888888888888888888888888888888888";
+    expect(classify({ fromAddress: deployer, toAddress: distributor, legs: [leg("in", "DROP", distributor, distributor)] })).toBe(
+      "airdrop",
+    );
+    expect(classify({ fromAddress: deployer, toAddress: USDC, legs: [leg("in", "USDC", USDC, deployer)] })).toBe("transfer");
+  });
+
+  it("falls back to contract-call or transfer", () => {
+    expect(classify({ methodSelector: "0x12345678" })).toBe("contract-call");
+    expect(classify({ methodSelector: "0xa9059cbb", legs: [leg("out", "USDC", USDC, ROUTER)] })).toBe("transfer");
+    expect(classify({ legs: [leg("out", "ETH", null, ROUTER)] })).toBe("transfer");
+  });
+});
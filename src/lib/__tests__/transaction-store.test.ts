@@ -0,0 +1,216 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, it, afterEach, beforeEach, vi } from "vitest";
+import { createMemoryTransactionStore, getTransactionStore, syncWalletTransactions } from "../transaction-store";
+import { fetchWalletTransactions, type Backfill } from "../providers/registry";
+import type { CoinbaseTransactionResource } from "../providers/coinbase";
+
+vi.mock("../providers/registry", () => ({
+  fetchWalletTransactions: vi.fn(),
+}));
+
+const WALLET = "0xA64BDE7944B03C5C8698EC31B48517D3DE0FD5A7";
+
+let directory: string;
+
+function transaction(hash: string, networkId: string, blockHeight: number, status = "success") {
+  return {
+    hash,
+    network_id: networkId,
+    block_height: blockHeight,
+    block_timestamp: new Date(Date.UTC(2024, 0, 1) + blockHeight * 1000).toISOString(),
+    status,
+  } satisfies CoinbaseTransactionResource;
+}
+
+function mockFetch(
+  items: CoinbaseTransactionResource[],
+  providers: Record<string, string>,
+  incomplete?: Record<string, Backfill>,
+) {
+  vi.mocked(fetchWalletTransactions).mockResolvedValueOnce({
+    items,
+    source: "coinbase",
+    providers,
+    degradedNetworks: [],
+    networks: [],
+    incomplete,
+  });
+}
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "transactions-"));
+  vi.stubEnv("TRANSACTION_STORE", "sqlite");
+  vi.stubEnv("TRANSACTION_STORE_PATH", path.join(directory, "transactions.sqlite"));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.clearAllMocks();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("syncWalletTransactions", () => {
+  it("only asks providers for blocks after the last sync and returns the stored history", async () => {
+    const providers = { "ethereum-mainnet": "coinbase", "base-mainnet": "coinbase" };
+    mockFetch(
+      [transaction("0x1", "ethereum-mainnet", 100), transaction("0x2", "ethereum-mainnet", 120), transaction("0x3", "base-mainnet", 50)],
+      providers,
+    );
+    await syncWalletTransactions(WALLET);
+
+    mockFetch(
+      [transaction("0x2", "ethereum-mainnet", 120, "confirmed"), transaction("0x4", "ethereum-mainnet", 130)],
+      providers,
+    );
+    const result = await syncWalletTransactions(WALLET.toLowerCase());
+
+    expect(fetchWalletTransactions).toHaveBeenNthCalledWith(1, WALLET, {}, {});
+    expect(fetchWalletTransactions).toHaveBeenNthCalledWith(
+      2,
+      WALLET.toLowerCase(),
+      { "ethereum-mainnet": 120, "base-mainnet": 50 },
+      {},
+    );
+    expect(result.items.map((item) => item.hash).sort()).toEqual(["0x1", "0x2", "0x3", "0x4"]);
+    expect(result.items.find((item) => item.hash === "0x2")?.status).toBe("confirmed");
+    expect(getTransactionStore()?.getSyncState(WALLET)).toEqual({ "ethereum-mainnet": 130, "base-mainnet": 50 });
+  });
+
+  it("leaves the sync state of networks that failed untouched", async () => {
+    mockFetch([transaction("0x1", "ethereum-mainnet", 100)], { "ethereum-mainnet": "coinbase" });
+    await syncWalletTransactions(WALLET);
+
+    // base-mainnet failed this time, so a stray record for it must not mark it as synced.
+    mockFetch([transaction("0x9", "base-mainnet", 900)], {});
+    await syncWalletTransactions(WALLET);
+
+    expect(getTransactionStore()?.getSyncState(WALLET)).toEqual({ "ethereum-mainnet": 100 });
+  });
+
+  it("keeps the sync state until a load cut off at the page cap has been resumed to the end", async () => {
+    const providers = { "ethereum-mainnet": "alchemy" };
+    mockFetch([transaction("0x1", "ethereum-mainnet", 100)], { "ethereum-mainnet": "coinbase" });
+    await syncWalletTransactions(WALLET);
+
+    mockFetch([transaction("0x5", "ethereum-mainnet", 500), transaction("0x4", "ethereum-mainnet", 400)], providers, {
+      "ethereum-mainnet": { provider: "alchemy", cursor: "page-2" },
+    });
+    await syncWalletTransactions(WALLET);
+    expect(getTransactionStore()?.getSyncState(WALLET)).toEqual({ "ethereum-mainnet": 100 });
+
+    mockFetch([transaction("0x3", "ethereum-mainnet", 300)], providers);
+    const result = await syncWalletTransactions(WALLET);
+
+    expect(fetchWalletTransactions).toHaveBeenNthCalledWith(
+      3,
+      WALLET,
+      { "ethereum-mainnet": 100 },
+      { "ethereum-mainnet": { provider: "alchemy", cursor: "page-2" } },
+    );
+    expect(result.items.map((item) => item.hash)).toEqual(["0x5", "0x4", "0x3", "0x1"]);
+    expect(getTransactionStore()?.getSyncState(WALLET)).toEqual({ "ethereum-mainnet": 500 });
+    expect(getTransactionStore()?.getBackfills(WALLET)).toEqual({});
+  });
+
+  it("shares one upstream fetch between concurrent syncs of a wallet", async () => {
+    mockFetch([transaction("0x1", "ethereum-mainnet", 100)], { "ethereum-mainnet": "coinbase" });
+
+    const [first, second] = await Promise.all([syncWalletTransactions(WALLET), syncWalletTransactions(WALLET)]);
+
+    expect(fetchWalletTransactions).toHaveBeenCalledTimes(1);
+    expect(second.items).toEqual(first.items);
+  });
+
+  it("fetches everything when the store is off", async () => {
+    vi.stubEnv("TRANSACTION_STORE", "off");
+    mockFetch([transaction("0x1", "ethereum-mainnet", 100)], { "ethereum-mainnet": "coinbase" });
+
+    await syncWalletTransactions(WALLET);
+
+    expect(fetchWalletTransactions).toHaveBeenCalledWith(WALLET);
+    expect(getTransactionStore()).toBeNull();
+  });
+
+  it("keeps transactions in memory when the SQLite file cannot be opened", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    // A directory where the database file should be cannot be opened as one.
+    vi.stubEnv("TRANSACTION_STORE_PATH", directory);
+    mockFetch([transaction("0x1", "ethereum-mainnet", 100)], { "ethereum-mainnet": "coinbase" });
+
+    const result = await syncWalletTransactions(WALLET);
+
+    expect(fetchWalletTransactions).toHaveBeenCalledWith(WALLET, {}, {});
+    expect(result.items.map((item) => item.hash)).toEqual(["0x1"]);
+    expect(getTransactionStore()?.getSyncState(WALLET)).toEqual({ "ethereum-mainnet": 100 });
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it("uses the SQLite store unless told otherwise", async () => {
+    vi.stubEnv("TRANSACTION_STORE", "");
+    mockFetch([transaction("0x1", "ethereum-mainnet", 100)], { "ethereum-mainnet": "coinbase" });
+    await syncWalletTransactions(WALLET);
+
+    vi.stubEnv("TRANSACTION_STORE", "sqlite");
+    const store = getTransactionStore();
+
+    expect(store).toBe(getTransactionStore());
+    expect(store?.getSyncState(WALLET)).toEqual({ "ethereum-mainnet": 100 });
+  });
+
+  it("skips records without a hash", async () => {
+    mockFetch(
+      [transaction("", "ethereum-mainnet", 90), transaction("0x1", "ethereum-mainnet", 100)],
+      { "ethereum-mainnet": "coinbase" },
+    );
+
+    const result = await syncWalletTransactions(WALLET);
+
+    expect(result.items.map((item) => item.hash)).toEqual(["0x1"]);
+  });
+});
+
+describe("createMemoryTransactionStore", () => {
+  it("upserts by network and hash", () => {
+    const store = createMemoryTransactionStore();
+    store.saveTransactions(WALLET, [transaction("0x1", "ethereum-mainnet", 100)], ["ethereum-mainnet"]);
+    store.saveTransactions(
+      WALLET.toLowerCase(),
+      [transaction("0x1", "ethereum-mainnet", 100, "confirmed"), transaction("0x1", "base-mainnet", 7)],
+      ["ethereum-mainnet", "base-mainnet"],
+    );
+
+    expect(store.listTransactions(WALLET)).toHaveLength(2);
+    expect(store.getSyncState(WALLET)).toEqual({ "ethereum-mainnet": 100, "base-mainnet": 7 });
+  });
+
+  it("holds a backfill's newest block back until the backfill completes", () => {
+    const store = createMemoryTransactionStore();
+    const backfill = { "ethereum-mainnet": { provider: "moralis", cursor: "next" } };
+    store.saveTransactions(WALLET, [transaction("0x9", "ethereum-mainnet", 900)], [], backfill);
+
+    expect(store.getSyncState(WALLET)).toEqual({});
+    expect(store.getBackfills(WALLET)).toEqual(backfill);
+
+    store.saveTransactions(WALLET, [transaction("0x1", "ethereum-mainnet", 100)], ["ethereum-mainnet"]);
+
+    expect(store.getSyncState(WALLET)).toEqual({ "ethereum-mainnet": 900 });
+    expect(store.getBackfills(WALLET)).toEqual({});
+  });
+
+  it("drops the least recently used wallet beyond its limit", () => {
+    const store = createMemoryTransactionStore(2);
+    const [first, second, third] = ["01", "02", "03"].map((suffix) => `0x${"0".repeat(38)}${suffix}`);
+    store.saveTransactions(first, [transaction("0x1", "ethereum-mainnet", 100)], ["ethereum-mainnet"]);
+    store.saveTransactions(second, [transaction("0x2", "ethereum-mainnet", 200)], ["ethereum-mainnet"]);
+    store.listTransactions(first);
+    store.saveTransactions(third, [transaction("0x3", "ethereum-mainnet", 300)], ["ethereum-mainnet"]);
+
+    expect(store.listTransactions(first)).toHaveLength(1);
+    expect(store.listTransactions(second)).toEqual([]);
+    expect(store.getSyncState(second)).toEqual({});
+    expect(store.listTransactions(third)).toHaveLength(1);
+  });
+});
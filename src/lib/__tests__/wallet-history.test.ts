@@ -0,0 +1,144 @@
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { getWalletHistory, InvalidHistoryCursorError, summarizeFlows } from "../wallet-history";
+import { fetchWalletTransactions } from "../providers/registry";
+import type { CoinbaseTransactionResource } from "../providers/coinbase";
+
+vi.mock("../providers/registry", () => ({
+  fetchWalletTransactions: vi.fn(),
+}));
+
+const OPS = "0x1111111111111111111111111111111111111111";
+const RESERVE = "0x2222222222222222222222222222222222222222";
+const EXCHANGE = "0x3333333333333333333333333333333333333333";
+
+function transfer(hash: string, from: string, to: string, valueUsd: number, timestamp: string) {
+  return {
+    hash,
+    network_id: "ethereum-mainnet",
+    content: {
+      hash,
+      block_timestamp: timestamp,
+      from,
+      to,
+      value: { amount: "1000000000000000000", amount_usd: String(valueUsd) },
+    },
+  } satisfies CoinbaseTransactionResource;
+}
+
+function mockTransactions(items: CoinbaseTransactionResource[]) {
+  vi.mocked(fetchWalletTransactions).mockResolvedValue({
+    items,
+    source: "coinbase",
+    providers: { "ethereum-mainnet": "coinbase" },
+    degradedNetworks: [],
+    networks: [],
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("getWalletHistory", () => {
+  it("classifies transfers between owned wallets as internal on both legs", async () => {
+    const items = [
+      transfer("0xaaa", EXCHANGE, OPS, 3000, "2024-05-01T00:00:00Z"),
+      transfer("0xbbb", OPS, RESERVE, 2000, "2024-05-02T00:00:00Z"),
+      transfer("0xccc", OPS, EXCHANGE, 500, "2024-05-03T00:00:00Z"),
+    ];
+
+    mockTransactions(items);
+    const ops = await getWalletHistory(OPS, { ownedAddresses: [OPS, RESERVE] });
+
+    mockTransactions(items.filter((item) => item.hash === "0xbbb"));
+    const reserve = await getWalletHistory(RESERVE, { ownedAddresses: [OPS, RESERVE] });
+
+    const sent = ops.history.find((tx) => tx.hash === "0xbbb");
+    const received = reserve.history.find((tx) => tx.hash === "0xbbb");
+    expect(sent).toMatchObject({ direction: "internal", internalTransfer: { from: OPS, to: RESERVE } });
+    expect(received).toMatchObject({ direction: "internal", internalTransfer: { from: OPS, to: RESERVE } });
+
+    expect(ops.history.find((tx) => tx.hash === "0xaaa")).toMatchObject({ direction: "in" });
+    expect(ops.history.find((tx) => tx.hash === "0xaaa")).not.toHaveProperty("internalTransfer");
+    expect(summarizeFlows(ops.history)).toEqual({ inflowUsd: 3000, outflowUsd: 500, internalTransferUsd: 2000 });
+  });
+
+  it("exposes every leg of a swap and classifies it", async () => {
+    const router = "0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad";
+    const usdc = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+    mockTransactions([
+      {
+        hash: "0xswap",
+        network_id: "ethereum-mainnet",
+        block_timestamp: "2024-05-04T00:00:00Z",
+        from: { address: OPS },
+        to: { address: router },
+        value: { amount: "1000000000000000000", symbol: "ETH", amount_usd: "3000" },
+        content: {
+          input: "0x3593564c000000",
+          token_transfers: [
+            { from: router, to: OPS, amount: "2990000000", decimals: 6, symbol: "usdc", contract_address: usdc },
+          ],
+        },
+      },
+    ]);
+
+    const { history } = await getWalletHistory(OPS);
+
+    expect(history[0].type).toBe("swap");
+    expect(history[0].method).toMatchObject({ name: "execute", protocol: "Uniswap Universal Router" });
+    expect(history[0].legs).toEqual([
+      { direction: "out", symbol: "ETH", amount: 1, valueUsd: 3000, contract: null, from: OPS, to: router },
+      { direction: "in", symbol: "USDC", amount: 2990, valueUsd: null, contract: usdc, from: router, to: OPS },
+    ]);
+  });
+
+  it("keeps single-wallet directions when no owned addresses are given", async () => {
+    mockTransactions([transfer("0xbbb", OPS, RESERVE, 2000, "2024-05-02T00:00:00Z")]);
+
+    const { history } = await getWalletHistory(OPS);
+
+    expect(history[0]).toMatchObject({ direction: "out", counterparty: RESERVE });
+    expect(summarizeFlows(history)).toEqual({ inflowUsd: 0, outflowUsd: 2000, internalTransferUsd: 0 });
+  });
+
+  it("pages through the full history with a cursor", async () => {
+    mockTransactions(
+      Array.from({ length: 5 }, (_, index) =>
+        transfer(`0x${index}`, EXCHANGE, OPS, 100 * (index + 1), `2024-05-0${index + 1}T00:00:00Z`),
+      ),
+    );
+
+    const first = await getWalletHistory(OPS, { limit: 2 });
+    const second = await getWalletHistory(OPS, { limit: 2, cursor: first.nextCursor });
+    const last = await getWalletHistory(OPS, { limit: 2, cursor: second.nextCursor });
+
+    expect([first, second, last].map((page) => page.history.map((tx) => tx.hash))).toEqual([
+      ["0x4", "0x3"],
+      ["0x2", "0x1"],
+      ["0x0"],
+    ]);
+    expect(last.nextCursor).toBeNull();
+    // Totals cover the whole history on every page.
+    expect([first, second, last].map((page) => page.summary.inflowUsd)).toEqual([1500, 1500, 1500]);
+    await expect(getWalletHistory(OPS, { cursor: "not-a-cursor" })).rejects.toBeInstanceOf(InvalidHistoryCursorError);
+  });
+
+  it("filters by date range, chain, direction, symbol and minimum value", async () => {
+    mockTransactions([
+      transfer("0xa", EXCHANGE, OPS, 50, "2024-04-30T23:59:59Z"),
+      transfer("0xb", EXCHANGE, OPS, 500, "2024-05-01T00:00:00Z"),
+      transfer("0xc", OPS, EXCHANGE, 900, "2024-05-20T00:00:00Z"),
+      { ...transfer("0xd", EXCHANGE, OPS, 700, "2024-05-31T12:00:00Z"), network_id: "base-mainnet" },
+    ]);
+
+    const history = async (filters: Parameters<typeof getWalletHistory>[1]) =>
+      (await getWalletHistory(OPS, filters)).history.map((tx) => tx.hash);
+
+    const may = { from: new Date("2024-05-01T00:00:00Z"), to: new Date("2024-05-31T23:59:59.999Z") };
+    expect(await history({ filters: may })).toEqual(["0xd", "0xc", "0xb"]);
+    expect(await history({ filters: { ...may, chain: "ethereum-mainnet" } })).toEqual(["0xc", "0xb"]);
+    expect(await history({ filters: { direction: "in", minValueUsd: 100 } })).toEqual(["0xd", "0xb"]);
+    expect(await history({ filters: { symbol: "eth", chain: "8453" } })).toEqual(["0xd"]);
+  });
+});
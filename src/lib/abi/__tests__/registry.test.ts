@@ -0,0 +1,117 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { functionSelector, parseSignature } from "../decoder";
+import { createAbiRegistry, loadAbiRegistry } from "../registry";
+import { KNOWN_SIGNATURES } from "../known-signatures";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+const WETH = "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2";
+
+function word(value: string | number | bigint) {
+  const hex = typeof value === "string" ? value.replace(/^0x/, "") : BigInt(value).toString(16);
+  return hex.padStart(64, "0");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("ABI registry", () => {
+  it("decodes bundled ERC-20 and Uniswap calls", () => {
+    const registry = createAbiRegistry(KNOWN_SIGNATURES);
+
+    expect(registry.decodeCall(`0xa9059cbb${word(WALLET)}${word(2_500_000)}`)).toEqual({
+      selector: "0xa9059cbb",
+      name: "transfer",
+      signature: "transfer(address,uint256)",
+      protocol: "ERC-20",
+      args: [
+        { name: "to", type: "address", value: WALLET },
+        { name: "amount", type: "uint256", value: "2500000" },
+      ],
+    });
+
+    const swap = registry.decodeCall(
+      "0x38ed1739" +
+        word(1_000_000) +
+        word(5) +
+        word(0xa0) +
+        word(WALLET) +
+        word(1_700_000_000) +
+        word(2) +
+        word(USDC) +
+        word(WETH),
+    );
+    expect(swap?.protocol).toBe("Uniswap V2");
+    expect(swap?.name).toBe("swapExactTokensForTokens");
+    expect(swap?.args.find((arg) => arg.name === "path")?.value).toEqual([USDC, WETH]);
+  });
+
+  it("keeps the method name when the call data does not match the ABI", () => {
+    const registry = createAbiRegistry(KNOWN_SIGNATURES);
+    expect(registry.decodeCall("0xa9059cbb1234")).toMatchObject({ name: "transfer", args: [] });
+    expect(registry.decodeCall("0xdeadbeef")).toBeNull();
+  });
+
+  it("tells ERC-20 and ERC-721 transfer events apart by their indexed topics", () => {
+    const registry = createAbiRegistry(KNOWN_SIGNATURES);
+    const topic = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+    const erc20 = registry.decodeLog({ topics: [topic, word(WALLET), word(USDC)], data: `0x${word(42)}` });
+    expect(erc20).toMatchObject({ protocol: "ERC-20", name: "Transfer" });
+    expect(erc20?.args.map((arg) => arg.value)).toEqual([WALLET, USDC, "42"]);
+
+    const erc721 = registry.decodeLog({ topics: [topic, word(WALLET), word(USDC), word(7)], data: "0x" });
+    expect(erc721?.protocol).toBe("ERC-721");
+    expect(erc721?.args[2]).toEqual({ name: "tokenId", type: "uint256", value: "7" });
+  });
+
+  it("parses tuple parameters into canonical selectors", () => {
+    const fragment = parseSignature(
+      "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut)",
+    );
+    expect(functionSelector(fragment)).toBe("0x414bf389");
+  });
+
+  it("extends the bundled registry with ABIs from ABI_REGISTRY_PATH", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "abi-registry-"));
+    const file = path.join(directory, "abis.json");
+    await writeFile(
+      file,
+      JSON.stringify({
+        Vault: [
+          { type: "function", name: "harvest", inputs: [{ name: "strategy", type: "address" }] },
+          "function sweep(address token, uint amount)",
+        ],
+      }),
+    );
+    vi.stubEnv("ABI_REGISTRY_PATH", file);
+
+    try {
+      const registry = await loadAbiRegistry();
+      const harvest = functionSelector(parseSignature("function harvest(address)"));
+      expect(registry.decodeCall(`${harvest}${word(WALLET)}`)).toMatchObject({
+        name: "harvest",
+        protocol: "Vault",
+        args: [{ name: "strategy", value: WALLET }],
+      });
+      expect(registry.decodeCall(`0xa9059cbb${word(WALLET)}${word(1)}`)?.protocol).toBe("ERC-20");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("falls back to the bundled registry when the custom file is unreadable", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.stubEnv("ABI_REGISTRY_PATH", path.join(tmpdir(), "missing-abi-registry.json"));
+
+    const registry = await loadAbiRegistry();
+
+    expect(registry.decodeCall(`0x095ea7b3${word(WALLET)}${word(1)}`)?.name).toBe("approve");
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
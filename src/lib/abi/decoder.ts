@@ -0,0 +1,301 @@
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+
+export type AbiParameter = {
+  name: string;
+  type: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+};
+
+export type AbiFragment = {
+  type: "function" | "event";
+  name: string;
+  inputs: AbiParameter[];
+};
+
+/** Decoded ABI value; integers are decimal strings so they survive JSON serialization. */
+export type AbiValue = string | boolean | AbiValue[] | { [name: string]: AbiValue };
+
+export type DecodedArgument = {
+  name: string;
+  type: string;
+  value: AbiValue;
+};
+
+export class AbiParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AbiParseError";
+  }
+}
+
+const WORD_HEX = 64;
+
+/**
+ * Parses a human-readable signature such as
+ * `event Transfer(address indexed from, address indexed to, uint256 value)`.
+ * Tuples are written inline: `function multicall((address target, bytes data)[] calls)`.
+ */
+export function parseSignature(signature: string): AbiFragment {
+  const declaration = signature.trim().replace(/\s+returns\s*\(.*\)$/, "");
+  const match = declaration.match(/^(function|event)\s+([A-Za-z_$][\w$]*)\s*\((.*)\)(?:\s+[\w\s]+)?$/);
+  if (!match) {
+    throw new AbiParseError(`Unsupported signature: ${signature}`);
+  }
+  const [, type, name, params] = match;
+  return { type: type as AbiFragment["type"], name, inputs: parseParameters(params) };
+}
+
+/** Canonical `name(type,...)` form hashed into selectors and event topics. */
+export function canonicalSignature(fragment: AbiFragment) {
+  return `${fragment.name}(${fragment.inputs.map(canonicalType).join(",")})`;
+}
+
+export function functionSelector(fragment: AbiFragment) {
+  return `0x${hash(canonicalSignature(fragment)).slice(0, 8)}`;
+}
+
+export function eventTopic(fragment: AbiFragment) {
+  return `0x${hash(canonicalSignature(fragment))}`;
+}
+
+/** Decodes ABI-encoded `data` (without selector) into named arguments. */
+export function decodeParameters(params: AbiParameter[], data: string): DecodedArgument[] {
+  const hex = strip0x(data);
+  const values = decodeTuple(params, hex, 0);
+  return params.map((param, index) => ({
+    name: param.name || `arg${index}`,
+    type: canonicalType(param),
+    value: values[index],
+  }));
+}
+
+/**
+ * Decodes event arguments from the indexed `topics` (without the signature topic) and the
+ * non-indexed `data`, keeping the declared parameter order.
+ */
+export function decodeEventArguments(params: AbiParameter[], topics: string[], data: string): DecodedArgument[] {
+  const dataParams = params.filter((param) => !param.indexed);
+  const dataValues = decodeTuple(dataParams, strip0x(data), 0);
+  let topicIndex = 0;
+  let dataIndex = 0;
+
+  return params.map((param, index) => {
+    let value: AbiValue;
+    if (param.indexed) {
+      const topic = topics[topicIndex];
+      topicIndex += 1;
+      if (topic == null) {
+        throw new AbiParseError("Missing topic for indexed parameter");
+      }
+      // Indexed dynamic values are only stored as their hash.
+      value = isDynamic(param) ? topic.toLowerCase() : decodeValue(param, strip0x(topic).padStart(WORD_HEX, "0"), 0);
+    } else {
+      value = dataValues[dataIndex];
+      dataIndex += 1;
+    }
+    return { name: param.name || `arg${index}`, type: canonicalType(param), value };
+  });
+}
+
+function parseParameters(source: string): AbiParameter[] {
+  return splitTopLevel(source).map((entry) => {
+    const trimmed = entry.trim();
+    let type: string;
+    let components: AbiParameter[] | undefined;
+    let rest: string;
+
+    if (trimmed.startsWith("(")) {
+      const close = matchingParen(trimmed);
+      components = parseParameters(trimmed.slice(1, close));
+      const suffix = trimmed.slice(close + 1).match(/^((?:\[\d*\])*)(.*)$/)!;
+      type = `tuple${suffix[1]}`;
+      rest = suffix[2];
+    } else {
+      const parts = trimmed.match(/^(\S+)(.*)$/);
+      if (!parts) {
+        throw new AbiParseError(`Invalid parameter: ${entry}`);
+      }
+      type = normalizeType(parts[1]);
+      rest = parts[2];
+    }
+
+    const words = rest.trim().split(/\s+/).filter(Boolean);
+    const indexed = words[0] === "indexed";
+    const name = (indexed ? words[1] : words[0]) ?? "";
+    return { name, type, ...(indexed ? { indexed } : {}), ...(components ? { components } : {}) };
+  });
+}
+
+function splitTopLevel(source: string) {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of source) {
+    if (char === "(") depth += 1;
+    if (char === ")") depth -= 1;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim() !== "") {
+    parts.push(current);
+  }
+  return parts;
+}
+
+function matchingParen(source: string) {
+  let depth = 0;
+  for (let index = 0; index < source.length; index += 1) {
+    if (source[index] === "(") depth += 1;
+    if (source[index] === ")") {
+      depth -= 1;
+      if (depth === 0) return index;
+    }
+  }
+  throw new AbiParseError(`Unbalanced parentheses in ${source}`);
+}
+
+function normalizeType(type: string) {
+  return type.replace(/^uint(?=$|\[)/, "uint256").replace(/^int(?=$|\[)/, "int256");
+}
+
+function canonicalType(param: AbiParameter): string {
+  if (param.type.startsWith("tuple")) {
+    return `(${(param.components ?? []).map(canonicalType).join(",")})${param.type.slice("tuple".length)}`;
+  }
+  return normalizeType(param.type);
+}
+
+function hash(value: string) {
+  return bytesToHex(keccak_256(utf8ToBytes(value)));
+}
+
+function strip0x(value: string) {
+  return value.startsWith("0x") || value.startsWith("0X") ? value.slice(2) : value;
+}
+
+type ArrayShape = { element: AbiParameter; length: number | null };
+
+function arrayShape(param: AbiParameter): ArrayShape | null {
+  const match = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    element: { ...param, type: match[1], indexed: undefined },
+    length: match[2] === "" ? null : Number(match[2]),
+  };
+}
+
+function isDynamic(param: AbiParameter): boolean {
+  const array = arrayShape(param);
+  if (array) {
+    return array.length == null || isDynamic(array.element);
+  }
+  if (param.type === "bytes" || param.type === "string") {
+    return true;
+  }
+  if (param.type === "tuple") {
+    return (param.components ?? []).some(isDynamic);
+  }
+  return false;
+}
+
+/** Bytes a static parameter occupies in the head section. */
+function headSize(param: AbiParameter): number {
+  if (isDynamic(param)) {
+    return 32;
+  }
+  const array = arrayShape(param);
+  if (array) {
+    return (array.length ?? 0) * headSize(array.element);
+  }
+  if (param.type === "tuple") {
+    return (param.components ?? []).reduce((total, component) => total + headSize(component), 0);
+  }
+  return 32;
+}
+
+/** Decodes a head/tail encoded sequence starting at byte `base` of `hex`. */
+function decodeTuple(params: AbiParameter[], hex: string, base: number): AbiValue[] {
+  let cursor = base;
+  return params.map((param) => {
+    let value: AbiValue;
+    if (isDynamic(param)) {
+      const offset = readUint(hex, cursor);
+      value = decodeValue(param, hex, base + offset);
+    } else {
+      value = decodeValue(param, hex, cursor);
+    }
+    cursor += headSize(param);
+    return value;
+  });
+}
+
+function decodeValue(param: AbiParameter, hex: string, position: number): AbiValue {
+  const array = arrayShape(param);
+  if (array) {
+    const dynamicLength = array.length == null;
+    const length = dynamicLength ? readUint(hex, position) : array.length!;
+    const start = dynamicLength ? position + 32 : position;
+    return decodeTuple(Array.from({ length }, () => array.element), hex, start);
+  }
+
+  if (param.type === "tuple") {
+    const components = param.components ?? [];
+    const values = decodeTuple(components, hex, position);
+    return Object.fromEntries(components.map((component, index) => [component.name || String(index), values[index]]));
+  }
+
+  if (param.type === "bytes" || param.type === "string") {
+    const length = readUint(hex, position);
+    const bytes = readHex(hex, position + 32, length);
+    if (param.type === "bytes") {
+      return `0x${bytes}`;
+    }
+    return new TextDecoder().decode(Uint8Array.from(bytes.match(/../g) ?? [], (byte) => parseInt(byte, 16)));
+  }
+
+  const word = readHex(hex, position, 32);
+  if (param.type === "address") {
+    return `0x${word.slice(24)}`;
+  }
+  if (param.type === "bool") {
+    return BigInt(`0x${word}`) !== BigInt(0);
+  }
+  if (/^uint\d*$/.test(param.type)) {
+    return BigInt(`0x${word}`).toString();
+  }
+  if (/^int\d*$/.test(param.type)) {
+    const raw = BigInt(`0x${word}`);
+    return (raw >= BigInt(2) ** BigInt(255) ? raw - BigInt(2) ** BigInt(256) : raw).toString();
+  }
+  const fixedBytes = param.type.match(/^bytes(\d+)$/);
+  if (fixedBytes) {
+    return `0x${word.slice(0, Number(fixedBytes[1]) * 2)}`;
+  }
+
+  throw new AbiParseError(`Unsupported ABI type ${param.type}`);
+}
+
+function readUint(hex: string, position: number) {
+  const value = BigInt(`0x${readHex(hex, position, 32)}`);
+  if (value > BigInt(hex.length)) {
+    throw new AbiParseError("Offset or length points outside the encoded data");
+  }
+  return Number(value);
+}
+
+function readHex(hex: string, position: number, length: number) {
+  const start = position * 2;
+  const end = start + length * 2;
+  if (end > hex.length) {
+    throw new AbiParseError("Encoded data is shorter than its ABI");
+  }
+  return hex.slice(start, end);
+}
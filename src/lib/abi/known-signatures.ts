@@ -0,0 +1,103 @@
+/**
+ * Method and event signatures bundled with the analyzer, grouped by the protocol shown next
+ * to the decoded call. Selectors and topics are derived from these at load time.
+ */
+export const KNOWN_SIGNATURES: Record<string, string[]> = {
+  "ERC-20": [
+    "function transfer(address to, uint256 amount)",
+    "function transferFrom(address from, address to, uint256 amount)",
+    "function approve(address spender, uint256 amount)",
+    "function increaseAllowance(address spender, uint256 addedValue)",
+    "function decreaseAllowance(address spender, uint256 subtractedValue)",
+    "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+    "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  ],
+  "ERC-721": [
+    "function safeTransferFrom(address from, address to, uint256 tokenId)",
+    "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+    "function setApprovalForAll(address operator, bool approved)",
+    "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+    "event ApprovalForAll(address indexed owner, address indexed operator, bool approved)",
+  ],
+  WETH: [
+    "function deposit()",
+    "function withdraw(uint256 amount)",
+    "event Deposit(address indexed dst, uint256 wad)",
+    "event Withdrawal(address indexed src, uint256 wad)",
+  ],
+  "Uniswap V2": [
+    "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+    "function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)",
+    "function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+    "function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)",
+    "function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+    "function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)",
+    "function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
+    "function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)",
+    "function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
+    "function removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)",
+    "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+  ],
+  "Uniswap V3": [
+    "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)",
+    "function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params)",
+    "function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)",
+    "function exactOutput((bytes path, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum) params)",
+    "function multicall(bytes[] data)",
+    "function multicall(uint256 deadline, bytes[] data)",
+    "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+  ],
+  "Uniswap Universal Router": [
+    "function execute(bytes commands, bytes[] inputs)",
+    "function execute(bytes commands, bytes[] inputs, uint256 deadline)",
+  ],
+  "1inch": [
+    "function swap(address executor, (address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags) desc, bytes permit, bytes data)",
+    "function unoswap(address srcToken, uint256 amount, uint256 minReturn, uint256[] pools)",
+    "function unoswapTo(address recipient, address srcToken, uint256 amount, uint256 minReturn, uint256[] pools)",
+    "function uniswapV3Swap(uint256 amount, uint256 minReturn, uint256[] pools)",
+  ],
+  "Aave V3": [
+    "function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)",
+    "function withdraw(address asset, uint256 amount, address to)",
+    "function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)",
+    "function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf)",
+    "function depositETH(address pool, address onBehalfOf, uint16 referralCode)",
+    "function withdrawETH(address pool, uint256 amount, address to)",
+    "event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)",
+    "event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)",
+  ],
+  Lido: [
+    "function submit(address referral)",
+    "function wrap(uint256 stETHAmount)",
+    "function unwrap(uint256 wstETHAmount)",
+    "function requestWithdrawals(uint256[] amounts, address owner)",
+    "function claimWithdrawal(uint256 requestId)",
+    "event Submitted(address indexed sender, uint256 amount, address referral)",
+  ],
+  Staking: [
+    "function stake(uint256 amount)",
+    "function unstake(uint256 amount)",
+    "function exit()",
+    "function getReward()",
+    "function deposit(bytes pubkey, bytes withdrawal_credentials, bytes signature, bytes32 deposit_data_root)",
+  ],
+  "OP Stack bridge": [
+    "function depositETH(uint32 minGasLimit, bytes extraData)",
+    "function depositETHTo(address to, uint32 minGasLimit, bytes extraData)",
+    "function depositERC20(address l1Token, address l2Token, uint256 amount, uint32 minGasLimit, bytes extraData)",
+    "function bridgeETH(uint32 minGasLimit, bytes extraData)",
+    "function bridgeETHTo(address to, uint32 minGasLimit, bytes extraData)",
+    "function depositTransaction(address to, uint256 value, uint64 gasLimit, bool isCreation, bytes data)",
+  ],
+  "Arbitrum bridge": [
+    "function depositEth()",
+    "function createRetryableTicket(address to, uint256 l2CallValue, uint256 maxSubmissionCost, address excessFeeRefundAddress, address callValueRefundAddress, uint256 gasLimit, uint256 maxFeePerGas, bytes data)",
+    "function outboundTransfer(address token, address to, uint256 amount, uint256 maxGas, uint256 gasPriceBid, bytes data)",
+  ],
+  "Polygon bridge": [
+    "function depositEtherFor(address user)",
+    "function depositFor(address user, address rootToken, bytes depositData)",
+  ],
+};
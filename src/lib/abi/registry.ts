@@ -0,0 +1,166 @@
+import { readFile } from "fs/promises";
+import {
+  canonicalSignature,
+  decodeEventArguments,
+  decodeParameters,
+  eventTopic,
+  functionSelector,
+  parseSignature,
+  type AbiFragment,
+  type AbiParameter,
+  type DecodedArgument,
+} from "@/lib/abi/decoder";
+import { KNOWN_SIGNATURES } from "@/lib/abi/known-signatures";
+import type { DecodedCall } from "@/lib/api/schemas";
+
+export type { DecodedCall };
+
+export type DecodedEvent = {
+  topic: string;
+  name: string;
+  signature: string;
+  protocol: string;
+  args: DecodedArgument[];
+};
+
+export type AbiRegistry = {
+  decodeCall(input: string | null | undefined): DecodedCall | null;
+  decodeLog(log: { topics?: string[] | null; data?: string | null }): DecodedEvent | null;
+};
+
+type RegisteredFragment = AbiFragment & { protocol: string; signature: string };
+
+/** Standard JSON ABI entry as emitted by solc or block explorers. */
+type JsonAbiEntry = {
+  type?: string;
+  name?: string;
+  inputs?: AbiParameter[];
+};
+
+/** Protocol label mapped to a JSON ABI or human-readable signatures. */
+export type AbiSource = Record<string, Array<string | JsonAbiEntry>>;
+
+const registryCache = new Map<string, Promise<AbiRegistry>>();
+
+/**
+ * Returns the bundled registry, extended with the ABIs in `ABI_REGISTRY_PATH` when set. The
+ * file maps a protocol label to a JSON ABI or a list of human-readable signatures; its
+ * entries win over bundled ones with the same selector. A file that cannot be read is
+ * reported and ignored so history keeps loading.
+ */
+export function loadAbiRegistry(): Promise<AbiRegistry> {
+  const customPath = process.env.ABI_REGISTRY_PATH?.trim() ?? "";
+  let registry = registryCache.get(customPath);
+  if (!registry) {
+    registry = buildRegistry(customPath);
+    registryCache.set(customPath, registry);
+  }
+  return registry;
+}
+
+/** Builds a registry from ABI sources keyed by protocol; later sources override earlier ones. */
+export function createAbiRegistry(...sources: AbiSource[]): AbiRegistry {
+  const functions = new Map<string, RegisteredFragment>();
+  const events = new Map<string, RegisteredFragment>();
+
+  sources.flatMap((source) => Object.entries(source)).forEach(([protocol, entries]) => {
+    entries.forEach((entry) => {
+      const fragment = toFragment(entry);
+      if (!fragment) {
+        return;
+      }
+      const registered = { ...fragment, protocol, signature: canonicalSignature(fragment) };
+      if (fragment.type === "function") {
+        functions.set(functionSelector(fragment), registered);
+      } else {
+        events.set(eventKey(eventTopic(fragment), indexedCount(fragment)), registered);
+      }
+    });
+  });
+
+  return {
+    decodeCall(input) {
+      if (typeof input !== "string" || !/^0x[0-9a-fA-F]{8}/.test(input)) {
+        return null;
+      }
+      const selector = input.slice(0, 10).toLowerCase();
+      const fragment = functions.get(selector);
+      if (!fragment) {
+        return null;
+      }
+      try {
+        return {
+          selector,
+          name: fragment.name,
+          signature: fragment.signature,
+          protocol: fragment.protocol,
+          args: decodeParameters(fragment.inputs, input.slice(10)),
+        };
+      } catch {
+        // Known selector with malformed or mismatching call data: report the method alone.
+        return { selector, name: fragment.name, signature: fragment.signature, protocol: fragment.protocol, args: [] };
+      }
+    },
+
+    decodeLog(log) {
+      const [topic, ...indexedTopics] = log.topics ?? [];
+      if (!topic) {
+        return null;
+      }
+      const fragment = events.get(eventKey(topic.toLowerCase(), indexedTopics.length));
+      if (!fragment) {
+        return null;
+      }
+
+      try {
+        return {
+          topic: topic.toLowerCase(),
+          name: fragment.name,
+          signature: fragment.signature,
+          protocol: fragment.protocol,
+          args: decodeEventArguments(fragment.inputs, indexedTopics, log.data ?? "0x"),
+        };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+async function buildRegistry(customPath: string): Promise<AbiRegistry> {
+  if (!customPath) {
+    return createAbiRegistry(KNOWN_SIGNATURES);
+  }
+
+  try {
+    const parsed = JSON.parse(await readFile(customPath, "utf8")) as unknown;
+    const custom = Array.isArray(parsed) ? { Custom: parsed } : (parsed as AbiSource);
+    return createAbiRegistry(KNOWN_SIGNATURES, custom);
+  } catch (error) {
+    console.warn(`Failed to load ABI registry from ${customPath}`, error);
+    return createAbiRegistry(KNOWN_SIGNATURES);
+  }
+}
+
+function toFragment(entry: string | JsonAbiEntry): AbiFragment | null {
+  if (typeof entry === "string") {
+    try {
+      return parseSignature(entry);
+    } catch (error) {
+      console.warn("Skipping ABI signature", error);
+      return null;
+    }
+  }
+  if ((entry.type === "function" || entry.type === "event") && entry.name) {
+    return { type: entry.type, name: entry.name, inputs: entry.inputs ?? [] };
+  }
+  return null;
+}
+
+function eventKey(topic: string, indexed: number) {
+  return `${topic}:${indexed}`;
+}
+
+function indexedCount(fragment: AbiFragment) {
+  return fragment.inputs.filter((input) => input.indexed).length;
+}
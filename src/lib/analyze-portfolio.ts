@@ -0,0 +1,156 @@
+import {
+  applyCostBasis,
+  defaultCostBasisMethod,
+  loadCostBasis,
+  loadWalletHoldings,
+  summarizeTokens,
+  toAnalysisError,
+  type ExtendedAnalysisToken,
+} from "@/lib/analyze-wallet";
+import { settleWithConcurrency } from "@/lib/concurrency";
+import { costBasisKey, type CostBasisMethod } from "@/lib/cost-basis";
+import type { Portfolio } from "@/lib/portfolios";
+import type { PortfolioAnalysis, PortfolioWalletBreakdown } from "@/lib/api/schemas";
+
+export type { PortfolioAnalysis, PortfolioWalletBreakdown };
+
+export type AnalyzePortfolioOptions = {
+  costBasisMethod?: CostBasisMethod;
+};
+
+const VALUE_EPSILON = 0.0001;
+const DEFAULT_CONCURRENCY = 4;
+
+function portfolioConcurrency() {
+  const parsed = Number.parseInt(process.env.PORTFOLIO_CONCURRENCY ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Analyzes every wallet in `portfolio` and merges the token rows by chain and token contract, so
+ * allocation, risk, insights and cost basis reflect the treasury as a whole. Wallets load
+ * `PORTFOLIO_CONCURRENCY` at a time; those that fail are reported in the breakdown, and the
+ * analysis only fails when all of them do.
+ */
+export async function analyzePortfolio(
+  portfolio: Portfolio,
+  options: AnalyzePortfolioOptions = {},
+): Promise<PortfolioAnalysis> {
+  const costBasisMethod = options.costBasisMethod ?? defaultCostBasisMethod();
+
+  const settlements = await settleWithConcurrency(portfolio.wallets, portfolioConcurrency(), (wallet) =>
+    loadWalletHoldings(wallet.address),
+  );
+
+  const loaded = settlements.flatMap((settlement) => (settlement.status === "fulfilled" ? [settlement.value] : []));
+  if (loaded.length === 0) {
+    const firstFailure = settlements.find(
+      (settlement): settlement is PromiseRejectedResult => settlement.status === "rejected",
+    );
+    console.error("analyzePortfolio failed", firstFailure?.reason);
+    throw toAnalysisError(firstFailure?.reason, "Failed to analyze portfolio");
+  }
+
+  const tokens = mergeTokens(loaded.flatMap((entry) => entry.tokens));
+  const addresses = portfolio.wallets
+    .filter((_, index) => settlements[index].status === "fulfilled")
+    .map((wallet) => wallet.address);
+  const costBasis = await loadCostBasis(
+    addresses,
+    loaded.flatMap((entry) => entry.holdings),
+    costBasisMethod,
+    // Every portfolio wallet counts as owned, so moves between them never realize PnL.
+    portfolio.wallets.map((wallet) => wallet.address),
+  );
+  const pnl = applyCostBasis(tokens, costBasis, costBasisMethod);
+  const { summary, insights } = summarizeTokens(tokens, pnl);
+
+  const wallets = portfolio.wallets.map((wallet, index): PortfolioWalletBreakdown => {
+    const settlement = settlements[index];
+    if (settlement.status === "rejected") {
+      return {
+        address: wallet.address,
+        label: wallet.label,
+        netWorth: 0,
+        netWorthChange: 0,
+        allocationPct: 0,
+        tokens: [],
+        meta: null,
+        error: toAnalysisError(settlement.reason, "Failed to analyze wallet").message,
+      };
+    }
+
+    const walletTokens = settlement.value.tokens;
+    // Per-wallet allocations are relative to the wallet; PnL is only tracked portfolio-wide.
+    const { summary: walletSummary } = summarizeTokens(walletTokens, {
+      realizedPnl: 0,
+      realizedPnlPct: 0,
+      unrealizedPnl: 0,
+      unrealizedPnlPct: 0,
+    });
+
+    return {
+      address: wallet.address,
+      label: wallet.label,
+      netWorth: walletSummary.netWorth,
+      netWorthChange: walletSummary.netWorthChange,
+      allocationPct: summary.netWorth > VALUE_EPSILON ? (walletSummary.netWorth / summary.netWorth) * 100 : 0,
+      tokens: walletTokens,
+      meta: {
+        source: settlement.value.source,
+        providers: settlement.value.providers,
+        degradedNetworks: settlement.value.degradedNetworks,
+        networks: settlement.value.networks,
+      },
+      error: null,
+    };
+  });
+
+  const sources = new Set(loaded.flatMap((entry) => entry.source.split("+")));
+
+  return {
+    portfolio: { id: portfolio.id, name: portfolio.name },
+    summary,
+    tokens,
+    insights,
+    wallets,
+    meta: {
+      source: Array.from(sources).join("+"),
+      isFallback: tokens.length === 0,
+      degradedNetworks: Array.from(new Set(loaded.flatMap((entry) => entry.degradedNetworks))),
+      failedWallets: wallets.filter((wallet) => wallet.error).map((wallet) => wallet.address),
+      costBasis: {
+        method: costBasisMethod,
+        available: costBasis != null,
+      },
+    },
+  };
+}
+
+/**
+ * Combines rows for the same asset on the same chain held by different wallets. Rows are matched
+ * like cost basis lots, so tokens that merely share a symbol stay apart.
+ */
+function mergeTokens(tokens: ExtendedAnalysisToken[]): ExtendedAnalysisToken[] {
+  const merged = new Map<string, ExtendedAnalysisToken>();
+
+  tokens.forEach((token) => {
+    const key = costBasisKey(token.protocol, token.contract ?? null, token.symbol);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...token, valueUsd24h: token.valueUsd24h ?? token.valueUsd });
+      return;
+    }
+
+    existing.valueUsd += token.valueUsd;
+    existing.amount += token.amount;
+    existing.valueUsd24h = (existing.valueUsd24h ?? 0) + (token.valueUsd24h ?? token.valueUsd);
+  });
+
+  merged.forEach((token) => {
+    const valueUsd24h = token.valueUsd24h ?? 0;
+    token.change24h = valueUsd24h > VALUE_EPSILON ? ((token.valueUsd - valueUsd24h) / valueUsd24h) * 100 : 0;
+  });
+
+  return Array.from(merged.values());
+}
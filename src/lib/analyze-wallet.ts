@@ -1,49 +1,50 @@
-import {
-  CoinbaseConfigurationError,
-  fetchCoinbaseBalances,
-  type CoinbaseBalanceResource,
-} from "@/lib/providers/coinbase";
+import { normalizeChain } from "@/lib/chains";
+import { transactionLegs } from "@/lib/export/legs";
+import type { CoinbaseBalanceResource } from "@/lib/providers/coinbase";
+import { fetchWalletBalances } from "@/lib/providers/registry";
+import { ProviderConfigurationError } from "@/lib/providers/types";
 import {
   buildPriceKey,
+  fetchCoinGeckoPriceHistory,
   fetchCoinGeckoPrices,
+  priceAt,
+  type PriceSeries,
 } from "@/lib/pricing/coingecko";
-
-export type AnalysisSummary = {
-  netWorth: number;
-  netWorthChange: number;
-  netWorthChangePct: number;
-  realizedPnl: number;
-  realizedPnlPct: number;
-  riskLevel: "Conservative" | "Moderate" | "Aggressive";
-};
-
-export type AnalysisToken = {
-  symbol: string;
-  protocol: string;
-  valueUsd: number;
-  change24h: number;
-  allocationPct: number;
-  amount: number;
-  decimals: number;
-};
-
-export type AnalysisInsight = {
-  title: string;
-  detail: string;
-  tone: "positive" | "warning" | "neutral";
+import {
+  computeCostBasis,
+  costBasisKey,
+  evaluatePosition,
+  isCostBasisMethod,
+  type CostBasisMethod,
+  type TokenCostBasis,
+} from "@/lib/cost-basis";
+import type { TransactionLeg } from "@/lib/transaction-classifier";
+import { getWalletHistory, type WalletTransaction } from "@/lib/wallet-history";
+import type {
+  AnalysisInsight,
+  AnalysisProgress,
+  AnalysisSummary,
+  AnalysisToken,
+  WalletAnalysis,
+} from "@/lib/api/schemas";
+
+export type { AnalysisInsight, AnalysisProgress, AnalysisSummary, AnalysisToken, WalletAnalysis };
+
+export type AnalyzeWalletOptions = {
+  costBasisMethod?: CostBasisMethod;
+  /** Other wallets of the same owner; transfers between them do not open or close lots. */
+  ownedAddresses?: string[];
+  /** Called as network balances arrive and once prices resolve, ahead of the final analysis. */
+  onProgress?: (progress: AnalysisProgress) => void;
 };
 
-export type WalletAnalysis = {
-  summary: AnalysisSummary;
-  tokens: AnalysisToken[];
-  insights: AnalysisInsight[];
-  meta: {
-    source: string;
-    isFallback: boolean;
-  };
-};
+/** Token row carrying its value 24 hours ago, used to derive the daily change. */
+export type ExtendedAnalysisToken = AnalysisToken & { valueUsd24h?: number | null; contract?: string | null };
 
-type ExtendedAnalysisToken = AnalysisToken & { valueUsd24h?: number | null };
+export type PnlSummary = Pick<
+  AnalysisSummary,
+  "realizedPnl" | "realizedPnlPct" | "unrealizedPnl" | "unrealizedPnlPct"
+>;
 
 const STABLE_SYMBOLS = new Set([
   "USDC",
@@ -65,51 +66,124 @@ const STABLE_SYMBOLS = new Set([
 const VALUE_EPSILON = 0.0001;
 const MAX_UNVERIFIED_TOKEN_VALUE = 10_000;
 const MAX_UNIT_PRICE_FOR_UNVERIFIED = 5_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Price histories fetched per cost basis run; each one is a CoinGecko request. */
+const MAX_PRICE_HISTORY_ASSETS = 25;
 
-export async function analyzeWallet(address: string): Promise<WalletAnalysis> {
-  try {
-    const holdings = await fetchCoinbaseBalances(address);
-    const priceMap = await fetchCoinGeckoPrices(holdings);
+export function defaultCostBasisMethod(): CostBasisMethod {
+  const configured = process.env.COST_BASIS_METHOD?.trim().toLowerCase();
+  return isCostBasisMethod(configured) ? configured : "fifo";
+}
 
-    const tokens = buildTokens(holdings, priceMap);
-    const netWorth = tokens.reduce((acc, token) => acc + token.valueUsd, 0);
+export async function analyzeWallet(
+  address: string,
+  options: AnalyzeWalletOptions = {},
+): Promise<WalletAnalysis> {
+  const costBasisMethod = options.costBasisMethod ?? defaultCostBasisMethod();
 
-    const netWorth24h = tokens.reduce(
-      (acc, token) => acc + ((token as ExtendedAnalysisToken).valueUsd24h ?? token.valueUsd),
-      0,
+  try {
+    const { tokens, holdings, source, providers, degradedNetworks, networks } = await loadWalletHoldings(
+      address,
+      options.onProgress,
     );
-    const netWorthChange = netWorth - netWorth24h;
-    const netWorthChangePct = netWorth24h > VALUE_EPSILON ? (netWorthChange / netWorth24h) * 100 : 0;
-
-    const riskLevel = computeRisk(tokens);
-    const insights = buildInsights(tokens, netWorth, netWorthChange, netWorthChangePct, riskLevel);
-
-    const summary: AnalysisSummary = {
-      netWorth,
-      netWorthChange,
-      netWorthChangePct,
-      realizedPnl: netWorthChange,
-      realizedPnlPct: netWorthChangePct,
-      riskLevel,
-    };
+    const costBasis = await loadCostBasis([address], holdings, costBasisMethod, [
+      address,
+      ...(options.ownedAddresses ?? []),
+    ]);
+    const pnl = applyCostBasis(tokens, costBasis, costBasisMethod);
+    const { summary, insights } = summarizeTokens(tokens, pnl);
 
     return {
       summary,
       tokens,
       insights,
       meta: {
-        source: "coinbase",
+        source,
         isFallback: tokens.length === 0,
+        providers,
+        degradedNetworks,
+        networks,
+        costBasis: {
+          method: costBasisMethod,
+          available: costBasis != null,
+        },
       },
     };
   } catch (error) {
     console.error("analyzeWallet failed", error);
-    if (error instanceof CoinbaseConfigurationError) {
-      throw new Error("Coinbase API credentials are missing or invalid");
-    }
+    throw toAnalysisError(error, "Failed to analyze wallet");
+  }
+}
+
+/** Priced, filtered token rows for one wallet, before allocation and cost basis are applied. */
+export async function loadWalletHoldings(address: string, onProgress?: (progress: AnalysisProgress) => void) {
+  const { items: holdings, source, providers, degradedNetworks, networks } = await fetchWalletBalances(
+    address,
+    onProgress &&
+      ((progress) => {
+        if (progress.status === "loaded") {
+          const { items, ...rest } = progress;
+          onProgress({ type: "network", ...rest, tokens: buildTokens(items, new Map()) });
+        } else {
+          onProgress({ type: "network", ...progress });
+        }
+      }),
+  );
+  const priceMap = await fetchCoinGeckoPrices(holdings);
+  const tokens = buildTokens(holdings, priceMap);
+  onProgress?.({ type: "prices", tokens });
+
+  return {
+    tokens,
+    holdings,
+    source,
+    providers,
+    degradedNetworks,
+    networks,
+  };
+}
+
+/**
+ * Sorts `tokens` by value, assigns their allocation share and derives the summary metrics,
+ * risk posture and insights for the set as a whole.
+ */
+export function summarizeTokens(
+  tokens: ExtendedAnalysisToken[],
+  pnl: PnlSummary,
+): { summary: AnalysisSummary; insights: AnalysisInsight[] } {
+  tokens.sort((a, b) => b.valueUsd - a.valueUsd);
+
+  const netWorth = tokens.reduce((acc, token) => acc + token.valueUsd, 0);
+  tokens.forEach((token) => {
+    token.allocationPct = netWorth > VALUE_EPSILON ? (token.valueUsd / netWorth) * 100 : 0;
+  });
+
+  const netWorth24h = tokens.reduce((acc, token) => acc + (token.valueUsd24h ?? token.valueUsd), 0);
+  const netWorthChange = netWorth - netWorth24h;
+  const netWorthChangePct = netWorth24h > VALUE_EPSILON ? (netWorthChange / netWorth24h) * 100 : 0;
+
+  const riskLevel = computeRisk(tokens);
+  const insights = buildInsights(tokens, netWorth, netWorthChange, netWorthChangePct, riskLevel);
+
+  return {
+    summary: {
+      netWorth,
+      netWorthChange,
+      netWorthChangePct,
+      ...pnl,
+      riskLevel,
+    },
+    insights,
+  };
+}
 
-    throw error instanceof Error ? error : new Error("Failed to analyze wallet");
+export function toAnalysisError(error: unknown, fallbackMessage: string): Error {
+  if (error instanceof ProviderConfigurationError) {
+    // Keep the class so the API can still report this as a provider credentials problem.
+    return new ProviderConfigurationError(error.provider, `${error.provider} API credentials are missing or invalid`);
   }
+
+  return error instanceof Error ? error : new Error(fallbackMessage);
 }
 
 function buildTokens(
@@ -118,16 +192,8 @@ function buildTokens(
 ): ExtendedAnalysisToken[] {
   const tokens = holdings
     .map((holding) => {
-      const chain = normalizeChain(holding.network_id);
-      const symbol =
-        normalizeSymbol(holding.asset?.symbol) ??
-        normalizeSymbol(holding.asset?.asset_id) ??
-        chain.toUpperCase();
-
-      const decimals = resolveDecimals(holding);
-      const amount = resolveAmount(holding, decimals);
+      const { chain, symbol, decimals, amount, valueUsd } = describeHolding(holding);
       const priceFromMap = getPriceForHolding(holding, priceMap);
-      const valueUsd = extractUsdValue(holding);
       const hasMeaningfulAmount = amount != null && amount > VALUE_EPSILON;
       const effectiveValueUsd = (() => {
         if (priceFromMap != null && hasMeaningfulAmount) {
@@ -152,7 +218,8 @@ function buildTokens(
         return null;
       }
 
-      const isNative = !holding.asset?.address || holding.asset?.token_type === "native";
+      const contract = holdingContract(holding);
+      const isNative = contract == null;
       const isVerified = holding.asset?.is_verified ?? true;
       const unitPrice = hasMeaningfulAmount ? effectiveValueUsd / (amount ?? 1) : null;
 
@@ -185,22 +252,169 @@ function buildTokens(
         allocationPct: 0,
         amount: amount ?? 0,
         decimals,
+        costBasisUsd: null,
+        unrealizedPnlUsd: null,
+        realizedPnlUsd: null,
         valueUsd24h,
+        contract,
       };
 
       return entry;
     })
-    .filter((token): token is ExtendedAnalysisToken => token !== null)
-    .sort((a, b) => b.valueUsd - a.valueUsd);
+    .filter((token): token is ExtendedAnalysisToken => token !== null);
 
-  const total = tokens.reduce((acc, token) => acc + token.valueUsd, 0);
-  if (total > VALUE_EPSILON) {
-    tokens.forEach((token) => {
-      token.allocationPct = (token.valueUsd / total) * 100;
-    });
+  return tokens;
+}
+
+/**
+ * Replays the full transaction history of `addresses` into cost-basis lots. Transfers between
+ * `ownedAddresses` are internal and keep their original lots. History is optional: when it
+ * cannot be loaded the analysis still succeeds, just without PnL figures.
+ */
+export async function loadCostBasis(
+  addresses: string[],
+  holdings: CoinbaseBalanceResource[],
+  method: CostBasisMethod,
+  ownedAddresses: string[] = addresses,
+): Promise<Map<string, TokenCostBasis> | null> {
+  try {
+    const results = await Promise.all(
+      addresses.map((address) =>
+        getWalletHistory(address, { limit: Number.POSITIVE_INFINITY, ownedAddresses }),
+      ),
+    );
+    const history = results.flatMap((result) => result.history);
+
+    const seriesByToken = new Map<string, PriceSeries>();
+    const unpriced = history.filter((tx) => transactionLegs(tx).some(needsPrice));
+    const assets = assetsToPrice(holdings, unpriced);
+    if (assets.length > 0) {
+      // Reach back to the oldest transfer that needs a price.
+      const oldest = unpriced.reduce((min, tx) => {
+        const time = Date.parse(tx.timestamp);
+        return Number.isFinite(time) ? Math.min(min, time) : min;
+      }, Number.POSITIVE_INFINITY);
+      const days = Number.isFinite(oldest) ? Math.max(1, Math.ceil((Date.now() - oldest) / DAY_MS) + 1) : 1;
+      const seriesByPriceKey = await fetchCoinGeckoPriceHistory(assets, days);
+      assets.forEach((holding) => {
+        const priceKey = buildPriceKey(holding);
+        const series = priceKey ? seriesByPriceKey.get(priceKey) : undefined;
+        if (series) {
+          seriesByToken.set(holdingCostBasisKey(holding), series);
+        }
+      });
+    }
+
+    return computeCostBasis(history, method, (chain, contract, symbol, timestamp) =>
+      priceAt(seriesByToken.get(costBasisKey(chain, contract, symbol)), timestamp),
+    );
+  } catch (error) {
+    console.warn("[Analyzer] Cost basis unavailable", error);
+    return null;
   }
+}
 
-  return tokens;
+function needsPrice(leg: TransactionLeg) {
+  return leg.valueUsd == null && leg.symbol != null && leg.amount != null && leg.amount > 0;
+}
+
+/**
+ * Assets with legs that need a price history, held ones first and then ones sold off since,
+ * shaped like balances so they are priced the same way. Tokens flagged as scam or unverified are
+ * left out, and at most `MAX_PRICE_HISTORY_ASSETS` are returned.
+ */
+function assetsToPrice(holdings: CoinbaseBalanceResource[], unpriced: WalletTransaction[]) {
+  const needed = new Set(
+    unpriced.flatMap((tx) =>
+      transactionLegs(tx)
+        .filter(needsPrice)
+        .map((leg) => costBasisKey(tx.chain, leg.contract, leg.symbol as string)),
+    ),
+  );
+  const untrusted = new Set(
+    holdings
+      .filter((holding) => holding.asset?.is_scam || (holding.asset?.is_verified === false && holdingContract(holding)))
+      .map(holdingCostBasisKey),
+  );
+  const traded = unpriced.flatMap((tx) =>
+    transactionLegs(tx)
+      .filter(needsPrice)
+      .map((leg): CoinbaseBalanceResource => ({
+        network_id: tx.chain,
+        asset: { address: leg.contract, symbol: leg.symbol },
+      })),
+  );
+
+  const assets = new Map<string, CoinbaseBalanceResource>();
+  for (const asset of [...holdings, ...traded]) {
+    if (assets.size >= MAX_PRICE_HISTORY_ASSETS) {
+      break;
+    }
+    const key = holdingCostBasisKey(asset);
+    if (needed.has(key) && !untrusted.has(key) && !assets.has(key)) {
+      assets.set(key, asset);
+    }
+  }
+  return Array.from(assets.values());
+}
+
+/** Token contract of a balance, or null for the chain's native asset. */
+function holdingContract(holding: CoinbaseBalanceResource) {
+  const address = holding.asset?.address;
+  return address && holding.asset?.token_type !== "native" ? address : null;
+}
+
+function holdingCostBasisKey(holding: CoinbaseBalanceResource) {
+  const { chain, symbol } = describeHolding(holding);
+  return costBasisKey(chain, holdingContract(holding), symbol);
+}
+
+export function applyCostBasis(
+  tokens: ExtendedAnalysisToken[],
+  costBasis: Map<string, TokenCostBasis> | null,
+  method: CostBasisMethod,
+): PnlSummary {
+  if (!costBasis) {
+    return { realizedPnl: 0, realizedPnlPct: 0, unrealizedPnl: 0, unrealizedPnlPct: 0 };
+  }
+
+  let unrealizedPnl = 0;
+  let openCost = 0;
+
+  tokens.forEach((token) => {
+    const position = evaluatePosition(
+      costBasis.get(costBasisKey(token.protocol, token.contract ?? null, token.symbol)),
+      token.amount,
+      token.valueUsd,
+      method,
+    );
+    token.costBasisUsd = position.costBasisUsd;
+    token.unrealizedPnlUsd = position.unrealizedPnlUsd;
+    token.realizedPnlUsd = position.realizedPnlUsd;
+
+    if (position.costBasisUsd != null && position.unrealizedPnlUsd != null) {
+      openCost += position.costBasisUsd;
+      unrealizedPnl += position.unrealizedPnlUsd;
+    }
+  });
+
+  // Realized gains include assets that have since been sold off entirely.
+  let realizedPnl = 0;
+  let disposedCost = 0;
+  costBasis.forEach((entry) => {
+    // Assets with an unpriced disposal have no realized figure to add.
+    if (entry.realizedPnlUsd != null) {
+      realizedPnl += entry.realizedPnlUsd;
+      disposedCost += entry.disposedCostUsd;
+    }
+  });
+
+  return {
+    realizedPnl,
+    realizedPnlPct: disposedCost > VALUE_EPSILON ? (realizedPnl / disposedCost) * 100 : 0,
+    unrealizedPnl,
+    unrealizedPnlPct: openCost > VALUE_EPSILON ? (unrealizedPnl / openCost) * 100 : 0,
+  };
 }
 
 function computeRisk(tokens: AnalysisToken[]): AnalysisSummary["riskLevel"] {
@@ -313,85 +527,18 @@ function formatNumber(value: number) {
   return value.toFixed(2);
 }
 
-const CHAIN_ALIAS_MAP: Record<string, string> = {
-  eth: "eth",
-  ethereum: "eth",
-  "1": "eth",
-  "eip155:1": "eth",
-  "ethereum-mainnet": "eth",
-  base: "base",
-  "8453": "base",
-  "eip155:8453": "base",
-  "base-mainnet": "base",
-  polygon: "polygon",
-  "137": "polygon",
-  "eip155:137": "polygon",
-  "polygon-mainnet": "polygon",
-  arbitrum: "arbitrum",
-  "42161": "arbitrum",
-  "eip155:42161": "arbitrum",
-  "arbitrum-one": "arbitrum",
-  optimism: "optimism",
-  "10": "optimism",
-  "eip155:10": "optimism",
-  "optimism-mainnet": "optimism",
-  bsc: "bsc",
-  "56": "bsc",
-  "eip155:56": "bsc",
-  "bnb-mainnet": "bsc",
-  avalanche: "avalanche",
-  "43114": "avalanche",
-  "eip155:43114": "avalanche",
-  fantom: "fantom",
-  "250": "fantom",
-  "eip155:250": "fantom",
-  zksync: "zksync",
-  "324": "zksync",
-  "eip155:324": "zksync",
-  "zksync-era": "zksync",
-  linea: "linea",
-  "1101": "linea",
-  "eip155:1101": "linea",
-  scroll: "scroll",
-  "534352": "scroll",
-  "eip155:534352": "scroll",
-  metis: "metis",
-  "1088": "metis",
-  "eip155:1088": "metis",
-  klaytn: "klaytn",
-  "8217": "klaytn",
-  "eip155:8217": "klaytn",
-  celo: "celo",
-  "42220": "celo",
-  "eip155:42220": "celo",
-  moonbeam: "moonbeam",
-  "1284": "moonbeam",
-  "eip155:1284": "moonbeam",
-  moonriver: "moonriver",
-  "1285": "moonriver",
-  "eip155:1285": "moonriver",
-  aurora: "aurora",
-  "1313161554": "aurora",
-  "eip155:1313161554": "aurora",
-  cronos: "cronos",
-  "25": "cronos",
-  "eip155:25": "cronos",
-  gnosis: "gnosis",
-  xdai: "gnosis",
-  "100": "gnosis",
-  "eip155:100": "gnosis",
-  harmony: "harmony",
-  "1666600000": "harmony",
-  "eip155:1666600000": "harmony",
-};
-
-function normalizeChain(networkId: string | number | null | undefined): string {
-  if (networkId == null) {
-    return "eth";
-  }
-
-  const key = String(networkId).toLowerCase();
-  return CHAIN_ALIAS_MAP[key] ?? key;
+/** Chain, symbol and human-readable amount of a raw provider balance. */
+export function describeHolding(holding: CoinbaseBalanceResource) {
+  const chain = normalizeChain(holding.network_id);
+  const symbol =
+    normalizeSymbol(holding.asset?.symbol) ??
+    normalizeSymbol(holding.asset?.asset_id) ??
+    chain.toUpperCase();
+  const decimals = resolveDecimals(holding);
+  const amount = resolveAmount(holding, decimals);
+  const valueUsd = extractUsdValue(holding);
+
+  return { chain, symbol, decimals, amount, valueUsd };
 }
 
 function resolveDecimals(holding: CoinbaseBalanceResource) {
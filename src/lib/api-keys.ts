@@ -0,0 +1,211 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { mkdirSync } from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+export const API_KEY_SCOPES = ["analyze", "history", "export"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  /** First characters of the key, enough to recognize it in listings. */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /** Rate limit tier from `RATE_LIMIT_TIERS`; null uses the anonymous limits. */
+  tier: string | null;
+  createdAt: string;
+  revokedAt: string | null;
+};
+
+export type ApiKeyInput = {
+  name?: unknown;
+  scopes?: unknown;
+  tier?: unknown;
+};
+
+export type ApiKeyUsage = {
+  keyId: string;
+  /** UTC day, `YYYY-MM-DD`. */
+  day: string;
+  requests: number;
+};
+
+export class ApiKeyNotFoundError extends Error {
+  constructor(id: string) {
+    super(`API key ${id} was not found`);
+    this.name = "ApiKeyNotFoundError";
+  }
+}
+
+export class ApiKeyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiKeyValidationError";
+  }
+}
+
+const DEFAULT_STORE_PATH = path.join(process.cwd(), "data", "api-keys.sqlite");
+const KEY_PREFIX = "qk_";
+
+type ApiKeyRow = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string;
+  tier: string | null;
+  created_at: string;
+  revoked_at: string | null;
+};
+
+const databases = new Map<string, Database.Database>();
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === "string" && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/** Issues a key. The secret is only returned here; the store keeps its hash. */
+export function createApiKey(input: ApiKeyInput): { apiKey: ApiKey; secret: string } {
+  const { name, scopes, tier } = validateApiKeyInput(input);
+  const secret = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const apiKey: ApiKey = {
+    id: randomUUID(),
+    name,
+    prefix: secret.slice(0, KEY_PREFIX.length + 6),
+    scopes,
+    tier,
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+  };
+
+  database()
+    .prepare(
+      `INSERT INTO api_keys (id, name, prefix, key_hash, scopes, tier, created_at)
+       VALUES (@id, @name, @prefix, @keyHash, @scopes, @tier, @createdAt)`,
+    )
+    .run({ ...apiKey, keyHash: hashKey(secret), scopes: scopes.join(",") });
+
+  return { apiKey, secret };
+}
+
+export function listApiKeys(): ApiKey[] {
+  return database()
+    .prepare<[], ApiKeyRow>("SELECT * FROM api_keys ORDER BY created_at")
+    .all()
+    .map(toApiKey);
+}
+
+export function revokeApiKey(id: string): ApiKey {
+  const db = database();
+  db.prepare("UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL").run(new Date().toISOString(), id);
+  const row = db.prepare<[string], ApiKeyRow>("SELECT * FROM api_keys WHERE id = ?").get(id);
+  if (!row) {
+    throw new ApiKeyNotFoundError(id);
+  }
+  return toApiKey(row);
+}
+
+/** Resolves a presented secret to its key, or null when it is unknown or revoked. */
+export function verifyApiKey(secret: string): ApiKey | null {
+  if (!secret.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+  const row = database()
+    .prepare<[string], ApiKeyRow>("SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL")
+    .get(hashKey(secret));
+  return row ? toApiKey(row) : null;
+}
+
+export function recordApiKeyUsage(keyId: string, at: Date = new Date()) {
+  database()
+    .prepare(
+      `INSERT INTO api_key_usage (key_id, day, requests) VALUES (?, ?, 1)
+       ON CONFLICT (key_id, day) DO UPDATE SET requests = requests + 1`,
+    )
+    .run(keyId, at.toISOString().slice(0, 10));
+}
+
+/** Requests per key and UTC day, newest day first, for the last `days` days. */
+export function getApiKeyUsage(days = 30): ApiKeyUsage[] {
+  const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return database()
+    .prepare<[string], { key_id: string; day: string; requests: number }>(
+      "SELECT key_id, day, requests FROM api_key_usage WHERE day >= ? ORDER BY day DESC, key_id",
+    )
+    .all(since)
+    .map((row) => ({ keyId: row.key_id, day: row.day, requests: row.requests }));
+}
+
+function database() {
+  const filename = process.env.API_KEY_STORE_PATH || DEFAULT_STORE_PATH;
+  let db = databases.get(filename);
+  if (!db) {
+    if (filename !== ":memory:") {
+      mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    db = new Database(filename);
+    db.pragma("journal_mode = WAL");
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        tier TEXT,
+        created_at TEXT NOT NULL,
+        revoked_at TEXT
+      );
+      CREATE TABLE IF NOT EXISTS api_key_usage (
+        key_id TEXT NOT NULL,
+        day TEXT NOT NULL,
+        requests INTEGER NOT NULL,
+        PRIMARY KEY (key_id, day)
+      );
+    `);
+    databases.set(filename, db);
+  }
+  return db;
+}
+
+function validateApiKeyInput(input: ApiKeyInput) {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) {
+    throw new ApiKeyValidationError("name is required");
+  }
+
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    throw new ApiKeyValidationError(`scopes must be a non-empty array of ${API_KEY_SCOPES.join(", ")}`);
+  }
+  const invalid = input.scopes.find((scope) => !isApiKeyScope(scope));
+  if (invalid !== undefined) {
+    throw new ApiKeyValidationError(`unknown scope ${JSON.stringify(invalid)}`);
+  }
+
+  if (input.tier != null && (typeof input.tier !== "string" || input.tier.trim() === "")) {
+    throw new ApiKeyValidationError("tier must be a non-empty string");
+  }
+
+  return {
+    name,
+    scopes: Array.from(new Set(input.scopes as ApiKeyScope[])),
+    tier: typeof input.tier === "string" ? input.tier.trim() : null,
+  };
+}
+
+function hashKey(secret: string) {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: row.scopes.split(",").filter(isApiKeyScope),
+    tier: row.tier,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at,
+  };
+}
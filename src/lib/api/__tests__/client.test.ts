@@ -0,0 +1,130 @@
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { ApiError, createApiClient } from "../client";
+
+const analysis = {
+  address: "0xabc",
+  summary: {
+    netWorth: 10,
+    netWorthChange: 0,
+    netWorthChangePct: 0,
+    realizedPnl: 0,
+    realizedPnlPct: 0,
+    unrealizedPnl: 0,
+    unrealizedPnlPct: 0,
+    riskLevel: "Conservative",
+  },
+  tokens: [],
+  insights: [],
+  meta: {
+    source: "coinbase",
+    isFallback: false,
+    providers: {},
+    degradedNetworks: [],
+    networks: [],
+    costBasis: { method: "fifo", available: false },
+  },
+};
+
+function respondWith(status: number, body: unknown) {
+  return vi.fn(() => Promise.resolve(new Response(JSON.stringify(body), { status }))) as unknown as typeof fetch;
+}
+
+class FakeEventSource {
+  static readonly CONNECTING = 0;
+  static readonly CLOSED = 2;
+  static latest: FakeEventSource;
+  readyState = FakeEventSource.CONNECTING;
+  listeners = new Map<string, (event: MessageEvent<string>) => void>();
+  onerror: (() => void) | null = null;
+  constructor(public url: string) {
+    FakeEventSource.latest = this;
+  }
+  addEventListener(type: string, listener: (event: MessageEvent<string>) => void) {
+    this.listeners.set(type, listener);
+  }
+  emit(type: string, data: unknown) {
+    this.listeners.get(type)?.(new MessageEvent(type, { data: JSON.stringify(data) }));
+  }
+  close() {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createApiClient", () => {
+  it("builds the request and returns the validated payload", async () => {
+    const fetchMock = respondWith(200, analysis);
+    const api = createApiClient({ baseUrl: "https://analyzer.test/", apiKey: "qk_secret", fetch: fetchMock });
+
+    expect(await api.analyze("0xabc", { method: "hifo", owned: ["0x1", "0x2"] })).toEqual(analysis);
+
+    const [url, init] = vi.mocked(fetchMock).mock.calls[0];
+    expect(url).toBe("https://analyzer.test/api/v1/analyze?address=0xabc&method=hifo&owned=0x1%2C0x2");
+    expect(new Headers(init?.headers).get("authorization")).toBe("Bearer qk_secret");
+  });
+
+  it("surfaces the API's error message with its status", async () => {
+    const api = createApiClient({ fetch: respondWith(429, { error: "rate limit exceeded" }) });
+
+    const error = await api.netWorth("0xabc", "90d").catch((caught) => caught);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ message: "rate limit exceeded", status: 429 });
+  });
+
+  it("carries the stable code of an error envelope", async () => {
+    const api = createApiClient({
+      fetch: respondWith(503, {
+        error: { code: "provider_rate_limited", message: "Coinbase API error (429)", retryable: true, details: {} },
+      }),
+    });
+
+    await expect(api.analyze("0xabc")).rejects.toMatchObject({
+      message: "Coinbase API error (429)",
+      status: 503,
+      code: "provider_rate_limited",
+    });
+  });
+
+  it("rejects responses that do not match the schema", async () => {
+    const api = createApiClient({ fetch: respondWith(200, { ...analysis, tokens: [{ symbol: "ETH" }] }) });
+
+    await expect(api.analyze("0xabc")).rejects.toThrow(/Unexpected response from \/api\/v1\/analyze/);
+  });
+
+  describe("streamAnalysis", () => {
+    it("reads the status of a stream the server rejected instead of retrying it", async () => {
+      vi.stubGlobal("EventSource", FakeEventSource);
+      const fetchMock = respondWith(429, {
+        error: { code: "rate_limited", message: "rate limit exceeded", retryable: true, details: {} },
+      });
+      const pending = createApiClient({ fetch: fetchMock }).streamAnalysis("0xabc", () => undefined);
+
+      FakeEventSource.latest.readyState = FakeEventSource.CLOSED;
+      FakeEventSource.latest.onerror?.();
+
+      await expect(pending).rejects.toMatchObject({ status: 429, code: "rate_limited" });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(fetchMock).mock.calls[0][0]).toBe("/api/v1/analyze/stream?address=0xabc");
+    });
+
+    it("falls back to the JSON endpoint only when the stream never delivered an event", async () => {
+      vi.stubGlobal("EventSource", FakeEventSource);
+      const fetchMock = respondWith(200, analysis);
+      const api = createApiClient({ fetch: fetchMock });
+
+      const fallback = api.streamAnalysis("0xabc", () => undefined);
+      FakeEventSource.latest.onerror?.();
+      expect(await fallback).toEqual(analysis);
+      expect(vi.mocked(fetchMock).mock.calls[0][0]).toBe("/api/v1/analyze?address=0xabc");
+
+      const dropped = api.streamAnalysis("0xabc", () => undefined);
+      FakeEventSource.latest.emit("network", { networkId: "base-mainnet", status: "loading" });
+      FakeEventSource.latest.onerror?.();
+      await expect(dropped).rejects.toThrow("Lost the connection to /api/v1/analyze/stream");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { buildOpenApiDocument } from "../openapi";
+
+describe("buildOpenApiDocument", () => {
+  it("describes every route payload with resolvable component schemas", () => {
+    const document = buildOpenApiDocument();
+    const refs = Array.from(JSON.stringify(document).matchAll(/"\$ref":"#\/components\/schemas\/([^"]+)"/g), (m) => m[1]);
+
+    expect(document.openapi).toMatch(/^3\./);
+    expect(Object.keys(document.paths)).toEqual(
+      expect.arrayContaining(["/api/analyze", "/api/analyze/batch", "/api/history", "/api/networth"]),
+    );
+    expect(refs.length).toBeGreaterThan(0);
+    refs.forEach((id) => expect(document.components.schemas).toHaveProperty(id));
+    expect(document.components.schemas.AnalysisToken).toMatchObject({
+      type: "object",
+      required: expect.arrayContaining(["symbol", "valueUsd", "costBasisUsd"]),
+      properties: { costBasisUsd: { type: "number", nullable: true } },
+    });
+  });
+
+  it("mirrors every route under /api/v1 with the error envelope", () => {
+    const document = buildOpenApiDocument();
+    const operationIds = Object.values(document.paths).flatMap((methods) =>
+      Object.values(methods).map((operation) => operation.operationId),
+    );
+
+    expect(new Set(operationIds).size).toBe(operationIds.length);
+    expect(document.paths["/api/v1/analyze"].get).toMatchObject({
+      operationId: "analyzeWalletV1",
+      responses: { "502": { content: { "application/json": { schema: { $ref: "#/components/schemas/ErrorEnvelope" } } } } },
+    });
+    expect(document.paths["/api/analyze"].get.responses["500"]).toMatchObject({
+      content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+    });
+    expect(document.components.schemas.ErrorCode).toMatchObject({
+      enum: expect.arrayContaining(["ens_resolution_failed", "partial_chain_failure", "provider_rate_limited"]),
+    });
+  });
+});
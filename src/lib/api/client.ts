@@ -0,0 +1,254 @@
+import type { z } from "zod";
+import {
+  analysisProgressSchema,
+  analyzeBatchResponseSchema,
+  analyzeResponseSchema,
+  errorEnvelopeSchema,
+  errorResponseSchema,
+  historyResponseSchema,
+  netWorthResponseSchema,
+  portfolioAnalysisSchema,
+  portfolioListResponseSchema,
+  portfolioSchema,
+  type AnalysisProgress,
+  type AnalyzeResponse,
+  type ApiErrorCode,
+  type NetWorthRange,
+} from "@/lib/api/schemas";
+import type { CostBasisMethod } from "@/lib/cost-basis";
+
+export type ApiClientOptions = {
+  /** Origin of the API, e.g. `https://analyzer.example.com`; empty for same-origin requests. */
+  baseUrl?: string;
+  /** Sent as a bearer token. */
+  apiKey?: string;
+  fetch?: typeof fetch;
+};
+
+export type AnalyzeOptions = {
+  method?: CostBasisMethod;
+  /** Other wallets of the same owner. */
+  owned?: string[];
+};
+
+export type HistoryOptions = {
+  cursor?: string;
+  limit?: number;
+  from?: string;
+  to?: string;
+  chain?: string;
+  direction?: "in" | "out" | "internal";
+  symbol?: string;
+  minUsd?: number;
+  owned?: string[];
+};
+
+/** Raised for error responses, and for responses that do not match the API schema. */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    /** Stable error code, when the server answered with the `/api/v1` envelope. */
+    readonly code?: ApiErrorCode,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+type Query = Record<string, string | number | string[] | undefined>;
+
+const STREAM_PATH = "/api/v1/analyze/stream";
+
+/**
+ * Typed client for the analyzer API. Every response is validated against the same schemas
+ * the server's types and the OpenAPI document are built from. Works in the browser and in
+ * Node scripts; pass `baseUrl` and `apiKey` when calling a deployed instance.
+ */
+export function createApiClient(options: ApiClientOptions = {}) {
+  const baseUrl = options.baseUrl?.replace(/\/+$/, "") ?? "";
+
+  async function request<S extends z.ZodType>(
+    path: string,
+    schema: S,
+    query: Query = {},
+    init: RequestInit = {},
+  ): Promise<z.infer<S>> {
+    const headers = new Headers(init.headers);
+    if (options.apiKey) {
+      headers.set("Authorization", `Bearer ${options.apiKey}`);
+    }
+
+    const fetchImpl = options.fetch ?? fetch;
+    const response = await fetchImpl(`${baseUrl}${path}${toSearch(query)}`, { cache: "no-store", ...init, headers });
+
+    if (!response.ok) {
+      const { message, code } = await readError(response, path);
+      throw new ApiError(message, response.status, code);
+    }
+
+    const parsed = schema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new ApiError(`Unexpected response from ${path}: ${parsed.error.message}`, response.status);
+    }
+    return parsed.data;
+  }
+
+  /** The error a rejected stream was answered with, or null when the stream opens now. */
+  async function readRejection(url: string): Promise<ApiError | null> {
+    const fetchImpl = options.fetch ?? fetch;
+    const controller = new AbortController();
+    const response = await fetchImpl(url, { cache: "no-store", signal: controller.signal }).catch(() => null);
+    if (!response || response.ok) {
+      controller.abort();
+      return null;
+    }
+    const { message, code } = await readError(response, STREAM_PATH);
+    return new ApiError(message, response.status, code);
+  }
+
+  return {
+    analyze(address: string, { method, owned }: AnalyzeOptions = {}) {
+      return request("/api/v1/analyze", analyzeResponseSchema, { address, method, owned });
+    },
+
+    /**
+     * Same analysis as `analyze`, reporting progress as it streams in. Needs `EventSource`, so it
+     * only runs in the browser; requests are not authenticated with `apiKey`.
+     */
+    streamAnalysis(
+      address: string,
+      onProgress: (progress: AnalysisProgress) => void,
+      { method, owned }: AnalyzeOptions = {},
+    ): Promise<AnalyzeResponse> {
+      return new Promise((resolve, reject) => {
+        const url = `${baseUrl}${STREAM_PATH}${toSearch({ address, method, owned })}`;
+        const source = new EventSource(url);
+        let received = false;
+        const read = (event: Event) => {
+          received = true;
+          return JSON.parse((event as MessageEvent<string>).data);
+        };
+        const fail = (error: unknown) => {
+          source.close();
+          reject(error);
+        };
+
+        for (const type of ["network", "prices"] as const) {
+          source.addEventListener(type, (event) => {
+            const parsed = analysisProgressSchema.safeParse({ type, ...read(event) });
+            if (parsed.success) {
+              onProgress(parsed.data);
+            }
+          });
+        }
+        source.addEventListener("result", (event) => {
+          const parsed = analyzeResponseSchema.safeParse(read(event));
+          if (!parsed.success) {
+            fail(new ApiError(`Unexpected response from ${STREAM_PATH}: ${parsed.error.message}`, 200));
+            return;
+          }
+          source.close();
+          resolve(parsed.data);
+        });
+        source.addEventListener("failure", (event) => {
+          const { error } = read(event);
+          fail(
+            typeof error === "object" && error
+              ? new ApiError(error.message, 500, error.code)
+              : new ApiError(error ?? "Analysis failed", 500),
+          );
+        });
+        // Rejected requests (bad input, rate limits) and dropped connections end up here, and
+        // EventSource would reconnect on its own. A connection dropped mid-analysis fails; a closed
+        // stream means the server answered with an error, so read it; otherwise the JSON endpoint
+        // gets one more try.
+        source.onerror = () => {
+          const rejected = source.readyState === EventSource.CLOSED;
+          source.close();
+          if (received) {
+            fail(new ApiError(`Lost the connection to ${STREAM_PATH}`, 0));
+            return;
+          }
+          (rejected ? readRejection(url) : Promise.resolve(null))
+            .then((error) => {
+              if (error) {
+                throw error;
+              }
+              return request("/api/v1/analyze", analyzeResponseSchema, { address, method, owned });
+            })
+            .then(resolve, reject);
+        };
+      });
+    },
+
+    analyzeBatch(addresses: string[], { method, owned }: AnalyzeOptions = {}) {
+      return request(
+        "/api/v1/analyze/batch",
+        analyzeBatchResponseSchema,
+        { owned },
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ addresses, method }),
+        },
+      );
+    },
+
+    history(address: string, query: HistoryOptions = {}) {
+      return request("/api/v1/history", historyResponseSchema, { address, ...query });
+    },
+
+    netWorth(address: string, range?: NetWorthRange) {
+      return request("/api/v1/networth", netWorthResponseSchema, { address, range });
+    },
+
+    async listPortfolios() {
+      return (await request("/api/v1/portfolio", portfolioListResponseSchema)).portfolios;
+    },
+
+    getPortfolio(id: string) {
+      return request(`/api/v1/portfolio/${encodeURIComponent(id)}`, portfolioSchema);
+    },
+
+    analyzePortfolio(id: string, { method }: Pick<AnalyzeOptions, "method"> = {}) {
+      return request(`/api/v1/portfolio/${encodeURIComponent(id)}/analyze`, portfolioAnalysisSchema, { method });
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+function toSearch(query: Query) {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      if (value.length > 0) {
+        params.set(key, value.join(","));
+      }
+    } else if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  });
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+/** Reads both error shapes: `{ error: message }` and the `/api/v1` envelope. */
+async function readError(response: Response, path: string): Promise<{ message: string; code?: ApiErrorCode }> {
+  const fallback = `Request to ${path} failed (${response.status})`;
+  const text = await response.text().catch(() => "");
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return { message: text || fallback };
+  }
+
+  const envelope = errorEnvelopeSchema.safeParse(payload);
+  if (envelope.success) {
+    return { message: envelope.data.error.message, code: envelope.data.error.code };
+  }
+  const legacy = errorResponseSchema.safeParse(payload);
+  return { message: legacy.success ? legacy.data.error : fallback };
+}
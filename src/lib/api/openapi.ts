@@ -0,0 +1,267 @@
+import { z } from "zod";
+import { API_KEY_SCOPES } from "@/lib/api-keys";
+import { COST_BASIS_METHODS } from "@/lib/cost-basis";
+import { apiSchemas, netWorthRangeSchema } from "@/lib/api/schemas";
+
+type Parameter = {
+  name: string;
+  in: "query" | "path";
+  required?: boolean;
+  description: string;
+  schema: Record<string, unknown>;
+};
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+const json = (description: string, schema: Record<string, unknown>) => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+const legacyErrors = {
+  "400": json("Invalid input.", ref("Error")),
+  "401": json("The API key is missing, invalid or revoked.", ref("Error")),
+  "403": json("The API key lacks the scope this route needs.", ref("Error")),
+  "429": json("Rate limit exceeded. `Retry-After` says when to try again.", ref("Error")),
+  "500": json("The analysis failed upstream.", ref("Error")),
+};
+
+const v1Errors = {
+  "400": json("`invalid_request` or `invalid_address`.", ref("ErrorEnvelope")),
+  "401": json("`unauthorized`: the API key is missing, invalid or revoked.", ref("ErrorEnvelope")),
+  "403": json("`forbidden`: the API key lacks the scope this route needs.", ref("ErrorEnvelope")),
+  "422": json("`ens_resolution_failed`: the ENS name does not resolve to a wallet.", ref("ErrorEnvelope")),
+  "429": json("`rate_limited`. `Retry-After` says when to try again.", ref("ErrorEnvelope")),
+  "500": json("`internal_error`.", ref("ErrorEnvelope")),
+  "502": json(
+    "`provider_auth_failed`, `provider_unavailable`, `partial_chain_failure`, or `ens_resolution_failed` when the lookup was unavailable.",
+    ref("ErrorEnvelope"),
+  ),
+  "503": json("`provider_rate_limited`: a data provider is throttling requests.", ref("ErrorEnvelope")),
+};
+
+const addressParameter: Parameter = {
+  name: "address",
+  in: "query",
+  required: true,
+  description: "EVM address, Solana address or ENS name.",
+  schema: { type: "string" },
+};
+
+const methodParameter: Parameter = {
+  name: "method",
+  in: "query",
+  description: "Lot matching method for cost basis. Defaults to `COST_BASIS_METHOD`, or FIFO.",
+  schema: { type: "string", enum: [...COST_BASIS_METHODS] },
+};
+
+const ownedParameter: Parameter = {
+  name: "owned",
+  in: "query",
+  description: "Comma-separated wallets of the same owner; transfers between them are internal.",
+  schema: { type: "string" },
+};
+
+const historyParameters: Parameter[] = [
+  { name: "cursor", in: "query", description: "`nextCursor` of the previous page.", schema: { type: "string" } },
+  { name: "from", in: "query", description: "ISO date or timestamp; dates include the whole day.", schema: { type: "string" } },
+  { name: "to", in: "query", description: "ISO date or timestamp; dates include the whole day.", schema: { type: "string" } },
+  { name: "chain", in: "query", description: "Chain slug, alias or chain ID.", schema: { type: "string" } },
+  {
+    name: "direction",
+    in: "query",
+    description: "Only transactions in this direction.",
+    schema: { type: "string", enum: ["in", "out", "internal"] },
+  },
+  { name: "symbol", in: "query", description: "Matches the primary asset or any leg.", schema: { type: "string" } },
+  { name: "minUsd", in: "query", description: "Minimum USD value.", schema: { type: "number" } },
+];
+
+const portfolioIdParameter: Parameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  description: "Portfolio ID.",
+  schema: { type: "string" },
+};
+
+/** Component schemas for every payload registered in `apiSchemas`. */
+function componentSchemas() {
+  const { schemas } = z.toJSONSchema(apiSchemas, {
+    target: "openapi-3.0",
+    // Input mode leaves objects open; responses may carry fields clients can ignore.
+    io: "input",
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+
+  // Components are addressed by their key; the `$id` zod adds would only confuse validators.
+  Object.values(schemas).forEach((schema) => {
+    delete schema.$id;
+  });
+  return schemas;
+}
+
+/**
+ * Operations keyed by their path below `/api`. Both the unversioned and the `/api/v1` routes
+ * serve them; only the error bodies differ.
+ */
+function operations(errors: Record<string, unknown>, errorSchema: string) {
+  return {
+    "/analyze": {
+      get: {
+        operationId: "analyzeWallet",
+        summary: "Analyze a wallet's holdings, PnL and risk",
+        parameters: [addressParameter, methodParameter, ownedParameter],
+        responses: { "200": json("Wallet analysis.", ref("AnalyzeResponse")), ...errors },
+      },
+    },
+    "/analyze/stream": {
+      get: {
+        operationId: "streamWalletAnalysis",
+        summary: "Analyze a wallet, streaming progress as Server-Sent Events",
+        description:
+          "Emits `network` and `prices` events shaped like `AnalysisProgress`, then `result` with an `AnalyzeResponse` or `failure` with the route's error body, and closes.",
+        parameters: [addressParameter, methodParameter, ownedParameter],
+        responses: {
+          "200": { description: "Event stream.", content: { "text/event-stream": { schema: { type: "string" } } } },
+          ...errors,
+        },
+      },
+    },
+    "/analyze/batch": {
+      post: {
+        operationId: "analyzeWallets",
+        summary: "Analyze up to 250 wallets in one call",
+        parameters: [ownedParameter],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["addresses"],
+                properties: {
+                  addresses: { type: "array", items: { type: "string" }, minItems: 1, maxItems: 250 },
+                  method: { type: "string", enum: [...COST_BASIS_METHODS] },
+                },
+              },
+            },
+          },
+        },
+        responses: { "200": json("Per-wallet results.", ref("AnalyzeBatchResponse")), ...errors },
+      },
+    },
+    "/history": {
+      get: {
+        operationId: "getWalletHistory",
+        summary: "Page through a wallet's classified transactions, newest first",
+        parameters: [
+          addressParameter,
+          {
+            name: "limit",
+            in: "query",
+            description: "Page size.",
+            schema: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+          ...historyParameters,
+          ownedParameter,
+        ],
+        responses: { "200": json("A page of history.", ref("HistoryResponse")), ...errors },
+      },
+    },
+    "/networth": {
+      get: {
+        operationId: "getNetWorthHistory",
+        summary: "Daily net worth series",
+        parameters: [
+          addressParameter,
+          {
+            name: "range",
+            in: "query",
+            description: "Length of the series.",
+            schema: { type: "string", enum: netWorthRangeSchema.options, default: "30d" },
+          },
+        ],
+        responses: { "200": json("Net worth series.", ref("NetWorthResponse")), ...errors },
+      },
+    },
+    "/portfolio": {
+      get: {
+        operationId: "listPortfolios",
+        summary: "List portfolios",
+        responses: {
+          "200": json("Saved portfolios.", {
+            type: "object",
+            required: ["portfolios"],
+            properties: { portfolios: { type: "array", items: ref("Portfolio") } },
+          }),
+          ...errors,
+        },
+      },
+    },
+    "/portfolio/{id}": {
+      get: {
+        operationId: "getPortfolio",
+        summary: "Read a portfolio",
+        parameters: [portfolioIdParameter],
+        responses: {
+          "200": json("The portfolio.", ref("Portfolio")),
+          "404": json("No portfolio with this ID.", ref(errorSchema)),
+          ...errors,
+        },
+      },
+    },
+    "/portfolio/{id}/analyze": {
+      get: {
+        operationId: "analyzePortfolio",
+        summary: "Analyze every wallet in a portfolio as one",
+        parameters: [portfolioIdParameter, methodParameter],
+        responses: {
+          "200": json("Combined analysis with a per-wallet breakdown.", ref("PortfolioAnalysis")),
+          "404": json("No portfolio with this ID.", ref(errorSchema)),
+          ...errors,
+        },
+      },
+    },
+  };
+}
+
+/** Prefixes every path, and every operation ID so they stay unique across versions. */
+function mount(prefix: string, suffix: string, paths: ReturnType<typeof operations>) {
+  return Object.fromEntries(
+    Object.entries(paths).map(([path, methods]) => [
+      `${prefix}${path}`,
+      Object.fromEntries(
+        Object.entries(methods).map(([method, operation]) => [
+          method,
+          { ...operation, operationId: `${operation.operationId}${suffix}` },
+        ]),
+      ),
+    ]),
+  );
+}
+
+/** OpenAPI 3 description of the public API, generated from the shared payload schemas. */
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Qerun Wallet Analyzer API",
+      version: "0.1.0",
+      description: `Wallet analytics across EVM chains and Solana. Authenticate with an API key issued under \`/api/keys\`; scopes are ${API_KEY_SCOPES.join(", ")}. Routes under \`/api/v1\` answer errors with a stable \`code\`; see \`ErrorEnvelope\`.`,
+    },
+    servers: [{ url: "/" }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }, {}],
+    paths: {
+      ...mount("/api", "", operations(legacyErrors, "Error")),
+      ...mount("/api/v1", "V1", operations(v1Errors, "ErrorEnvelope")),
+    },
+    components: {
+      schemas: componentSchemas(),
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+    },
+  };
+}
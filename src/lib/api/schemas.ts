@@ -0,0 +1,338 @@
+import { z } from "zod";
+import type { AbiValue } from "@/lib/abi/decoder";
+import { COST_BASIS_METHODS } from "@/lib/cost-basis";
+import { TRANSACTION_TYPES } from "@/lib/transaction-classifier";
+
+/**
+ * Single source for the JSON payloads the API returns. The library types are inferred from
+ * these schemas, the OpenAPI document is generated from them, and the API client validates
+ * responses against them. Schemas registered here become named components in the document.
+ */
+export const apiSchemas = z.registry<{ id: string; description?: string }>();
+
+export const errorResponseSchema = z
+  .object({ error: z.string() })
+  .register(apiSchemas, { id: "Error", description: "Returned with every 4xx and 5xx response outside `/api/v1`." });
+
+/** Stable error codes of the versioned API. New codes may be added; existing ones keep their meaning. */
+export const API_ERROR_CODES = [
+  "invalid_request",
+  "invalid_address",
+  "ens_resolution_failed",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "rate_limited",
+  "provider_auth_failed",
+  "provider_rate_limited",
+  "provider_unavailable",
+  "partial_chain_failure",
+  "internal_error",
+] as const;
+
+export const apiErrorCodeSchema = z.enum(API_ERROR_CODES).register(apiSchemas, { id: "ErrorCode" });
+
+export const apiErrorSchema = z
+  .object({
+    code: apiErrorCodeSchema,
+    message: z.string().describe("Human-readable; wording may change, so match on `code`."),
+    retryable: z.boolean().describe("Whether the same request may succeed later."),
+    details: z.record(z.string(), z.unknown()).describe("Context for the code, e.g. `networkId`."),
+  })
+  .register(apiSchemas, { id: "ApiError" });
+
+export const errorEnvelopeSchema = z
+  .object({ error: apiErrorSchema })
+  .register(apiSchemas, { id: "ErrorEnvelope", description: "Returned with every 4xx and 5xx response under `/api/v1`." });
+
+export const costBasisMethodSchema = z.enum(COST_BASIS_METHODS);
+
+export const cacheStatusSchema = z.enum(["HIT", "STALE", "MISS"]);
+
+export const networkStatusSchema = z
+  .object({
+    networkId: z.string(),
+    status: z.enum(["ok", "failed", "timeout"]),
+    provider: z.string().nullable().describe("Provider that answered, or null when none did."),
+    itemCount: z.number().describe("Records the provider returned; 0 unless the status is `ok`."),
+    error: z.string().nullable(),
+  })
+  .register(apiSchemas, {
+    id: "NetworkStatus",
+    description: "Outcome of one requested network. Totals are incomplete when any status is not `ok`.",
+  });
+
+const providerMetaSchema = z.object({
+  source: z.string(),
+  isFallback: z.boolean(),
+  providers: z.record(z.string(), z.string()).describe("Provider that answered for each network that returned data."),
+  degradedNetworks: z
+    .array(z.string())
+    .describe("Networks that were served by a fallback provider or could not be served at all."),
+  networks: z.array(networkStatusSchema).describe("Every requested network, in request order."),
+});
+
+export const analysisSummarySchema = z
+  .object({
+    netWorth: z.number(),
+    netWorthChange: z.number(),
+    netWorthChangePct: z.number(),
+    realizedPnl: z.number(),
+    realizedPnlPct: z.number(),
+    unrealizedPnl: z.number(),
+    unrealizedPnlPct: z.number(),
+    riskLevel: z.enum(["Conservative", "Moderate", "Aggressive"]),
+  })
+  .register(apiSchemas, { id: "AnalysisSummary" });
+
+export const analysisTokenSchema = z
+  .object({
+    symbol: z.string(),
+    protocol: z.string(),
+    valueUsd: z.number(),
+    change24h: z.number(),
+    allocationPct: z.number(),
+    amount: z.number(),
+    decimals: z.number(),
+    costBasisUsd: z
+      .number()
+      .nullable()
+      .describe(
+        "Cost of the units still held, or null when the wallet history cannot explain them or one was bought at an unknown price.",
+      ),
+    unrealizedPnlUsd: z.number().nullable(),
+    realizedPnlUsd: z.number().nullable(),
+  })
+  .register(apiSchemas, { id: "AnalysisToken" });
+
+export const analysisInsightSchema = z
+  .object({
+    title: z.string(),
+    detail: z.string(),
+    tone: z.enum(["positive", "warning", "neutral"]),
+  })
+  .register(apiSchemas, { id: "AnalysisInsight" });
+
+const costBasisMetaSchema = z.object({
+  method: costBasisMethodSchema,
+  available: z.boolean(),
+});
+
+export const walletAnalysisSchema = z.object({
+  summary: analysisSummarySchema,
+  tokens: z.array(analysisTokenSchema),
+  insights: z.array(analysisInsightSchema),
+  meta: providerMetaSchema.extend({ costBasis: costBasisMetaSchema }),
+});
+
+export const analyzeResponseSchema = walletAnalysisSchema
+  .extend({ address: z.string() })
+  .register(apiSchemas, { id: "AnalyzeResponse" });
+
+export const analysisProgressSchema = z
+  .union([
+    z.object({ type: z.literal("network"), networkId: z.string(), status: z.literal("loading") }),
+    z.object({
+      type: z.literal("network"),
+      networkId: z.string(),
+      status: z.literal("loaded"),
+      provider: z.string(),
+      tokens: z.array(analysisTokenSchema).describe("Valued with the provider's own USD figures."),
+    }),
+    z.object({ type: z.literal("network"), networkId: z.string(), status: z.literal("failed"), error: z.string() }),
+    z.object({ type: z.literal("prices"), tokens: z.array(analysisTokenSchema) }),
+  ])
+  .register(apiSchemas, {
+    id: "AnalysisProgress",
+    description: "Streamed ahead of the result; `type` is sent as the event name rather than in the data.",
+  });
+
+export const analyzeBatchResultSchema = z
+  .union([
+    analyzeResponseSchema.extend({ cache: cacheStatusSchema }),
+    z.object({
+      error: z
+        .union([z.string(), apiErrorSchema])
+        .describe("A message, or the error object when called under `/api/v1`."),
+      status: z.number().describe("Status the single-address endpoint would have answered with."),
+    }),
+  ])
+  .register(apiSchemas, { id: "AnalyzeBatchResult" });
+
+export const analyzeBatchResponseSchema = z
+  .object({
+    results: z.record(z.string(), analyzeBatchResultSchema).describe("Keyed by the address or ENS name as it was sent."),
+    meta: z.object({
+      requested: z.number(),
+      succeeded: z.number(),
+      failed: z.number(),
+    }),
+  })
+  .register(apiSchemas, { id: "AnalyzeBatchResponse" });
+
+export const abiValueSchema: z.ZodType<AbiValue> = z
+  .lazy(() => z.union([z.string(), z.boolean(), z.array(abiValueSchema), z.record(z.string(), abiValueSchema)]))
+  .register(apiSchemas, {
+    id: "AbiValue",
+    description: "Decoded ABI value; integers are decimal strings so they survive JSON serialization.",
+  });
+
+export const decodedArgumentSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  value: abiValueSchema,
+});
+
+export const decodedCallSchema = z
+  .object({
+    selector: z.string(),
+    name: z.string(),
+    signature: z.string(),
+    protocol: z.string(),
+    args: z.array(decodedArgumentSchema),
+  })
+  .register(apiSchemas, { id: "DecodedCall" });
+
+export const transactionLegSchema = z
+  .object({
+    direction: z.enum(["in", "out"]),
+    symbol: z.string().nullable(),
+    amount: z.number().nullable(),
+    valueUsd: z.number().nullable(),
+    contract: z.string().nullable().describe("Token contract (or SPL mint); null for the chain's native asset."),
+    from: z.string().nullable(),
+    to: z.string().nullable(),
+  })
+  .register(apiSchemas, {
+    id: "TransactionLeg",
+    description: "One asset movement into or out of the wallet within a transaction.",
+  });
+
+export const walletTransactionSchema = z
+  .object({
+    hash: z.string(),
+    timestamp: z.string(),
+    direction: z.enum(["in", "out", "internal"]),
+    type: z.enum(TRANSACTION_TYPES),
+    legs: z.array(transactionLegSchema).describe("Every asset that entered or left the wallet in this transaction."),
+    method: decodedCallSchema
+      .optional()
+      .describe("Contract method decoded from the call data when its selector is in the ABI registry."),
+    valueUsd: z.number().nullable(),
+    amount: z.number().nullable(),
+    symbol: z.string().nullish(),
+    counterparty: z.string().nullish(),
+    chain: z.string(),
+    gasFeeUsd: z.number().nullable(),
+    explorerUrl: z.string().optional(),
+    internalTransfer: z
+      .object({ from: z.string(), to: z.string() })
+      .optional()
+      .describe("Set when both sides are wallets the caller owns. The two legs share `hash`."),
+  })
+  .register(apiSchemas, { id: "WalletTransaction" });
+
+export const walletFlowSummarySchema = z.object({
+  inflowUsd: z.number(),
+  outflowUsd: z.number(),
+  internalTransferUsd: z.number().describe("Value moved between owned wallets, excluded from inflow and outflow."),
+});
+
+export const historyResponseSchema = z
+  .object({
+    address: z.string(),
+    history: z.array(walletTransactionSchema),
+    nextCursor: z.string().nullable().describe("Pass as `cursor` to fetch the next, older page; null on the last page."),
+    summary: walletFlowSummarySchema.describe("Totals over every transaction matching the filters, across all pages."),
+    meta: providerMetaSchema,
+  })
+  .register(apiSchemas, { id: "HistoryResponse" });
+
+export const netWorthRangeSchema = z.enum(["30d", "90d", "1y"]);
+
+export const netWorthSeriesSchema = z.object({
+  range: netWorthRangeSchema,
+  points: z.array(z.object({ date: z.string(), valueUsd: z.number() })),
+  summary: z.object({
+    startValueUsd: z.number(),
+    endValueUsd: z.number(),
+    changeUsd: z.number(),
+    changePct: z.number(),
+  }),
+  meta: providerMetaSchema,
+});
+
+export const netWorthResponseSchema = netWorthSeriesSchema
+  .extend({ address: z.string() })
+  .register(apiSchemas, { id: "NetWorthResponse" });
+
+export const portfolioWalletSchema = z.object({
+  address: z.string(),
+  label: z.string(),
+});
+
+export const portfolioSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    wallets: z.array(portfolioWalletSchema),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .register(apiSchemas, { id: "Portfolio" });
+
+export const portfolioListResponseSchema = z.object({ portfolios: z.array(portfolioSchema) });
+
+export const portfolioWalletBreakdownSchema = z
+  .object({
+    address: z.string(),
+    label: z.string(),
+    netWorth: z.number(),
+    netWorthChange: z.number(),
+    allocationPct: z.number().describe("Share of the combined portfolio value held by this wallet."),
+    tokens: z.array(analysisTokenSchema),
+    meta: providerMetaSchema.pick({ source: true, providers: true, degradedNetworks: true, networks: true }).nullable(),
+    error: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "PortfolioWalletBreakdown" });
+
+export const portfolioAnalysisSchema = z
+  .object({
+    portfolio: z.object({ id: z.string(), name: z.string() }),
+    summary: analysisSummarySchema,
+    tokens: z.array(analysisTokenSchema),
+    insights: z.array(analysisInsightSchema),
+    wallets: z.array(portfolioWalletBreakdownSchema),
+    meta: providerMetaSchema.omit({ providers: true, networks: true }).extend({
+      failedWallets: z.array(z.string()),
+      costBasis: costBasisMetaSchema,
+    }),
+  })
+  .register(apiSchemas, { id: "PortfolioAnalysis" });
+
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+export type ApiErrorCode = z.infer<typeof apiErrorCodeSchema>;
+export type ApiErrorBody = z.infer<typeof apiErrorSchema>;
+export type ErrorEnvelope = z.infer<typeof errorEnvelopeSchema>;
+export type NetworkStatus = z.infer<typeof networkStatusSchema>;
+export type AnalysisSummary = z.infer<typeof analysisSummarySchema>;
+export type AnalysisToken = z.infer<typeof analysisTokenSchema>;
+export type AnalysisInsight = z.infer<typeof analysisInsightSchema>;
+export type WalletAnalysis = z.infer<typeof walletAnalysisSchema>;
+export type AnalyzeResponse = z.infer<typeof analyzeResponseSchema>;
+export type AnalysisProgress = z.infer<typeof analysisProgressSchema>;
+export type AnalyzeBatchResult = z.infer<typeof analyzeBatchResultSchema>;
+export type AnalyzeBatchResponse = z.infer<typeof analyzeBatchResponseSchema>;
+export type DecodedArgument = z.infer<typeof decodedArgumentSchema>;
+export type DecodedCall = z.infer<typeof decodedCallSchema>;
+export type TransactionLeg = z.infer<typeof transactionLegSchema>;
+export type WalletTransaction = z.infer<typeof walletTransactionSchema>;
+export type WalletFlowSummary = z.infer<typeof walletFlowSummarySchema>;
+export type HistoryResponse = z.infer<typeof historyResponseSchema>;
+export type NetWorthRange = z.infer<typeof netWorthRangeSchema>;
+export type NetWorthSeries = z.infer<typeof netWorthSeriesSchema>;
+export type NetWorthResponse = z.infer<typeof netWorthResponseSchema>;
+export type PortfolioWallet = z.infer<typeof portfolioWalletSchema>;
+export type Portfolio = z.infer<typeof portfolioSchema>;
+export type PortfolioWalletBreakdown = z.infer<typeof portfolioWalletBreakdownSchema>;
+export type PortfolioAnalysis = z.infer<typeof portfolioAnalysisSchema>;
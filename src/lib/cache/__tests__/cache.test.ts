@@ -0,0 +1,148 @@
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { createCache } from "../cache";
+import { createMemoryCacheBackend } from "../memory";
+import { createRedisCacheBackend, type RedisCacheClient } from "../redis";
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+/** Map-backed stand-in for the ioredis commands the backend issues. */
+function fakeRedis() {
+  const values = new Map<string, string>();
+  const client: RedisCacheClient = {
+    get: async (key) => values.get(key) ?? null,
+    set: async (key: string, value: string, _px: "PX", _ttlMs: number, nx?: "NX") => {
+      if (nx && values.has(key)) {
+        return null;
+      }
+      values.set(key, value);
+      return "OK";
+    },
+    del: async (key) => Number(values.delete(key)),
+    // Only the compare-and-delete script that releases locks is ever evaluated.
+    eval: async (_script, _numKeys, key, token) => (values.get(key) === token ? Number(values.delete(key)) : 0),
+  };
+  return { client, values };
+}
+
+describe("createCache", () => {
+  it("loads once for concurrent misses and serves hits afterwards", async () => {
+    const cache = createCache<{ total: number }>("coalesce", {
+      ttlMs: 1000,
+      backend: createMemoryCacheBackend({ maxEntries: 10 }),
+    });
+    let resolveLoad: (value: { total: number }) => void = () => undefined;
+    const load = vi.fn(() => new Promise<{ total: number }>((resolve) => (resolveLoad = resolve)));
+
+    const pending = Promise.all([cache.get("0xabc", load), cache.get("0xabc", load)]);
+    await vi.waitFor(() => expect(load).toHaveBeenCalled());
+    resolveLoad({ total: 42 });
+
+    expect(await pending).toEqual([
+      { value: { total: 42 }, status: "MISS" },
+      { value: { total: 42 }, status: "MISS" },
+    ]);
+    expect(await cache.get("0xabc", load)).toEqual({ value: { total: 42 }, status: "HIT" });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves stale values while refreshing them in the background", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const cache = createCache<number>("swr", {
+      ttlMs: 1000,
+      staleWhileRevalidateMs: 5000,
+      backend: createMemoryCacheBackend({ maxEntries: 10 }),
+    });
+    const load = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    await cache.get("key", load);
+    vi.setSystemTime(2000);
+
+    expect(await cache.get("key", load)).toEqual({ value: 1, status: "STALE" });
+    await vi.waitFor(() => expect(load).toHaveBeenCalledTimes(2));
+    await vi.waitFor(async () => expect(await cache.get("key", load)).toEqual({ value: 2, status: "HIT" }));
+
+    vi.setSystemTime(10_000);
+    load.mockResolvedValueOnce(3);
+    expect(await cache.get("key", load)).toEqual({ value: 3, status: "MISS" });
+  });
+
+  it("does not cache failed loads", async () => {
+    const cache = createCache<number>("errors", {
+      ttlMs: 1000,
+      backend: createMemoryCacheBackend({ maxEntries: 10 }),
+    });
+
+    await expect(cache.get("key", () => Promise.reject(new Error("upstream down")))).rejects.toThrow("upstream down");
+    expect(await cache.get("key", () => Promise.resolve(7))).toEqual({ value: 7, status: "MISS" });
+  });
+
+  it("lets the loaded value shorten its own lifetime", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const cache = createCache<{ partial: boolean }>("lifetime", {
+      ttlMs: 60_000,
+      staleWhileRevalidateMs: 60_000,
+      lifetime: (value) => (value.partial ? { ttlMs: 1000 } : { ttlMs: 60_000, staleWhileRevalidateMs: 60_000 }),
+      backend: createMemoryCacheBackend({ maxEntries: 10 }),
+    });
+    const load = vi.fn().mockResolvedValueOnce({ partial: true }).mockResolvedValueOnce({ partial: false });
+
+    await cache.get("key", load);
+    vi.setSystemTime(2000);
+
+    expect(await cache.get("key", load)).toEqual({ value: { partial: false }, status: "MISS" });
+  });
+
+  it("stores entries in Redis and releases the load lock", async () => {
+    const { client, values } = fakeRedis();
+    const cache = createCache<string>("analyze", { ttlMs: 1000, backend: createRedisCacheBackend(client) });
+
+    await cache.get("0xabc", async () => "report");
+
+    expect(JSON.parse(values.get("qerun:cache:analyze:0xabc") ?? "null")).toMatchObject({ value: "report" });
+    expect(values.has("qerun:lock:analyze:0xabc")).toBe(false);
+    expect(await cache.get("0xabc", () => Promise.resolve("other"))).toEqual({ value: "report", status: "HIT" });
+  });
+
+  it("leaves a lock taken over by a peer in place", async () => {
+    const { client, values } = fakeRedis();
+    const backend = createRedisCacheBackend(client);
+
+    const token = await backend.acquireLock!("analyze:0xabc", 1000);
+    expect(await backend.acquireLock!("analyze:0xabc", 1000)).toBeNull();
+    // The lock expired and a peer claimed it before the first holder finished.
+    values.set("qerun:lock:analyze:0xabc", "peer");
+    await backend.releaseLock!("analyze:0xabc", token!);
+
+    expect(values.get("qerun:lock:analyze:0xabc")).toBe("peer");
+  });
+
+  it("falls back to loading directly when the backend is unreachable", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const failing = () => Promise.reject(new Error("ECONNREFUSED"));
+    const cache = createCache<number>("offline", {
+      ttlMs: 1000,
+      backend: createRedisCacheBackend({ get: failing, set: failing, del: failing, eval: failing }),
+    });
+
+    expect(await cache.get("key", () => Promise.resolve(5))).toEqual({ value: 5, status: "MISS" });
+  });
+});
+
+describe("createMemoryCacheBackend", () => {
+  it("evicts the least recently used entry", async () => {
+    const backend = createMemoryCacheBackend({ maxEntries: 2 });
+    const entry = { value: 1, freshUntil: Date.now() + 1000, expiresAt: Date.now() + 1000 };
+
+    await backend.set("a", entry);
+    await backend.set("b", entry);
+    await backend.get("a");
+    await backend.set("c", entry);
+
+    expect(await backend.get("a")).not.toBeNull();
+    expect(await backend.get("b")).toBeNull();
+    expect(await backend.get("c")).not.toBeNull();
+  });
+});
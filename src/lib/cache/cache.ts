@@ -0,0 +1,175 @@
+import { createMemoryCacheBackend } from "@/lib/cache/memory";
+import { createRedisCacheBackend } from "@/lib/cache/redis";
+import { getRedisClient } from "@/lib/redis";
+
+export type CacheEntry<T> = {
+  value: T;
+  /** Until then the value is served as is. */
+  freshUntil: number;
+  /** Until then the value is still served, but refreshed in the background. */
+  expiresAt: number;
+};
+
+export type CacheBackend = {
+  name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  /**
+   * Claims the right to load `key` across instances, returning a token that proves ownership,
+   * or null while another instance holds it. Backends that are not shared between instances
+   * leave it out and rely on in-process coalescing alone.
+   */
+  acquireLock?(key: string, ttlMs: number): Promise<string | null>;
+  /** Releases the lock only if `token` still owns it. */
+  releaseLock?(key: string, token: string): Promise<void>;
+};
+
+export type CacheStatus = "HIT" | "STALE" | "MISS";
+
+export type CacheLifetime = {
+  /** How long a stored value is served without refreshing it. */
+  ttlMs: number;
+  /** How long past `ttlMs` the value is still served while a refresh runs in the background. */
+  staleWhileRevalidateMs?: number;
+};
+
+export type CacheOptions<T = unknown> = CacheLifetime & {
+  /** Overrides the lifetime per loaded value, e.g. to keep results with missing data only briefly. */
+  lifetime?: (value: T) => CacheLifetime;
+  /** Defaults to Redis when `REDIS_URL` is set and to process memory otherwise. */
+  backend?: CacheBackend;
+};
+
+export type Cache<T> = {
+  get(key: string, load: () => Promise<T>): Promise<{ value: T; status: CacheStatus }>;
+};
+
+/** How long a peer may hold the load lock before others give up waiting and load themselves. */
+const LOCK_TTL_MS = 30_000;
+const LOCK_POLL_MS = 250;
+const DEFAULT_MAX_ENTRIES = 500;
+
+const inFlight = new Map<string, Promise<unknown>>();
+let memoryBackend: CacheBackend | null = null;
+const redisBackends = new WeakMap<object, CacheBackend>();
+
+/**
+ * Read-through cache for JSON-serializable values. Concurrent misses for the same key share one
+ * `load` call, on this instance and, with a shared backend, across instances. Failed loads are
+ * never cached, and an unreachable backend degrades to loading directly.
+ */
+export function createCache<T>(namespace: string, options: CacheOptions<T>): Cache<T> {
+  return {
+    async get(key, load) {
+      const backend = options.backend ?? getCacheBackend();
+      const storeKey = `${namespace}:${key}`;
+      const entry = await safely(backend, () => backend.get<T>(storeKey), null);
+      const now = Date.now();
+
+      if (entry && entry.freshUntil > now) {
+        return { value: entry.value, status: "HIT" };
+      }
+
+      const refresh = () => coalesce(storeKey, () => loadAndStore(backend, storeKey, load, options));
+
+      if (entry && entry.expiresAt > now) {
+        refresh().catch((error) => {
+          console.warn("[Cache] Background refresh failed", {
+            key: storeKey,
+            error: error instanceof Error ? error.message : error,
+          });
+        });
+        return { value: entry.value, status: "STALE" };
+      }
+
+      return { value: await refresh(), status: "MISS" };
+    },
+  };
+}
+
+/** Redis when `REDIS_URL` is set, otherwise a bounded in-memory LRU sized by `CACHE_MAX_ENTRIES`. */
+export function getCacheBackend(): CacheBackend {
+  const redis = getRedisClient();
+  if (redis) {
+    let backend = redisBackends.get(redis);
+    if (!backend) {
+      backend = createRedisCacheBackend(redis);
+      redisBackends.set(redis, backend);
+    }
+    return backend;
+  }
+
+  if (!memoryBackend) {
+    const maxEntries = Number.parseInt(process.env.CACHE_MAX_ENTRIES ?? "", 10);
+    memoryBackend = createMemoryCacheBackend({
+      maxEntries: Number.isFinite(maxEntries) && maxEntries > 0 ? maxEntries : DEFAULT_MAX_ENTRIES,
+    });
+  }
+  return memoryBackend;
+}
+
+function coalesce<T>(key: string, run: () => Promise<T>): Promise<T> {
+  let pending = inFlight.get(key) as Promise<T> | undefined;
+  if (!pending) {
+    pending = run().finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
+
+async function loadAndStore<T>(
+  backend: CacheBackend,
+  key: string,
+  load: () => Promise<T>,
+  options: CacheOptions<T>,
+): Promise<T> {
+  // Undefined when there is no shared lock to take, in which case this instance simply loads.
+  const lock = backend.acquireLock
+    ? await safely<string | null | undefined>(backend, () => backend.acquireLock!(key, LOCK_TTL_MS), undefined)
+    : undefined;
+
+  if (lock === null) {
+    // Another instance is loading the same key; pick up its result instead of fetching again.
+    const shared = await waitForPeer<T>(backend, key);
+    if (shared) {
+      return shared.value;
+    }
+  }
+
+  try {
+    const value = await load();
+    const { ttlMs, staleWhileRevalidateMs: staleMs = 0 } = options.lifetime?.(value) ?? options;
+    const now = Date.now();
+    await safely(
+      backend,
+      () => backend.set(key, { value, freshUntil: now + ttlMs, expiresAt: now + ttlMs + staleMs }),
+      undefined,
+    );
+    return value;
+  } finally {
+    if (lock && backend.releaseLock) {
+      await safely(backend, () => backend.releaseLock!(key, lock), undefined);
+    }
+  }
+}
+
+async function waitForPeer<T>(backend: CacheBackend, key: string): Promise<CacheEntry<T> | null> {
+  const deadline = Date.now() + LOCK_TTL_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+    const entry = await safely(backend, () => backend.get<T>(key), null);
+    if (entry && entry.freshUntil > Date.now()) {
+      return entry;
+    }
+  }
+  return null;
+}
+
+async function safely<R>(backend: CacheBackend, operation: () => Promise<R>, fallback: R): Promise<R> {
+  try {
+    return await operation();
+  } catch (error) {
+    console.warn(`[Cache] ${backend.name} backend unavailable`, error instanceof Error ? error.message : error);
+    return fallback;
+  }
+}
@@ -0,0 +1,39 @@
+import type { CacheBackend, CacheEntry } from "@/lib/cache/cache";
+
+/**
+ * Least-recently-used cache held in process memory. Expired entries are dropped when read and
+ * the oldest entries are evicted once `maxEntries` is reached.
+ */
+export function createMemoryCacheBackend(options: { maxEntries: number }): CacheBackend {
+  // Map iteration follows insertion order, so re-inserting on access keeps it in LRU order.
+  const entries = new Map<string, CacheEntry<unknown>>();
+
+  return {
+    name: "memory",
+
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) {
+        return null;
+      }
+      entries.set(key, entry);
+      return entry as CacheEntry<T>;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > options.maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+  };
+}
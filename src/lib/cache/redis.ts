@@ -0,0 +1,47 @@
+import { randomUUID } from "crypto";
+import type { CacheBackend, CacheEntry } from "@/lib/cache/cache";
+
+const KEY_PREFIX = "qerun:cache:";
+const LOCK_PREFIX = "qerun:lock:";
+
+/** Deletes the lock only while it holds the caller's token, so one that expired and was taken by a peer survives. */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+/** The subset of the ioredis client the cache relies on. */
+export type RedisCacheClient = {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, px: "PX", ttlMs: number): Promise<unknown>;
+  set(key: string, value: string, px: "PX", ttlMs: number, nx: "NX"): Promise<string | null>;
+  del(key: string): Promise<number>;
+  eval(script: string, numKeys: number, ...args: string[]): Promise<unknown>;
+};
+
+/** Entries expire in Redis together with their stale window, so nothing outlives `expiresAt`. */
+export function createRedisCacheBackend(client: RedisCacheClient): CacheBackend {
+  return {
+    name: "redis",
+
+    async get<T>(key: string) {
+      const raw = await client.get(`${KEY_PREFIX}${key}`);
+      return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      const ttlMs = Math.max(1, Math.ceil(entry.expiresAt - Date.now()));
+      await client.set(`${KEY_PREFIX}${key}`, JSON.stringify(entry), "PX", ttlMs);
+    },
+
+    async acquireLock(key, ttlMs) {
+      const token = randomUUID();
+      return (await client.set(`${LOCK_PREFIX}${key}`, token, "PX", ttlMs, "NX")) === "OK" ? token : null;
+    },
+
+    async releaseLock(key, token) {
+      await client.eval(RELEASE_LOCK_SCRIPT, 1, `${LOCK_PREFIX}${key}`, token);
+    },
+  };
+}
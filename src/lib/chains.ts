@@ -0,0 +1,95 @@
+/**
+ * Chain slugs used to label holdings and transactions. Balances, history and cost basis are joined
+ * on these slugs, so every module has to normalize chains through `normalizeChain`.
+ */
+const CHAIN_ALIAS_MAP: Record<string, string> = {
+  eth: "eth",
+  ethereum: "eth",
+  "1": "eth",
+  "eip155:1": "eth",
+  "ethereum-mainnet": "eth",
+  base: "base",
+  "base-sepolia": "base-sepolia",
+  "8453": "base",
+  "eip155:8453": "base",
+  "base-mainnet": "base",
+  polygon: "polygon",
+  "137": "polygon",
+  "eip155:137": "polygon",
+  "polygon-mainnet": "polygon",
+  arbitrum: "arbitrum",
+  "42161": "arbitrum",
+  "eip155:42161": "arbitrum",
+  "arbitrum-one": "arbitrum",
+  "arbitrum-mainnet": "arbitrum",
+  optimism: "optimism",
+  "10": "optimism",
+  "eip155:10": "optimism",
+  "optimism-mainnet": "optimism",
+  bsc: "bsc",
+  "56": "bsc",
+  "eip155:56": "bsc",
+  "bnb-mainnet": "bsc",
+  avalanche: "avalanche",
+  "43114": "avalanche",
+  "eip155:43114": "avalanche",
+  "avalanche-mainnet": "avalanche",
+  fantom: "fantom",
+  "250": "fantom",
+  "eip155:250": "fantom",
+  "fantom-mainnet": "fantom",
+  zksync: "zksync",
+  "324": "zksync",
+  "eip155:324": "zksync",
+  "zksync-era": "zksync",
+  linea: "linea",
+  "59144": "linea",
+  "eip155:59144": "linea",
+  "linea-mainnet": "linea",
+  scroll: "scroll",
+  "534352": "scroll",
+  "eip155:534352": "scroll",
+  "scroll-mainnet": "scroll",
+  metis: "metis",
+  "1088": "metis",
+  "eip155:1088": "metis",
+  "metis-andromeda": "metis",
+  klaytn: "klaytn",
+  "8217": "klaytn",
+  "eip155:8217": "klaytn",
+  celo: "celo",
+  "42220": "celo",
+  "eip155:42220": "celo",
+  "celo-mainnet": "celo",
+  moonbeam: "moonbeam",
+  "1284": "moonbeam",
+  "eip155:1284": "moonbeam",
+  moonriver: "moonriver",
+  "1285": "moonriver",
+  "eip155:1285": "moonriver",
+  aurora: "aurora",
+  "1313161554": "aurora",
+  "eip155:1313161554": "aurora",
+  cronos: "cronos",
+  "25": "cronos",
+  "eip155:25": "cronos",
+  gnosis: "gnosis",
+  xdai: "gnosis",
+  "100": "gnosis",
+  "eip155:100": "gnosis",
+  harmony: "harmony",
+  "1666600000": "harmony",
+  "eip155:1666600000": "harmony",
+  solana: "solana",
+  "solana-mainnet": "solana",
+};
+
+/** Maps a Coinbase network ID, chain ID or alias to its chain slug; records without one are on Ethereum. */
+export function normalizeChain(networkId: string | number | null | undefined): string {
+  if (networkId == null) {
+    return "eth";
+  }
+
+  const key = String(networkId).toLowerCase();
+  return CHAIN_ALIAS_MAP[key] ?? key;
+}
@@ -0,0 +1,238 @@
+import { transactionLegs } from "@/lib/export/legs";
+import type { TransactionLeg } from "@/lib/transaction-classifier";
+import type { WalletTransaction } from "@/lib/wallet-history";
+
+export const COST_BASIS_METHODS = ["fifo", "lifo", "hifo"] as const;
+
+export type CostBasisMethod = (typeof COST_BASIS_METHODS)[number];
+
+/** Historical USD unit price for an asset, or null when unknown. `contract` is null for native assets. */
+export type HistoricalPriceLookup = (
+  chain: string,
+  contract: string | null,
+  symbol: string,
+  timestamp: number,
+) => number | null;
+
+export type CostLot = {
+  amount: number;
+  /** Null when neither the provider nor the price history knew the price at acquisition. */
+  unitCostUsd: number | null;
+  acquiredAt: number;
+};
+
+export type TokenCostBasis = {
+  chain: string;
+  contract: string | null;
+  symbol: string;
+  /** Lots still open after the replay, oldest first. */
+  lots: CostLot[];
+  /** Amount still held according to the replayed lots. */
+  openAmount: number;
+  /** Null when any open lot is unpriced. */
+  openCostUsd: number | null;
+  /** Null once a disposal could not be priced, either at exit or for a lot it consumed. */
+  realizedPnlUsd: number | null;
+  /** Cost of the units disposed of in priced disposals, used as the denominator for realized returns. */
+  disposedCostUsd: number;
+  /** Units sold or sent that no known lot could cover (acquired before the available history). */
+  unmatchedAmount: number;
+};
+
+export type PositionPnl = {
+  costBasisUsd: number | null;
+  unrealizedPnlUsd: number | null;
+  realizedPnlUsd: number | null;
+};
+
+const AMOUNT_EPSILON = 1e-12;
+
+export function isCostBasisMethod(value: string | null | undefined): value is CostBasisMethod {
+  return value != null && (COST_BASIS_METHODS as readonly string[]).includes(value);
+}
+
+/**
+ * Lots are kept per token contract, so two tokens sharing a symbol never mix. Native assets, and
+ * legs whose contract the provider did not report, fall back to the symbol.
+ */
+export function costBasisKey(chain: string, contract: string | null, symbol: string) {
+  return contract ? `${chain}:${contract.toLowerCase()}` : `${chain}:${symbol.toUpperCase()}`;
+}
+
+/**
+ * Replays a wallet's transfers oldest-first, leg by leg, opening a lot for every inbound leg and
+ * closing lots for every outbound one in the order dictated by `method`; a swap thus closes
+ * lots of the asset sold and opens one of the asset bought. Transfer USD values
+ * recorded by the provider are preferred; otherwise `lookupPrice` supplies the price at the
+ * time of the transfer. Lots opened without either are kept unpriced, and any figure that
+ * depends on them is null rather than a guess. Internal movements neither open nor close lots.
+ */
+export function computeCostBasis(
+  transactions: WalletTransaction[],
+  method: CostBasisMethod,
+  lookupPrice: HistoricalPriceLookup = () => null,
+): Map<string, TokenCostBasis> {
+  const results = new Map<string, TokenCostBasis>();
+
+  const ordered = transactions
+    .filter((tx) => tx.direction !== "internal")
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  ordered.forEach((tx) => {
+    const timestamp = Date.parse(tx.timestamp);
+    transactionLegs(tx).forEach((leg) => {
+      if (leg.symbol && leg.amount != null && leg.amount > 0) {
+        replayLeg(results, tx.chain, leg, timestamp, method, lookupPrice);
+      }
+    });
+  });
+
+  results.forEach((result) => {
+    result.openAmount = result.lots.reduce((acc, lot) => acc + lot.amount, 0);
+    result.openCostUsd = costOfLots(result.lots);
+  });
+
+  return results;
+}
+
+/**
+ * Reconciles replayed lots with the amount actually held today. Any surplus in the lots is
+ * treated as untracked disposals (fees, missing history) and dropped in `method` order; a
+ * shortfall means part of the position predates the history and has no known cost.
+ */
+export function evaluatePosition(
+  basis: TokenCostBasis | undefined,
+  currentAmount: number,
+  currentValueUsd: number,
+  method: CostBasisMethod,
+): PositionPnl {
+  if (!basis || basis.openAmount <= AMOUNT_EPSILON) {
+    return {
+      costBasisUsd: null,
+      unrealizedPnlUsd: null,
+      realizedPnlUsd: basis?.realizedPnlUsd ?? 0,
+    };
+  }
+
+  let lots = basis.lots;
+  const coveredAmount = Math.min(currentAmount, basis.openAmount);
+
+  if (basis.openAmount - currentAmount > AMOUNT_EPSILON) {
+    lots = basis.lots.map((lot) => ({ ...lot }));
+    consumeLots(lots, basis.openAmount - currentAmount, method);
+  }
+
+  const costBasisUsd = costOfLots(lots);
+  if (costBasisUsd == null) {
+    return { costBasisUsd: null, unrealizedPnlUsd: null, realizedPnlUsd: basis.realizedPnlUsd };
+  }
+
+  const unitValue = currentAmount > AMOUNT_EPSILON ? currentValueUsd / currentAmount : 0;
+  const unrealizedPnlUsd = coveredAmount * unitValue - costBasisUsd;
+
+  return {
+    costBasisUsd,
+    unrealizedPnlUsd,
+    realizedPnlUsd: basis.realizedPnlUsd,
+  };
+}
+
+function replayLeg(
+  results: Map<string, TokenCostBasis>,
+  chain: string,
+  leg: TransactionLeg,
+  timestamp: number,
+  method: CostBasisMethod,
+  lookupPrice: HistoricalPriceLookup,
+) {
+  const symbol = (leg.symbol as string).toUpperCase();
+  const amount = leg.amount as number;
+  const key = costBasisKey(chain, leg.contract, symbol);
+  const unitPrice = leg.valueUsd != null ? leg.valueUsd / amount : lookupPrice(chain, leg.contract, symbol, timestamp);
+
+  let result = results.get(key);
+  if (!result) {
+    result = {
+      chain,
+      contract: leg.contract,
+      symbol,
+      lots: [],
+      openAmount: 0,
+      openCostUsd: 0,
+      realizedPnlUsd: 0,
+      disposedCostUsd: 0,
+      unmatchedAmount: 0,
+    };
+    results.set(key, result);
+  }
+
+  const lots = result.lots;
+
+  if (leg.direction === "in") {
+    lots.push({ amount, unitCostUsd: unitPrice, acquiredAt: timestamp });
+    return;
+  }
+
+  const { consumedAmount, consumedCostUsd } = consumeLots(lots, amount, method);
+  result.unmatchedAmount += amount - consumedAmount;
+  if (consumedAmount <= AMOUNT_EPSILON) {
+    return;
+  }
+  if (unitPrice == null || consumedCostUsd == null || result.realizedPnlUsd == null) {
+    result.realizedPnlUsd = null;
+    return;
+  }
+  result.realizedPnlUsd += consumedAmount * unitPrice - consumedCostUsd;
+  result.disposedCostUsd += consumedCostUsd;
+}
+
+/** Total cost of `lots`, or null when any of them is unpriced. */
+function costOfLots(lots: CostLot[]): number | null {
+  return lots.reduce<number | null>(
+    (acc, lot) => (acc == null || lot.unitCostUsd == null ? null : acc + lot.amount * lot.unitCostUsd),
+    0,
+  );
+}
+
+/** Closes `amount` units of `lots` in `method` order; the cost is null when an unpriced lot was closed. */
+function consumeLots(lots: CostLot[], amount: number, method: CostBasisMethod) {
+  let remaining = amount;
+  let consumedAmount = 0;
+  let consumedCostUsd: number | null = 0;
+
+  while (remaining > AMOUNT_EPSILON && lots.length > 0) {
+    const index = selectLotIndex(lots, method);
+    const lot = lots[index];
+    const take = Math.min(lot.amount, remaining);
+
+    consumedAmount += take;
+    consumedCostUsd =
+      consumedCostUsd == null || lot.unitCostUsd == null ? null : consumedCostUsd + take * lot.unitCostUsd;
+    remaining -= take;
+    lot.amount -= take;
+
+    if (lot.amount <= AMOUNT_EPSILON) {
+      lots.splice(index, 1);
+    }
+  }
+
+  return { consumedAmount, consumedCostUsd };
+}
+
+function selectLotIndex(lots: CostLot[], method: CostBasisMethod): number {
+  if (method === "fifo") {
+    return 0;
+  }
+  if (method === "lifo") {
+    return lots.length - 1;
+  }
+
+  // Unpriced lots go last, as if they had cost nothing.
+  let highest = 0;
+  lots.forEach((lot, index) => {
+    if ((lot.unitCostUsd ?? 0) > (lots[highest].unitCostUsd ?? 0)) {
+      highest = index;
+    }
+  });
+  return highest;
+}
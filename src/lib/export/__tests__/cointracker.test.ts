@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { coinTrackerTable } from "../cointracker";
+import { TAX_FIXTURES } from "./fixtures";
+
+describe("coinTrackerTable", () => {
+  it("maps fixture transactions onto the import template", () => {
+    const table = coinTrackerTable(TAX_FIXTURES);
+
+    expect(table.columns).toEqual([
+      "Date",
+      "Received Quantity",
+      "Received Currency",
+      "Sent Quantity",
+      "Sent Currency",
+      "Fee Amount",
+      "Fee Currency",
+      "Tag",
+    ]);
+    expect(table.rows).toEqual([
+      ["03/01/2024 09:15:00", 2, "ETH", null, null, null, null, null],
+      ["03/05/2024 14:30:45", 3490, "USDC", 1, "ETH", 12.345, "USD", null],
+      ["03/10/2024 00:00:00", 1000, "ARB", null, null, null, null, "airdrop"],
+      ["03/12/2024 08:00:00", null, null, null, null, 1.5, "USD", null],
+      ["03/15/2024 12:00:00", null, null, null, null, 0.8, "USD", null],
+    ]);
+  });
+
+  it("spreads extra legs over rows and charges the fee once", () => {
+    const [, swap] = TAX_FIXTURES;
+    const table = coinTrackerTable([
+      { ...swap, legs: [...swap.legs, { ...swap.legs[1], symbol: "DAI", amount: 10, valueUsd: 10 }] },
+    ]);
+
+    expect(table.rows).toEqual([
+      ["03/05/2024 14:30:45", 3490, "USDC", 1, "ETH", 12.345, "USD", null],
+      ["03/05/2024 14:30:45", 10, "DAI", null, null, null, null, null],
+    ]);
+  });
+});
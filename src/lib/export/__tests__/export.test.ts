@@ -0,0 +1,75 @@
+import { strFromU8, unzipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { toCsv } from "../csv";
+import { historyTable, holdingsTable } from "../tables";
+import { toXlsx } from "../xlsx";
+import type { WalletTransaction } from "../../wallet-history";
+
+function transaction(timestamp: string, overrides: Partial<WalletTransaction> = {}): WalletTransaction {
+  return {
+    hash: `0x${timestamp.slice(0, 10)}`,
+    timestamp,
+    direction: "out",
+    type: "transfer",
+    legs: [],
+    valueUsd: 1250.5,
+    amount: 0.5,
+    symbol: "ETH",
+    counterparty: "Binance, hot wallet",
+    chain: "eth",
+    gasFeeUsd: 1.2,
+    explorerUrl: "https://etherscan.io/tx/0x1",
+    ...overrides,
+  };
+}
+
+describe("exports", () => {
+  it("serializes history with stable columns and quoted cells", () => {
+    const csv = toCsv(
+      historyTable([
+        transaction("2024-05-01T10:00:00Z", {
+          method: { selector: "0xa9059cbb", name: "transfer", signature: "transfer(address,uint256)", protocol: "ERC-20", args: [] },
+        }),
+        transaction("2024-05-02T10:00:00Z", { counterparty: "=HYPERLINK(\"x\")", valueUsd: null }),
+      ]),
+    );
+
+    expect(csv.split("\r\n")).toEqual([
+      "timestamp,chain,hash,type,direction,symbol,amount,value_usd,gas_fee_usd,counterparty,method,explorer_url",
+      '2024-05-01T10:00:00.000Z,eth,0x2024-05-01,transfer,out,ETH,0.5,1250.5,1.2,"Binance, hot wallet",transfer,https://etherscan.io/tx/0x1',
+      `2024-05-02T10:00:00.000Z,eth,0x2024-05-02,transfer,out,ETH,0.5,,1.2,"'=HYPERLINK(""x"")",,https://etherscan.io/tx/0x1`,
+      "",
+    ]);
+  });
+
+  it("writes holdings into a workbook with numeric cells", () => {
+    const table = holdingsTable(
+      [
+        {
+          symbol: "ETH",
+          protocol: "Ethereum",
+          valueUsd: 6000,
+          change24h: 1.5,
+          allocationPct: 100,
+          amount: 2,
+          decimals: 18,
+          costBasisUsd: null,
+          unrealizedPnlUsd: null,
+          realizedPnlUsd: 0,
+        },
+      ],
+      new Date("2024-05-01T00:00:00Z"),
+    );
+
+    const files = unzipSync(toXlsx(table));
+
+    expect(Object.keys(files)).toEqual(
+      expect.arrayContaining(["[Content_Types].xml", "xl/workbook.xml", "xl/worksheets/sheet1.xml"]),
+    );
+    expect(strFromU8(files["xl/workbook.xml"])).toContain('<sheet name="Holdings"');
+    const sheet = strFromU8(files["xl/worksheets/sheet1.xml"]);
+    expect(sheet).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">as_of</t></is></c>');
+    expect(sheet).toContain('<c r="E2"><v>6000</v></c>');
+    expect(sheet).not.toContain('r="H2"');
+  });
+});
@@ -0,0 +1,93 @@
+import type { WalletTransaction } from "../../wallet-history";
+
+export const WALLET = "0x1111111111111111111111111111111111111111";
+const ROUTER = "0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad";
+const FRIEND = "0x4444444444444444444444444444444444444444";
+const RESERVE = "0x2222222222222222222222222222222222222222";
+
+/** One of each shape the tax adapters have to handle, oldest first. */
+export const TAX_FIXTURES: WalletTransaction[] = [
+  {
+    hash: "0xreceive",
+    timestamp: "2024-03-01T09:15:00Z",
+    direction: "in",
+    type: "transfer",
+    legs: [
+      { direction: "in", symbol: "ETH", amount: 2, valueUsd: 6000, contract: null, from: FRIEND, to: WALLET },
+    ],
+    valueUsd: 6000,
+    amount: 2,
+    symbol: "ETH",
+    counterparty: FRIEND,
+    chain: "eth",
+    gasFeeUsd: 2.5,
+  },
+  {
+    hash: "0xswap",
+    timestamp: "2024-03-05T14:30:45Z",
+    direction: "out",
+    type: "swap",
+    legs: [
+      { direction: "out", symbol: "ETH", amount: 1, valueUsd: 3500, contract: null, from: WALLET, to: ROUTER },
+      {
+        direction: "in",
+        symbol: "USDC",
+        amount: 3490,
+        valueUsd: 3490,
+        contract: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+        from: ROUTER,
+        to: WALLET,
+      },
+    ],
+    valueUsd: 3500,
+    amount: 1,
+    symbol: "ETH",
+    counterparty: ROUTER,
+    chain: "eth",
+    gasFeeUsd: 12.345,
+    method: {
+      selector: "0x38ed1739",
+      name: "swapExactTokensForTokens",
+      signature: "swapExactTokensForTokens(uint256,uint256,address[],address,uint256)",
+      protocol: "Uniswap V2",
+      args: [],
+    },
+  },
+  {
+    hash: "0xairdrop",
+    timestamp: "2024-03-10T00:00:00Z",
+    direction: "in",
+    type: "airdrop",
+    legs: [{ direction: "in", symbol: "ARB", amount: 1000, valueUsd: null, contract: "0x912ce59144191c1204e64559fe8253a0e49e6548", from: ROUTER, to: WALLET }],
+    valueUsd: 1200,
+    amount: 1000,
+    symbol: "ARB",
+    chain: "arbitrum",
+    gasFeeUsd: 0.1,
+  },
+  {
+    hash: "0xapprove",
+    timestamp: "2024-03-12T08:00:00Z",
+    direction: "out",
+    type: "approve",
+    legs: [],
+    valueUsd: null,
+    amount: null,
+    symbol: "USDC",
+    chain: "eth",
+    gasFeeUsd: 1.5,
+  },
+  {
+    hash: "0xinternal",
+    timestamp: "2024-03-15T12:00:00Z",
+    direction: "internal",
+    type: "transfer",
+    legs: [{ direction: "out", symbol: "USDC", amount: 500, valueUsd: 500, contract: null, from: WALLET, to: RESERVE }],
+    valueUsd: 500,
+    amount: 500,
+    symbol: "USDC",
+    chain: "eth",
+    gasFeeUsd: 0.8,
+    internalTransfer: { from: WALLET, to: RESERVE },
+  },
+];
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { koinlyTable } from "../koinly";
+import { TAX_FIXTURES } from "./fixtures";
+
+describe("koinlyTable", () => {
+  it("maps fixture transactions onto the universal template", () => {
+    const table = koinlyTable(TAX_FIXTURES);
+
+    expect(table.columns).toEqual([
+      "Date",
+      "Sent Amount",
+      "Sent Currency",
+      "Received Amount",
+      "Received Currency",
+      "Fee Amount",
+      "Fee Currency",
+      "Net Worth Amount",
+      "Net Worth Currency",
+      "Label",
+      "Description",
+      "TxHash",
+    ]);
+    expect(table.rows).toEqual([
+      ["2024-03-01 09:15:00 UTC", null, null, 2, "ETH", null, null, 6000, "USD", null, "transfer", "0xreceive"],
+      [
+        "2024-03-05 14:30:45 UTC",
+        1,
+        "ETH",
+        3490,
+        "USDC",
+        12.345,
+        "USD",
+        3490,
+        "USD",
+        null,
+        "swapExactTokensForTokens",
+        "0xswap",
+      ],
+      ["2024-03-10 00:00:00 UTC", null, null, 1000, "ARB", null, null, 1200, "USD", "airdrop", "airdrop", "0xairdrop"],
+      ["2024-03-12 08:00:00 UTC", null, null, null, null, 1.5, "USD", null, null, null, "approve", "0xapprove"],
+      ["2024-03-15 12:00:00 UTC", null, null, null, null, 0.8, "USD", null, null, null, "transfer", "0xinternal"],
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { ledgerTable } from "../ledger";
+import { TAX_FIXTURES } from "./fixtures";
+
+describe("ledgerTable", () => {
+  it("posts balanced entries with gas on its own expense account", () => {
+    const table = ledgerTable(TAX_FIXTURES);
+    const postings = (hash: string) =>
+      table.rows.filter((row) => row[1] === hash).map(([, , account, debit, credit]) => [account, debit, credit]);
+
+    expect(postings("0xreceive")).toEqual([
+      ["Assets:Crypto:eth:ETH", 6000, 0],
+      ["Equity:External Transfers", 0, 6000],
+    ]);
+    expect(postings("0xswap")).toEqual([
+      ["Assets:Crypto:eth:ETH", 0, 3500],
+      ["Assets:Crypto:eth:USDC", 3490, 0],
+      ["Equity:Trading", 10, 0],
+      ["Expenses:Gas Fees", 12.35, 0],
+      ["Assets:Crypto:eth:ETH", 0, 12.35],
+    ]);
+    expect(postings("0xairdrop")).toEqual([
+      ["Assets:Crypto:arbitrum:ARB", 1200, 0],
+      ["Income:Airdrops", 0, 1200],
+    ]);
+    expect(postings("0xapprove")).toEqual([
+      ["Expenses:Gas Fees", 1.5, 0],
+      ["Assets:Crypto:eth:ETH", 0, 1.5],
+    ]);
+    expect(postings("0xinternal")).toEqual([
+      ["Assets:Crypto:eth:USDC", 0, 500],
+      ["Assets:Internal Transfers", 500, 0],
+      ["Expenses:Gas Fees", 0.8, 0],
+      ["Assets:Crypto:eth:ETH", 0, 0.8],
+    ]);
+
+    const hashes = new Set(table.rows.map((row) => row[1]));
+    hashes.forEach((hash) => {
+      const rows = table.rows.filter((row) => row[1] === hash);
+      const balance = rows.reduce((total, row) => total + (row[3] as number) - (row[4] as number), 0);
+      expect(balance).toBeCloseTo(0, 10);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { formatUtc, paidFee, transactionLegs } from "@/lib/export/legs";
+import type { ExportTable } from "@/lib/export/tables";
+import type { WalletTransaction } from "@/lib/wallet-history";
+
+const COINTRACKER_COLUMNS = [
+  "Date",
+  "Received Quantity",
+  "Received Currency",
+  "Sent Quantity",
+  "Sent Currency",
+  "Fee Amount",
+  "Fee Currency",
+  "Tag",
+];
+
+/**
+ * Maps history into CoinTracker's CSV import template. The template has no hash column, so
+ * legs of one transaction are only linked by their shared timestamp. Only receipts can be
+ * tagged, which is why airdrops are the one type carried over. Transfers between owned
+ * wallets are not disposals, so only the gas they cost is exported.
+ */
+export function coinTrackerTable(history: WalletTransaction[]): ExportTable {
+  return {
+    name: "CoinTracker",
+    columns: COINTRACKER_COLUMNS,
+    rows: history.flatMap((tx) => {
+      const legs = tx.internalTransfer ? [] : transactionLegs(tx);
+      const sent = legs.filter((leg) => leg.direction === "out");
+      const received = legs.filter((leg) => leg.direction === "in");
+      const fee = paidFee(tx) ? tx.gasFeeUsd : null;
+      const rowCount = Math.max(sent.length, received.length, fee != null ? 1 : 0);
+
+      return Array.from({ length: rowCount }, (_, index) => {
+        const out = sent[index];
+        const into = received[index];
+        return [
+          formatUtc(tx.timestamp, "MM/DD/YYYY HH:mm:ss"),
+          into?.amount ?? null,
+          into?.symbol ?? null,
+          out?.amount ?? null,
+          out?.symbol ?? null,
+          index === 0 ? fee : null,
+          index === 0 && fee != null ? "USD" : null,
+          into && !out && tx.type === "airdrop" ? "airdrop" : null,
+        ];
+      });
+    }),
+  };
+}
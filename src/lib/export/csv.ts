@@ -0,0 +1,21 @@
+import type { ExportCell, ExportTable } from "@/lib/export/tables";
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** Serializes a table as RFC 4180 CSV with a header row and CRLF line endings. */
+export function toCsv(table: ExportTable): string {
+  const lines = [table.columns, ...table.rows].map((row) => row.map(formatCell).join(","));
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+function formatCell(cell: ExportCell): string {
+  if (cell == null) {
+    return "";
+  }
+  if (typeof cell === "number") {
+    return Number.isFinite(cell) ? String(cell) : "";
+  }
+  const safe = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,64 @@
+import { formatUtc, paidFee, transactionLegs } from "@/lib/export/legs";
+import type { ExportTable } from "@/lib/export/tables";
+import type { TransactionType } from "@/lib/transaction-classifier";
+import type { WalletTransaction } from "@/lib/wallet-history";
+
+const KOINLY_COLUMNS = [
+  "Date",
+  "Sent Amount",
+  "Sent Currency",
+  "Received Amount",
+  "Received Currency",
+  "Fee Amount",
+  "Fee Currency",
+  "Net Worth Amount",
+  "Net Worth Currency",
+  "Label",
+  "Description",
+  "TxHash",
+];
+
+const KOINLY_LABELS: Partial<Record<TransactionType, string>> = {
+  airdrop: "airdrop",
+  stake: "stake",
+  unstake: "unstake",
+};
+
+/**
+ * Maps history into Koinly's universal CSV template. Each sent leg is paired with a received
+ * leg on the same row so Koinly books swaps as trades; extra legs get rows of their own
+ * sharing the hash. Fees are charged once per transaction, in USD. Transfers between owned
+ * wallets are not disposals, so only the gas they cost is exported.
+ */
+export function koinlyTable(history: WalletTransaction[]): ExportTable {
+  return {
+    name: "Koinly",
+    columns: KOINLY_COLUMNS,
+    rows: history.flatMap((tx) => {
+      const legs = tx.internalTransfer ? [] : transactionLegs(tx);
+      const sent = legs.filter((leg) => leg.direction === "out");
+      const received = legs.filter((leg) => leg.direction === "in");
+      const fee = paidFee(tx) ? tx.gasFeeUsd : null;
+      const rowCount = Math.max(sent.length, received.length, fee != null ? 1 : 0);
+
+      return Array.from({ length: rowCount }, (_, index) => {
+        const out = sent[index];
+        const into = received[index];
+        return [
+          formatUtc(tx.timestamp, "YYYY-MM-DD HH:mm:ss UTC"),
+          out?.amount ?? null,
+          out?.symbol ?? null,
+          into?.amount ?? null,
+          into?.symbol ?? null,
+          index === 0 ? fee : null,
+          index === 0 && fee != null ? "USD" : null,
+          into?.valueUsd ?? out?.valueUsd ?? null,
+          into?.valueUsd != null || out?.valueUsd != null ? "USD" : null,
+          KOINLY_LABELS[tx.type] ?? null,
+          tx.method?.name ?? tx.type,
+          tx.hash,
+        ];
+      });
+    }),
+  };
+}
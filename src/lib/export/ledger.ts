@@ -0,0 +1,96 @@
+import { formatUtc, paidFee, transactionLegs } from "@/lib/export/legs";
+import type { ExportCell, ExportTable } from "@/lib/export/tables";
+import { nativeSymbolForChain, type WalletTransaction } from "@/lib/wallet-history";
+
+const LEDGER_COLUMNS = [
+  "date",
+  "entry",
+  "account",
+  "debit_usd",
+  "credit_usd",
+  "quantity",
+  "currency",
+  "memo",
+  "tx_hash",
+];
+
+const GAS_EXPENSE_ACCOUNT = "Expenses:Gas Fees";
+
+/**
+ * Maps history into balanced double-entry postings valued in USD. Every leg moves its asset
+ * account; the difference is posted to a counterpart chosen from the transaction type, and
+ * gas is expensed separately against the chain's native asset.
+ */
+export function ledgerTable(history: WalletTransaction[]): ExportTable {
+  return {
+    name: "Ledger",
+    columns: LEDGER_COLUMNS,
+    rows: history.flatMap((tx) => {
+      const date = formatUtc(tx.timestamp, "YYYY-MM-DD");
+      const memo = tx.method ? `${tx.type} via ${tx.method.name}` : tx.type;
+      const posting = (
+        account: string,
+        debit: number,
+        credit: number,
+        quantity: number | null,
+        currency: string | null,
+      ): ExportCell[] => [date, tx.hash, account, debit, credit, quantity, currency, memo, tx.hash];
+
+      const legs = transactionLegs(tx);
+      const rows = legs.map((leg) => {
+        const value = cents(leg.valueUsd ?? 0);
+        const account = assetAccount(tx.chain, leg.symbol ?? "UNKNOWN");
+        return leg.direction === "in"
+          ? posting(account, value, 0, leg.amount, leg.symbol)
+          : posting(account, 0, value, leg.amount, leg.symbol);
+      });
+
+      const net = cents(
+        rows.reduce((total, row) => total + (row[3] as number) - (row[4] as number), 0),
+      );
+      if (legs.length > 0) {
+        const counterpart = counterpartAccount(tx, legs);
+        rows.push(net >= 0 ? posting(counterpart, 0, net, null, "USD") : posting(counterpart, -net, 0, null, "USD"));
+      }
+
+      if (paidFee(tx)) {
+        const fee = cents(tx.gasFeeUsd!);
+        const native = nativeSymbolForChain(tx.chain);
+        rows.push(posting(GAS_EXPENSE_ACCOUNT, fee, 0, null, "USD"));
+        rows.push(posting(assetAccount(tx.chain, native), 0, fee, null, native));
+      }
+
+      return rows;
+    }),
+  };
+}
+
+function assetAccount(chain: string, symbol: string) {
+  return `Assets:Crypto:${chain}:${symbol}`;
+}
+
+function counterpartAccount(tx: WalletTransaction, legs: ReturnType<typeof transactionLegs>) {
+  if (tx.internalTransfer) {
+    return "Assets:Internal Transfers";
+  }
+  const hasIn = legs.some((leg) => leg.direction === "in");
+  const hasOut = legs.some((leg) => leg.direction === "out");
+  if (hasIn && hasOut) {
+    return "Equity:Trading";
+  }
+  switch (tx.type) {
+    case "airdrop":
+      return "Income:Airdrops";
+    case "mint":
+      return "Income:Mints";
+    case "stake":
+    case "unstake":
+      return `Assets:Staked:${tx.chain}`;
+    default:
+      return "Equity:External Transfers";
+  }
+}
+
+function cents(value: number) {
+  return Math.round(value * 100) / 100;
+}
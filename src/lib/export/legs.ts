@@ -0,0 +1,54 @@
+import type { TransactionLeg } from "@/lib/transaction-classifier";
+import type { WalletTransaction } from "@/lib/wallet-history";
+
+/**
+ * Asset legs of a transaction, as exports and the net worth replay see them. Transactions
+ * without recorded legs fall back to their primary amount, and a lone leg without its own
+ * USD value inherits the transaction's.
+ */
+export function transactionLegs(tx: WalletTransaction): TransactionLeg[] {
+  if (tx.legs.length === 0) {
+    if (tx.direction === "internal" || tx.amount == null || !tx.symbol) {
+      return [];
+    }
+    return [
+      {
+        direction: tx.direction,
+        symbol: tx.symbol,
+        amount: tx.amount,
+        valueUsd: tx.valueUsd,
+        contract: null,
+        from: null,
+        to: null,
+      },
+    ];
+  }
+
+  if (tx.legs.length === 1 && tx.legs[0].valueUsd == null) {
+    return [{ ...tx.legs[0], valueUsd: tx.valueUsd }];
+  }
+  return tx.legs;
+}
+
+/** Gas is paid by the sender, so receipts from third parties carry no fee for the wallet. */
+export function paidFee(tx: WalletTransaction) {
+  if (tx.gasFeeUsd == null || tx.gasFeeUsd <= 0) {
+    return false;
+  }
+  const legs = transactionLegs(tx);
+  return legs.length > 0 ? legs.some((leg) => leg.direction === "out") : tx.direction !== "in";
+}
+
+/** Formats a UTC date with a pattern of `YYYY`, `MM`, `DD`, `HH`, `mm` and `ss` tokens. */
+export function formatUtc(timestamp: string, pattern: string) {
+  const iso = new Date(timestamp).toISOString();
+  const parts: Record<string, string> = {
+    YYYY: iso.slice(0, 4),
+    MM: iso.slice(5, 7),
+    DD: iso.slice(8, 10),
+    HH: iso.slice(11, 13),
+    mm: iso.slice(14, 16),
+    ss: iso.slice(17, 19),
+  };
+  return pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+}
@@ -0,0 +1,80 @@
+import type { AnalysisToken } from "@/lib/analyze-wallet";
+import type { WalletTransaction } from "@/lib/wallet-history";
+
+export type ExportCell = string | number | null;
+
+/** Rows ready for serialization; `columns` are the stable header names consumers key on. */
+export type ExportTable = {
+  name: string;
+  columns: string[];
+  rows: ExportCell[][];
+};
+
+const HOLDINGS_COLUMNS = [
+  "as_of",
+  "chain",
+  "symbol",
+  "amount",
+  "value_usd",
+  "change_24h_pct",
+  "allocation_pct",
+  "cost_basis_usd",
+  "unrealized_pnl_usd",
+  "realized_pnl_usd",
+];
+
+const HISTORY_COLUMNS = [
+  "timestamp",
+  "chain",
+  "hash",
+  "type",
+  "direction",
+  "symbol",
+  "amount",
+  "value_usd",
+  "gas_fee_usd",
+  "counterparty",
+  "method",
+  "explorer_url",
+];
+
+export function holdingsTable(tokens: AnalysisToken[], asOf: Date = new Date()): ExportTable {
+  const timestamp = asOf.toISOString();
+  return {
+    name: "Holdings",
+    columns: HOLDINGS_COLUMNS,
+    rows: tokens.map((token) => [
+      timestamp,
+      token.protocol,
+      token.symbol,
+      token.amount,
+      token.valueUsd,
+      token.change24h,
+      token.allocationPct,
+      token.costBasisUsd,
+      token.unrealizedPnlUsd,
+      token.realizedPnlUsd,
+    ]),
+  };
+}
+
+export function historyTable(history: WalletTransaction[]): ExportTable {
+  return {
+    name: "History",
+    columns: HISTORY_COLUMNS,
+    rows: history.map((tx) => [
+      new Date(tx.timestamp).toISOString(),
+      tx.chain,
+      tx.hash,
+      tx.type,
+      tx.direction,
+      tx.symbol ?? null,
+      tx.amount,
+      tx.valueUsd,
+      tx.gasFeeUsd,
+      tx.counterparty ?? null,
+      tx.method?.name ?? null,
+      tx.explorerUrl ?? null,
+    ]),
+  };
+}
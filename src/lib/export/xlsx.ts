@@ -0,0 +1,87 @@
+import { strToU8, zipSync } from "fflate";
+import type { ExportCell, ExportTable } from "@/lib/export/tables";
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * Builds a single-sheet Office Open XML workbook. Strings are written inline and numbers as
+ * numeric cells, so spreadsheets can sum USD columns without conversion.
+ */
+export function toXlsx(table: ExportTable): Uint8Array {
+  const sheetName = escapeXml(table.name.slice(0, 31) || "Sheet1");
+  const rows = [table.columns, ...table.rows]
+    .map((row, rowIndex) => {
+      const cells = row.map((cell, columnIndex) => formatCell(cell, `${columnName(columnIndex)}${rowIndex + 1}`)).join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return zipSync({
+    "[Content_Types].xml": strToU8(
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        "</Types>",
+    ),
+    "_rels/.rels": strToU8(
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>",
+    ),
+    "xl/workbook.xml": strToU8(
+      `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    ),
+    "xl/_rels/workbook.xml.rels": strToU8(
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        "</Relationships>",
+    ),
+    "xl/styles.xml": strToU8(
+      `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="1"><fill><patternFill patternType="none"/></fill></fills>' +
+        '<borders count="1"><border/></borders>' +
+        '<cellStyleXfs count="1"><xf/></cellStyleXfs>' +
+        '<cellXfs count="1"><xf xfId="0"/></cellXfs>' +
+        "</styleSheet>",
+    ),
+    "xl/worksheets/sheet1.xml": strToU8(
+      `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        `<sheetData>${rows}</sheetData></worksheet>`,
+    ),
+  });
+}
+
+function formatCell(cell: ExportCell, reference: string) {
+  if (cell == null || (typeof cell === "number" && !Number.isFinite(cell))) {
+    return "";
+  }
+  if (typeof cell === "number") {
+    return `<c r="${reference}"><v>${cell}</v></c>`;
+  }
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+}
+
+/** Zero-based column index to spreadsheet letters (0 → A, 26 → AA). */
+function columnName(index: number) {
+  let name = "";
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    name = String.fromCharCode(65 + ((remaining - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function escapeXml(value: string) {
+  return value
+    // Control characters are not allowed in XML 1.0 documents.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
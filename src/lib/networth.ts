@@ -0,0 +1,196 @@
+import { describeHolding } from "@/lib/analyze-wallet";
+import { transactionLegs } from "@/lib/export/legs";
+import {
+  buildPriceKey,
+  fetchCoinGeckoPriceHistory,
+  priceAt,
+  type PriceSeries,
+} from "@/lib/pricing/coingecko";
+import { fetchWalletBalances } from "@/lib/providers/registry";
+import { ProviderConfigurationError } from "@/lib/providers/types";
+import { getWalletHistory, type WalletTransaction } from "@/lib/wallet-history";
+import type { NetWorthRange, NetWorthSeries, TransactionLeg } from "@/lib/api/schemas";
+
+export type { NetWorthRange, NetWorthSeries };
+
+export type NetWorthPoint = NetWorthSeries["points"][number];
+
+export const NET_WORTH_RANGES: Record<NetWorthRange, number> = {
+  "30d": 30,
+  "90d": 90,
+  "1y": 365,
+};
+
+type Position = {
+  amount: number;
+  series?: PriceSeries;
+  currentPrice: number | null;
+  impliedPrices: Array<[number, number]>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VALUE_EPSILON = 0.0001;
+
+export function isNetWorthRange(value: string | null | undefined): value is NetWorthRange {
+  // `in` would also accept inherited keys such as `toString`.
+  return value != null && Object.hasOwn(NET_WORTH_RANGES, value);
+}
+
+/**
+ * Rebuilds a daily net worth series by starting from today's balances and undoing every
+ * transaction in reverse chronological order, leg by leg, so a swap moves both assets back.
+ * Each day is valued with CoinGecko's daily close for that asset; assets CoinGecko cannot price
+ * fall back to the USD value implied by the wallet's own transactions. Gas fees are not replayed.
+ */
+export async function getNetWorthHistory(address: string, range: NetWorthRange): Promise<NetWorthSeries> {
+  const days = NET_WORTH_RANGES[range];
+
+  try {
+    const [balances, historyResult] = await Promise.all([
+      fetchWalletBalances(address),
+      // Without history the series is still useful: it degrades to today's holdings at historical prices.
+      getWalletHistory(address, { limit: Number.POSITIVE_INFINITY }).catch((error) => {
+        console.warn("[NetWorth] Transaction history unavailable", error);
+        return null;
+      }),
+    ]);
+
+    const holdings = balances.items;
+    const seriesByPriceKey = await fetchCoinGeckoPriceHistory(holdings, days);
+
+    const positions = new Map<string, Position>();
+    holdings.forEach((holding) => {
+      const { chain, symbol, amount, valueUsd } = describeHolding(holding);
+      if (amount == null || amount <= VALUE_EPSILON || holding.asset?.is_scam) {
+        return;
+      }
+
+      const priceKey = buildPriceKey(holding);
+      const series = priceKey ? seriesByPriceKey.get(priceKey) : undefined;
+      const key = positionKey(chain, symbol);
+      const existing = positions.get(key);
+
+      positions.set(key, {
+        amount: (existing?.amount ?? 0) + amount,
+        series: existing?.series ?? series,
+        currentPrice:
+          existing?.currentPrice ?? (series ? series[series.length - 1][1] : valueUsd != null ? valueUsd / amount : null),
+        impliedPrices: [],
+      });
+    });
+
+    const transactions = (historyResult?.history ?? [])
+      .map((tx): ReplayedTransaction => ({ tx, legs: transactionLegs(tx).filter(isReplayable) }))
+      .filter(({ legs }) => legs.length > 0)
+      .sort((a, b) => Date.parse(b.tx.timestamp) - Date.parse(a.tx.timestamp));
+
+    transactions.forEach(({ tx, legs }) => {
+      legs.forEach((leg) => {
+        const key = positionKey(tx.chain, leg.symbol);
+        const position =
+          positions.get(key) ?? { amount: 0, currentPrice: null, impliedPrices: [] as Array<[number, number]> };
+        if (leg.valueUsd != null) {
+          position.impliedPrices.push([Date.parse(tx.timestamp), leg.valueUsd / leg.amount]);
+        }
+        positions.set(key, position);
+      });
+    });
+    positions.forEach((position) => position.impliedPrices.sort((a, b) => a[0] - b[0]));
+
+    const now = Date.now();
+    const todayStart = startOfUtcDay(now);
+    const points: NetWorthPoint[] = [];
+    let txIndex = 0;
+
+    for (let offset = 0; offset <= days; offset += 1) {
+      const dayStart = todayStart - offset * DAY_MS;
+      const dayEnd = offset === 0 ? now : dayStart + DAY_MS - 1;
+
+      while (txIndex < transactions.length && Date.parse(transactions[txIndex].tx.timestamp) > dayEnd) {
+        undoTransaction(positions, transactions[txIndex]);
+        txIndex += 1;
+      }
+
+      points.push({
+        date: new Date(dayStart).toISOString().slice(0, 10),
+        valueUsd: valuePositions(positions, dayEnd),
+      });
+    }
+
+    points.reverse();
+
+    const startValueUsd = points[0]?.valueUsd ?? 0;
+    const endValueUsd = points[points.length - 1]?.valueUsd ?? 0;
+    const changeUsd = endValueUsd - startValueUsd;
+
+    return {
+      range,
+      points,
+      summary: {
+        startValueUsd,
+        endValueUsd,
+        changeUsd,
+        changePct: startValueUsd > VALUE_EPSILON ? (changeUsd / startValueUsd) * 100 : 0,
+      },
+      meta: {
+        source: balances.source,
+        isFallback: positions.size === 0,
+        providers: balances.providers,
+        degradedNetworks: Array.from(
+          new Set([
+            ...balances.degradedNetworks,
+            ...(historyResult ? historyResult.degradedNetworks : Object.keys(balances.providers)),
+          ]),
+        ),
+        // Values are anchored on current balances; gaps in history already count as degraded.
+        networks: balances.networks,
+      },
+    };
+  } catch (error) {
+    console.error("getNetWorthHistory failed", error);
+    if (error instanceof ProviderConfigurationError) {
+      throw new ProviderConfigurationError(error.provider, `${error.provider} API credentials are missing or invalid`);
+    }
+
+    throw error instanceof Error ? error : new Error("Failed to build net worth history");
+  }
+}
+
+type ReplayableLeg = TransactionLeg & { symbol: string; amount: number };
+
+type ReplayedTransaction = { tx: WalletTransaction; legs: ReplayableLeg[] };
+
+function isReplayable(leg: TransactionLeg): leg is ReplayableLeg {
+  return leg.symbol != null && leg.amount != null && leg.amount > 0;
+}
+
+function undoTransaction(positions: Map<string, Position>, { tx, legs }: ReplayedTransaction) {
+  legs.forEach((leg) => {
+    const position = positions.get(positionKey(tx.chain, leg.symbol));
+    if (!position) {
+      return;
+    }
+    position.amount += leg.direction === "in" ? -leg.amount : leg.amount;
+  });
+}
+
+function valuePositions(positions: Map<string, Position>, timestamp: number): number {
+  let total = 0;
+  positions.forEach((position) => {
+    if (position.amount <= VALUE_EPSILON) {
+      return;
+    }
+    const price =
+      priceAt(position.series, timestamp) ?? priceAt(position.impliedPrices, timestamp) ?? position.currentPrice ?? 0;
+    total += position.amount * price;
+  });
+  return total;
+}
+
+function positionKey(chain: string, symbol: string) {
+  return `${chain}:${symbol.toUpperCase()}`;
+}
+
+function startOfUtcDay(timestamp: number) {
+  return Math.floor(timestamp / DAY_MS) * DAY_MS;
+}
@@ -0,0 +1,145 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { resolveAddress } from "@/lib/resolve-address";
+import type { Portfolio, PortfolioWallet } from "@/lib/api/schemas";
+
+export type { Portfolio, PortfolioWallet };
+
+export type PortfolioInput = {
+  name?: unknown;
+  wallets?: unknown;
+};
+
+export class PortfolioNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Portfolio ${id} was not found`);
+    this.name = "PortfolioNotFoundError";
+  }
+}
+
+export class PortfolioValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PortfolioValidationError";
+  }
+}
+
+const DEFAULT_STORE_PATH = path.join(process.cwd(), "data", "portfolios.json");
+const MAX_WALLETS = 50;
+
+function storePath() {
+  return process.env.PORTFOLIO_STORE_PATH || DEFAULT_STORE_PATH;
+}
+
+async function readStore(): Promise<Portfolio[]> {
+  try {
+    const raw = await readFile(storePath(), "utf8");
+    const parsed = JSON.parse(raw) as { portfolios?: Portfolio[] };
+    return Array.isArray(parsed.portfolios) ? parsed.portfolios : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function writeStore(portfolios: Portfolio[]) {
+  const target = storePath();
+  await mkdir(path.dirname(target), { recursive: true });
+  // Write to a sibling file first so a crash never leaves a truncated store behind.
+  const temporary = `${target}.${process.pid}.tmp`;
+  await writeFile(temporary, `${JSON.stringify({ portfolios }, null, 2)}\n`, "utf8");
+  await rename(temporary, target);
+}
+
+export async function listPortfolios(): Promise<Portfolio[]> {
+  return readStore();
+}
+
+export async function getPortfolio(id: string): Promise<Portfolio> {
+  const portfolio = (await readStore()).find((entry) => entry.id === id);
+  if (!portfolio) {
+    throw new PortfolioNotFoundError(id);
+  }
+  return portfolio;
+}
+
+export async function createPortfolio(input: PortfolioInput): Promise<Portfolio> {
+  const { name, wallets } = await validatePortfolioInput(input);
+  const now = new Date().toISOString();
+  const portfolio: Portfolio = { id: randomUUID(), name, wallets, createdAt: now, updatedAt: now };
+
+  const portfolios = await readStore();
+  await writeStore([...portfolios, portfolio]);
+  return portfolio;
+}
+
+export async function updatePortfolio(id: string, input: PortfolioInput): Promise<Portfolio> {
+  const portfolios = await readStore();
+  const index = portfolios.findIndex((entry) => entry.id === id);
+  if (index < 0) {
+    throw new PortfolioNotFoundError(id);
+  }
+
+  const { name, wallets } = await validatePortfolioInput(input);
+  const updated: Portfolio = { ...portfolios[index], name, wallets, updatedAt: new Date().toISOString() };
+  portfolios[index] = updated;
+  await writeStore(portfolios);
+  return updated;
+}
+
+export async function deletePortfolio(id: string): Promise<void> {
+  const portfolios = await readStore();
+  const remaining = portfolios.filter((entry) => entry.id !== id);
+  if (remaining.length === portfolios.length) {
+    throw new PortfolioNotFoundError(id);
+  }
+  await writeStore(remaining);
+}
+
+/**
+ * Checks the payload shape and resolves every wallet (including ENS names) up front, so a
+ * stored portfolio only ever contains normalized addresses.
+ */
+async function validatePortfolioInput(input: PortfolioInput) {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) {
+    throw new PortfolioValidationError("name is required");
+  }
+
+  if (!Array.isArray(input.wallets) || input.wallets.length === 0) {
+    throw new PortfolioValidationError("wallets must be a non-empty array");
+  }
+  if (input.wallets.length > MAX_WALLETS) {
+    throw new PortfolioValidationError(`a portfolio can hold at most ${MAX_WALLETS} wallets`);
+  }
+
+  const wallets: PortfolioWallet[] = [];
+  for (const [index, entry] of input.wallets.entries()) {
+    const rawAddress = typeof entry === "string" ? entry : (entry as { address?: unknown })?.address;
+    if (typeof rawAddress !== "string" || rawAddress.trim() === "") {
+      throw new PortfolioValidationError(`wallets[${index}].address is required`);
+    }
+
+    let address: string;
+    try {
+      address = await resolveAddress(rawAddress);
+    } catch (error) {
+      throw new PortfolioValidationError(
+        `wallets[${index}]: ${error instanceof Error ? error.message : "invalid address"}`,
+      );
+    }
+
+    if (wallets.some((wallet) => wallet.address === address)) {
+      continue;
+    }
+
+    const rawLabel = typeof entry === "string" ? null : (entry as { label?: unknown }).label;
+    const label = typeof rawLabel === "string" && rawLabel.trim() !== "" ? rawLabel.trim() : rawAddress.trim();
+    wallets.push({ address, label });
+  }
+
+  return { name, wallets };
+}
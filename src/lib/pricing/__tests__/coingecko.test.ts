@@ -0,0 +1,140 @@
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { buildPriceKey, fetchCoinGeckoPrices } from "../coingecko";
+import type { CoinbaseBalanceResource } from "../../providers/coinbase";
+
+const ORIGINAL_FETCH = global.fetch;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  if (ORIGINAL_FETCH) {
+    global.fetch = ORIGINAL_FETCH;
+  } else {
+    // @ts-expect-error reset fetch when it was undefined
+    delete global.fetch;
+  }
+});
+
+const USDC_ETH = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const USDC_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const USDC_SOLANA = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+function jsonResponse(data: unknown) {
+  return Promise.resolve({
+    ok: true,
+    json: () => Promise.resolve(data),
+  } as Response);
+}
+
+describe("buildPriceKey", () => {
+  it("uses the canonical chain of the holding's network", () => {
+    expect(buildPriceKey({ network_id: "base-mainnet", asset: { address: USDC_BASE } })).toBe(
+      `token:base:${USDC_BASE.toLowerCase()}`,
+    );
+    expect(buildPriceKey({ network_id: "polygon-mainnet", asset: { symbol: "MATIC" } })).toBe(
+      "native:polygon",
+    );
+    expect(buildPriceKey({ network_id: "56" })).toBe("native:bsc");
+    expect(buildPriceKey({ network_id: "eip155:42161" })).toBe("native:arbitrum");
+  });
+
+  it("returns null when the holding has no network", () => {
+    expect(buildPriceKey({ asset: { symbol: "ETH" } })).toBeNull();
+  });
+});
+
+describe("fetchCoinGeckoPrices", () => {
+  it("prices native assets and tokens per chain", async () => {
+    const fetchMock = vi.fn((input: RequestInfo | URL) => {
+      const url = String(input);
+      if (url.includes("/simple/price")) {
+        return jsonResponse({
+          ethereum: { usd: 3000 },
+          "matic-network": { usd: 0.7 },
+          binancecoin: { usd: 550 },
+        });
+      }
+      if (url.includes("/simple/token_price/ethereum")) {
+        return jsonResponse({ [USDC_ETH.toLowerCase()]: { usd: 1 } });
+      }
+      if (url.includes("/simple/token_price/base")) {
+        return jsonResponse({ [USDC_BASE.toLowerCase()]: { usd: 0.999 } });
+      }
+      return Promise.reject(new Error(`Unexpected fetch call to ${url}`));
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const holdings: CoinbaseBalanceResource[] = [
+      { network_id: "ethereum-mainnet", asset: { symbol: "ETH" } },
+      { network_id: "base-mainnet", asset: { symbol: "ETH" } },
+      { network_id: "arbitrum-one", asset: { symbol: "ETH" } },
+      { network_id: "polygon-mainnet", asset: { symbol: "MATIC" } },
+      { network_id: "bnb-mainnet", asset: { symbol: "BNB" } },
+      { network_id: "ethereum-mainnet", asset: { symbol: "USDC", address: USDC_ETH } },
+      { network_id: "base-mainnet", asset: { symbol: "USDC", address: USDC_BASE } },
+    ];
+
+    const prices = await fetchCoinGeckoPrices(holdings);
+
+    expect(prices.get("native:eth")).toBe(3000);
+    expect(prices.get("native:base")).toBe(3000);
+    expect(prices.get("native:arbitrum")).toBe(3000);
+    expect(prices.get("native:polygon")).toBe(0.7);
+    expect(prices.get("native:bsc")).toBe(550);
+    expect(prices.get(`token:eth:${USDC_ETH.toLowerCase()}`)).toBe(1);
+    expect(prices.get(`token:base:${USDC_BASE.toLowerCase()}`)).toBe(0.999);
+
+    holdings.forEach((holding) => {
+      const key = buildPriceKey(holding);
+      expect(key && prices.has(key)).toBe(true);
+    });
+
+    const nativeCall = fetchMock.mock.calls.find(([input]) => String(input).includes("/simple/price"));
+    expect(String(nativeCall?.[0])).toContain("ids=ethereum,matic-network,binancecoin");
+  });
+
+  it("prices SOL and SPL tokens without lowercasing mint addresses", async () => {
+    const fetchMock = vi.fn((input: RequestInfo | URL) => {
+      const url = String(input);
+      if (url.includes("/simple/price")) {
+        return jsonResponse({ solana: { usd: 150 } });
+      }
+      if (url.includes(`/simple/token_price/solana?contract_addresses=${USDC_SOLANA}`)) {
+        return jsonResponse({ [USDC_SOLANA.toLowerCase()]: { usd: 1 } });
+      }
+      return Promise.reject(new Error(`Unexpected fetch call to ${url}`));
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const holdings: CoinbaseBalanceResource[] = [
+      { network_id: "solana-mainnet", asset: { symbol: "SOL" } },
+      { network_id: "solana-mainnet", asset: { symbol: "USDC", address: USDC_SOLANA } },
+    ];
+
+    const prices = await fetchCoinGeckoPrices(holdings);
+
+    expect(buildPriceKey(holdings[1])).toBe(`token:solana:${USDC_SOLANA}`);
+    expect(prices.get("native:solana")).toBe(150);
+    expect(prices.get(`token:solana:${USDC_SOLANA}`)).toBe(1);
+  });
+
+  it("skips platforms whose token request fails", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const fetchMock = vi.fn((input: RequestInfo | URL) => {
+      const url = String(input);
+      if (url.includes("/simple/token_price/polygon-pos")) {
+        return Promise.resolve({ ok: false, status: 429 } as Response);
+      }
+      return jsonResponse({ "0x1111111111111111111111111111111111111111": { usd: 2 } });
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const prices = await fetchCoinGeckoPrices([
+      { network_id: "polygon-mainnet", asset: { address: "0x2222222222222222222222222222222222222222" } },
+      { network_id: "optimism-mainnet", asset: { address: "0x1111111111111111111111111111111111111111" } },
+    ]);
+
+    expect(prices.get("token:optimism:0x1111111111111111111111111111111111111111")).toBe(2);
+    expect(prices.size).toBe(1);
+    expect(warn).toHaveBeenCalledWith("[CoinGecko] Token price request failed", "polygon-pos", 429);
+  });
+});
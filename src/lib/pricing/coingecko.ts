@@ -1,6 +1,10 @@
 import type { CoinbaseBalanceResource } from "../providers/coinbase";
+import { fetchWithFixtures } from "../providers/fixtures";
 
-type PriceKey = `native:${string}` | `token:${string}:${string}`;
+export type PriceKey = `native:${string}` | `token:${string}:${string}`;
+
+/** Daily `[timestampMs, usdPrice]` points, oldest first. */
+export type PriceSeries = Array<[number, number]>;
 
 const CHAIN_ALIAS_MAP: Record<string, string> = {
   eth: "eth",
@@ -40,12 +44,15 @@ const CHAIN_ALIAS_MAP: Record<string, string> = {
   "250": "fantom",
   "eip155:250": "fantom",
   zksync: "zksync",
+  "zksync-era": "zksync",
   "324": "zksync",
   "eip155:324": "zksync",
   linea: "linea",
-  "1101": "linea",
-  "eip155:1101": "linea",
+  "linea-mainnet": "linea",
+  "59144": "linea",
+  "eip155:59144": "linea",
   scroll: "scroll",
+  "scroll-mainnet": "scroll",
   "534352": "scroll",
   "eip155:534352": "scroll",
   metis: "metis",
@@ -53,30 +60,41 @@ const CHAIN_ALIAS_MAP: Record<string, string> = {
   "1088": "metis",
   "eip155:1088": "metis",
   klaytn: "klaytn",
+  "klaytn-mainnet": "klaytn",
   "8217": "klaytn",
   "eip155:8217": "klaytn",
   celo: "celo",
+  "celo-mainnet": "celo",
   "42220": "celo",
   "eip155:42220": "celo",
   moonbeam: "moonbeam",
+  "moonbeam-mainnet": "moonbeam",
   "1284": "moonbeam",
   "eip155:1284": "moonbeam",
   moonriver: "moonriver",
+  "moonriver-mainnet": "moonriver",
   "1285": "moonriver",
   "eip155:1285": "moonriver",
   aurora: "aurora",
+  "aurora-mainnet": "aurora",
   "1313161554": "aurora",
   "eip155:1313161554": "aurora",
   cronos: "cronos",
+  "cronos-mainnet": "cronos",
   "25": "cronos",
   "eip155:25": "cronos",
   gnosis: "gnosis",
   xdai: "gnosis",
+  "gnosis-mainnet": "gnosis",
   "100": "gnosis",
   "eip155:100": "gnosis",
   harmony: "harmony",
+  "harmony-mainnet": "harmony",
   "1666600000": "harmony",
   "eip155:1666600000": "harmony",
+  solana: "solana",
+  sol: "solana",
+  "solana-mainnet": "solana",
 };
 
 const COINGECKO_NATIVE_IDS: Record<string, string> = {
@@ -100,6 +118,7 @@ const COINGECKO_NATIVE_IDS: Record<string, string> = {
   cronos: "crypto-com-chain",
   gnosis: "xdai",
   harmony: "harmony",
+  solana: "solana",
 };
 
 const COINGECKO_PLATFORM_MAP: Record<string, string> = {
@@ -123,8 +142,14 @@ const COINGECKO_PLATFORM_MAP: Record<string, string> = {
   cronos: "cronos",
   gnosis: "xdai",
   harmony: "harmony-shard-0",
+  solana: "solana",
 };
 
+const DEFAULT_API_BASE = "https://api.coingecko.com/api/v3";
+
+/** SPL mint addresses are case-sensitive base58; EVM contract addresses are not. */
+const CASE_SENSITIVE_CHAINS = new Set(["solana"]);
+
 const PLATFORM_TO_CHAIN: Record<string, string> = Object.entries(COINGECKO_PLATFORM_MAP).reduce(
   (acc, [chain, platform]) => {
     acc[platform] = chain;
@@ -138,11 +163,11 @@ export async function fetchCoinGeckoPrices(
 ): Promise<Map<PriceKey, number>> {
   const priceMap = new Map<PriceKey, number>();
 
-  const nativeIds = new Set<string>();
+  const chainsByNativeId = new Map<string, Set<string>>();
   const contractsByPlatform = new Map<string, Set<string>>();
 
   holdings.forEach((balance: CoinbaseBalanceResource) => {
-    const chain = "ethereum"; // temporary fix for type inference issue
+    const chain = canonicalChain(balance.network_id ?? null);
     if (!chain) return;
 
     const address = balance.asset?.address;
@@ -150,29 +175,34 @@ export async function fetchCoinGeckoPrices(
       const platform = COINGECKO_PLATFORM_MAP[chain];
       if (!platform) return;
       const bucket = contractsByPlatform.get(platform) ?? new Set<string>();
-      bucket.add(address.toLowerCase());
+      bucket.add(normalizeContract(chain, address));
       contractsByPlatform.set(platform, bucket);
     } else {
       const nativeId = COINGECKO_NATIVE_IDS[chain];
       if (nativeId) {
-        nativeIds.add(nativeId);
+        const chains = chainsByNativeId.get(nativeId) ?? new Set<string>();
+        chains.add(chain);
+        chainsByNativeId.set(nativeId, chains);
       }
     }
   });
 
   await Promise.all([
-    fetchNativePrices(nativeIds, priceMap),
+    fetchNativePrices(chainsByNativeId, priceMap),
     fetchTokenPrices(contractsByPlatform, priceMap),
   ]);
 
   return priceMap;
 }
 
-async function fetchNativePrices(ids: Set<string>, priceMap: Map<PriceKey, number>) {
-  if (ids.size === 0) return;
+async function fetchNativePrices(
+  chainsByNativeId: Map<string, Set<string>>,
+  priceMap: Map<PriceKey, number>,
+) {
+  if (chainsByNativeId.size === 0) return;
 
-  const url = `https://api.coingecko.com/api/v3/simple/price?ids=${Array.from(ids).join(",")}&vs_currencies=usd`;
-  const response = await fetch(url, { cache: "no-store" });
+  const ids = Array.from(chainsByNativeId.keys());
+  const response = await coinGeckoFetch(`simple/price?ids=${ids.join(",")}&vs_currencies=usd`);
   if (!response.ok) {
     console.warn("[CoinGecko] Native price request failed", response.status);
     return;
@@ -181,10 +211,11 @@ async function fetchNativePrices(ids: Set<string>, priceMap: Map<PriceKey, numbe
   const data = (await response.json()) as Record<string, { usd?: number }>;
   Object.entries(data).forEach(([id, payload]) => {
     if (payload && typeof payload.usd === "number") {
-      const chain = findChainForNativeId(id);
-      if (chain) {
-        priceMap.set(`native:${chain}`, payload.usd);
-      }
+      // Several chains share a native asset (ETH on Base, Arbitrum, ...), so the
+      // price is fanned out to every chain that asked for it.
+      chainsByNativeId.get(id)?.forEach((chain) => {
+        priceMap.set(`native:${chain}`, payload.usd as number);
+      });
     }
   });
 }
@@ -198,8 +229,9 @@ async function fetchTokenPrices(
   contractsByPlatform.forEach((contracts, platform) => {
     const batches = chunk(Array.from(contracts), 100);
     batches.forEach((batch) => {
-      const url = `https://api.coingecko.com/api/v3/simple/token_price/${platform}?contract_addresses=${batch.join(",")}&vs_currencies=usd`;
-      const request = fetch(url, { cache: "no-store" })
+      const request = coinGeckoFetch(
+        `simple/token_price/${platform}?contract_addresses=${batch.join(",")}&vs_currencies=usd`,
+      )
         .then(async (response) => {
           if (!response.ok) {
             console.warn("[CoinGecko] Token price request failed", platform, response.status);
@@ -207,11 +239,14 @@ async function fetchTokenPrices(
           }
 
           const data = (await response.json()) as Record<string, { usd?: number }>;
+          // CoinGecko may echo contracts back lowercased, so map them to the requested spelling.
+          const requested = new Map(batch.map((contract) => [contract.toLowerCase(), contract]));
           Object.entries(data).forEach(([contract, payload]) => {
             if (payload && typeof payload.usd === "number") {
               const chain = findChainForPlatform(platform);
-              if (chain) {
-                priceMap.set(`token:${chain}:${contract.toLowerCase()}`, payload.usd);
+              const address = requested.get(contract.toLowerCase());
+              if (chain && address) {
+                priceMap.set(`token:${chain}:${address}`, payload.usd);
               }
             }
           });
@@ -227,6 +262,115 @@ async function fetchTokenPrices(
   await Promise.all(requests);
 }
 
+/**
+ * Loads daily USD prices for the last `days` days for every asset in `holdings`.
+ * Assets CoinGecko cannot resolve are simply absent from the returned map.
+ */
+export async function fetchCoinGeckoPriceHistory(
+  holdings: CoinbaseBalanceResource[],
+  days: number,
+): Promise<Map<PriceKey, PriceSeries>> {
+  const seriesMap = new Map<PriceKey, PriceSeries>();
+  const keysByNativeId = new Map<string, Set<PriceKey>>();
+  const contracts = new Map<PriceKey, { platform: string; address: string }>();
+
+  holdings.forEach((balance) => {
+    const key = buildPriceKey(balance);
+    const chain = canonicalChain(balance.network_id ?? null);
+    if (!key || !chain) return;
+
+    const address = balance.asset?.address;
+    if (address && address.trim() !== "") {
+      const platform = COINGECKO_PLATFORM_MAP[chain];
+      if (platform) {
+        contracts.set(key, { platform, address: normalizeContract(chain, address) });
+      }
+    } else {
+      const nativeId = COINGECKO_NATIVE_IDS[chain];
+      if (nativeId) {
+        const keys = keysByNativeId.get(nativeId) ?? new Set<PriceKey>();
+        keys.add(key);
+        keysByNativeId.set(nativeId, keys);
+      }
+    }
+  });
+
+  const requests: Array<Promise<void>> = [];
+
+  keysByNativeId.forEach((keys, nativeId) => {
+    const path = `coins/${nativeId}/market_chart?vs_currency=usd&days=${days}&interval=daily`;
+    requests.push(
+      fetchMarketChart(path).then((series) => {
+        if (series) {
+          keys.forEach((key) => seriesMap.set(key, series));
+        }
+      }),
+    );
+  });
+
+  contracts.forEach(({ platform, address }, key) => {
+    const path = `coins/${platform}/contract/${address}/market_chart?vs_currency=usd&days=${days}&interval=daily`;
+    requests.push(
+      fetchMarketChart(path).then((series) => {
+        if (series) {
+          seriesMap.set(key, series);
+        }
+      }),
+    );
+  });
+
+  await Promise.all(requests);
+
+  return seriesMap;
+}
+
+async function fetchMarketChart(path: string): Promise<PriceSeries | null> {
+  try {
+    const response = await coinGeckoFetch(path);
+    if (!response.ok) {
+      console.warn("[CoinGecko] Market chart request failed", path, response.status);
+      return null;
+    }
+
+    const data = (await response.json()) as { prices?: Array<[number, number]> };
+    const prices = Array.isArray(data.prices)
+      ? data.prices.filter(
+          (point): point is [number, number] =>
+            Array.isArray(point) && typeof point[0] === "number" && typeof point[1] === "number",
+        )
+      : [];
+    return prices.length > 0 ? prices.sort((a, b) => a[0] - b[0]) : null;
+  } catch (error) {
+    console.warn("[CoinGecko] Market chart request error", path, error);
+    return null;
+  }
+}
+
+/**
+ * `path` is relative to `COINGECKO_API_BASE` (the public API by default) and doubles as the
+ * fixture key under `FIXTURE_MODE`.
+ */
+function coinGeckoFetch(path: string) {
+  const base = (process.env.COINGECKO_API_BASE || DEFAULT_API_BASE).replace(/\/+$/, "");
+  return fetchWithFixtures("coingecko", path, `${base}/${path}`, { cache: "no-store" });
+}
+
+/** Price on or before `timestamp`, falling back to the earliest known point. */
+export function priceAt(series: PriceSeries | undefined, timestamp: number): number | null {
+  if (!series || series.length === 0) {
+    return null;
+  }
+
+  let price = series[0][1];
+  for (const [pointTimestamp, pointPrice] of series) {
+    if (pointTimestamp > timestamp) {
+      break;
+    }
+    price = pointPrice;
+  }
+  return price;
+}
+
 function chunk<T>(items: T[], size: number): T[][] {
   const result: T[][] = [];
   for (let i = 0; i < items.length; i += size) {
@@ -235,15 +379,14 @@ function chunk<T>(items: T[], size: number): T[][] {
   return result;
 }
 
-function findChainForNativeId(id: string): string | null {
-  const entry = Object.entries(COINGECKO_NATIVE_IDS).find(([, nativeId]) => nativeId === id);
-  return entry ? entry[0] : null;
-}
-
 function findChainForPlatform(platform: string): string | null {
   return PLATFORM_TO_CHAIN[platform] ?? null;
 }
 
+function normalizeContract(chain: string, address: string) {
+  return CASE_SENSITIVE_CHAINS.has(chain) ? address.trim() : address.toLowerCase();
+}
+
 function canonicalChain(input: string | number | null | undefined): string | null {
   if (input == null) {
     return null;
@@ -253,15 +396,14 @@ function canonicalChain(input: string | number | null | undefined): string | nul
 }
 
 export function buildPriceKey(balance: CoinbaseBalanceResource): PriceKey | null {
-  // const chain = canonicalChain(balance.network_id ?? balance.asset?.network_id ?? null);
-  const chain = "ethereum"; // temporary
+  const chain = canonicalChain(balance.network_id ?? null);
   if (!chain) {
     return null;
   }
 
   const address = balance.asset?.address;
   if (address) {
-    return `token:${chain}:${address.toLowerCase()}`;
+    return `token:${chain}:${normalizeContract(chain, address)}`;
   }
 
   return `native:${chain}`;
@@ -0,0 +1,74 @@
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { isCircuitOpen, recordFailure, recordSuccess, resetCircuits } from "../circuit-breaker";
+
+afterEach(() => {
+  resetCircuits();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("circuit breaker", () => {
+  it("opens after consecutive failures and scopes state per provider and network", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const now = 1_000_000;
+
+    recordFailure("coinbase", "base-mainnet", now);
+    recordFailure("coinbase", "base-mainnet", now);
+    expect(isCircuitOpen("coinbase", "base-mainnet", now)).toBe(false);
+
+    recordFailure("coinbase", "base-mainnet", now);
+    expect(isCircuitOpen("coinbase", "base-mainnet", now)).toBe(true);
+    expect(isCircuitOpen("coinbase", "ethereum-mainnet", now)).toBe(false);
+    expect(isCircuitOpen("alchemy", "base-mainnet", now)).toBe(false);
+  });
+
+  it("allows a trial request after the cooldown and re-opens on another failure", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const now = 1_000_000;
+
+    for (let i = 0; i < 3; i += 1) {
+      recordFailure("moralis", "polygon-mainnet", now);
+    }
+    expect(isCircuitOpen("moralis", "polygon-mainnet", now + 59_999)).toBe(true);
+    expect(isCircuitOpen("moralis", "polygon-mainnet", now + 60_000)).toBe(false);
+
+    recordFailure("moralis", "polygon-mainnet", now + 60_001);
+    expect(isCircuitOpen("moralis", "polygon-mainnet", now + 60_002)).toBe(true);
+  });
+
+  it("lets a single trial request through while half-open", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const now = 1_000_000;
+
+    for (let i = 0; i < 3; i += 1) {
+      recordFailure("moralis", "polygon-mainnet", now);
+    }
+    expect(isCircuitOpen("moralis", "polygon-mainnet", now + 60_000)).toBe(false);
+    expect(isCircuitOpen("moralis", "polygon-mainnet", now + 60_001)).toBe(true);
+
+    recordSuccess("moralis", "polygon-mainnet");
+    expect(isCircuitOpen("moralis", "polygon-mainnet", now + 60_002)).toBe(false);
+  });
+
+  it("reads its settings when called and ignores values that are not positive numbers", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.stubEnv("PROVIDER_CIRCUIT_FAILURE_THRESHOLD", "1");
+    vi.stubEnv("PROVIDER_CIRCUIT_COOLDOWN_MS", "not-a-number");
+    const now = 1_000_000;
+
+    recordFailure("coinbase", "base-mainnet", now);
+    expect(isCircuitOpen("coinbase", "base-mainnet", now + 59_999)).toBe(true);
+    expect(isCircuitOpen("coinbase", "base-mainnet", now + 60_000)).toBe(false);
+  });
+
+  it("closes on success", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    recordFailure("coinbase", "base-mainnet");
+    recordFailure("coinbase", "base-mainnet");
+    recordSuccess("coinbase", "base-mainnet");
+    recordFailure("coinbase", "base-mainnet");
+
+    expect(isCircuitOpen("coinbase", "base-mainnet")).toBe(false);
+  });
+});
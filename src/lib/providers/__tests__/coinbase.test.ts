@@ -0,0 +1,84 @@
+// @vitest-environment node
+// jose signs with Node's WebCrypto, which rejects the typed arrays jsdom hands it.
+import { generateKeyPairSync } from "crypto";
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { coinbaseProvider } from "../coinbase";
+
+const ORIGINAL_FETCH = global.fetch;
+
+const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  if (ORIGINAL_FETCH) {
+    global.fetch = ORIGINAL_FETCH;
+  } else {
+    // @ts-expect-error reset fetch when it was undefined
+    delete global.fetch;
+  }
+});
+
+describe("coinbaseProvider", () => {
+  it("retries a transient failure with a freshly signed token", async () => {
+    vi.stubEnv("COINBASE_API_KEY", "organizations/test/apiKeys/test");
+    vi.stubEnv("COINBASE_API_SECRET", privateKey.export({ type: "pkcs8", format: "pem" }).toString());
+    vi.stubEnv("COINBASE_RETRY_BASE_DELAY_MS", "1");
+
+    const responses = [
+      new Response("bad gateway", { status: 502 }),
+      new Response(JSON.stringify({ data: [{ amount: "1", asset: { symbol: "ETH", decimals: 18 } }] })),
+    ];
+    const fetchMock = vi.fn<(url: URL, init: RequestInit) => Promise<Response>>(() =>
+      Promise.resolve(responses.shift() as Response),
+    );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const balances = await coinbaseProvider.fetchBalances("0xabc", "base-mainnet");
+
+    expect(balances).toEqual([expect.objectContaining({ network_id: "base-mainnet", amount: "1" })]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [first, second] = fetchMock.mock.calls.map(([, init]) => new Headers(init.headers).get("authorization"));
+    expect(first).toMatch(/^Bearer /);
+    expect(second).not.toBe(first);
+  });
+
+  it("does not retry when retries are turned off", async () => {
+    vi.stubEnv("COINBASE_API_KEY", "organizations/test/apiKeys/test");
+    vi.stubEnv("COINBASE_API_SECRET", privateKey.export({ type: "pkcs8", format: "pem" }).toString());
+    vi.stubEnv("COINBASE_MAX_RETRIES", "0");
+
+    const fetchMock = vi.fn(() => Promise.resolve(new Response("slow down", { status: 429 })));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(coinbaseProvider.fetchBalances("0xabc", "base-mainnet")).rejects.toThrow(
+      "Coinbase API error (429): slow down",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops at the page cap and hands back the cursor to resume from", async () => {
+    vi.stubEnv("COINBASE_API_KEY", "organizations/test/apiKeys/test");
+    vi.stubEnv("COINBASE_API_SECRET", privateKey.export({ type: "pkcs8", format: "pem" }).toString());
+
+    const fetchMock = vi.fn((url: URL) => {
+      const page = Number(url.searchParams.get("cursor") ?? 0);
+      const body = {
+        data: [{ hash: `0x${page}`, block_height: 1000 - page }],
+        pagination: { next_cursor: `${page + 1}` },
+      };
+      return Promise.resolve(new Response(JSON.stringify(body)));
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const first = await coinbaseProvider.fetchTransactions("0xabc", "base-mainnet");
+    const resumed = await coinbaseProvider.fetchTransactions("0xabc", "base-mainnet", {
+      cursor: first.cursor ?? undefined,
+    });
+
+    expect(first).toMatchObject({ complete: false, cursor: "25" });
+    expect(first.items).toHaveLength(25);
+    expect(resumed).toMatchObject({ complete: false, cursor: "50" });
+    expect(resumed.items[0].hash).toBe("0x25");
+  });
+});
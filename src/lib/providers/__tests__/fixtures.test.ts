@@ -0,0 +1,104 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, it, afterEach, beforeEach, vi } from "vitest";
+import { fetchWithFixtures, fixtureProvider, recordingProvider } from "../fixtures";
+import { selectProviders } from "../registry";
+import type { WalletDataProvider } from "../types";
+
+const ORIGINAL_FETCH = global.fetch;
+const WALLET = "0xABCDEFabcdef0000000000000000000000000001";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "fixtures-"));
+  vi.stubEnv("FIXTURES_DIR", dir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  if (ORIGINAL_FETCH) {
+    global.fetch = ORIGINAL_FETCH;
+  } else {
+    // @ts-expect-error reset fetch when it was undefined
+    delete global.fetch;
+  }
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("fixture provider", () => {
+  it("replays what the recording provider captured", async () => {
+    const live: WalletDataProvider = {
+      name: "coinbase",
+      label: "Coinbase",
+      supportsNetwork: () => true,
+      fetchBalances: vi.fn(async () => [{ network_id: "base-mainnet", amount: "1" }]),
+      fetchTransactions: vi.fn(async () => ({
+        items: [{ hash: "0xaaa", network_id: "base-mainnet" }],
+        complete: true,
+        cursor: null,
+      })),
+    };
+    const recorder = recordingProvider(live);
+
+    await recorder.fetchBalances(WALLET, "base-mainnet");
+    await recorder.fetchTransactions(WALLET, "base-mainnet", { fromBlock: 100 });
+
+    // A recording always holds the full history, whatever block the sync asked for.
+    expect(live.fetchTransactions).toHaveBeenCalledWith(WALLET, "base-mainnet", { signal: undefined });
+    await expect(fixtureProvider.fetchBalances(WALLET.toLowerCase(), "base-mainnet")).resolves.toEqual([
+      { network_id: "base-mainnet", amount: "1" },
+    ]);
+    await expect(fixtureProvider.fetchTransactions(WALLET, "base-mainnet")).resolves.toEqual({
+      items: [{ hash: "0xaaa", network_id: "base-mainnet" }],
+      complete: true,
+      cursor: null,
+    });
+    await expect(fixtureProvider.fetchBalances(WALLET, "ethereum-mainnet")).resolves.toEqual([]);
+  });
+
+  it("replaces or wraps the configured chain depending on FIXTURE_MODE", () => {
+    vi.stubEnv("WALLET_PROVIDER", "coinbase|alchemy");
+
+    vi.stubEnv("FIXTURE_MODE", "replay");
+    expect(selectProviders("base-mainnet").map((provider) => provider.name)).toEqual(["fixtures"]);
+
+    vi.stubEnv("FIXTURE_MODE", "record");
+    expect(selectProviders("base-mainnet").map((provider) => provider.name)).toEqual(["coinbase", "alchemy"]);
+  });
+});
+
+describe("fetchWithFixtures", () => {
+  const KEY = "simple/price?ids=ethereum&vs_currencies=usd";
+  const URL = `https://api.coingecko.com/api/v3/${KEY}`;
+
+  it("records successful responses and replays them without the network", async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(Response.json({ ethereum: { usd: 3000 } })));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    vi.stubEnv("FIXTURE_MODE", "record");
+    const recorded = await fetchWithFixtures("coingecko", KEY, URL);
+    expect(await recorded.json()).toEqual({ ethereum: { usd: 3000 } });
+    expect(await readdir(path.join(dir, "coingecko"))).toEqual([
+      expect.stringMatching(/^simple_price_ids_ethereum_vs_currencies_usd-[0-9a-f]{12}\.json$/),
+    ]);
+
+    vi.stubEnv("FIXTURE_MODE", "replay");
+    const replayed = await fetchWithFixtures("coingecko", KEY, URL);
+    expect(await replayed.json()).toEqual({ ethereum: { usd: 3000 } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("answers 404 for requests that were never recorded", async () => {
+    const fetchMock = vi.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    vi.stubEnv("FIXTURE_MODE", "replay");
+
+    const response = await fetchWithFixtures("coingecko", KEY, URL);
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
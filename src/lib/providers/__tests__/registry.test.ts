@@ -0,0 +1,297 @@
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { resetCircuits } from "../circuit-breaker";
+import { jsonRpcProvider } from "../json-rpc";
+import { fetchWalletBalances, requireEveryNetwork, selectProviders } from "../registry";
+import { PartialNetworkFailureError, ProviderRequestError, ProviderUnavailableError } from "../types";
+
+const ORIGINAL_FETCH = global.fetch;
+
+afterEach(() => {
+  resetCircuits();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  if (ORIGINAL_FETCH) {
+    global.fetch = ORIGINAL_FETCH;
+  } else {
+    // @ts-expect-error reset fetch when it was undefined
+    delete global.fetch;
+  }
+});
+
+describe("selectProviders", () => {
+  it("defaults to Coinbase", () => {
+    vi.stubEnv("WALLET_PROVIDER", "");
+    vi.stubEnv("WALLET_PROVIDER_NETWORKS", "");
+
+    expect(selectProviders("ethereum-mainnet").map((provider) => provider.name)).toEqual(["coinbase"]);
+  });
+
+  it("honours per-network overrides using network aliases", () => {
+    vi.stubEnv("WALLET_PROVIDER", "moralis");
+    vi.stubEnv("WALLET_PROVIDER_NETWORKS", "137=alchemy|moralis, bsc=rpc");
+
+    expect(selectProviders("polygon-mainnet").map((provider) => provider.name)).toEqual(["alchemy", "moralis"]);
+    expect(selectProviders("bnb-mainnet").map((provider) => provider.name)).toEqual(["rpc"]);
+    expect(selectProviders("base-mainnet").map((provider) => provider.name)).toEqual(["moralis"]);
+  });
+
+  it("rejects unknown providers", () => {
+    vi.stubEnv("WALLET_PROVIDER", "etherscan");
+
+    expect(() => selectProviders("ethereum-mainnet")).toThrow(/Unknown wallet data provider/);
+  });
+});
+
+describe("fetchWalletBalances", () => {
+  it("routes each network through its configured provider", async () => {
+    vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet,polygon-mainnet");
+    vi.stubEnv("WALLET_PROVIDER", "rpc");
+    vi.stubEnv("WALLET_PROVIDER_NETWORKS", "polygon-mainnet=moralis");
+    vi.stubEnv("JSON_RPC_URLS", "ethereum-mainnet=https://rpc.test");
+    vi.stubEnv("MORALIS_API_KEY", "moralis-key");
+
+    const fetchMock = vi.fn((input: RequestInfo | URL) => {
+      const url = String(input);
+      if (url === "https://rpc.test") {
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ jsonrpc: "2.0", id: 1, result: "0xde0b6b3a7640000" }),
+        } as Response);
+      }
+      if (url.includes("/wallets/0xabc/tokens") && url.includes("chain=polygon")) {
+        return Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              result: [
+                {
+                  token_address: "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee",
+                  symbol: "MATIC",
+                  decimals: 18,
+                  balance: "2000000000000000000",
+                  usd_value: 1.4,
+                  native_token: true,
+                },
+              ],
+              cursor: null,
+            }),
+        } as Response);
+      }
+      return Promise.reject(new Error(`Unexpected fetch call to ${url}`));
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await fetchWalletBalances("0xabc");
+
+    expect(result.source).toBe("rpc+moralis");
+    expect(result.providers).toEqual({ "ethereum-mainnet": "rpc", "polygon-mainnet": "moralis" });
+    expect(result.degradedNetworks).toEqual([]);
+    expect(result.items).toEqual([
+      expect.objectContaining({
+        network_id: "ethereum-mainnet",
+        amount: "1000000000000000000",
+        asset: expect.objectContaining({ symbol: "ETH", token_type: "native" }),
+      }),
+      expect.objectContaining({
+        network_id: "polygon-mainnet",
+        amount: "2000000000000000000",
+        value_usd: 1.4,
+        asset: expect.objectContaining({ symbol: "MATIC", address: null }),
+      }),
+    ]);
+  });
+
+  it("surfaces the first error when every network fails", async () => {
+    vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet");
+    vi.stubEnv("WALLET_PROVIDER", "alchemy");
+    vi.stubEnv("ALCHEMY_API_KEY", "");
+
+    await expect(fetchWalletBalances("0xabc")).rejects.toThrow("ALCHEMY_API_KEY must be configured");
+  });
+
+  it("fails over to the next provider and opens the circuit after repeated failures", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet,base-mainnet");
+    vi.stubEnv("WALLET_PROVIDER", "moralis|rpc");
+    vi.stubEnv("WALLET_PROVIDER_NETWORKS", "base-mainnet=rpc");
+    vi.stubEnv("MORALIS_API_KEY", "moralis-key");
+    vi.stubEnv("JSON_RPC_URLS", "ethereum-mainnet=https://eth.rpc.test,base-mainnet=https://base.rpc.test");
+
+    const fetchMock = vi.fn((input: RequestInfo | URL) => {
+      const url = String(input);
+      if (url.includes("moralis")) {
+        return Promise.resolve({ ok: false, status: 503, text: () => Promise.resolve("unavailable") } as Response);
+      }
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ jsonrpc: "2.0", id: 1, result: "0x1" }),
+      } as Response);
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const moralisCalls = () => fetchMock.mock.calls.filter(([input]) => String(input).includes("moralis")).length;
+
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      const result = await fetchWalletBalances("0xabc");
+      expect(result.providers).toEqual({ "ethereum-mainnet": "rpc", "base-mainnet": "rpc" });
+      expect(result.degradedNetworks).toEqual(["ethereum-mainnet"]);
+    }
+    expect(moralisCalls()).toBe(3);
+
+    await fetchWalletBalances("0xabc");
+    expect(moralisCalls()).toBe(3);
+  });
+
+  it("names the network and provider when every circuit for it is open", async () => {
+    vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet");
+    vi.stubEnv("WALLET_PROVIDER", "moralis");
+    vi.stubEnv("MORALIS_API_KEY", "moralis-key");
+    vi.stubEnv("PROVIDER_CIRCUIT_FAILURE_THRESHOLD", "1");
+    global.fetch = vi.fn(() =>
+      Promise.resolve({ ok: false, status: 503, text: () => Promise.resolve("unavailable") } as Response),
+    ) as unknown as typeof fetch;
+
+    await expect(fetchWalletBalances("0xabc")).rejects.toBeInstanceOf(ProviderRequestError);
+    const error = await fetchWalletBalances("0xabc").catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableError);
+    expect(error).toMatchObject({ networkId: "ethereum-mainnet", provider: "moralis" });
+  });
+
+  it("loads SOL and SPL balances for Solana addresses over Solana RPC", async () => {
+    const owner = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+    const mint = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+    vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet,solana-mainnet");
+    vi.stubEnv("WALLET_PROVIDER", "rpc");
+    vi.stubEnv("WALLET_PROVIDER_NETWORKS", "");
+    vi.stubEnv("JSON_RPC_URLS", "solana-mainnet=https://sol.rpc.test");
+
+    const fetchMock = vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+      const { method, params } = JSON.parse(String(init?.body)) as { method: string; params: unknown[] };
+      if (String(input) !== "https://sol.rpc.test") {
+        return Promise.reject(new Error(`Unexpected fetch call to ${input}`));
+      }
+      const result =
+        method === "getBalance"
+          ? { value: 2_500_000_000 }
+          : (params[1] as { programId: string }).programId.startsWith("Tokenkeg")
+            ? {
+                value: [
+                  { account: { data: { parsed: { info: { mint, tokenAmount: { amount: "1500000", decimals: 6 } } } } } },
+                  { account: { data: { parsed: { info: { mint, tokenAmount: { amount: "500000", decimals: 6 } } } } } },
+                ],
+              }
+            : { value: [] };
+      return Promise.resolve({ ok: true, json: () => Promise.resolve({ jsonrpc: "2.0", id: 1, result }) } as Response);
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await fetchWalletBalances(owner);
+
+    expect(result.providers).toEqual({ "solana-mainnet": "rpc" });
+    expect(result.items).toEqual([
+      expect.objectContaining({
+        network_id: "solana-mainnet",
+        amount: "2500000000",
+        asset: expect.objectContaining({ symbol: "SOL", decimals: 9, token_type: "native" }),
+      }),
+      expect.objectContaining({
+        network_id: "solana-mainnet",
+        amount: "2000000",
+        asset: expect.objectContaining({ symbol: "USDC", address: mint, decimals: 6 }),
+      }),
+    ]);
+  });
+
+  it("rejects Solana addresses when no Solana network is configured", async () => {
+    vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet");
+
+    await expect(fetchWalletBalances("9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM")).rejects.toThrow(
+      /No Solana networks are configured/,
+    );
+  });
+
+  it("reports networks that no provider could serve as degraded", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet,base-mainnet");
+    vi.stubEnv("WALLET_PROVIDER", "rpc");
+    vi.stubEnv("WALLET_PROVIDER_NETWORKS", "");
+    vi.stubEnv("JSON_RPC_URLS", "ethereum-mainnet=https://eth.rpc.test,base-mainnet=https://base.rpc.test");
+
+    global.fetch = vi.fn((input: RequestInfo | URL) => {
+      if (String(input).includes("base")) {
+        return Promise.resolve({ ok: false, status: 429, text: () => Promise.resolve("slow down") } as Response);
+      }
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ jsonrpc: "2.0", id: 1, result: "0x1" }),
+      } as Response);
+    }) as unknown as typeof fetch;
+
+    const result = await fetchWalletBalances("0xabc");
+
+    expect(result.items).toHaveLength(1);
+    expect(result.providers).toEqual({ "ethereum-mainnet": "rpc" });
+    expect(result.degradedNetworks).toEqual(["base-mainnet"]);
+    expect(result.networks).toEqual([
+      { networkId: "ethereum-mainnet", status: "ok", provider: "rpc", itemCount: 1, error: null },
+      {
+        networkId: "base-mainnet",
+        status: "failed",
+        provider: null,
+        itemCount: 0,
+        error: "JSON-RPC API error (429): slow down",
+      },
+    ]);
+  });
+
+  it("stops waiting for networks that exceed the timeout and tells their provider to stop", async () => {
+    vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet,base-mainnet");
+    vi.stubEnv("WALLET_PROVIDER", "rpc");
+    vi.stubEnv("WALLET_PROVIDER_NETWORKS", "");
+    vi.stubEnv("PROVIDER_NETWORK_TIMEOUT_MS", "20");
+    let abandoned: AbortSignal | undefined;
+    vi.spyOn(jsonRpcProvider, "fetchBalances").mockImplementation((_address, networkId, options) => {
+      if (networkId === "base-mainnet") {
+        abandoned = options?.signal;
+        return new Promise(() => undefined);
+      }
+      return Promise.resolve([{ network_id: networkId, amount: "1", asset: { symbol: "ETH", decimals: 18 } }]);
+    });
+
+    const result = await fetchWalletBalances("0xabc");
+
+    expect(abandoned?.aborted).toBe(true);
+
+    expect(result.items).toHaveLength(1);
+    expect(result.networks[1]).toEqual({
+      networkId: "base-mainnet",
+      status: "timeout",
+      provider: null,
+      itemCount: 0,
+      error: "base-mainnet did not respond within 20 ms",
+    });
+  });
+
+  it("reports an empty wallet next to a failed network instead of failing the whole load", async () => {
+    vi.stubEnv("COINBASE_NETWORK_IDS", "ethereum-mainnet,base-mainnet");
+    vi.stubEnv("WALLET_PROVIDER", "rpc");
+    vi.stubEnv("WALLET_PROVIDER_NETWORKS", "");
+    vi.spyOn(jsonRpcProvider, "fetchBalances").mockImplementation(async (_address, networkId) => {
+      if (networkId === "base-mainnet") {
+        throw new ProviderRequestError("JSON-RPC", 503, "unavailable");
+      }
+      return [];
+    });
+
+    const result = await fetchWalletBalances("0xabc");
+
+    expect(result.items).toEqual([]);
+    expect(result.degradedNetworks).toEqual(["base-mainnet"]);
+    expect(result.networks.map(({ networkId, status }) => [networkId, status])).toEqual([
+      ["ethereum-mainnet", "ok"],
+      ["base-mainnet", "failed"],
+    ]);
+    expect(() => requireEveryNetwork(result.networks)).toThrow(PartialNetworkFailureError);
+  });
+});
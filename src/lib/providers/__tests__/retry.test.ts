@@ -0,0 +1,131 @@
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { fetchWithRetry, parseRetryAfter, type RetryOptions } from "../retry";
+import { ProviderRequestError } from "../types";
+
+const ORIGINAL_FETCH = global.fetch;
+
+const OPTIONS: RetryOptions = { retries: 2, baseDelayMs: 1, maxDelayMs: 5_000, timeoutMs: 1_000 };
+
+function respond(status: number, headers: Record<string, string> = {}) {
+  return new Response(status === 200 ? JSON.stringify({ data: [] }) : "upstream says no", { status, headers });
+}
+
+function mockFetch(...responses: Response[]) {
+  const fetchMock = vi.fn(() => Promise.resolve(responses.shift() ?? respond(200)));
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  if (ORIGINAL_FETCH) {
+    global.fetch = ORIGINAL_FETCH;
+  } else {
+    // @ts-expect-error reset fetch when it was undefined
+    delete global.fetch;
+  }
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delta seconds and HTTP dates", () => {
+    const now = Date.parse("2024-05-04T12:00:00Z");
+
+    expect(parseRetryAfter("3", now)).toBe(3_000);
+    expect(parseRetryAfter("Sat, 04 May 2024 12:00:10 GMT", now)).toBe(10_000);
+    expect(parseRetryAfter("Sat, 04 May 2024 11:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
+
+describe("fetchWithRetry", () => {
+  it("retries transient failures and builds the request again for every attempt", async () => {
+    const fetchMock = mockFetch(respond(502), respond(429), respond(200));
+    let attempts = 0;
+    const init = vi.fn(() => ({ headers: { Authorization: `Bearer token-${(attempts += 1)}` } }));
+
+    const response = await fetchWithRetry("Coinbase", "https://api.test/balances", init, OPTIONS);
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(init).toHaveBeenCalledTimes(3);
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      "https://api.test/balances",
+      expect.objectContaining({ headers: { Authorization: "Bearer token-3" }, signal: expect.any(AbortSignal) }),
+    );
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    vi.useFakeTimers();
+    const fetchMock = mockFetch(respond(429, { "Retry-After": "2" }), respond(200));
+
+    const pending = fetchWithRetry("Coinbase", "https://api.test/balances", () => ({}), OPTIONS);
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up at once on client errors and on Retry-After waits beyond the cap", async () => {
+    const notFound = mockFetch(respond(404));
+    await expect(fetchWithRetry("Coinbase", "https://api.test/a", () => ({}), OPTIONS)).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(notFound).toHaveBeenCalledTimes(1);
+
+    const throttled = mockFetch(respond(429, { "Retry-After": "60" }));
+    await expect(fetchWithRetry("Coinbase", "https://api.test/a", () => ({}), OPTIONS)).rejects.toThrow(
+      "Coinbase API error (429): upstream says no",
+    );
+    expect(throttled).toHaveBeenCalledTimes(1);
+  });
+
+  it("surfaces the last failure once retries run out", async () => {
+    const fetchMock = mockFetch(respond(503), respond(503), respond(503), respond(200));
+
+    const error = await fetchWithRetry("Coinbase", "https://api.test/a", () => ({}), OPTIONS).catch(
+      (reason: unknown) => reason,
+    );
+
+    expect(error).toBeInstanceOf(ProviderRequestError);
+    expect(error).toMatchObject({ status: 503, retryable: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("aborts attempts that exceed the timeout", async () => {
+    const fetchMock = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_, reject) => {
+          init.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+        }),
+    );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(
+      fetchWithRetry("Coinbase", "https://api.test/a", () => ({}), { ...OPTIONS, retries: 1, timeoutMs: 5 }),
+    ).rejects.toMatchObject({ status: 504, message: "Coinbase API error (504): no response within 5 ms" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops retrying once the caller's signal fires", async () => {
+    vi.useFakeTimers();
+    const fetchMock = mockFetch(respond(503), respond(503), respond(200));
+    const controller = new AbortController();
+
+    const pending = fetchWithRetry(
+      "Coinbase",
+      "https://api.test/a",
+      () => ({}),
+      { ...OPTIONS, baseDelayMs: 10_000, maxDelayMs: 10_000 },
+      controller.signal,
+    ).catch((reason: unknown) => reason);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort(new Error("base-mainnet did not respond within 30000 ms"));
+
+    expect(await pending).toMatchObject({ message: "base-mainnet did not respond within 30000 ms" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,273 @@
+import type { CoinbaseBalanceResource, CoinbaseTransactionResource } from "./coinbase";
+import { fetchNativeBalance, hexToDecimalString, jsonRpcCall } from "./json-rpc";
+import { getNativeAsset, isSolanaNetwork } from "./networks";
+import { fetchSolanaBalances, fetchSolanaTransactions } from "./solana";
+import {
+  ProviderConfigurationError,
+  type TransactionPage,
+  type TransactionQuery,
+  type WalletDataProvider,
+} from "./types";
+
+/** `ALCHEMY_API_BASE` overrides it; `{network}` stands for the slug below. */
+const DEFAULT_BASE_URL = "https://{network}.g.alchemy.com/v2";
+
+const ALCHEMY_NETWORKS: Record<string, string> = {
+  "ethereum-mainnet": "eth-mainnet",
+  "base-mainnet": "base-mainnet",
+  "base-sepolia": "base-sepolia",
+  "polygon-mainnet": "polygon-mainnet",
+  "arbitrum-one": "arb-mainnet",
+  "optimism-mainnet": "opt-mainnet",
+  "bnb-mainnet": "bnb-mainnet",
+  "avalanche-mainnet": "avax-mainnet",
+  "fantom-mainnet": "fantom-mainnet",
+  zksync: "zksync-mainnet",
+  "linea-mainnet": "linea-mainnet",
+  "scroll-mainnet": "scroll-mainnet",
+  "metis-andromeda": "metis-mainnet",
+  "celo-mainnet": "celo-mainnet",
+  "gnosis-mainnet": "gnosis-mainnet",
+  "solana-mainnet": "solana-mainnet",
+};
+
+const MAX_TRANSFER_PAGES = 10;
+
+type AlchemyTokenBalancesResult = {
+  tokenBalances?: Array<{ contractAddress?: string | null; tokenBalance?: string | null }>;
+  pageKey?: string | null;
+};
+
+type AlchemyTokenMetadata = {
+  name?: string | null;
+  symbol?: string | null;
+  decimals?: number | null;
+  logo?: string | null;
+};
+
+type AlchemyAssetTransfer = {
+  hash?: string | null;
+  blockNum?: string | null;
+  from?: string | null;
+  to?: string | null;
+  asset?: string | null;
+  category?: string | null;
+  rawContract?: {
+    address?: string | null;
+    value?: string | null;
+    decimal?: string | null;
+  } | null;
+  metadata?: { blockTimestamp?: string | null } | null;
+};
+
+type AlchemyAssetTransfersResult = {
+  transfers?: AlchemyAssetTransfer[];
+  pageKey?: string | null;
+};
+
+function resolveAlchemyUrl(networkId: string): string {
+  const apiKey = process.env.ALCHEMY_API_KEY;
+  if (!apiKey) {
+    throw new ProviderConfigurationError("Alchemy", "ALCHEMY_API_KEY must be configured");
+  }
+
+  const slug = ALCHEMY_NETWORKS[networkId];
+  if (!slug) {
+    throw new Error(`Alchemy does not support network ${networkId}`);
+  }
+
+  const base = (process.env.ALCHEMY_API_BASE || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  return `${base.replace("{network}", slug)}/${apiKey}`;
+}
+
+async function fetchBalances(address: string, networkId: string): Promise<CoinbaseBalanceResource[]> {
+  const url = resolveAlchemyUrl(networkId);
+  if (isSolanaNetwork(networkId)) {
+    return fetchSolanaBalances(url, address, networkId, "Alchemy");
+  }
+
+  const balances: CoinbaseBalanceResource[] = [await fetchNativeBalance(url, address, networkId, "Alchemy")];
+
+  const tokenBalances: Array<{ contractAddress: string; rawAmount: string }> = [];
+  let pageKey: string | undefined;
+  do {
+    const params: unknown[] = pageKey ? [address, "erc20", { pageKey }] : [address, "erc20"];
+    const result = await jsonRpcCall<AlchemyTokenBalancesResult>(url, "alchemy_getTokenBalances", params, "Alchemy");
+
+    (result.tokenBalances ?? []).forEach((entry) => {
+      if (!entry.contractAddress) return;
+      const rawAmount = hexToDecimalString(entry.tokenBalance);
+      if (rawAmount !== "0") {
+        tokenBalances.push({ contractAddress: entry.contractAddress, rawAmount });
+      }
+    });
+
+    pageKey = result.pageKey ?? undefined;
+  } while (pageKey);
+
+  const withMetadata = await Promise.all(
+    tokenBalances.map(async ({ contractAddress, rawAmount }) => {
+      const metadata = await jsonRpcCall<AlchemyTokenMetadata>(
+        url,
+        "alchemy_getTokenMetadata",
+        [contractAddress],
+        "Alchemy",
+      ).catch(() => null);
+
+      const balance: CoinbaseBalanceResource = {
+        network_id: networkId,
+        asset: {
+          address: contractAddress,
+          symbol: metadata?.symbol ?? null,
+          name: metadata?.name ?? null,
+          decimals: metadata?.decimals ?? 18,
+          logo: metadata?.logo ?? null,
+          token_type: "erc20",
+        },
+        amount: rawAmount,
+      };
+      return balance;
+    }),
+  );
+
+  balances.push(...withMetadata);
+  return balances;
+}
+
+type TransferDirection = "fromAddress" | "toAddress";
+
+/** Page keys of the directions that stopped at `MAX_TRANSFER_PAGES`; finished ones are left out. */
+type TransferCursor = Partial<Record<TransferDirection, string>>;
+
+/** Follows `pageKey` for up to `MAX_TRANSFER_PAGES` pages; the returned key is set when more remain. */
+async function fetchTransfers(
+  url: string,
+  address: string,
+  direction: TransferDirection,
+  fromBlock?: number,
+  startPageKey?: string,
+): Promise<{ transfers: AlchemyAssetTransfer[]; pageKey: string | null }> {
+  const transfers: AlchemyAssetTransfer[] = [];
+  let pageKey = startPageKey;
+  let pages = 0;
+
+  do {
+    const result = await jsonRpcCall<AlchemyAssetTransfersResult>(
+      url,
+      "alchemy_getAssetTransfers",
+      [
+        {
+          [direction]: address,
+          ...(fromBlock != null ? { fromBlock: `0x${fromBlock.toString(16)}` } : {}),
+          category: ["external", "erc20"],
+          withMetadata: true,
+          excludeZeroValue: true,
+          order: "desc",
+          maxCount: "0x3e8",
+          ...(pageKey ? { pageKey } : {}),
+        },
+      ],
+      "Alchemy",
+    );
+
+    transfers.push(...(result.transfers ?? []));
+    pageKey = result.pageKey ?? undefined;
+    pages += 1;
+  } while (pageKey && pages < MAX_TRANSFER_PAGES);
+
+  return { transfers, pageKey: pageKey ?? null };
+}
+
+async function fetchTransactions(
+  address: string,
+  networkId: string,
+  query: TransactionQuery = {},
+): Promise<TransactionPage> {
+  const url = resolveAlchemyUrl(networkId);
+  if (isSolanaNetwork(networkId)) {
+    return fetchSolanaTransactions(url, address, networkId, "Alchemy", query);
+  }
+
+  const native = getNativeAsset(networkId);
+
+  // A resumed load only continues the directions that were cut off.
+  const resume = query.cursor ? (JSON.parse(query.cursor) as TransferCursor) : null;
+  const load = async (direction: TransferDirection) =>
+    resume && !resume[direction]
+      ? { transfers: [], pageKey: null }
+      : fetchTransfers(url, address, direction, query.fromBlock, resume?.[direction]);
+  const [outgoing, incoming] = await Promise.all([load("fromAddress"), load("toAddress")]);
+
+  const remaining: TransferCursor = {
+    ...(outgoing.pageKey ? { fromAddress: outgoing.pageKey } : {}),
+    ...(incoming.pageKey ? { toAddress: incoming.pageKey } : {}),
+  };
+
+  const seen = new Set<string>();
+  // Alchemy reports one record per transfer; group them so each transaction hash appears once.
+  const transactions = new Map<
+    string,
+    { resource: CoinbaseTransactionResource; tokenTransfers: Array<Record<string, unknown>> }
+  >();
+
+  [...outgoing.transfers, ...incoming.transfers].forEach((transfer) => {
+    if (!transfer.hash) return;
+    const rawAmount = hexToDecimalString(transfer.rawContract?.value);
+    const decimals = transfer.rawContract?.decimal
+      ? Number.parseInt(transfer.rawContract.decimal, 16)
+      : native.decimals;
+    const dedupeKey = `${transfer.hash}:${transfer.category}:${transfer.rawContract?.address ?? ""}:${rawAmount}`;
+    if (seen.has(dedupeKey)) return;
+    seen.add(dedupeKey);
+
+    let entry = transactions.get(transfer.hash);
+    if (!entry) {
+      entry = {
+        resource: {
+          hash: transfer.hash,
+          block_height: transfer.blockNum ? Number.parseInt(transfer.blockNum, 16) : null,
+          block_timestamp: transfer.metadata?.blockTimestamp ?? null,
+          network_id: networkId,
+          from: { address: transfer.from ?? null },
+          to: { address: transfer.to ?? null },
+          value: null,
+          content: null,
+        },
+        tokenTransfers: [],
+      };
+      transactions.set(transfer.hash, entry);
+    }
+
+    if (transfer.category === "erc20") {
+      entry.tokenTransfers.push({
+        from: transfer.from ?? null,
+        to: transfer.to ?? null,
+        amount: rawAmount,
+        symbol: transfer.asset ?? null,
+        decimals,
+        contract_address: transfer.rawContract?.address ?? null,
+      });
+      return;
+    }
+
+    // The external transfer is the transaction itself, so it decides sender and recipient.
+    entry.resource.from = { address: transfer.from ?? null };
+    entry.resource.to = { address: transfer.to ?? null };
+    entry.resource.value = { amount: rawAmount, decimals, symbol: native.symbol };
+  });
+
+  const items = Array.from(transactions.values(), ({ resource, tokenTransfers }) => ({
+    ...resource,
+    content: tokenTransfers.length > 0 ? { token_transfers: tokenTransfers } : null,
+  }));
+  const complete = Object.keys(remaining).length === 0;
+  return { items, complete, cursor: complete ? null : JSON.stringify(remaining) };
+}
+
+export const alchemyProvider: WalletDataProvider = {
+  name: "alchemy",
+  label: "Alchemy",
+  supportsNetwork: (networkId) => networkId in ALCHEMY_NETWORKS,
+  fetchBalances,
+  fetchTransactions,
+};
@@ -0,0 +1,73 @@
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+type CircuitState = {
+  failures: number;
+  openedAt: number | null;
+  /** Set while the one request let through after the cooldown has not reported back. */
+  trial: boolean;
+};
+
+const circuits = new Map<string, CircuitState>();
+
+function circuitKey(provider: string, networkId: string) {
+  return `${provider}:${networkId}`;
+}
+
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function failureThreshold() {
+  return readPositiveInt(process.env.PROVIDER_CIRCUIT_FAILURE_THRESHOLD, DEFAULT_FAILURE_THRESHOLD);
+}
+
+function cooldownMs() {
+  return readPositiveInt(process.env.PROVIDER_CIRCUIT_COOLDOWN_MS, DEFAULT_COOLDOWN_MS);
+}
+
+/**
+ * A circuit opens after `threshold` consecutive transient failures for one provider and
+ * network. Once the cooldown elapses a single trial request is let through (half-open) and
+ * every other caller still sees the circuit open; success closes the circuit, another failure
+ * re-opens it for a full cooldown. A trial that never reports back gets another after a cooldown.
+ */
+export function isCircuitOpen(provider: string, networkId: string, now = Date.now()): boolean {
+  const state = circuits.get(circuitKey(provider, networkId));
+  if (!state || state.openedAt == null) {
+    return false;
+  }
+
+  if (now - state.openedAt >= cooldownMs()) {
+    state.openedAt = now;
+    state.trial = true;
+    return false;
+  }
+
+  return true;
+}
+
+export function recordSuccess(provider: string, networkId: string) {
+  circuits.delete(circuitKey(provider, networkId));
+}
+
+export function recordFailure(provider: string, networkId: string, now = Date.now()) {
+  const key = circuitKey(provider, networkId);
+  const state = circuits.get(key) ?? { failures: 0, openedAt: null, trial: false };
+  state.failures += 1;
+
+  if (state.trial) {
+    state.openedAt = now;
+    state.trial = false;
+  } else if (state.failures >= failureThreshold() && state.openedAt == null) {
+    state.openedAt = now;
+    console.warn("[Providers] Circuit opened", { provider, networkId, failures: state.failures });
+  }
+
+  circuits.set(key, state);
+}
+
+export function resetCircuits() {
+  circuits.clear();
+}
@@ -1,16 +1,27 @@
 import { createPrivateKey } from "crypto";
 import { SignJWT, importJWK, importPKCS8, type JWTPayload } from "jose";
+import {
+  ProviderConfigurationError,
+  type ProviderCallOptions,
+  type TransactionPage,
+  type TransactionQuery,
+  type WalletDataProvider,
+} from "./types";
+import { fetchWithRetry, type RetryOptions } from "./retry";
+
+const DEFAULT_BASE_URL = "https://api.cdp.coinbase.com/platform";
+const MAX_TRANSACTION_PAGES = 25;
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5_000,
+  timeoutMs: 10_000,
+};
 
-const DEFAULT_BASE_URL =
-  process.env.COINBASE_API_BASE ?? "https://api.cdp.coinbase.com/platform";
-const DEFAULT_NETWORKS = (process.env.COINBASE_NETWORK_IDS ?? "ethereum-mainnet")
-  .split(",")
-  .map((chain) => chain.trim())
-  .filter(Boolean);
-
-export class CoinbaseConfigurationError extends Error {
+export class CoinbaseConfigurationError extends ProviderConfigurationError {
   constructor(message: string) {
-    super(message);
+    super("Coinbase", message);
     this.name = "CoinbaseConfigurationError";
   }
 }
@@ -33,117 +44,6 @@ function requireCredentials(): CoinbaseApiCredentials {
   return { apiKey, privateKey };
 }
 
-const NETWORK_ID_MAP: Record<string, string> = {
-  "ethereum-mainnet": "ethereum-mainnet",
-  "eth-mainnet": "ethereum-mainnet",
-  ethereum: "ethereum-mainnet",
-  eth: "ethereum-mainnet",
-  "1": "ethereum-mainnet",
-  "eip155:1": "ethereum-mainnet",
-  "base-mainnet": "base-mainnet",
-  base: "base-mainnet",
-  "8453": "base-mainnet",
-  "eip155:8453": "base-mainnet",
-  "base-sepolia": "base-sepolia",
-  "84532": "base-sepolia",
-  "eip155:84532": "base-sepolia",
-  "polygon-mainnet": "polygon-mainnet",
-  polygon: "polygon-mainnet",
-  "matic-mainnet": "polygon-mainnet",
-  "137": "polygon-mainnet",
-  "eip155:137": "polygon-mainnet",
-  "arbitrum-one": "arbitrum-one",
-  arbitrum: "arbitrum-one",
-  "42161": "arbitrum-one",
-  "eip155:42161": "arbitrum-one",
-  "optimism-mainnet": "optimism-mainnet",
-  optimism: "optimism-mainnet",
-  "10": "optimism-mainnet",
-  "eip155:10": "optimism-mainnet",
-  "bnb-mainnet": "bnb-mainnet",
-  bsc: "bnb-mainnet",
-  "56": "bnb-mainnet",
-  "eip155:56": "bnb-mainnet",
-  "avalanche-mainnet": "avalanche-mainnet",
-  avalanche: "avalanche-mainnet",
-  "43114": "avalanche-mainnet",
-  "eip155:43114": "avalanche-mainnet",
-  "fantom-mainnet": "fantom-mainnet",
-  fantom: "fantom-mainnet",
-  "250": "fantom-mainnet",
-  "eip155:250": "fantom-mainnet",
-  "zksync": "zksync",
-  "zksync-era": "zksync",
-  "324": "zksync",
-  "eip155:324": "zksync",
-  linea: "linea-mainnet",
-  "linea-mainnet": "linea-mainnet",
-  "1101": "linea-mainnet",
-  "eip155:1101": "linea-mainnet",
-  scroll: "scroll-mainnet",
-  "scroll-mainnet": "scroll-mainnet",
-  "534352": "scroll-mainnet",
-  "eip155:534352": "scroll-mainnet",
-  metis: "metis-andromeda",
-  "metis-andromeda": "metis-andromeda",
-  "1088": "metis-andromeda",
-  "eip155:1088": "metis-andromeda",
-  klaytn: "klaytn-mainnet",
-  "8217": "klaytn-mainnet",
-  "eip155:8217": "klaytn-mainnet",
-  celo: "celo-mainnet",
-  "celo-mainnet": "celo-mainnet",
-  "42220": "celo-mainnet",
-  "eip155:42220": "celo-mainnet",
-  moonbeam: "moonbeam-mainnet",
-  "1284": "moonbeam-mainnet",
-  "eip155:1284": "moonbeam-mainnet",
-  moonriver: "moonriver-mainnet",
-  "1285": "moonriver-mainnet",
-  "eip155:1285": "moonriver-mainnet",
-  aurora: "aurora-mainnet",
-  "1313161554": "aurora-mainnet",
-  "eip155:1313161554": "aurora-mainnet",
-  cronos: "cronos-mainnet",
-  "25": "cronos-mainnet",
-  "eip155:25": "cronos-mainnet",
-  gnosis: "gnosis-mainnet",
-  xdai: "gnosis-mainnet",
-  "100": "gnosis-mainnet",
-  "eip155:100": "gnosis-mainnet",
-  harmony: "harmony-mainnet",
-  "1666600000": "harmony-mainnet",
-  "eip155:1666600000": "harmony-mainnet",
-};
-
-function toNetworkId(entry: string): string | null {
-  if (!entry) {
-    return null;
-  }
-
-  const lowered = entry.toLowerCase();
-
-  if (NETWORK_ID_MAP[lowered]) {
-    return NETWORK_ID_MAP[lowered];
-  }
-
-  const eipMatch = lowered.match(/^eip155:(\d+)$/);
-  if (eipMatch) {
-    return eipMatch[1];
-  }
-
-  if (/^\d+$/.test(entry)) {
-    return entry;
-  }
-
-  return entry;
-}
-
-function resolveNetworks(): string[] {
-  const resolved = DEFAULT_NETWORKS.map(toNetworkId).filter((val): val is string => Boolean(val));
-  return resolved.length > 0 ? resolved : ["ethereum-mainnet"];
-}
-
 type CoinbasePagination = {
   cursor?: string | null;
   next_cursor?: string | null;
@@ -186,6 +86,7 @@ export type CoinbaseTransactionResource = {
   status?: string | null;
   token_transfers?: CoinbaseTokenTransfer[] | null;
   transaction_access_list?: CoinbaseAccessListEntry[] | null;
+  content?: Record<string, unknown> | null;
 };
 
 type CoinbaseParty = {
@@ -242,11 +143,11 @@ export type CoinbaseBalanceResource = {
   value_usd?: string | number | null;
 };
 
-async function coinbaseFetch<T>(path: string, search: Record<string, string | undefined>) {
+async function coinbaseFetch<T>(path: string, search: Record<string, string | undefined>, signal?: AbortSignal) {
   const credentials = requireCredentials();
 
   const normalizedPath = path.startsWith("/") ? path : `/${path}`;
-  const url = new URL(`${DEFAULT_BASE_URL}${normalizedPath}`);
+  const url = new URL(`${baseUrl()}${normalizedPath}`);
   Object.entries(search).forEach(([key, value]) => {
     if (value != null && value !== "") {
       url.searchParams.set(key, value);
@@ -254,61 +155,59 @@ async function coinbaseFetch<T>(path: string, search: Record<string, string | un
   });
 
   const method = "GET";
-  const token = await buildJwtToken(credentials, url, method);
-
-  const response = await fetch(url, {
-    method,
-    headers: {
-      Accept: "application/json",
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-    cache: "no-store",
-  });
-
-  if (!response.ok) {
-    const message = await response.text();
-    throw new Error(`Coinbase API error (${response.status}): ${message}`);
-  }
+  // Every attempt gets a fresh token: they are short-lived and carry a single-use nonce.
+  const response = await fetchWithRetry(
+    "Coinbase",
+    url,
+    async () => ({
+      method,
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${await buildJwtToken(credentials, url, method)}`,
+      },
+      cache: "no-store",
+    }),
+    retryOptions(),
+    signal,
+  );
 
   return (await response.json()) as T;
 }
 
-export async function fetchCoinbaseTransactions(address: string) {
-  const networks = resolveNetworks();
-  const since = new Date();
-  since.setDate(since.getDate() - 1);
-
-  const settlements = await Promise.allSettled(
-    networks.map((network) => fetchTransactionsForNetwork(address, network)),
-  );
-
-
-  const transactions: CoinbaseTransactionResource[] = [];
-  const errors: Error[] = [];
-
-  settlements.forEach((settlement) => {
-    if (settlement.status === "fulfilled") {
-      transactions.push(...settlement.value);
-    } else if (settlement.reason instanceof Error) {
-      errors.push(settlement.reason);
-    } else {
-      errors.push(new Error("Unknown Coinbase transaction error"));
-    }
-  });
-
-  if (transactions.length === 0 && errors.length > 0) {
-    throw errors[0];
-  }
+/** Reads `COINBASE_API_BASE` on every request so tests can point it at a local server. */
+function baseUrl() {
+  return (process.env.COINBASE_API_BASE || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
 
-  return transactions;
+/**
+ * Reads `COINBASE_MAX_RETRIES`, `COINBASE_RETRY_BASE_DELAY_MS`, `COINBASE_RETRY_MAX_DELAY_MS`
+ * and `COINBASE_REQUEST_TIMEOUT_MS`; `COINBASE_MAX_RETRIES=0` turns retries off.
+ */
+function retryOptions(): RetryOptions {
+  const read = (value: string | undefined, fallback: number, min: number) => {
+    const parsed = Number.parseInt(value ?? "", 10);
+    return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+  };
+
+  return {
+    retries: read(process.env.COINBASE_MAX_RETRIES, DEFAULT_RETRY_OPTIONS.retries, 0),
+    baseDelayMs: read(process.env.COINBASE_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_OPTIONS.baseDelayMs, 0),
+    maxDelayMs: read(process.env.COINBASE_RETRY_MAX_DELAY_MS, DEFAULT_RETRY_OPTIONS.maxDelayMs, 0),
+    timeoutMs: read(process.env.COINBASE_REQUEST_TIMEOUT_MS, DEFAULT_RETRY_OPTIONS.timeoutMs, 1),
+  };
 }
 
-async function fetchTransactionsForNetwork(address: string, networkId: string) {
+async function fetchTransactionsForNetwork(
+  address: string,
+  networkId: string,
+  query: TransactionQuery = {},
+): Promise<TransactionPage> {
   const items: CoinbaseTransactionResource[] = [];
   const seen = new Set<string>();
-  let cursor: string | undefined;
-  let safety = 0;
+  const visitedCursors = new Set<string>();
+  let cursor = query.cursor;
+  let pages = 0;
 
   // https://api.cdp.coinbase.com/platform/v1/networks/{network_id}/addresses/{address_id}/transactions
   do {
@@ -317,10 +216,10 @@ async function fetchTransactionsForNetwork(address: string, networkId: string) {
       {
         cursor,
       },
+      query.signal,
     );
 
     const batch = Array.isArray(response.data) ? response.data : [];
-    console.log(batch[0]);
     batch.forEach((tx) => {
       const normalizedNetwork = tx.network_id ?? networkId;
       let metadataHash = "";
@@ -349,58 +248,32 @@ async function fetchTransactionsForNetwork(address: string, networkId: string) {
       response.pagination?.cursor ??
       undefined;
 
-    if (!nextCursor || nextCursor === cursor) {
+    // Follow the cursor to the start of the wallet's history; only a repeated cursor or a page
+    // entirely older than the requested block (pages are newest first) stops early.
+    if (!nextCursor || visitedCursors.has(nextCursor) || isBeforeBlock(batch, query.fromBlock)) {
       cursor = undefined;
     } else {
+      visitedCursors.add(nextCursor);
       cursor = nextCursor;
     }
+    pages += 1;
+  } while (cursor && pages < MAX_TRANSACTION_PAGES);
 
-    safety += 1;
-    if (safety > 25) {
-      console.warn("[Coinbase] Pagination safety stop triggered", {
-        networkId,
-        address,
-      });
-      break;
-    }
-  } while (cursor);
-
-  return items;
+  // A cursor left after `MAX_TRANSACTION_PAGES` pages is where the next load resumes.
+  return { items, complete: !cursor, cursor: cursor ?? null };
 }
 
-export async function fetchCoinbaseBalances(address: string) {
-  const networks = resolveNetworks();
-
-  const settlements = await Promise.allSettled(
-    networks.map((network) => fetchBalancesForNetwork(address, network)),
+function isBeforeBlock(batch: CoinbaseTransactionResource[], fromBlock: number | undefined) {
+  return (
+    fromBlock != null &&
+    batch.length > 0 &&
+    batch.every((tx) => tx.block_height != null && tx.block_height < fromBlock)
   );
-
-  const balances: CoinbaseBalanceResource[] = [];
-  const errors: Error[] = [];
-
-  settlements.forEach((settlement) => {
-    if (settlement.status === "fulfilled") {
-      balances.push(...settlement.value);
-    } else if (settlement.reason instanceof Error) {
-      errors.push(settlement.reason);
-    } else {
-      errors.push(new Error("Unknown Coinbase balance error"));
-    }
-  });
-
-  if (balances.length === 0 && errors.length > 0) {
-    throw errors[0];
-  }
-
-  return balances;
 }
 
-async function fetchBalancesForNetwork(address: string, networkId: string) {
+async function fetchBalancesForNetwork(address: string, networkId: string, { signal }: ProviderCallOptions = {}) {
   const url = `/v1/networks/${encodeURIComponent(networkId)}/addresses/${encodeURIComponent(address)}/balances`;
-  const response = await coinbaseFetch<CoinbaseBalanceResponse>(
-    url,
-    {},
-  );
+  const response = await coinbaseFetch<CoinbaseBalanceResponse>(url, {}, signal);
 
   const balances = Array.isArray(response.data) ? response.data : [];
 
@@ -410,6 +283,14 @@ async function fetchBalancesForNetwork(address: string, networkId: string) {
   }));
 }
 
+export const coinbaseProvider: WalletDataProvider = {
+  name: "coinbase",
+  label: "Coinbase",
+  supportsNetwork: () => true,
+  fetchBalances: fetchBalancesForNetwork,
+  fetchTransactions: fetchTransactionsForNetwork,
+};
+
 async function buildJwtToken(
   credentials: CoinbaseApiCredentials,
   url: URL,
@@ -0,0 +1,136 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { isSolanaAddress } from "@/lib/resolve-address";
+import type { CoinbaseBalanceResource, CoinbaseTransactionResource } from "./coinbase";
+import type { WalletDataProvider } from "./types";
+
+/**
+ * `replay` answers every wallet and pricing request from recorded JSON without touching the
+ * network, `record` captures live responses as fixtures, and `off` leaves both alone.
+ */
+export type FixtureMode = "off" | "replay" | "record";
+
+type FixtureKind = "balances" | "transactions";
+
+type HttpFixture = {
+  key: string;
+  body: unknown;
+};
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), "fixtures");
+
+/** Reads `FIXTURE_MODE`; anything other than `replay` or `record` means fixtures are off. */
+export function fixtureMode(): FixtureMode {
+  const configured = process.env.FIXTURE_MODE?.trim().toLowerCase();
+  return configured === "replay" || configured === "record" ? configured : "off";
+}
+
+function fixturesDir() {
+  return process.env.FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+}
+
+/** `wallets/<address>/<network>/<kind>.json`; EVM addresses are lowercased, base58 ones kept as they are. */
+function walletFixturePath(address: string, networkId: string, kind: FixtureKind) {
+  const wallet = isSolanaAddress(address) ? address : address.toLowerCase();
+  return path.join(fixturesDir(), "wallets", wallet, networkId, `${kind}.json`);
+}
+
+/** `<service>/<readable prefix>-<hash>.json`, since query strings can outgrow a file name. */
+function httpFixturePath(service: string, key: string) {
+  const prefix = key
+    .replace(/[^a-zA-Z0-9]+/g, "_")
+    .slice(0, 60)
+    .replace(/^_+|_+$/g, "");
+  const hash = createHash("sha1").update(key).digest("hex").slice(0, 12);
+  return path.join(fixturesDir(), service, `${prefix}-${hash}.json`);
+}
+
+async function readFixture<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeFixture(file: string, data: unknown) {
+  await mkdir(path.dirname(file), { recursive: true });
+  // Write to a sibling file first so a replay never reads a half-written recording.
+  const temporary = `${file}.${process.pid}.tmp`;
+  await writeFile(temporary, `${JSON.stringify(data, null, 2)}\n`, "utf8");
+  await rename(temporary, file);
+}
+
+/**
+ * Replays balances and transactions recorded under `FIXTURES_DIR`. A network without a
+ * recording is served as empty, the same as a wallet that holds nothing there.
+ */
+export const fixtureProvider: WalletDataProvider = {
+  name: "fixtures",
+  label: "Recorded fixtures",
+  supportsNetwork: () => true,
+  fetchBalances: async (address, networkId) =>
+    (await readFixture<CoinbaseBalanceResource[]>(walletFixturePath(address, networkId, "balances"))) ?? [],
+  fetchTransactions: async (address, networkId) => {
+    const file = walletFixturePath(address, networkId, "transactions");
+    return { items: (await readFixture<CoinbaseTransactionResource[]>(file)) ?? [], complete: true, cursor: null };
+  },
+};
+
+/**
+ * Wraps `provider` so that whatever it returns is also saved as a fixture. Transactions are
+ * always loaded from the newest block, so a recording never holds just the tail of an
+ * incremental sync; it does stop where the provider's page cap does.
+ */
+export function recordingProvider(provider: WalletDataProvider): WalletDataProvider {
+  return {
+    ...provider,
+    async fetchBalances(address, networkId, options) {
+      const balances = await provider.fetchBalances(address, networkId, options);
+      await writeFixture(walletFixturePath(address, networkId, "balances"), balances);
+      return balances;
+    },
+    async fetchTransactions(address, networkId, query) {
+      const page = await provider.fetchTransactions(address, networkId, { signal: query?.signal });
+      await writeFixture(walletFixturePath(address, networkId, "transactions"), page.items);
+      return page;
+    },
+  };
+}
+
+/**
+ * `fetch` for JSON APIs outside the wallet providers. `key` names the request independently of
+ * the API host, e.g. `simple/price?ids=ethereum&vs_currencies=usd`. Replay answers from the
+ * recording, or with a 404 when there is none; record saves every successful response.
+ */
+export async function fetchWithFixtures(
+  service: string,
+  key: string,
+  url: string,
+  init?: RequestInit,
+): Promise<Response> {
+  const mode = fixtureMode();
+  if (mode === "off") {
+    return fetch(url, init);
+  }
+
+  const file = httpFixturePath(service, key);
+  if (mode === "replay") {
+    const recorded = await readFixture<HttpFixture>(file);
+    return recorded
+      ? Response.json(recorded.body)
+      : new Response(`No ${service} fixture recorded for ${key}`, { status: 404 });
+  }
+
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    return response;
+  }
+  const body = (await response.json()) as unknown;
+  await writeFixture(file, { key, body } satisfies HttpFixture);
+  return Response.json(body, { status: response.status });
+}
@@ -0,0 +1,170 @@
+import type { CoinbaseBalanceResource } from "./coinbase";
+import { getNativeAsset, isSolanaNetwork } from "./networks";
+import { fetchSolanaBalances, fetchSolanaTransactions } from "./solana";
+import {
+  ProviderConfigurationError,
+  ProviderRequestError,
+  type TransactionPage,
+  type TransactionQuery,
+  type WalletDataProvider,
+} from "./types";
+
+const INFURA_NETWORKS: Record<string, string> = {
+  "ethereum-mainnet": "mainnet",
+  "base-mainnet": "base-mainnet",
+  "base-sepolia": "base-sepolia",
+  "polygon-mainnet": "polygon-mainnet",
+  "arbitrum-one": "arbitrum-mainnet",
+  "optimism-mainnet": "optimism-mainnet",
+  "bnb-mainnet": "bsc-mainnet",
+  "avalanche-mainnet": "avalanche-mainnet",
+  "linea-mainnet": "linea-mainnet",
+  "scroll-mainnet": "scroll-mainnet",
+  "celo-mainnet": "celo-mainnet",
+  zksync: "zksync-mainnet",
+};
+
+/** Public endpoints used when neither an override nor Infura covers the network. */
+const PUBLIC_RPC_URLS: Record<string, string> = {
+  "solana-mainnet": "https://api.mainnet-beta.solana.com",
+};
+
+type JsonRpcResponse<T> = {
+  result?: T;
+  error?: { code?: number; message?: string } | null;
+};
+
+/**
+ * Explicit endpoints take precedence over Infura, e.g.
+ * `JSON_RPC_URLS=ethereum-mainnet=https://rpc.example.org,base-mainnet=https://...`.
+ */
+function parseRpcOverrides(): Record<string, string> {
+  return (process.env.JSON_RPC_URLS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .reduce(
+      (acc, entry) => {
+        const separator = entry.indexOf("=");
+        if (separator > 0) {
+          acc[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+        }
+        return acc;
+      },
+      {} as Record<string, string>,
+    );
+}
+
+function resolveRpcUrl(networkId: string): string | null {
+  const override = parseRpcOverrides()[networkId];
+  if (override) {
+    return override;
+  }
+
+  const slug = INFURA_NETWORKS[networkId];
+  const projectId = process.env.INFURA_PROJECT_ID;
+  if (slug && projectId) {
+    return `https://${slug}.infura.io/v3/${projectId}`;
+  }
+
+  return PUBLIC_RPC_URLS[networkId] ?? null;
+}
+
+function requireRpcUrl(networkId: string): string {
+  const url = resolveRpcUrl(networkId);
+  if (!url) {
+    throw new ProviderConfigurationError(
+      "JSON-RPC",
+      `No JSON-RPC endpoint configured for ${networkId}; set INFURA_PROJECT_ID or JSON_RPC_URLS`,
+    );
+  }
+  return url;
+}
+
+export async function jsonRpcCall<T>(url: string, method: string, params: unknown[], provider = "JSON-RPC") {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    const message = await response.text();
+    throw new ProviderRequestError(provider, response.status, message);
+  }
+
+  const payload = (await response.json()) as JsonRpcResponse<T>;
+  if (payload.error) {
+    throw new Error(`${provider} RPC error (${payload.error.code ?? "unknown"}): ${payload.error.message ?? ""}`);
+  }
+
+  return payload.result as T;
+}
+
+export function hexToDecimalString(value: string | null | undefined): string {
+  if (!value || value === "0x") {
+    return "0";
+  }
+  return BigInt(value).toString();
+}
+
+export async function fetchNativeBalance(
+  url: string,
+  address: string,
+  networkId: string,
+  provider?: string,
+): Promise<CoinbaseBalanceResource> {
+  const native = getNativeAsset(networkId);
+  const result = await jsonRpcCall<string>(url, "eth_getBalance", [address, "latest"], provider);
+
+  return {
+    network_id: networkId,
+    asset: {
+      address: null,
+      symbol: native.symbol,
+      name: native.name,
+      decimals: native.decimals,
+      token_type: "native",
+    },
+    amount: hexToDecimalString(result),
+  };
+}
+
+async function fetchBalances(address: string, networkId: string): Promise<CoinbaseBalanceResource[]> {
+  const url = requireRpcUrl(networkId);
+
+  if (isSolanaNetwork(networkId)) {
+    return fetchSolanaBalances(url, address, networkId);
+  }
+
+  return [await fetchNativeBalance(url, address, networkId)];
+}
+
+async function fetchTransactions(
+  address: string,
+  networkId: string,
+  query: TransactionQuery = {},
+): Promise<TransactionPage> {
+  if (isSolanaNetwork(networkId)) {
+    return fetchSolanaTransactions(requireRpcUrl(networkId), address, networkId, undefined, query);
+  }
+
+  throw new Error(`JSON-RPC provider cannot list address transactions on ${networkId}`);
+}
+
+/**
+ * Plain EVM JSON-RPC only exposes native balances; token balances and history need an indexer.
+ * Solana RPC nodes can list token accounts and signatures, so Solana is fully supported.
+ */
+export const jsonRpcProvider: WalletDataProvider = {
+  name: "rpc",
+  label: "JSON-RPC",
+  supportsNetwork: (networkId) =>
+    networkId in INFURA_NETWORKS || networkId in PUBLIC_RPC_URLS || networkId in parseRpcOverrides(),
+  fetchBalances,
+  fetchTransactions,
+};
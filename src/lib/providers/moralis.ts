@@ -0,0 +1,218 @@
+import type { CoinbaseBalanceResource, CoinbaseTransactionResource } from "./coinbase";
+import { getNativeAsset } from "./networks";
+import {
+  ProviderConfigurationError,
+  ProviderRequestError,
+  type TransactionPage,
+  type TransactionQuery,
+  type WalletDataProvider,
+} from "./types";
+
+const DEFAULT_BASE_URL = "https://deep-index.moralis.io/api/v2.2";
+
+const MORALIS_CHAINS: Record<string, string> = {
+  "ethereum-mainnet": "eth",
+  "base-mainnet": "base",
+  "base-sepolia": "base sepolia",
+  "polygon-mainnet": "polygon",
+  "arbitrum-one": "arbitrum",
+  "optimism-mainnet": "optimism",
+  "bnb-mainnet": "bsc",
+  "avalanche-mainnet": "avalanche",
+  "fantom-mainnet": "fantom",
+  "linea-mainnet": "linea",
+  "cronos-mainnet": "cronos",
+  "gnosis-mainnet": "gnosis",
+  "moonbeam-mainnet": "moonbeam",
+  "moonriver-mainnet": "moonriver",
+};
+
+const MAX_PAGES = 25;
+
+type MoralisPage<T> = {
+  result?: T[];
+  cursor?: string | null;
+};
+
+type MoralisToken = {
+  token_address?: string | null;
+  symbol?: string | null;
+  name?: string | null;
+  logo?: string | null;
+  decimals?: number | string | null;
+  balance?: string | null;
+  usd_value?: number | null;
+  usd_value_24hr_usd_change?: number | null;
+  native_token?: boolean | null;
+  possible_spam?: boolean | null;
+  verified_contract?: boolean | null;
+};
+
+type MoralisTransfer = {
+  from_address?: string | null;
+  to_address?: string | null;
+  value?: string | null;
+  token_symbol?: string | null;
+  token_decimals?: string | number | null;
+  address?: string | null;
+};
+
+type MoralisHistoryItem = {
+  hash?: string | null;
+  block_number?: string | null;
+  block_hash?: string | null;
+  block_timestamp?: string | null;
+  from_address?: string | null;
+  from_address_label?: string | null;
+  to_address?: string | null;
+  to_address_label?: string | null;
+  value?: string | null;
+  receipt_status?: string | null;
+  native_transfers?: MoralisTransfer[] | null;
+  erc20_transfers?: MoralisTransfer[] | null;
+};
+
+function requireApiKey(): string {
+  const apiKey = process.env.MORALIS_API_KEY;
+  if (!apiKey) {
+    throw new ProviderConfigurationError("Moralis", "MORALIS_API_KEY must be configured");
+  }
+  return apiKey;
+}
+
+function resolveChain(networkId: string): string {
+  const chain = MORALIS_CHAINS[networkId];
+  if (!chain) {
+    throw new Error(`Moralis does not support network ${networkId}`);
+  }
+  return chain;
+}
+
+async function moralisFetch<T>(path: string, search: Record<string, string | undefined>) {
+  const apiKey = requireApiKey();
+  const baseUrl = process.env.MORALIS_API_BASE ?? DEFAULT_BASE_URL;
+  const url = new URL(`${baseUrl}${path}`);
+  Object.entries(search).forEach(([key, value]) => {
+    if (value != null && value !== "") {
+      url.searchParams.set(key, value);
+    }
+  });
+
+  const response = await fetch(url, {
+    headers: {
+      Accept: "application/json",
+      "X-API-Key": apiKey,
+    },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    const message = await response.text();
+    throw new ProviderRequestError("Moralis", response.status, message);
+  }
+
+  return (await response.json()) as T;
+}
+
+/** Follows `cursor` for up to `MAX_PAGES` pages; the returned cursor is set when more remain. */
+async function fetchAllPages<T>(path: string, search: Record<string, string | undefined>, startCursor?: string) {
+  const items: T[] = [];
+  let cursor = startCursor;
+  let pages = 0;
+
+  do {
+    const page = await moralisFetch<MoralisPage<T>>(path, { ...search, cursor });
+    items.push(...(Array.isArray(page.result) ? page.result : []));
+    cursor = page.cursor ?? undefined;
+    pages += 1;
+  } while (cursor && pages < MAX_PAGES);
+
+  return { items, cursor: cursor ?? null };
+}
+
+async function fetchBalances(address: string, networkId: string): Promise<CoinbaseBalanceResource[]> {
+  const chain = resolveChain(networkId);
+  const { items: tokens } = await fetchAllPages<MoralisToken>(`/wallets/${encodeURIComponent(address)}/tokens`, {
+    chain,
+  });
+
+  return tokens.map((token) => {
+    const decimals = token.decimals != null ? Number(token.decimals) : 18;
+    const balance: CoinbaseBalanceResource = {
+      network_id: networkId,
+      asset: {
+        address: token.native_token ? null : token.token_address ?? null,
+        symbol: token.symbol ?? null,
+        name: token.name ?? null,
+        decimals: Number.isFinite(decimals) ? decimals : 18,
+        logo: token.logo ?? null,
+        token_type: token.native_token ? "native" : "erc20",
+        is_verified: token.verified_contract ?? null,
+        is_scam: token.possible_spam ?? null,
+      },
+      amount: token.balance ?? null,
+      value_usd: token.usd_value ?? null,
+      change_24h:
+        token.usd_value_24hr_usd_change != null ? { amount_usd: token.usd_value_24hr_usd_change } : null,
+    };
+    return balance;
+  });
+}
+
+async function fetchTransactions(
+  address: string,
+  networkId: string,
+  query: TransactionQuery = {},
+): Promise<TransactionPage> {
+  const chain = resolveChain(networkId);
+  const native = getNativeAsset(networkId);
+  const { items, cursor } = await fetchAllPages<MoralisHistoryItem>(
+    `/wallets/${encodeURIComponent(address)}/history`,
+    {
+      chain,
+      order: "DESC",
+      from_block: query.fromBlock != null ? String(query.fromBlock) : undefined,
+    },
+    query.cursor,
+  );
+
+  const transactions = items
+    .filter((item): item is MoralisHistoryItem & { hash: string } => Boolean(item.hash))
+    .map((item) => {
+      const tokenTransfers = (item.erc20_transfers ?? []).map((transfer) => ({
+        from: transfer.from_address ?? null,
+        to: transfer.to_address ?? null,
+        amount: transfer.value ?? null,
+        symbol: transfer.token_symbol ?? null,
+        decimals: transfer.token_decimals != null ? Number(transfer.token_decimals) : null,
+        contract_address: transfer.address ?? null,
+      }));
+
+      const transaction: CoinbaseTransactionResource = {
+        hash: item.hash,
+        block_hash: item.block_hash ?? null,
+        block_height: item.block_number ? Number(item.block_number) : null,
+        block_timestamp: item.block_timestamp ?? null,
+        network_id: networkId,
+        from: { address: item.from_address ?? null, label: item.from_address_label ?? null },
+        to: { address: item.to_address ?? null, label: item.to_address_label ?? null },
+        value:
+          item.value && item.value !== "0"
+            ? { amount: item.value, decimals: native.decimals, symbol: native.symbol }
+            : null,
+        status: item.receipt_status ?? null,
+        content: tokenTransfers.length > 0 ? { token_transfers: tokenTransfers } : null,
+      };
+      return transaction;
+    });
+
+  return { items: transactions, complete: cursor == null, cursor };
+}
+
+export const moralisProvider: WalletDataProvider = {
+  name: "moralis",
+  label: "Moralis",
+  supportsNetwork: (networkId) => networkId in MORALIS_CHAINS,
+  fetchBalances,
+  fetchTransactions,
+};
@@ -0,0 +1,158 @@
+export const NETWORK_ID_MAP: Record<string, string> = {
+  "ethereum-mainnet": "ethereum-mainnet",
+  "eth-mainnet": "ethereum-mainnet",
+  ethereum: "ethereum-mainnet",
+  eth: "ethereum-mainnet",
+  "1": "ethereum-mainnet",
+  "eip155:1": "ethereum-mainnet",
+  "base-mainnet": "base-mainnet",
+  base: "base-mainnet",
+  "8453": "base-mainnet",
+  "eip155:8453": "base-mainnet",
+  "base-sepolia": "base-sepolia",
+  "84532": "base-sepolia",
+  "eip155:84532": "base-sepolia",
+  "polygon-mainnet": "polygon-mainnet",
+  polygon: "polygon-mainnet",
+  "matic-mainnet": "polygon-mainnet",
+  "137": "polygon-mainnet",
+  "eip155:137": "polygon-mainnet",
+  "arbitrum-one": "arbitrum-one",
+  arbitrum: "arbitrum-one",
+  "42161": "arbitrum-one",
+  "eip155:42161": "arbitrum-one",
+  "optimism-mainnet": "optimism-mainnet",
+  optimism: "optimism-mainnet",
+  "10": "optimism-mainnet",
+  "eip155:10": "optimism-mainnet",
+  "bnb-mainnet": "bnb-mainnet",
+  bsc: "bnb-mainnet",
+  "56": "bnb-mainnet",
+  "eip155:56": "bnb-mainnet",
+  "avalanche-mainnet": "avalanche-mainnet",
+  avalanche: "avalanche-mainnet",
+  "43114": "avalanche-mainnet",
+  "eip155:43114": "avalanche-mainnet",
+  "fantom-mainnet": "fantom-mainnet",
+  fantom: "fantom-mainnet",
+  "250": "fantom-mainnet",
+  "eip155:250": "fantom-mainnet",
+  "zksync": "zksync",
+  "zksync-era": "zksync",
+  "324": "zksync",
+  "eip155:324": "zksync",
+  linea: "linea-mainnet",
+  "linea-mainnet": "linea-mainnet",
+  "59144": "linea-mainnet",
+  "eip155:59144": "linea-mainnet",
+  scroll: "scroll-mainnet",
+  "scroll-mainnet": "scroll-mainnet",
+  "534352": "scroll-mainnet",
+  "eip155:534352": "scroll-mainnet",
+  metis: "metis-andromeda",
+  "metis-andromeda": "metis-andromeda",
+  "1088": "metis-andromeda",
+  "eip155:1088": "metis-andromeda",
+  klaytn: "klaytn-mainnet",
+  "8217": "klaytn-mainnet",
+  "eip155:8217": "klaytn-mainnet",
+  celo: "celo-mainnet",
+  "celo-mainnet": "celo-mainnet",
+  "42220": "celo-mainnet",
+  "eip155:42220": "celo-mainnet",
+  moonbeam: "moonbeam-mainnet",
+  "1284": "moonbeam-mainnet",
+  "eip155:1284": "moonbeam-mainnet",
+  moonriver: "moonriver-mainnet",
+  "1285": "moonriver-mainnet",
+  "eip155:1285": "moonriver-mainnet",
+  aurora: "aurora-mainnet",
+  "1313161554": "aurora-mainnet",
+  "eip155:1313161554": "aurora-mainnet",
+  cronos: "cronos-mainnet",
+  "25": "cronos-mainnet",
+  "eip155:25": "cronos-mainnet",
+  gnosis: "gnosis-mainnet",
+  xdai: "gnosis-mainnet",
+  "100": "gnosis-mainnet",
+  "eip155:100": "gnosis-mainnet",
+  harmony: "harmony-mainnet",
+  "1666600000": "harmony-mainnet",
+  "eip155:1666600000": "harmony-mainnet",
+  solana: "solana-mainnet",
+  sol: "solana-mainnet",
+  "solana-mainnet": "solana-mainnet",
+};
+
+export function toNetworkId(entry: string): string | null {
+  if (!entry) {
+    return null;
+  }
+
+  const lowered = entry.toLowerCase();
+
+  if (NETWORK_ID_MAP[lowered]) {
+    return NETWORK_ID_MAP[lowered];
+  }
+
+  const eipMatch = lowered.match(/^eip155:(\d+)$/);
+  if (eipMatch) {
+    return eipMatch[1];
+  }
+
+  if (/^\d+$/.test(entry)) {
+    return entry;
+  }
+
+  return entry;
+}
+
+export function resolveNetworks(): string[] {
+  const configured = (process.env.COINBASE_NETWORK_IDS ?? "ethereum-mainnet")
+    .split(",")
+    .map((chain) => chain.trim())
+    .filter(Boolean);
+  const resolved = configured.map(toNetworkId).filter((val): val is string => Boolean(val));
+  return resolved.length > 0 ? resolved : ["ethereum-mainnet"];
+}
+
+/** Solana networks take base58 addresses; every other configured network is EVM. */
+export function isSolanaNetwork(networkId: string): boolean {
+  return networkId.startsWith("solana-");
+}
+
+export type NativeAsset = {
+  symbol: string;
+  name: string;
+  decimals: number;
+};
+
+const NATIVE_ASSETS: Record<string, NativeAsset> = {
+  "ethereum-mainnet": { symbol: "ETH", name: "Ether", decimals: 18 },
+  "base-mainnet": { symbol: "ETH", name: "Ether", decimals: 18 },
+  "base-sepolia": { symbol: "ETH", name: "Ether", decimals: 18 },
+  "polygon-mainnet": { symbol: "MATIC", name: "Polygon", decimals: 18 },
+  "arbitrum-one": { symbol: "ETH", name: "Ether", decimals: 18 },
+  "optimism-mainnet": { symbol: "ETH", name: "Ether", decimals: 18 },
+  "bnb-mainnet": { symbol: "BNB", name: "BNB", decimals: 18 },
+  "avalanche-mainnet": { symbol: "AVAX", name: "Avalanche", decimals: 18 },
+  "fantom-mainnet": { symbol: "FTM", name: "Fantom", decimals: 18 },
+  zksync: { symbol: "ETH", name: "Ether", decimals: 18 },
+  "linea-mainnet": { symbol: "ETH", name: "Ether", decimals: 18 },
+  "scroll-mainnet": { symbol: "ETH", name: "Ether", decimals: 18 },
+  "metis-andromeda": { symbol: "METIS", name: "Metis", decimals: 18 },
+  "klaytn-mainnet": { symbol: "KLAY", name: "Klaytn", decimals: 18 },
+  "celo-mainnet": { symbol: "CELO", name: "Celo", decimals: 18 },
+  "moonbeam-mainnet": { symbol: "GLMR", name: "Moonbeam", decimals: 18 },
+  "moonriver-mainnet": { symbol: "MOVR", name: "Moonriver", decimals: 18 },
+  "aurora-mainnet": { symbol: "ETH", name: "Ether", decimals: 18 },
+  "cronos-mainnet": { symbol: "CRO", name: "Cronos", decimals: 18 },
+  "gnosis-mainnet": { symbol: "XDAI", name: "xDAI", decimals: 18 },
+  "harmony-mainnet": { symbol: "ONE", name: "Harmony", decimals: 18 },
+  "solana-mainnet": { symbol: "SOL", name: "Solana", decimals: 9 },
+};
+
+export function getNativeAsset(networkId: string): NativeAsset {
+  return NATIVE_ASSETS[networkId] ?? { symbol: "ETH", name: "Ether", decimals: 18 };
+}
+
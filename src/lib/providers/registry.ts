@@ -0,0 +1,353 @@
+import { alchemyProvider } from "./alchemy";
+import {
+  coinbaseProvider,
+  type CoinbaseBalanceResource,
+  type CoinbaseTransactionResource,
+} from "./coinbase";
+import { isCircuitOpen, recordFailure, recordSuccess } from "./circuit-breaker";
+import { fixtureMode, fixtureProvider, recordingProvider } from "./fixtures";
+import { jsonRpcProvider } from "./json-rpc";
+import { moralisProvider } from "./moralis";
+import { isSolanaNetwork, resolveNetworks, toNetworkId } from "./networks";
+import type { NetworkStatus } from "@/lib/api/schemas";
+import { isSolanaAddress } from "@/lib/resolve-address";
+import {
+  NetworkTimeoutError,
+  PartialNetworkFailureError,
+  ProviderRequestError,
+  ProviderUnavailableError,
+  type WalletDataProvider,
+} from "./types";
+
+export type { NetworkStatus };
+
+const DEFAULT_PROVIDER = "coinbase";
+const DEFAULT_NETWORK_TIMEOUT_MS = 30_000;
+
+const PROVIDERS: Record<string, WalletDataProvider> = {
+  [coinbaseProvider.name]: coinbaseProvider,
+  [alchemyProvider.name]: alchemyProvider,
+  [moralisProvider.name]: moralisProvider,
+  [jsonRpcProvider.name]: jsonRpcProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+export type ProviderResult<T> = {
+  items: T[];
+  source: string;
+  /** Provider that answered for each network that returned data. */
+  providers: Record<string, string>;
+  /** Networks that were served by a fallback provider or could not be served at all. */
+  degradedNetworks: string[];
+  /** Outcome of every requested network, in request order. */
+  networks: NetworkStatus[];
+  /**
+   * Networks whose provider stopped at its page cap, so older records are still missing, with
+   * where the load can be resumed. Only transaction loads fill it.
+   */
+  incomplete?: Record<string, Backfill>;
+};
+
+/** Resume point of a capped transaction load; the cursor is only meaningful to `provider`. */
+export type Backfill = {
+  provider: string;
+  cursor: string | null;
+};
+
+/** What one provider returned for one network; balances are always complete. */
+type NetworkLoad<T> = {
+  items: T[];
+  complete?: boolean;
+  cursor?: string | null;
+};
+
+/** Loads one network from one provider; `signal` fires when the network has timed out. */
+type NetworkLoader<T> = (
+  provider: WalletDataProvider,
+  networkId: string,
+  signal: AbortSignal,
+) => Promise<NetworkLoad<T>>;
+
+/** Reported for every network when its load starts and again when it settles. */
+export type NetworkProgress<T> =
+  | { networkId: string; status: "loading" }
+  | { networkId: string; status: "loaded"; provider: string; items: T[] }
+  | { networkId: string; status: "failed"; error: string };
+
+/**
+ * Reads `WALLET_PROVIDER_NETWORKS`, e.g. `polygon-mainnet=alchemy|moralis,bnb-mainnet=moralis`.
+ * Keys accept the same aliases as `COINBASE_NETWORK_IDS`; `|` separates fallback providers.
+ */
+function parseProviderOverrides(): Record<string, string> {
+  return (process.env.WALLET_PROVIDER_NETWORKS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .reduce(
+      (acc, entry) => {
+        const separator = entry.indexOf("=");
+        if (separator <= 0) {
+          return acc;
+        }
+        const networkId = toNetworkId(entry.slice(0, separator).trim());
+        const provider = entry.slice(separator + 1).trim().toLowerCase();
+        if (networkId && provider) {
+          acc[networkId] = provider;
+        }
+        return acc;
+      },
+      {} as Record<string, string>,
+    );
+}
+
+/**
+ * Provider chain for `networkId`. `FIXTURE_MODE=replay` serves every network from recorded
+ * fixtures; `FIXTURE_MODE=record` records whatever the configured chain returns.
+ */
+export function selectProviders(networkId: string): WalletDataProvider[] {
+  const mode = fixtureMode();
+  if (mode === "replay") {
+    return [fixtureProvider];
+  }
+
+  const chain =
+    parseProviderOverrides()[networkId] ?? (process.env.WALLET_PROVIDER?.trim().toLowerCase() || DEFAULT_PROVIDER);
+
+  const providers = chain
+    .split("|")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => {
+      const provider = PROVIDERS[name];
+      if (!provider) {
+        throw new Error(`Unknown wallet data provider "${name}" configured for ${networkId}`);
+      }
+      return provider;
+    });
+  return mode === "record" ? providers.map(recordingProvider) : providers;
+}
+
+export async function fetchWalletBalances(
+  address: string,
+  onProgress?: (progress: NetworkProgress<CoinbaseBalanceResource>) => void,
+) {
+  return fetchAcrossNetworks<CoinbaseBalanceResource>(
+    address,
+    "balance",
+    async (provider, networkId, signal) => ({ items: await provider.fetchBalances(address, networkId, { signal }) }),
+    onProgress,
+  );
+}
+
+/**
+ * `fromBlocks` maps a network to the first block still needed, e.g. the last one already stored.
+ * `backfills` resumes loads that an earlier call reported as incomplete; a backfill is only
+ * handed to the provider that produced it.
+ */
+export async function fetchWalletTransactions(
+  address: string,
+  fromBlocks: Record<string, number> = {},
+  backfills: Record<string, Backfill> = {},
+) {
+  return fetchAcrossNetworks<CoinbaseTransactionResource>(address, "transaction", (provider, networkId, signal) => {
+    const backfill = backfills[networkId];
+    const cursor = backfill?.provider === provider.name ? backfill.cursor ?? undefined : undefined;
+    return provider.fetchTransactions(address, networkId, { fromBlock: fromBlocks[networkId], cursor, signal });
+  });
+}
+
+/**
+ * Loads only fail when every network did. Callers that cannot report `networks` next to the data,
+ * such as file exports, use this to fail on a partial result instead.
+ */
+export function requireEveryNetwork(networks: NetworkStatus[]) {
+  const failed = networks.filter((network) => network.status !== "ok");
+  if (failed.length > 0) {
+    throw new PartialNetworkFailureError(
+      failed.map((network) => network.networkId),
+      failed[0].error ?? `${failed[0].networkId} ${failed[0].status}`,
+    );
+  }
+}
+
+async function fetchAcrossNetworks<T>(
+  address: string,
+  kind: string,
+  load: NetworkLoader<T>,
+  onProgress?: (progress: NetworkProgress<T>) => void,
+): Promise<ProviderResult<T>> {
+  // Only query networks that can hold this kind of address (base58 Solana vs. 0x EVM).
+  const solanaAddress = isSolanaAddress(address);
+  const networks = resolveNetworks().filter((networkId) => isSolanaNetwork(networkId) === solanaAddress);
+  if (networks.length === 0) {
+    throw new Error(
+      `No ${solanaAddress ? "Solana" : "EVM"} networks are configured; update COINBASE_NETWORK_IDS`,
+    );
+  }
+
+  const providers: Record<string, string> = {};
+  const degradedNetworks = new Set<string>();
+  const incomplete: Record<string, Backfill> = {};
+  const timeoutMs = networkTimeoutMs();
+
+  const settlements = await Promise.allSettled(
+    networks.map(async (networkId) => {
+      onProgress?.({ networkId, status: "loading" });
+      try {
+        const served = await withTimeout((signal) => loadWithFailover(networkId, load, signal), networkId, timeoutMs);
+        providers[networkId] = served.provider.name;
+        if (served.isFallback) {
+          degradedNetworks.add(networkId);
+        }
+        if (served.complete === false) {
+          incomplete[networkId] = { provider: served.provider.name, cursor: served.cursor ?? null };
+        }
+        onProgress?.({ networkId, status: "loaded", provider: served.provider.name, items: served.items });
+        return served.items;
+      } catch (error) {
+        onProgress?.({
+          networkId,
+          status: "failed",
+          error: error instanceof Error ? error.message : `Unknown ${kind} provider error`,
+        });
+        throw error;
+      }
+    }),
+  );
+
+  const items: T[] = [];
+  const errors: Error[] = [];
+  const statuses: NetworkStatus[] = [];
+
+  settlements.forEach((settlement, index) => {
+    const networkId = networks[index];
+    if (settlement.status === "fulfilled") {
+      items.push(...settlement.value);
+      statuses.push({
+        networkId,
+        status: "ok",
+        provider: providers[networkId],
+        itemCount: settlement.value.length,
+        error: null,
+      });
+      return;
+    }
+
+    degradedNetworks.add(networkId);
+    const error =
+      settlement.reason instanceof Error ? settlement.reason : new Error(`Unknown ${kind} provider error`);
+    errors.push(error);
+    statuses.push({
+      networkId,
+      status: error instanceof NetworkTimeoutError ? "timeout" : "failed",
+      provider: null,
+      itemCount: 0,
+      error: error.message,
+    });
+  });
+
+  // With any network answered, `networks` tells an empty wallet apart from missing data.
+  if (errors.length === networks.length) {
+    throw errors[0];
+  }
+
+  const sources = Array.from(new Set(networks.map((networkId) => providers[networkId]).filter(Boolean)));
+
+  return {
+    items,
+    source: sources.join("+") || DEFAULT_PROVIDER,
+    providers,
+    degradedNetworks: networks.filter((networkId) => degradedNetworks.has(networkId)),
+    networks: statuses,
+    ...(Object.keys(incomplete).length > 0 ? { incomplete } : {}),
+  };
+}
+
+function networkTimeoutMs() {
+  const parsed = Number.parseInt(process.env.PROVIDER_NETWORK_TIMEOUT_MS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_NETWORK_TIMEOUT_MS;
+}
+
+/**
+ * Gives up on a network after `timeoutMs` so one slow chain cannot hold back the others. The
+ * signal handed to `run` fires at that point, so providers that honour it stop retrying and
+ * paging; anything that still answers late is ignored.
+ */
+function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, networkId: string, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new NetworkTimeoutError(networkId, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Walks the provider chain for one network. Providers whose circuit is open are skipped;
+ * transient failures (429/5xx, network errors) count towards opening the circuit, while
+ * other errors simply move on to the next provider.
+ */
+async function loadWithFailover<T>(
+  networkId: string,
+  load: NetworkLoader<T>,
+  signal: AbortSignal,
+): Promise<NetworkLoad<T> & { provider: WalletDataProvider; isFallback: boolean }> {
+  const chain = selectProviders(networkId).filter((provider) => provider.supportsNetwork(networkId));
+  if (chain.length === 0) {
+    throw new ProviderUnavailableError(
+      networkId,
+      null,
+      `No configured wallet data provider supports network ${networkId}`,
+    );
+  }
+
+  let lastError: unknown = null;
+
+  for (const [index, provider] of chain.entries()) {
+    if (signal.aborted) {
+      break;
+    }
+    if (isCircuitOpen(provider.name, networkId)) {
+      lastError = new ProviderUnavailableError(
+        networkId,
+        provider.name,
+        `${provider.label} circuit is open for ${networkId}`,
+      );
+      continue;
+    }
+
+    try {
+      const loaded = await load(provider, networkId, signal);
+      recordSuccess(provider.name, networkId);
+      return { ...loaded, provider, isFallback: index > 0 };
+    } catch (error) {
+      lastError = error;
+      if (isTransientFailure(error)) {
+        recordFailure(provider.name, networkId);
+      }
+      if (index < chain.length - 1) {
+        console.warn("[Providers] Falling back to next provider", {
+          provider: provider.name,
+          networkId,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+  }
+
+  throw lastError instanceof Error
+    ? lastError
+    : new ProviderUnavailableError(networkId, null, `All providers failed for ${networkId}`);
+}
+
+function isTransientFailure(error: unknown): boolean {
+  if (error instanceof ProviderRequestError) {
+    return error.retryable;
+  }
+  // fetch rejects with a TypeError when the upstream cannot be reached at all.
+  return error instanceof TypeError;
+}
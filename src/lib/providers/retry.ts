@@ -0,0 +1,128 @@
+import { ProviderRequestError } from "./types";
+
+export type RetryOptions = {
+  /** Attempts after the first one. */
+  retries: number;
+  /** Backoff before the first retry; doubles with every further attempt. */
+  baseDelayMs: number;
+  /** Cap on any single wait, including one asked for by `Retry-After`. */
+  maxDelayMs: number;
+  /** Each attempt is aborted after this long. */
+  timeoutMs: number;
+};
+
+/**
+ * Milliseconds to wait according to a `Retry-After` header, which holds either seconds or an
+ * HTTP date. Returns null when the header is missing or unreadable.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  const value = header?.trim();
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Full jitter: a random wait up to the exponential backoff, so clients do not retry in lockstep. */
+export function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions): number {
+  return Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+/**
+ * Fetches `url`, retrying 429s, 5xx responses, network errors and timeouts with jittered
+ * exponential backoff. An upstream `Retry-After` replaces the backoff; when it asks for longer
+ * than `maxDelayMs` the error is raised straight away rather than holding the request open.
+ * `init` runs before every attempt so signed requests can be re-signed. Non-2xx responses are
+ * raised as `ProviderRequestError`, and timeouts as one with status 504. Once `signal` fires,
+ * the current attempt is aborted, no further one is made, and the signal's reason is raised.
+ */
+export async function fetchWithRetry(
+  provider: string,
+  url: URL | string,
+  init: () => RequestInit | Promise<RequestInit>,
+  options: RetryOptions,
+  signal?: AbortSignal,
+): Promise<Response> {
+  for (let attempt = 0; ; attempt += 1) {
+    throwIfAborted(signal);
+    const canRetry = attempt < options.retries;
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(provider, url, await init(), options.timeoutMs, signal);
+    } catch (error) {
+      if (!canRetry || !isTransient(error)) {
+        throw error;
+      }
+      await sleep(backoffDelay(attempt, options), signal);
+      continue;
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    const error = new ProviderRequestError(provider, response.status, await response.text());
+    const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+    if (!canRetry || !error.retryable || (retryAfterMs != null && retryAfterMs > options.maxDelayMs)) {
+      throw error;
+    }
+    await sleep(retryAfterMs ?? backoffDelay(attempt, options), signal);
+  }
+}
+
+async function fetchWithTimeout(
+  provider: string,
+  url: URL | string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal,
+) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    throwIfAborted(signal);
+    if (controller.signal.aborted) {
+      throw new ProviderRequestError(provider, 504, `no response within ${timeoutMs} ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel);
+  }
+}
+
+function throwIfAborted(signal: AbortSignal | undefined) {
+  if (signal?.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error("Request was cancelled");
+  }
+}
+
+function isTransient(error: unknown) {
+  if (error instanceof ProviderRequestError) {
+    return error.retryable;
+  }
+  // fetch rejects with a TypeError when the upstream cannot be reached at all.
+  return error instanceof TypeError;
+}
+
+/** Resolves after `ms`, or as soon as `signal` fires. */
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+}
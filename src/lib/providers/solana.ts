@@ -0,0 +1,332 @@
+import type { CoinbaseBalanceResource, CoinbaseTransactionResource } from "./coinbase";
+import { jsonRpcCall } from "./json-rpc";
+import { getNativeAsset } from "./networks";
+import type { TransactionPage, TransactionQuery } from "./types";
+
+const TOKEN_PROGRAM_IDS = [
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PEnBqCXEpPxuJoN",
+];
+
+/** The RPC only knows mints, so common SPL tokens are labelled locally. */
+const KNOWN_SPL_TOKENS: Record<string, { symbol: string; name: string }> = {
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: { symbol: "USDC", name: "USD Coin" },
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: { symbol: "USDT", name: "Tether USD" },
+  "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo": { symbol: "PYUSD", name: "PayPal USD" },
+  So11111111111111111111111111111111111111112: { symbol: "WSOL", name: "Wrapped SOL" },
+  mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So: { symbol: "MSOL", name: "Marinade staked SOL" },
+  J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn: { symbol: "JITOSOL", name: "Jito Staked SOL" },
+  JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: { symbol: "JUP", name: "Jupiter" },
+  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: { symbol: "BONK", name: "Bonk" },
+};
+
+const SIGNATURE_PAGE_SIZE = 100;
+const MAX_SIGNATURE_PAGES = 5;
+const TRANSACTION_BATCH_SIZE = 10;
+
+type ParsedTokenAmount = {
+  amount?: string | null;
+  decimals?: number | null;
+};
+
+type TokenAccountsResult = {
+  value?: Array<{
+    account?: {
+      data?: {
+        parsed?: {
+          info?: {
+            mint?: string | null;
+            owner?: string | null;
+            tokenAmount?: ParsedTokenAmount | null;
+          } | null;
+        } | null;
+      } | null;
+    } | null;
+  }>;
+};
+
+type SignatureInfo = {
+  signature: string;
+  blockTime?: number | null;
+  slot?: number | null;
+  err?: unknown;
+};
+
+type TokenBalance = {
+  accountIndex: number;
+  mint: string;
+  owner?: string | null;
+  uiTokenAmount?: ParsedTokenAmount | null;
+};
+
+type ParsedTransaction = {
+  slot?: number | null;
+  blockTime?: number | null;
+  meta?: {
+    err?: unknown;
+    fee?: number | null;
+    preBalances?: number[];
+    postBalances?: number[];
+    preTokenBalances?: TokenBalance[] | null;
+    postTokenBalances?: TokenBalance[] | null;
+  } | null;
+  transaction?: {
+    message?: {
+      accountKeys?: Array<string | { pubkey: string; signer?: boolean }>;
+    } | null;
+  } | null;
+};
+
+export async function fetchSolanaBalances(
+  url: string,
+  address: string,
+  networkId: string,
+  provider?: string,
+): Promise<CoinbaseBalanceResource[]> {
+  const native = getNativeAsset(networkId);
+  const [lamports, ...tokenAccounts] = await Promise.all([
+    jsonRpcCall<{ value?: number }>(url, "getBalance", [address], provider),
+    ...TOKEN_PROGRAM_IDS.map((programId) =>
+      jsonRpcCall<TokenAccountsResult>(
+        url,
+        "getTokenAccountsByOwner",
+        [address, { programId }, { encoding: "jsonParsed" }],
+        provider,
+      ),
+    ),
+  ]);
+
+  const balances: CoinbaseBalanceResource[] = [
+    {
+      network_id: networkId,
+      asset: {
+        address: null,
+        symbol: native.symbol,
+        name: native.name,
+        decimals: native.decimals,
+        token_type: "native",
+      },
+      amount: String(lamports?.value ?? 0),
+    },
+  ];
+
+  // A wallet can hold several token accounts for the same mint.
+  const byMint = new Map<string, { amount: bigint; decimals: number }>();
+  tokenAccounts.forEach((result) => {
+    (result?.value ?? []).forEach((entry) => {
+      const info = entry.account?.data?.parsed?.info;
+      const mint = info?.mint;
+      const raw = info?.tokenAmount?.amount;
+      if (!mint || !raw || raw === "0") return;
+
+      const existing = byMint.get(mint);
+      byMint.set(mint, {
+        amount: (existing?.amount ?? BigInt(0)) + BigInt(raw),
+        decimals: info?.tokenAmount?.decimals ?? existing?.decimals ?? 0,
+      });
+    });
+  });
+
+  byMint.forEach(({ amount, decimals }, mint) => {
+    const known = KNOWN_SPL_TOKENS[mint];
+    balances.push({
+      network_id: networkId,
+      asset: {
+        address: mint,
+        symbol: known?.symbol ?? shortenMint(mint),
+        name: known?.name ?? null,
+        decimals,
+        token_type: "spl",
+      },
+      amount: amount.toString(),
+    });
+  });
+
+  return balances;
+}
+
+/**
+ * Solana has no transfer index, so history is rebuilt from each signature's parsed
+ * transaction: the wallet's SOL and SPL balance deltas become the native value and
+ * token transfers, and the largest opposite delta is treated as the counterparty.
+ */
+export async function fetchSolanaTransactions(
+  url: string,
+  address: string,
+  networkId: string,
+  provider?: string,
+  query: TransactionQuery = {},
+): Promise<TransactionPage> {
+  const signatures: SignatureInfo[] = [];
+  let before = query.cursor;
+  let pages = 0;
+
+  do {
+    const page = await jsonRpcCall<SignatureInfo[]>(
+      url,
+      "getSignaturesForAddress",
+      [address, { limit: SIGNATURE_PAGE_SIZE, ...(before ? { before } : {}) }],
+      provider,
+    );
+    const entries = Array.isArray(page) ? page : [];
+    const fromSlot = query.fromBlock;
+    const wanted = fromSlot == null ? entries : entries.filter((entry) => entry.slot == null || entry.slot >= fromSlot);
+    signatures.push(...wanted);
+    // Signatures come newest first, so anything older than the requested slot ends the walk.
+    before =
+      entries.length === SIGNATURE_PAGE_SIZE && wanted.length === entries.length
+        ? entries[entries.length - 1].signature
+        : undefined;
+    pages += 1;
+  } while (before && pages < MAX_SIGNATURE_PAGES);
+
+  const transactions: CoinbaseTransactionResource[] = [];
+  const successful = signatures.filter((entry) => entry.err == null);
+
+  for (let i = 0; i < successful.length; i += TRANSACTION_BATCH_SIZE) {
+    const batch = successful.slice(i, i + TRANSACTION_BATCH_SIZE);
+    const parsed = await Promise.all(
+      batch.map((entry) =>
+        jsonRpcCall<ParsedTransaction | null>(
+          url,
+          "getTransaction",
+          [entry.signature, { encoding: "jsonParsed", maxSupportedTransactionVersion: 0 }],
+          provider,
+        ),
+      ),
+    );
+
+    parsed.forEach((transaction, index) => {
+      const mapped = transaction ? mapTransaction(batch[index], transaction, address, networkId) : null;
+      if (mapped) {
+        transactions.push(mapped);
+      }
+    });
+  }
+
+  // A `before` left over means the walk stopped at MAX_SIGNATURE_PAGES with older signatures remaining.
+  return { items: transactions, complete: before == null, cursor: before ?? null };
+}
+
+function mapTransaction(
+  signature: SignatureInfo,
+  transaction: ParsedTransaction,
+  address: string,
+  networkId: string,
+): CoinbaseTransactionResource | null {
+  const native = getNativeAsset(networkId);
+  const meta = transaction.meta;
+  const accountKeys = (transaction.transaction?.message?.accountKeys ?? []).map((key) =>
+    typeof key === "string" ? key : key.pubkey,
+  );
+  const walletIndex = accountKeys.indexOf(address);
+  const blockTime = transaction.blockTime ?? signature.blockTime;
+
+  const lamportDeltas = accountKeys.map(
+    (_, index) => (meta?.postBalances?.[index] ?? 0) - (meta?.preBalances?.[index] ?? 0),
+  );
+  // The fee payer is always the first account; its fee is not part of the transfer.
+  if (lamportDeltas.length > 0) {
+    lamportDeltas[0] += meta?.fee ?? 0;
+  }
+  const walletDelta = walletIndex >= 0 ? lamportDeltas[walletIndex] : 0;
+
+  const tokenTransfers = tokenDeltas(meta?.preTokenBalances, meta?.postTokenBalances, address).map(
+    ({ mint, delta, decimals, counterparty }) => {
+      const known = KNOWN_SPL_TOKENS[mint];
+      return {
+        from: delta < BigInt(0) ? address : counterparty,
+        to: delta < BigInt(0) ? counterparty : address,
+        amount: (delta < BigInt(0) ? -delta : delta).toString(),
+        symbol: known?.symbol ?? shortenMint(mint),
+        decimals,
+        contract_address: mint,
+      };
+    },
+  );
+
+  if (walletDelta === 0 && tokenTransfers.length === 0) {
+    return null;
+  }
+
+  const solCounterparty = findCounterparty(accountKeys, lamportDeltas, walletIndex, walletDelta);
+  const primaryToken = tokenTransfers[0];
+  const isInbound = walletDelta !== 0 ? walletDelta > 0 : primaryToken.to === address;
+  const counterparty = walletDelta !== 0 ? solCounterparty : isInbound ? primaryToken.from : primaryToken.to;
+
+  return {
+    hash: signature.signature,
+    block_height: transaction.slot ?? signature.slot ?? null,
+    block_timestamp: blockTime != null ? new Date(blockTime * 1000).toISOString() : null,
+    network_id: networkId,
+    from: { address: isInbound ? counterparty : address },
+    to: { address: isInbound ? address : counterparty },
+    value:
+      walletDelta !== 0
+        ? { amount: String(Math.abs(walletDelta)), decimals: native.decimals, symbol: native.symbol }
+        : null,
+    status: "success",
+    content: tokenTransfers.length > 0 ? { token_transfers: tokenTransfers } : null,
+  };
+}
+
+function tokenDeltas(
+  pre: TokenBalance[] | null | undefined,
+  post: TokenBalance[] | null | undefined,
+  address: string,
+) {
+  const totals = new Map<string, { mint: string; owner: string | null; delta: bigint; decimals: number }>();
+  const apply = (balances: TokenBalance[] | null | undefined, sign: bigint) => {
+    (balances ?? []).forEach((balance) => {
+      const key = `${balance.owner ?? balance.accountIndex}:${balance.mint}`;
+      const entry = totals.get(key) ?? {
+        mint: balance.mint,
+        owner: balance.owner ?? null,
+        delta: BigInt(0),
+        decimals: balance.uiTokenAmount?.decimals ?? 0,
+      };
+      entry.delta += sign * BigInt(balance.uiTokenAmount?.amount ?? "0");
+      totals.set(key, entry);
+    });
+  };
+  apply(post, BigInt(1));
+  apply(pre, BigInt(-1));
+
+  const entries = Array.from(totals.values());
+  return entries
+    .filter((entry) => entry.owner === address && entry.delta !== BigInt(0))
+    .map((entry) => {
+      const opposite = entries.find(
+        (other) =>
+          other.mint === entry.mint &&
+          other.owner !== address &&
+          (entry.delta > BigInt(0) ? other.delta < BigInt(0) : other.delta > BigInt(0)),
+      );
+      return {
+        mint: entry.mint,
+        delta: entry.delta,
+        decimals: entry.decimals,
+        counterparty: opposite?.owner ?? null,
+      };
+    });
+}
+
+function findCounterparty(
+  accountKeys: string[],
+  deltas: number[],
+  walletIndex: number,
+  walletDelta: number,
+): string | null {
+  let best: number | null = null;
+  deltas.forEach((delta, index) => {
+    if (index === walletIndex || Math.sign(delta) !== -Math.sign(walletDelta) || delta === 0) return;
+    if (best == null || Math.abs(delta) > Math.abs(deltas[best])) {
+      best = index;
+    }
+  });
+  return best != null ? accountKeys[best] : null;
+}
+
+function shortenMint(mint: string) {
+  return `${mint.slice(0, 4)}…${mint.slice(-4)}`;
+}
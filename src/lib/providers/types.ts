@@ -0,0 +1,116 @@
+import type { CoinbaseBalanceResource, CoinbaseTransactionResource } from "./coinbase";
+
+/** Passed to every provider call. */
+export type ProviderCallOptions = {
+  /** Fires once the registry has given up on the network; providers stop paging and retrying. */
+  signal?: AbortSignal;
+};
+
+export type TransactionQuery = ProviderCallOptions & {
+  /**
+   * Only transactions at or after this block (slot on Solana) are needed. Providers use it to
+   * stop paging early where their API allows and may still return older records.
+   */
+  fromBlock?: number;
+  /** Continues a load that stopped at the provider's page cap; the `cursor` of that `TransactionPage`. */
+  cursor?: string;
+};
+
+/** One network's transactions as far as the provider got, newest first. */
+export type TransactionPage = {
+  items: CoinbaseTransactionResource[];
+  /**
+   * False when the provider stopped at its page cap before reaching `fromBlock` or the start of
+   * the wallet's history, so older records are still missing.
+   */
+  complete: boolean;
+  /** Where an incomplete load can be resumed; null when the provider cannot resume it. */
+  cursor: string | null;
+};
+
+/**
+ * A source of balances and transactions for a single wallet on a single network.
+ * Every adapter returns records in the Coinbase resource shape so the analyzers
+ * downstream only have to understand one format.
+ */
+export type WalletDataProvider = {
+  name: string;
+  label: string;
+  supportsNetwork(networkId: string): boolean;
+  fetchBalances(address: string, networkId: string, options?: ProviderCallOptions): Promise<CoinbaseBalanceResource[]>;
+  fetchTransactions(
+    address: string,
+    networkId: string,
+    query?: TransactionQuery,
+  ): Promise<TransactionPage>;
+};
+
+export class ProviderConfigurationError extends Error {
+  readonly provider: string;
+
+  constructor(provider: string, message: string) {
+    super(message);
+    this.name = "ProviderConfigurationError";
+    this.provider = provider;
+  }
+}
+
+export class ProviderRequestError extends Error {
+  readonly provider: string;
+  readonly status: number;
+
+  constructor(provider: string, status: number, message: string) {
+    super(`${provider} API error (${status}): ${message}`);
+    this.name = "ProviderRequestError";
+    this.provider = provider;
+    this.status = status;
+  }
+
+  /** Rate limiting and upstream outages are worth retrying or failing over. */
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * No provider could be asked for a network: none supports it, or every circuit is open. `provider`
+ * names the last one skipped, if any.
+ */
+export class ProviderUnavailableError extends Error {
+  readonly networkId: string;
+  readonly provider: string | null;
+
+  constructor(networkId: string, provider: string | null, message: string) {
+    super(message);
+    this.name = "ProviderUnavailableError";
+    this.networkId = networkId;
+    this.provider = provider;
+  }
+}
+
+/**
+ * Some networks failed while others answered. Responses with `meta.networks` report that next to
+ * the data; callers that cannot, such as file exports, fail with this instead.
+ */
+export class PartialNetworkFailureError extends Error {
+  readonly failedNetworks: string[];
+
+  constructor(failedNetworks: string[], reason: string) {
+    super(`Unable to load ${failedNetworks.join(", ")}: ${reason}`);
+    this.name = "PartialNetworkFailureError";
+    this.failedNetworks = failedNetworks;
+  }
+}
+
+/** No provider answered for a network within `PROVIDER_NETWORK_TIMEOUT_MS`. */
+export class NetworkTimeoutError extends Error {
+  readonly networkId: string;
+  readonly timeoutMs: number;
+
+  constructor(networkId: string, timeoutMs: number) {
+    super(`${networkId} did not respond within ${timeoutMs} ms`);
+    this.name = "NetworkTimeoutError";
+    this.networkId = networkId;
+    this.timeoutMs = timeoutMs;
+  }
+}
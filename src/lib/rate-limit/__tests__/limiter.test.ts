@@ -0,0 +1,95 @@
+import { describe, expect, it, afterEach, vi } from "vitest";
+import { consumeRateLimit, type RateLimitStore } from "../limiter";
+import { createMemoryRateLimitStore } from "../memory";
+import { createRedisRateLimitStore } from "../redis";
+
+const WINDOW_MS = 60_000;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("sliding window", () => {
+  it("allows exactly `limit` requests inside the window", async () => {
+    const store = createMemoryRateLimitStore();
+
+    const decisions = [];
+    for (let i = 0; i < 4; i += 1) {
+      decisions.push(await store.hit("caller", 3, WINDOW_MS, 1000 + i));
+    }
+
+    expect(decisions.map((decision) => decision.allowed)).toEqual([true, true, true, false]);
+    expect(decisions.map((decision) => decision.remaining)).toEqual([2, 1, 0, 0]);
+    expect(decisions[3].resetAt).toBe(1000 + WINDOW_MS);
+  });
+
+  it("frees a slot exactly one window after the oldest request", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit("caller", 1, WINDOW_MS, 0);
+
+    expect((await store.hit("caller", 1, WINDOW_MS, WINDOW_MS - 1)).allowed).toBe(false);
+    expect((await store.hit("caller", 1, WINDOW_MS, WINDOW_MS)).allowed).toBe(true);
+  });
+
+  it("slides instead of resetting at fixed boundaries", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit("caller", 2, WINDOW_MS, 0);
+    await store.hit("caller", 2, WINDOW_MS, 30_000);
+
+    // A fixed window would reset here and allow a burst of two more.
+    const afterFirstExpires = await store.hit("caller", 2, WINDOW_MS, WINDOW_MS);
+    const burst = await store.hit("caller", 2, WINDOW_MS, WINDOW_MS + 1);
+
+    expect(afterFirstExpires.allowed).toBe(true);
+    expect(burst).toMatchObject({ allowed: false, resetAt: 30_000 + WINDOW_MS });
+  });
+
+  it("does not count denied requests", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit("caller", 1, WINDOW_MS, 0);
+    for (let t = 1000; t < WINDOW_MS; t += 1000) {
+      await store.hit("caller", 1, WINDOW_MS, t);
+    }
+
+    expect((await store.hit("caller", 1, WINDOW_MS, WINDOW_MS)).allowed).toBe(true);
+  });
+
+  it("keeps keys independent", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit("a", 1, WINDOW_MS, 0);
+
+    expect((await store.hit("b", 1, WINDOW_MS, 0)).allowed).toBe(true);
+  });
+});
+
+describe("createRedisRateLimitStore", () => {
+  it("runs the window atomically in Redis and maps the script result", async () => {
+    const client = { eval: vi.fn().mockResolvedValue([0, 5, 1000]) };
+    const store = createRedisRateLimitStore(client);
+
+    expect(await store.hit("analyze:caller:ip:1.2.3.4", 5, WINDOW_MS, 2000)).toEqual({
+      allowed: false,
+      limit: 5,
+      remaining: 0,
+      resetAt: 1000 + WINDOW_MS,
+    });
+    expect(client.eval).toHaveBeenCalledWith(
+      expect.stringContaining("ZREMRANGEBYSCORE"),
+      1,
+      "qerun:ratelimit:analyze:caller:ip:1.2.3.4",
+      2000,
+      WINDOW_MS,
+      5,
+      expect.stringMatching(/^2000:/),
+    );
+  });
+});
+
+describe("consumeRateLimit", () => {
+  it("lets requests through when the store is unreachable", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const store: RateLimitStore = { name: "redis", hit: () => Promise.reject(new Error("ECONNREFUSED")) };
+
+    expect(await consumeRateLimit("caller", 1, WINDOW_MS, store)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+});
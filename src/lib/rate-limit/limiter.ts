@@ -0,0 +1,56 @@
+import { createMemoryRateLimitStore } from "@/lib/rate-limit/memory";
+import { createRedisRateLimitStore } from "@/lib/rate-limit/redis";
+import { getRedisClient } from "@/lib/redis";
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** When the oldest counted request leaves the window, in epoch milliseconds. */
+  resetAt: number;
+};
+
+/**
+ * Sliding-window log: a request counts against `key` for exactly `windowMs` after it was made,
+ * so a request made `windowMs` ago no longer counts. Denied requests are not recorded, so
+ * clients that keep retrying are not locked out for longer.
+ */
+export type RateLimitStore = {
+  name: string;
+  hit(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitDecision>;
+};
+
+let memoryStore: RateLimitStore | null = null;
+const redisStores = new WeakMap<object, RateLimitStore>();
+
+/** Redis when `REDIS_URL` is set so limits hold across instances, otherwise process memory. */
+export function getRateLimitStore(): RateLimitStore {
+  const redis = getRedisClient();
+  if (redis) {
+    let store = redisStores.get(redis);
+    if (!store) {
+      store = createRedisRateLimitStore(redis);
+      redisStores.set(redis, store);
+    }
+    return store;
+  }
+
+  memoryStore ??= createMemoryRateLimitStore();
+  return memoryStore;
+}
+
+/** Records a request against `key`; an unreachable store lets the request through. */
+export async function consumeRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number,
+  store: RateLimitStore = getRateLimitStore(),
+): Promise<RateLimitDecision> {
+  const now = Date.now();
+  try {
+    return await store.hit(key, limit, windowMs, now);
+  } catch (error) {
+    console.warn(`[RateLimit] ${store.name} store unavailable`, error instanceof Error ? error.message : error);
+    return { allowed: true, limit, remaining: limit, resetAt: now + windowMs };
+  }
+}
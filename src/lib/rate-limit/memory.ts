@@ -0,0 +1,40 @@
+import type { RateLimitStore } from "@/lib/rate-limit/limiter";
+
+/** Keys tracked before idle ones are swept, so one-off callers do not accumulate forever. */
+const SWEEP_THRESHOLD = 10_000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, { timestamps: number[]; windowMs: number }>();
+
+  const sweep = (now: number) => {
+    hits.forEach((entry, key) => {
+      if (entry.timestamps.every((timestamp) => timestamp <= now - entry.windowMs)) {
+        hits.delete(key);
+      }
+    });
+  };
+
+  return {
+    name: "memory",
+
+    async hit(key, limit, windowMs, now) {
+      if (hits.size > SWEEP_THRESHOLD) {
+        sweep(now);
+      }
+
+      const timestamps = (hits.get(key)?.timestamps ?? []).filter((timestamp) => timestamp > now - windowMs);
+      const allowed = timestamps.length < limit;
+      if (allowed) {
+        timestamps.push(now);
+      }
+      hits.set(key, { timestamps, windowMs });
+
+      return {
+        allowed,
+        limit,
+        remaining: Math.max(0, limit - timestamps.length),
+        resetAt: (timestamps[0] ?? now) + windowMs,
+      };
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { randomUUID } from "crypto";
+import type { RateLimitStore } from "@/lib/rate-limit/limiter";
+
+const KEY_PREFIX = "qerun:ratelimit:";
+
+/**
+ * Prunes requests that left the window, records this one when there is room and reports the
+ * count and the oldest request still inside the window, all in one atomic step.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", key, "-inf", now - window)
+local count = redis.call("ZCARD", key)
+local allowed = 0
+if count < limit then
+  redis.call("ZADD", key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call("PEXPIRE", key, window)
+local oldest = redis.call("ZRANGE", key, 0, 0, "WITHSCORES")
+return { allowed, count, tonumber(oldest[2] or now) }
+`;
+
+/** The subset of the ioredis client the limiter relies on. */
+export type RedisRateLimitClient = {
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+};
+
+export function createRedisRateLimitStore(client: RedisRateLimitClient): RateLimitStore {
+  return {
+    name: "redis",
+
+    async hit(key, limit, windowMs, now) {
+      const [allowed, count, oldest] = (await client.eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        `${KEY_PREFIX}${key}`,
+        now,
+        windowMs,
+        limit,
+        `${now}:${randomUUID()}`,
+      )) as [number, number, number];
+
+      return {
+        allowed: allowed === 1,
+        limit,
+        remaining: Math.max(0, limit - count),
+        resetAt: oldest + windowMs,
+      };
+    },
+  };
+}
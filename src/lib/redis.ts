@@ -0,0 +1,24 @@
+import Redis from "ioredis";
+
+const clients = new Map<string, Redis>();
+
+/**
+ * Shared connection to `REDIS_URL`, or null when Redis is not configured. Commands fail fast
+ * while the server is unreachable so callers can fall back to local behaviour.
+ */
+export function getRedisClient(): Redis | null {
+  const url = process.env.REDIS_URL?.trim();
+  if (!url) {
+    return null;
+  }
+
+  let client = clients.get(url);
+  if (!client) {
+    client = new Redis(url, { maxRetriesPerRequest: 1 });
+    client.on("error", (error: Error) => {
+      console.warn("[Redis] Connection error", error.message);
+    });
+    clients.set(url, client);
+  }
+  return client;
+}
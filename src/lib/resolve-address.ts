@@ -1,4 +1,7 @@
+const DEFAULT_ENS_API_BASE = "https://api.ensideas.com";
 const HEX_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+// Base58 public keys: 32 bytes encode to 32-44 characters and never contain 0, O, I or l.
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
 
 export class AddressResolutionError extends Error {
   constructor(message: string) {
@@ -7,34 +10,51 @@ export class AddressResolutionError extends Error {
   }
 }
 
-async function resolveEnsName(name: string): Promise<string | null> {
-  try {
-    const response = await fetch(
-      `https://api.ensideas.com/ens/resolve/${encodeURIComponent(name)}`,
-      {
-        headers: {
-          Accept: "application/json",
-        },
-        cache: "no-store",
-      },
-    );
-
-    if (!response.ok) {
-      return null;
-    }
+/** The input was an ENS name that did not resolve; `retryable` when the lookup itself failed. */
+export class EnsResolutionError extends AddressResolutionError {
+  readonly ensName: string;
+  readonly retryable: boolean;
 
-    const payload = (await response.json()) as { address?: string | null };
-    const candidate = payload?.address?.trim();
+  constructor(ensName: string, message: string, retryable: boolean) {
+    super(message);
+    this.name = "EnsResolutionError";
+    this.ensName = ensName;
+    this.retryable = retryable;
+  }
+}
 
-    if (candidate && HEX_ADDRESS_REGEX.test(candidate)) {
-      return candidate.toLowerCase();
-    }
+function ensApiBase() {
+  return (process.env.ENS_API_BASE || DEFAULT_ENS_API_BASE).replace(/\/+$/, "");
+}
 
-    return null;
+async function resolveEnsName(name: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(`${ensApiBase()}/ens/resolve/${encodeURIComponent(name)}`, {
+      headers: {
+        Accept: "application/json",
+      },
+      cache: "no-store",
+    });
   } catch (error) {
     console.error("Failed to resolve ENS name", { name, error });
-    return null;
+    throw new EnsResolutionError(name, "ENS lookup is unavailable; try again later", true);
   }
+
+  if (response.status === 429 || response.status >= 500) {
+    throw new EnsResolutionError(name, "ENS lookup is unavailable; try again later", true);
+  }
+
+  const payload = response.ok
+    ? ((await response.json().catch(() => null)) as { address?: string | null } | null)
+    : null;
+  const candidate = payload?.address?.trim();
+
+  if (candidate && HEX_ADDRESS_REGEX.test(candidate)) {
+    return candidate.toLowerCase();
+  }
+
+  throw new EnsResolutionError(name, "Unable to resolve ENS name to a wallet address", false);
 }
 
 export async function resolveAddress(input: string): Promise<string> {
@@ -47,17 +67,22 @@ export async function resolveAddress(input: string): Promise<string> {
     return value.toLowerCase();
   }
 
+  // Base58 is case-sensitive, so Solana addresses are returned untouched.
+  if (SOLANA_ADDRESS_REGEX.test(value)) {
+    return value;
+  }
+
   if (value.endsWith(".eth")) {
-    const resolved = await resolveEnsName(value);
-    if (resolved) {
-      return resolved;
-    }
-    throw new AddressResolutionError("Unable to resolve ENS name to a wallet address");
+    return resolveEnsName(value);
   }
 
-  throw new AddressResolutionError("Address must be a 0x-prefixed hex string or ENS name");
+  throw new AddressResolutionError("Address must be a 0x-prefixed hex string, Solana address or ENS name");
 }
 
 export function isHexAddress(value: string): boolean {
   return HEX_ADDRESS_REGEX.test(value);
 }
+
+export function isSolanaAddress(value: string): boolean {
+  return SOLANA_ADDRESS_REGEX.test(value);
+}
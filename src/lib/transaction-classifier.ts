@@ -0,0 +1,136 @@
+import type { TransactionLeg } from "@/lib/api/schemas";
+
+export const TRANSACTION_TYPES = [
+  "swap",
+  "bridge",
+  "approve",
+  "stake",
+  "unstake",
+  "mint",
+  "airdrop",
+  "contract-call",
+  "transfer",
+] as const;
+
+export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+
+export type { TransactionLeg };
+
+export type ClassificationInput = {
+  /** The wallet whose history is being classified. */
+  address: string;
+  legs: TransactionLeg[];
+  /** Account that sent the transaction. */
+  fromAddress: string | null;
+  /** Account or contract the transaction was sent to. */
+  toAddress: string | null;
+  /** First four bytes of the call data, `0x`-prefixed and lowercase. */
+  methodSelector: string | null;
+};
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+const APPROVE_SELECTORS = new Set([
+  "0x095ea7b3", // approve(address,uint256)
+  "0xa22cb465", // setApprovalForAll(address,bool)
+  "0x39509351", // increaseAllowance(address,uint256)
+  "0xd505accf", // permit(address,address,uint256,uint256,uint8,bytes32,bytes32)
+]);
+
+const STAKE_SELECTORS = new Set([
+  "0xa694fc3a", // stake(uint256)
+  "0xa1903eab", // submit(address) — Lido
+  "0x22895118", // deposit(bytes,bytes,bytes,bytes32) — beacon deposit contract
+]);
+
+const UNSTAKE_SELECTORS = new Set([
+  "0x2e17de78", // unstake(uint256)
+  "0xe9fad8ee", // exit()
+  "0xd6681042", // requestWithdrawals(uint256[],address) — Lido withdrawal queue
+]);
+
+const TRANSFER_SELECTORS = new Set([
+  "0xa9059cbb", // transfer(address,uint256)
+  "0x23b872dd", // transferFrom(address,address,uint256)
+  "0x42842e0e", // safeTransferFrom(address,address,uint256)
+]);
+
+const STAKING_CONTRACTS = new Set([
+  "0x00000000219ab540356cbb839cbe05303d7705fa", // Beacon chain deposit contract
+  "0xae7ab96520de3a18e5e111b5eaab095312d7fe84", // Lido stETH
+  "0x889edc2edab5f40e902b864ad4d7ade8e412f9b1", // Lido withdrawal queue
+]);
+
+const BRIDGE_CONTRACTS = new Set([
+  "0x99c9fc46f92e8a1c0dec1b1747d010903e884be1", // Optimism L1 standard bridge
+  "0x3154cf16ccdb4c6d922629664174b904d80f2c35", // Base L1 standard bridge
+  "0x4200000000000000000000000000000000000010", // OP Stack L2 standard bridge
+  "0x4dbd4fc535ac27206064b68ffcf827b0a60bab3f", // Arbitrum delayed inbox
+  "0x72ce9c846789fdb6fc1f34ac4ad25dd9ef7031ef", // Arbitrum L1 gateway router
+  "0xa0c68c638235ee32657e8f720a23cec1bfc77c77", // Polygon PoS root chain manager
+]);
+
+/**
+ * Labels a transaction from the wallet's point of view using every asset leg, the contract it
+ * was sent to and the method selector. Known contracts and selectors take precedence; the
+ * shape of the legs decides the rest, falling back to `transfer` when nothing stands out.
+ */
+export function classifyTransaction(input: ClassificationInput): TransactionType {
+  const address = input.address.toLowerCase();
+  const target = input.toAddress?.toLowerCase() ?? null;
+  const selector = input.methodSelector?.toLowerCase() ?? null;
+  const incoming = input.legs.filter((leg) => leg.direction === "in");
+  const outgoing = input.legs.filter((leg) => leg.direction === "out");
+  const initiatedByWallet = input.fromAddress?.toLowerCase() === address;
+  const touches = (contracts: Set<string>) =>
+    (target != null && contracts.has(target)) ||
+    input.legs.some((leg) => contracts.has((leg.direction === "in" ? leg.from : leg.to)?.toLowerCase() ?? ""));
+
+  if (selector && APPROVE_SELECTORS.has(selector)) {
+    return "approve";
+  }
+
+  if (touches(BRIDGE_CONTRACTS)) {
+    return "bridge";
+  }
+
+  if (selector && UNSTAKE_SELECTORS.has(selector)) {
+    return "unstake";
+  }
+  if ((selector && STAKE_SELECTORS.has(selector)) || touches(STAKING_CONTRACTS)) {
+    // Receiving from a staking contract without sending anything is a withdrawal.
+    return outgoing.length === 0 && incoming.length > 0 ? "unstake" : "stake";
+  }
+
+  if (incoming.some((leg) => leg.contract != null && leg.from?.toLowerCase() === ZERO_ADDRESS)) {
+    return "mint";
+  }
+
+  if (incoming.length > 0 && outgoing.length > 0 && !sameAssets(incoming, outgoing)) {
+    return "swap";
+  }
+
+  // Tokens pushed by a distributor the wallet never interacted with.
+  if (
+    outgoing.length === 0 &&
+    incoming.length > 0 &&
+    !initiatedByWallet &&
+    incoming.every(
+      (leg) => leg.contract != null && input.fromAddress != null && leg.from?.toLowerCase() !== input.fromAddress.toLowerCase(),
+    )
+  ) {
+    return "airdrop";
+  }
+
+  if (selector && !TRANSFER_SELECTORS.has(selector) && (initiatedByWallet || input.legs.length === 0)) {
+    return "contract-call";
+  }
+
+  return "transfer";
+}
+
+function sameAssets(left: TransactionLeg[], right: TransactionLeg[]) {
+  const assetKey = (leg: TransactionLeg) => (leg.contract ?? leg.symbol ?? "").toLowerCase();
+  const keys = new Set(left.map(assetKey));
+  return right.every((leg) => keys.has(assetKey(leg)));
+}
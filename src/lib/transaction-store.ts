@@ -0,0 +1,342 @@
+import { mkdirSync } from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type { CoinbaseTransactionResource } from "@/lib/providers/coinbase";
+import { fetchWalletTransactions, type Backfill, type ProviderResult } from "@/lib/providers/registry";
+import { isSolanaAddress } from "@/lib/resolve-address";
+
+/**
+ * Persists provider transactions per wallet so repeat lookups only fetch blocks newer than the
+ * last sync. Records are kept in the provider-normalized Coinbase shape and turned into history
+ * entries on read, so classification and ABI decoding improvements apply to stored data too.
+ */
+export type TransactionStore = {
+  /** Highest block synced per network for the wallet. */
+  getSyncState(address: string): Record<string, number>;
+  /** Networks whose history is still being loaded page cap by page cap. */
+  getBackfills(address: string): Record<string, Backfill>;
+  /**
+   * Upserts transactions by network and hash. `syncedNetworks` were loaded completely and advance
+   * their sync state; `backfills` stopped at a page cap and keep it where it was until a later
+   * load reaches the end.
+   */
+  saveTransactions(
+    address: string,
+    items: CoinbaseTransactionResource[],
+    syncedNetworks: string[],
+    backfills?: Record<string, Backfill>,
+  ): void;
+  listTransactions(address: string): CoinbaseTransactionResource[];
+};
+
+export class TransactionStoreConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionStoreConfigurationError";
+  }
+}
+
+const DEFAULT_STORE_PATH = path.join(process.cwd(), "data", "transactions.sqlite");
+const DEFAULT_MAX_MEMORY_WALLETS = 1_000;
+
+const stores = new Map<string, TransactionStore>();
+const inFlightSyncs = new Map<string, Promise<ProviderResult<CoinbaseTransactionResource>>>();
+
+/**
+ * Loads the wallet's transactions through the configured store: networks already synced are only
+ * asked for blocks from their last synced one onwards, networks whose last load stopped at a page
+ * cap resume it, and the full stored history is returned. Concurrent syncs of the same wallet
+ * share one upstream fetch.
+ */
+export function syncWalletTransactions(address: string): Promise<ProviderResult<CoinbaseTransactionResource>> {
+  const store = getTransactionStore();
+  if (!store) {
+    return fetchWalletTransactions(address);
+  }
+
+  const key = `${storeKind()}:${storeKey(address)}`;
+  let sync = inFlightSyncs.get(key);
+  if (!sync) {
+    sync = runSync(store, address).finally(() => inFlightSyncs.delete(key));
+    inFlightSyncs.set(key, sync);
+  }
+  return sync;
+}
+
+/**
+ * Returns the store selected by `TRANSACTION_STORE` (`sqlite` by default, `memory`, or `off`).
+ * SQLite databases live at `TRANSACTION_STORE_PATH`, defaulting to `data/transactions.sqlite`.
+ * When the database cannot be opened, e.g. on a read-only filesystem, an in-memory store is used
+ * instead; the file is not retried until the process restarts.
+ */
+export function getTransactionStore(): TransactionStore | null {
+  const kind = storeKind();
+  if (kind === "off") {
+    return null;
+  }
+
+  const target = kind === "memory" ? ":memory:" : process.env.TRANSACTION_STORE_PATH || DEFAULT_STORE_PATH;
+  const cacheKey = `${kind}:${target}`;
+  let store = stores.get(cacheKey);
+  if (!store) {
+    try {
+      store = kind === "memory" ? createMemoryTransactionStore() : createSqliteTransactionStore(target);
+    } catch (error) {
+      console.warn(`[TransactionStore] Unable to open ${target}; keeping transactions in memory`, error);
+      store = createMemoryTransactionStore();
+    }
+    stores.set(cacheKey, store);
+  }
+  return store;
+}
+
+export function createSqliteTransactionStore(filename: string): TransactionStore {
+  if (filename !== ":memory:") {
+    mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS transactions (
+      address TEXT NOT NULL,
+      network_id TEXT NOT NULL,
+      hash TEXT NOT NULL,
+      block_height INTEGER,
+      block_timestamp TEXT,
+      payload TEXT NOT NULL,
+      PRIMARY KEY (address, network_id, hash)
+    );
+    CREATE INDEX IF NOT EXISTS transactions_by_time ON transactions (address, block_timestamp DESC);
+    CREATE TABLE IF NOT EXISTS sync_state (
+      address TEXT NOT NULL,
+      network_id TEXT NOT NULL,
+      last_block INTEGER,
+      synced_at TEXT NOT NULL,
+      PRIMARY KEY (address, network_id)
+    );
+    CREATE TABLE IF NOT EXISTS backfill_state (
+      address TEXT NOT NULL,
+      network_id TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      cursor TEXT,
+      head_block INTEGER,
+      PRIMARY KEY (address, network_id)
+    );
+  `);
+
+  const selectSyncState = db.prepare<[string], { network_id: string; last_block: number | null }>(
+    "SELECT network_id, last_block FROM sync_state WHERE address = ?",
+  );
+  const upsertTransaction = db.prepare(`
+    INSERT INTO transactions (address, network_id, hash, block_height, block_timestamp, payload)
+    VALUES (@address, @networkId, @hash, @blockHeight, @blockTimestamp, @payload)
+    ON CONFLICT (address, network_id, hash) DO UPDATE SET
+      block_height = excluded.block_height,
+      block_timestamp = excluded.block_timestamp,
+      payload = excluded.payload
+  `);
+  const upsertSyncState = db.prepare(`
+    INSERT INTO sync_state (address, network_id, last_block, synced_at)
+    VALUES (@address, @networkId, @lastBlock, @syncedAt)
+    ON CONFLICT (address, network_id) DO UPDATE SET
+      last_block = MAX(COALESCE(sync_state.last_block, 0), COALESCE(excluded.last_block, 0)),
+      synced_at = excluded.synced_at
+  `);
+  const selectBackfills = db.prepare<[string], { network_id: string; provider: string; cursor: string | null }>(
+    "SELECT network_id, provider, cursor FROM backfill_state WHERE address = ?",
+  );
+  const selectHeadBlock = db.prepare<[string, string], { head_block: number | null }>(
+    "SELECT head_block FROM backfill_state WHERE address = ? AND network_id = ?",
+  );
+  // The head is the newest block seen since the backfill started; it becomes the sync state once
+  // the backfill reaches the end.
+  const upsertBackfill = db.prepare(`
+    INSERT INTO backfill_state (address, network_id, provider, cursor, head_block)
+    VALUES (@address, @networkId, @provider, @cursor, @headBlock)
+    ON CONFLICT (address, network_id) DO UPDATE SET
+      provider = excluded.provider,
+      cursor = excluded.cursor,
+      head_block = MAX(COALESCE(backfill_state.head_block, 0), COALESCE(excluded.head_block, 0))
+  `);
+  const deleteBackfill = db.prepare("DELETE FROM backfill_state WHERE address = ? AND network_id = ?");
+  const selectTransactions = db.prepare<[string], { payload: string }>(
+    "SELECT payload FROM transactions WHERE address = ? ORDER BY block_timestamp DESC",
+  );
+
+  const save = db.transaction(
+    (
+      address: string,
+      items: CoinbaseTransactionResource[],
+      syncedNetworks: string[],
+      backfills: Record<string, Backfill>,
+    ) => {
+      hashedItems(items).forEach((item) => {
+        upsertTransaction.run({
+          address,
+          networkId: item.network_id ?? "",
+          hash: item.hash,
+          blockHeight: item.block_height ?? null,
+          blockTimestamp: item.block_timestamp ?? null,
+          payload: JSON.stringify(item),
+        });
+      });
+
+      const syncedAt = new Date().toISOString();
+      syncedNetworks.forEach((networkId) => {
+        const headBlock = selectHeadBlock.get(address, networkId)?.head_block ?? 0;
+        const lastBlock = Math.max(highestBlock(items, networkId) ?? 0, headBlock);
+        upsertSyncState.run({ address, networkId, lastBlock, syncedAt });
+        deleteBackfill.run(address, networkId);
+      });
+      Object.entries(backfills).forEach(([networkId, { provider, cursor }]) => {
+        upsertBackfill.run({ address, networkId, provider, cursor, headBlock: highestBlock(items, networkId) });
+      });
+    },
+  );
+
+  return {
+    getSyncState(address) {
+      return Object.fromEntries(
+        selectSyncState
+          .all(storeKey(address))
+          .filter((row) => row.last_block != null && row.last_block > 0)
+          .map((row) => [row.network_id, row.last_block as number]),
+      );
+    },
+    getBackfills(address) {
+      return Object.fromEntries(
+        selectBackfills
+          .all(storeKey(address))
+          .map((row) => [row.network_id, { provider: row.provider, cursor: row.cursor }]),
+      );
+    },
+    saveTransactions(address, items, syncedNetworks, backfills = {}) {
+      save(storeKey(address), items, syncedNetworks, backfills);
+    },
+    listTransactions(address) {
+      return selectTransactions
+        .all(storeKey(address))
+        .map((row) => JSON.parse(row.payload) as CoinbaseTransactionResource);
+    },
+  };
+}
+
+type MemoryWallet = {
+  transactions: Map<string, CoinbaseTransactionResource>;
+  syncState: Record<string, number>;
+  backfills: Record<string, Backfill & { headBlock: number }>;
+};
+
+/**
+ * Keeps everything in process memory; useful for serverless deployments without a writable disk.
+ * Holds at most `maxWallets` wallets (`TRANSACTION_STORE_MAX_WALLETS`, 1000 by default) and drops
+ * the least recently used one beyond that, so its next lookup fetches the full history again.
+ */
+export function createMemoryTransactionStore(maxWallets = readMaxMemoryWallets()): TransactionStore {
+  const wallets = new Map<string, MemoryWallet>();
+
+  // Map iteration follows insertion order, so re-inserting on access keeps the oldest wallet first.
+  const touch = (address: string) => {
+    const key = storeKey(address);
+    const wallet = wallets.get(key);
+    if (wallet) {
+      wallets.delete(key);
+      wallets.set(key, wallet);
+    }
+    return wallet;
+  };
+
+  return {
+    getSyncState(address) {
+      return { ...touch(address)?.syncState };
+    },
+    getBackfills(address) {
+      return Object.fromEntries(
+        Object.entries(touch(address)?.backfills ?? {}).map(([networkId, { provider, cursor }]) => [
+          networkId,
+          { provider, cursor },
+        ]),
+      );
+    },
+    saveTransactions(address, items, syncedNetworks, backfills = {}) {
+      const key = storeKey(address);
+      const wallet: MemoryWallet = touch(address) ?? { transactions: new Map(), syncState: {}, backfills: {} };
+      hashedItems(items).forEach((item) => wallet.transactions.set(`${item.network_id ?? ""}:${item.hash}`, item));
+      wallets.set(key, wallet);
+      while (wallets.size > maxWallets) {
+        wallets.delete(wallets.keys().next().value as string);
+      }
+
+      const { syncState: state, backfills: pending } = wallet;
+      syncedNetworks.forEach((networkId) => {
+        const lastBlock = Math.max(
+          state[networkId] ?? 0,
+          highestBlock(items, networkId) ?? 0,
+          pending[networkId]?.headBlock ?? 0,
+        );
+        if (lastBlock > 0) {
+          state[networkId] = lastBlock;
+        }
+        delete pending[networkId];
+      });
+      Object.entries(backfills).forEach(([networkId, { provider, cursor }]) => {
+        const headBlock = Math.max(pending[networkId]?.headBlock ?? 0, highestBlock(items, networkId) ?? 0);
+        pending[networkId] = { provider, cursor, headBlock };
+      });
+    },
+    listTransactions(address) {
+      return Array.from(touch(address)?.transactions.values() ?? []);
+    },
+  };
+}
+
+async function runSync(store: TransactionStore, address: string) {
+  // Re-fetch the last synced block itself: it may have gained transactions after the previous sync.
+  const result = await fetchWalletTransactions(address, store.getSyncState(address), store.getBackfills(address));
+  // A network cut off at a page cap is still missing older records, so it is not synced yet.
+  const incomplete = result.incomplete ?? {};
+  const syncedNetworks = Object.keys(result.providers).filter((networkId) => !(networkId in incomplete));
+  try {
+    store.saveTransactions(address, result.items, syncedNetworks, incomplete);
+  } catch (error) {
+    // A database that opened but cannot be written to still leaves the fresh records usable.
+    console.warn("[TransactionStore] Unable to save transactions", error);
+    return result;
+  }
+  return { ...result, items: store.listTransactions(address) };
+}
+
+function storeKind() {
+  const kind = process.env.TRANSACTION_STORE?.trim().toLowerCase() || "sqlite";
+  if (kind !== "sqlite" && kind !== "memory" && kind !== "off") {
+    throw new TransactionStoreConfigurationError(
+      `Unknown TRANSACTION_STORE "${kind}"; expected sqlite, memory or off`,
+    );
+  }
+  return kind;
+}
+
+function readMaxMemoryWallets() {
+  const parsed = Number.parseInt(process.env.TRANSACTION_STORE_MAX_WALLETS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_MEMORY_WALLETS;
+}
+
+/** Records are keyed by their hash, so one a provider returned without it cannot be stored. */
+function hashedItems(items: CoinbaseTransactionResource[]) {
+  return items.filter((item) => typeof item.hash === "string" && item.hash !== "");
+}
+
+/** EVM addresses are case-insensitive; base58 Solana addresses are not. */
+function storeKey(address: string) {
+  return isSolanaAddress(address) ? address : address.toLowerCase();
+}
+
+function highestBlock(items: CoinbaseTransactionResource[], networkId: string) {
+  return items.reduce<number | null>((highest, item) => {
+    if (item.network_id !== networkId || item.block_height == null) {
+      return highest;
+    }
+    return highest == null ? item.block_height : Math.max(highest, item.block_height);
+  }, null);
+}
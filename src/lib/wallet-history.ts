@@ -1,21 +1,12 @@
-import {
-  CoinbaseConfigurationError,
-  fetchCoinbaseTransactions,
-  type CoinbaseTransactionResource,
-} from "@/lib/providers/coinbase";
-
-export type WalletTransaction = {
-  hash: string;
-  timestamp: string;
-  direction: "in" | "out" | "internal";
-  valueUsd: number | null;
-  amount: number | null;
-  symbol?: string | null;
-  counterparty?: string | null;
-  chain: string;
-  gasFeeUsd: number | null;
-  explorerUrl?: string;
-};
+import { loadAbiRegistry, type AbiRegistry } from "@/lib/abi/registry";
+import { normalizeChain } from "@/lib/chains";
+import type { CoinbaseTransactionResource } from "@/lib/providers/coinbase";
+import { ProviderConfigurationError } from "@/lib/providers/types";
+import { classifyTransaction, type TransactionLeg } from "@/lib/transaction-classifier";
+import { syncWalletTransactions } from "@/lib/transaction-store";
+import type { WalletFlowSummary, WalletTransaction } from "@/lib/api/schemas";
+
+export type { WalletFlowSummary, WalletTransaction };
 
 const DEFAULT_EXPLORER = "https://etherscan.io/tx/";
 
@@ -42,6 +33,7 @@ const CHAIN_METADATA: Record<string, { explorer: string; symbol: string }> = {
   cronos: { explorer: "https://cronoscan.com/tx/", symbol: "CRO" },
   gnosis: { explorer: "https://gnosisscan.io/tx/", symbol: "XDAI" },
   harmony: { explorer: "https://explorer.harmony.one/tx/", symbol: "ONE" },
+  solana: { explorer: "https://solscan.io/tx/", symbol: "SOL" },
 };
 
 const CHAIN_DECIMALS: Record<string, number> = {
@@ -67,115 +59,171 @@ const CHAIN_DECIMALS: Record<string, number> = {
   cronos: 18,
   gnosis: 18,
   harmony: 18,
+  solana: 9,
+};
+
+export type WalletHistoryFilters = {
+  from?: Date | null;
+  to?: Date | null;
+  /** Chain slug, alias or chain ID; matched after normalization. */
+  chain?: string | null;
+  direction?: WalletTransaction["direction"] | null;
+  /** Matches the primary symbol or any leg, case-insensitively. */
+  symbol?: string | null;
+  minValueUsd?: number | null;
 };
 
-const CHAIN_ALIAS_MAP: Record<string, string> = {
-  eth: "eth",
-  ethereum: "eth",
-  "1": "eth",
-  "eip155:1": "eth",
-  "ethereum-mainnet": "eth",
-  base: "base",
-  "base-sepolia": "base-sepolia",
-  "8453": "base",
-  "eip155:8453": "base",
-  "base-mainnet": "base",
-  polygon: "polygon",
-  "137": "polygon",
-  "eip155:137": "polygon",
-  "polygon-mainnet": "polygon",
-  arbitrum: "arbitrum",
-  "42161": "arbitrum",
-  "eip155:42161": "arbitrum",
-  "arbitrum-one": "arbitrum",
-  "arbitrum-mainnet": "arbitrum",
-  optimism: "optimism",
-  "10": "optimism",
-  "eip155:10": "optimism",
-  "optimism-mainnet": "optimism",
-  bsc: "bsc",
-  "56": "bsc",
-  "eip155:56": "bsc",
-  "bnb-mainnet": "bsc",
-  avalanche: "avalanche",
-  "43114": "avalanche",
-  "eip155:43114": "avalanche",
-  "avalanche-mainnet": "avalanche",
-  fantom: "fantom",
-  "250": "fantom",
-  "eip155:250": "fantom",
-  "fantom-mainnet": "fantom",
-  zksync: "zksync",
-  "324": "zksync",
-  "eip155:324": "zksync",
-  "zksync-era": "zksync",
-  linea: "linea",
-  "1101": "linea",
-  "eip155:1101": "linea",
-  "linea-mainnet": "linea",
-  scroll: "scroll",
-  "534352": "scroll",
-  "eip155:534352": "scroll",
-  "scroll-mainnet": "scroll",
-  metis: "metis",
-  "1088": "metis",
-  "eip155:1088": "metis",
-  "metis-andromeda": "metis",
-  klaytn: "klaytn",
-  "8217": "klaytn",
-  "eip155:8217": "klaytn",
-  celo: "celo",
-  "42220": "celo",
-  "eip155:42220": "celo",
-  "celo-mainnet": "celo",
-  moonbeam: "moonbeam",
-  "1284": "moonbeam",
-  "eip155:1284": "moonbeam",
-  moonriver: "moonriver",
-  "1285": "moonriver",
-  "eip155:1285": "moonriver",
-  aurora: "aurora",
-  "1313161554": "aurora",
-  "eip155:1313161554": "aurora",
-  cronos: "cronos",
-  "25": "cronos",
-  "eip155:25": "cronos",
-  gnosis: "gnosis",
-  xdai: "gnosis",
-  "100": "gnosis",
-  "eip155:100": "gnosis",
-  harmony: "harmony",
-  "1666600000": "harmony",
-  "eip155:1666600000": "harmony",
+export type WalletHistoryOptions = {
+  /** Maximum number of transactions returned, newest first. Defaults to 100. */
+  limit?: number;
+  /** `nextCursor` of the previous page; omit to start from the newest transaction. */
+  cursor?: string | null;
+  filters?: WalletHistoryFilters;
+  /** Other wallets of the same owner; transfers to or from them are classified as internal. */
+  ownedAddresses?: string[];
 };
 
-export async function getWalletHistory(address: string) {
+export class InvalidHistoryCursorError extends Error {
+  constructor() {
+    super("cursor is invalid or has expired");
+    this.name = "InvalidHistoryCursorError";
+  }
+}
+
+/** Position of a transaction in the newest-first ordering, encoded into opaque cursors. */
+type HistoryPosition = [timestamp: number, chain: string, hash: string];
+
+export async function getWalletHistory(address: string, options: WalletHistoryOptions = {}) {
   const normalizedAddress = address.toLowerCase();
+  // Keyed by lowercase for matching, keeping the original spelling since base58 is case-sensitive.
+  const ownedAddresses = new Map((options.ownedAddresses ?? []).map((owned) => [owned.toLowerCase(), owned]));
+  ownedAddresses.delete(normalizedAddress);
+  const after = options.cursor ? decodeCursor(options.cursor) : null;
+  const limit = options.limit ?? 100;
 
   try {
-    const coinbaseItems = await fetchCoinbaseTransactions(address);
+    const [{ items, source, providers, degradedNetworks, networks }, abiRegistry] = await Promise.all([
+      syncWalletTransactions(address),
+      loadAbiRegistry(),
+    ]);
 
-    const history = coinbaseItems
-      .map((item) => normalizeTransaction(item, normalizedAddress))
+    const filtered = items
+      .map((item) => normalizeTransaction(item, address, ownedAddresses, abiRegistry))
       .filter((tx): tx is WalletTransaction => tx !== null)
-      .sort((a, b) => (a.timestamp > b.timestamp ? -1 : 1))
-      .slice(0, 100);
+      .filter(createHistoryFilter(options.filters ?? {}))
+      .sort((a, b) => comparePositions(historyPosition(a), historyPosition(b)));
+    const matching = filtered.filter((tx) => !after || comparePositions(historyPosition(tx), after) > 0);
+
+    const history = matching.slice(0, limit);
+    const nextCursor = matching.length > limit ? encodeCursor(historyPosition(history[history.length - 1])) : null;
 
     return {
       history,
-      source: "coinbase",
-      isFallback: history.length === 0,
+      nextCursor,
+      // Covers every transaction matching the filters, not just this page.
+      summary: summarizeFlows(filtered),
+      source,
+      isFallback: history.length === 0 && !after,
+      providers,
+      degradedNetworks,
+      networks,
     };
   } catch (error) {
     console.error("Failed to fetch wallet history", error);
-    if (error instanceof CoinbaseConfigurationError) {
-      throw new Error("Coinbase API credentials are missing or invalid");
+    if (error instanceof ProviderConfigurationError) {
+      throw new ProviderConfigurationError(error.provider, `${error.provider} API credentials are missing or invalid`);
     }
 
     throw error instanceof Error ? error : new Error("Failed to fetch wallet history");
   }
 }
 
+function createHistoryFilter(filters: WalletHistoryFilters) {
+  const from = filters.from?.getTime() ?? Number.NEGATIVE_INFINITY;
+  const to = filters.to?.getTime() ?? Number.POSITIVE_INFINITY;
+  const chain = filters.chain ? normalizeChain(filters.chain) : null;
+  const symbol = filters.symbol ? filters.symbol.toUpperCase() : null;
+
+  return (tx: WalletTransaction) => {
+    const time = Date.parse(tx.timestamp);
+    if (time < from || time > to) {
+      return false;
+    }
+    if (chain && tx.chain !== chain) {
+      return false;
+    }
+    if (filters.direction && tx.direction !== filters.direction) {
+      return false;
+    }
+    if (symbol && tx.symbol?.toUpperCase() !== symbol && !tx.legs.some((leg) => leg.symbol?.toUpperCase() === symbol)) {
+      return false;
+    }
+    if (filters.minValueUsd != null && (tx.valueUsd ?? 0) < filters.minValueUsd) {
+      return false;
+    }
+    return true;
+  };
+}
+
+function historyPosition(tx: WalletTransaction): HistoryPosition {
+  const time = Date.parse(tx.timestamp);
+  return [Number.isNaN(time) ? 0 : time, tx.chain, tx.hash];
+}
+
+/** Newest first; ties are broken by chain and hash so pages never overlap or skip. */
+function comparePositions(a: HistoryPosition, b: HistoryPosition) {
+  if (a[0] !== b[0]) {
+    return b[0] - a[0];
+  }
+  const chain = a[1].localeCompare(b[1]);
+  return chain !== 0 ? chain : a[2].localeCompare(b[2]);
+}
+
+function encodeCursor(position: HistoryPosition) {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): HistoryPosition {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as unknown;
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 3 &&
+      typeof parsed[0] === "number" &&
+      typeof parsed[1] === "string" &&
+      typeof parsed[2] === "string"
+    ) {
+      return parsed as HistoryPosition;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new InvalidHistoryCursorError();
+}
+
+/** Symbol of the asset gas is paid in on a normalized history chain. */
+export function nativeSymbolForChain(chain: string) {
+  return CHAIN_METADATA[chain]?.symbol ?? chain.toUpperCase();
+}
+
+/** Totals USD moved in and out of the wallet, leaving transfers between owned wallets aside. */
+export function summarizeFlows(history: WalletTransaction[]): WalletFlowSummary {
+  return history.reduce<WalletFlowSummary>(
+    (acc, tx) => {
+      const value = tx.valueUsd ?? 0;
+      if (tx.internalTransfer) {
+        acc.internalTransferUsd += value;
+      } else if (tx.direction === "in") {
+        acc.inflowUsd += value;
+      } else if (tx.direction === "out") {
+        acc.outflowUsd += value;
+      }
+      return acc;
+    },
+    { inflowUsd: 0, outflowUsd: 0, internalTransferUsd: 0 },
+  );
+}
+
 type CoinbaseTransactionContent = {
   block_timestamp?: string;
   hash?: string;
@@ -185,15 +233,18 @@ type CoinbaseTransactionContent = {
   native_value?: CoinbaseValueLike | null;
   token_transfers?: CoinbaseTokenTransfer[] | null;
   network_id?: string | number | null;
+  input?: string | null;
 };
 
 type CoinbaseTokenTransfer = {
   from?: string | null;
   to?: string | null;
   amount?: string | number | null;
+  value?: string | number | null;
   amount_usd?: string | number | null;
   symbol?: string | null;
   decimals?: number | null;
+  contract_address?: string | null;
 };
 
 type CoinbaseValueLike = {
@@ -209,8 +260,11 @@ type CoinbaseValueLike = {
 
 function normalizeTransaction(
   item: CoinbaseTransactionResource,
-  normalizedAddress: string,
+  address: string,
+  ownedAddresses: Map<string, string>,
+  abiRegistry: AbiRegistry,
 ): WalletTransaction | null {
+  const normalizedAddress = address.toLowerCase();
   const content = extractContent(item);
   const chain = normalizeChain(content?.network_id ?? item.network_id ?? null);
   const chainMeta = CHAIN_METADATA[chain] ?? { explorer: DEFAULT_EXPLORER, symbol: chain.toUpperCase() };
@@ -223,17 +277,35 @@ function normalizeTransaction(
   const timestamp = content?.block_timestamp ?? item.block_timestamp ?? new Date().toISOString();
   const fromAddress = extractAddress(item, content, "from");
   const toAddress = extractAddress(item, content, "to");
-  const direction = determineDirection(normalizedAddress, fromAddress, toAddress);
-
-  const transfer = selectPrimaryTransfer(content, normalizedAddress, direction);
+  const transferDirection = determineDirection(normalizedAddress, fromAddress, toAddress);
+
+  const transfer = selectPrimaryTransfer(content, normalizedAddress, transferDirection);
+  const internalTransfer = detectInternalTransfer({
+    direction: transferDirection,
+    address,
+    ownedAddresses,
+    fromAddress: transfer?.from ?? fromAddress,
+    toAddress: transfer?.to ?? toAddress,
+  });
+  const direction = internalTransfer ? "internal" : transferDirection;
   const symbol = normalizeSymbol(transfer?.symbol) ?? chainMeta.symbol;
+  const legs = extractLegs(item, content, normalizedAddress, chain, chainMeta.symbol);
+  const input = extractInput(item, content);
+  const method = abiRegistry.decodeCall(input);
+  const type = classifyTransaction({
+    address,
+    legs,
+    fromAddress,
+    toAddress,
+    methodSelector: input ? input.slice(0, 10).toLowerCase() : null,
+  });
 
   const valueUsd = extractUsdValue(item, content, transfer);
   const amount = resolveAmount(item, content, chain, transfer);
   const gasFeeUsd = extractFeeUsd(item, content);
 
   const counterparty = determineCounterparty({
-    direction,
+    direction: transferDirection,
     normalizedAddress,
     fromAddress,
     toAddress,
@@ -246,6 +318,8 @@ function normalizeTransaction(
     hash,
     timestamp,
     direction,
+    type,
+    legs,
     valueUsd,
     amount,
     symbol,
@@ -255,9 +329,103 @@ function normalizeTransaction(
     explorerUrl: item.transaction_link
       ? item.transaction_link
       : `${chainMeta.explorer}${hash}`,
+    ...(method ? { method } : {}),
+    ...(internalTransfer ? { internalTransfer } : {}),
   };
 }
 
+function detectInternalTransfer(params: {
+  direction: WalletTransaction["direction"];
+  address: string;
+  ownedAddresses: Map<string, string>;
+  fromAddress: string | null | undefined;
+  toAddress: string | null | undefined;
+}): WalletTransaction["internalTransfer"] | undefined {
+  const { direction, address, ownedAddresses, fromAddress, toAddress } = params;
+  if (ownedAddresses.size === 0 || direction === "internal") {
+    return undefined;
+  }
+
+  const otherSide = ownedAddresses.get(safeLowerCase(direction === "in" ? fromAddress : toAddress) ?? "");
+  if (!otherSide) {
+    return undefined;
+  }
+
+  return direction === "in" ? { from: otherSide, to: address } : { from: address, to: otherSide };
+}
+
+/** Collects the native value and every token transfer that touches the wallet. */
+function extractLegs(
+  item: CoinbaseTransactionResource,
+  content: CoinbaseTransactionContent | null,
+  normalizedAddress: string,
+  chain: string,
+  nativeSymbol: string,
+): TransactionLeg[] {
+  const legs: TransactionLeg[] = [];
+
+  const nativeValue = (item.value ?? item.native_value ?? content?.value ?? content?.native_value) as
+    | CoinbaseValueLike
+    | null
+    | undefined;
+  const nativeAmount = parseAmountFromValue(nativeValue, CHAIN_DECIMALS[chain]);
+  const from = (item.from?.address ?? content?.from ?? null) || null;
+  const to = (item.to?.address ?? content?.to ?? null) || null;
+  const nativeDirection = determineDirection(normalizedAddress, from, to);
+  if (nativeAmount != null && nativeAmount > 0 && nativeDirection !== "internal") {
+    legs.push({
+      direction: nativeDirection,
+      symbol: normalizeSymbol(typeof nativeValue?.symbol === "string" ? nativeValue.symbol : null) ?? nativeSymbol,
+      amount: nativeAmount,
+      valueUsd: parseUsdFromValue(nativeValue),
+      contract: null,
+      from,
+      to,
+    });
+  }
+
+  const transfers = Array.isArray(content?.token_transfers) ? content!.token_transfers : [];
+  transfers.forEach((transfer) => {
+    if (!transfer || typeof transfer !== "object") {
+      return;
+    }
+    const direction = determineDirection(normalizedAddress, transfer.from ?? null, transfer.to ?? null);
+    if (direction === "internal") {
+      return;
+    }
+    legs.push({
+      direction,
+      symbol: normalizeSymbol(transfer.symbol),
+      amount: parseScalarAmount(
+        transfer.amount ?? transfer.value,
+        resolveDecimalsHint(toNumber(transfer.decimals), chain),
+      ),
+      valueUsd: toNumber(transfer.amount_usd) ?? parseUsdFromValue(transfer as CoinbaseValueLike),
+      contract: transfer.contract_address ?? null,
+      from: transfer.from ?? null,
+      to: transfer.to ?? null,
+    });
+  });
+
+  return legs;
+}
+
+/** Call data of the transaction, when it carries at least a method selector. */
+function extractInput(
+  item: CoinbaseTransactionResource,
+  content: CoinbaseTransactionContent | null,
+): string | null {
+  const metadataInput =
+    item.metadata && typeof item.metadata === "object"
+      ? (item.metadata as { input?: unknown }).input
+      : undefined;
+  const input = content?.input ?? metadataInput;
+  if (typeof input !== "string" || !/^0x[0-9a-fA-F]{8}/.test(input)) {
+    return null;
+  }
+  return input;
+}
+
 function extractContent(item: CoinbaseTransactionResource): CoinbaseTransactionContent | null {
   const raw = (item as { content?: unknown }).content;
   if (raw && typeof raw === "object") {
@@ -627,15 +795,6 @@ function parseScalarAmount(raw: unknown, decimals?: number | null): number | nul
   return null;
 }
 
-function normalizeChain(networkId: string | number | null | undefined): string {
-  if (networkId == null) {
-    return "eth";
-  }
-
-  const key = String(networkId).toLowerCase();
-  return CHAIN_ALIAS_MAP[key] ?? key;
-}
-
 function normalizeSymbol(value: string | null | undefined): string | null {
   if (typeof value !== "string") {
     return null;
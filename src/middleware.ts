@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordApiKeyUsage, verifyApiKey, type ApiKey, type ApiKeyScope } from "@/lib/api-keys";
+import { API_KEY_ID_HEADER, API_KEY_TIER_HEADER, readPresentedApiKey } from "@/app/api/_utils/api-auth";
+import { apiProblem, errorResponse, unversionedPath } from "@/app/api/_utils/errors";
+
+export const config = {
+  matcher: "/api/:path*",
+  // The key store is SQLite, which needs Node.js APIs.
+  runtime: "nodejs",
+};
+
+/**
+ * Scope a key needs per route prefix; routes not listed only need a valid key. Versioned paths
+ * are matched without their `/api/v1` segment.
+ */
+const ROUTE_SCOPES: Array<[prefix: string, scope: ApiKeyScope]> = [
+  ["/api/analyze", "analyze"],
+  ["/api/networth", "analyze"],
+  ["/api/portfolio", "analyze"],
+  ["/api/history", "history"],
+  ["/api/export", "export"],
+];
+
+/** Key administration authenticates with `API_ADMIN_TOKEN` instead. */
+const ADMIN_PREFIX = "/api/keys";
+
+/** Served to anyone, so clients can be generated before a key is issued. */
+const PUBLIC_PATHS = new Set(["/api/openapi.json"]);
+
+/**
+ * Verifies API keys on every `/api` request and counts usage per key and day. `API_AUTH`
+ * decides what happens without a key: `optional` (default) serves it as an anonymous caller,
+ * so the bundled dashboard keeps working, `required` rejects it, and `off` skips verification
+ * altogether. A key store that cannot be read fails closed with a 503.
+ */
+export function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers);
+  headers.delete(API_KEY_ID_HEADER);
+  headers.delete(API_KEY_TIER_HEADER);
+  const next = () => NextResponse.next({ request: { headers } });
+
+  const pathname = unversionedPath(request.nextUrl.pathname);
+  const mode = process.env.API_AUTH?.trim().toLowerCase() || "optional";
+  if (
+    mode === "off" ||
+    PUBLIC_PATHS.has(pathname) ||
+    pathname === ADMIN_PREFIX ||
+    pathname.startsWith(`${ADMIN_PREFIX}/`)
+  ) {
+    return next();
+  }
+
+  const presented = readPresentedApiKey(request);
+  if (!presented) {
+    return mode === "required" ? errorResponse(request, apiProblem("unauthorized", "API key is required")) : next();
+  }
+
+  let apiKey: ApiKey | null = null;
+  try {
+    apiKey = verifyApiKey(presented);
+  } catch (error) {
+    return keyStoreUnavailable(request, error);
+  }
+  if (!apiKey) {
+    return errorResponse(request, apiProblem("unauthorized", "API key is invalid or revoked"));
+  }
+
+  const scope = ROUTE_SCOPES.find(
+    ([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+  )?.[1];
+  if (scope && !apiKey.scopes.includes(scope)) {
+    return errorResponse(request, apiProblem("forbidden", `API key lacks the ${scope} scope`, { scope }));
+  }
+
+  try {
+    recordApiKeyUsage(apiKey.id);
+  } catch (error) {
+    return keyStoreUnavailable(request, error);
+  }
+  headers.set(API_KEY_ID_HEADER, apiKey.id);
+  if (apiKey.tier) {
+    headers.set(API_KEY_TIER_HEADER, apiKey.tier);
+  }
+  return next();
+}
+
+function keyStoreUnavailable(request: NextRequest, error: unknown) {
+  console.error("[Auth] API key store unavailable", error);
+  const problem = apiProblem("internal_error", "API key store is unavailable");
+  return errorResponse(request, { ...problem, status: 503, retryable: true });
+}
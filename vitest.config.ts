@@ -7,6 +7,8 @@ export default defineConfig({
     globals: true,
     setupFiles: "./vitest.setup.tsx",
     css: false,
+    // Suites opt into the persistent transaction store explicitly so runs never share a database.
+    env: { TRANSACTION_STORE: "off" },
     snapshotFormat: {
       escapeString: true,
       printBasicPrototype: true,
@@ -53,3 +53,14 @@ vi.mock("next/navigation", () => ({
   }),
   usePathname: () => "/",
 }));
+
+// recharts' ResponsiveContainer observes its parent, which jsdom does not implement.
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+if (typeof globalThis.ResizeObserver === "undefined") {
+  globalThis.ResizeObserver = ResizeObserverStub as unknown as typeof ResizeObserver;
+}